@@ -0,0 +1,64 @@
+import dotenv from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import Anthropic from '@anthropic-ai/sdk';
+import winston from 'winston';
+import { redactPIIDeep } from './services/piiRedaction';
+import { LOG_PII_TYPES } from './services/piiDetectors';
+
+// Shared clients, re-exported by server.ts. They live in their own module because
+// imports are hoisted: route and service modules that use them while loading
+// (singletons, router setup) run before the body of server.ts does.
+
+// Load environment variables
+dotenv.config();
+
+// Queries, customer records and model output all end up in log metadata, so every
+// record is redacted before any transport sees it, with the detectors that don't
+// mistake ordinary text for personal data
+const redactPIIFormat = winston.format(info => {
+  for (const key of Object.keys(info)) {
+    if (key !== 'level') {
+      info[key] = redactPIIDeep(info[key], LOG_PII_TYPES, 'log');
+    }
+  }
+  return info;
+});
+
+// Initialize logger
+export const logger = winston.createLogger({
+  level: process.env.LOG_LEVEL || 'info',
+  format: winston.format.combine(
+    winston.format.errors({ stack: true }),
+    redactPIIFormat(),
+    winston.format.timestamp(),
+    winston.format.json()
+  ),
+  defaultMeta: { service: 'genai-crm-api' },
+  transports: [
+    new winston.transports.Console({
+      format: winston.format.combine(
+        winston.format.colorize(),
+        winston.format.simple()
+      )
+    })
+  ]
+});
+
+// Initialize Supabase client
+export const supabase = createClient(
+  process.env.SUPABASE_URL!,
+  process.env.SUPABASE_ANON_KEY!
+);
+
+// Service-role client, only for the database functions that erase and purge data or
+// read usage across organizations. They bypass row level security, so they are not
+// executable with the anon key the dashboard ships.
+export const supabaseAdmin = createClient(
+  process.env.SUPABASE_URL!,
+  (process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY)!
+);
+
+// Initialize Anthropic client
+export const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY!
+});
@@ -0,0 +1,11 @@
+// Numeric settings from the environment; unset or unparsable values use the fallback
+
+export const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+};
+
+export const envFloat = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+};
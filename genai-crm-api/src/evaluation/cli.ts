@@ -0,0 +1,249 @@
+import './offlineEnv';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { basename, dirname, resolve } from 'path';
+import { anthropic, logger } from '../server';
+import { AIService } from '../services/ai';
+import QualityAssessmentService from '../services/qualityAssessment';
+import { LLMProvider, createLLMProvider } from '../services/llmProvider';
+import { MockLLMProvider } from '../services/mockLLMProvider';
+import { confluenceService } from '../services/confluence';
+import { loadDataset } from './dataset';
+import { RecordedLLMProvider } from './recordedProvider';
+import { CasePredictions, EvaluationReport, runEvaluation } from './evaluate';
+import { MetricDelta, compareMetrics, formatConfusionMatrix } from './metrics';
+
+// Offline evaluation of the query pipeline, analyzers and escalation detection.
+//
+//   npm run eval -- [--dataset <file>] [--provider mock|replay|record] [--recordings <file>]
+//                   [--baseline <file>] [--update-baseline] [--threshold 0.02] [--json] [--verbose]
+//
+// Exit codes: 0 ok, 1 a metric regressed beyond the threshold, 2 bad usage or input.
+
+type ProviderMode = 'mock' | 'replay' | 'record';
+
+interface CliOptions {
+  dataset: string;
+  provider: ProviderMode;
+  recordings?: string;
+  baseline: string;
+  updateBaseline: boolean;
+  threshold: number;
+  json: boolean;
+  verbose: boolean;
+}
+
+// What is kept of a run to compare later runs against
+interface Baseline {
+  dataset: string;
+  provider: string;
+  generated_at: string;
+  metrics: Record<string, number>;
+  cases: Record<string, CasePredictions>;
+}
+
+const EVALUATION_DIR = resolve(__dirname);
+const DEFAULT_THRESHOLD = 0.02;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    dataset: resolve(EVALUATION_DIR, 'golden/customer_queries.json'),
+    provider: 'mock',
+    baseline: resolve(EVALUATION_DIR, 'baseline.json'),
+    updateBaseline: false,
+    threshold: DEFAULT_THRESHOLD,
+    json: false,
+    verbose: false
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (next === undefined) throw new UsageError(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--dataset': options.dataset = resolve(value()); break;
+      case '--recordings': options.recordings = resolve(value()); break;
+      case '--baseline': options.baseline = resolve(value()); break;
+      case '--update-baseline': options.updateBaseline = true; break;
+      case '--json': options.json = true; break;
+      case '--verbose': options.verbose = true; break;
+      case '--provider': {
+        const provider = value();
+        if (!['mock', 'replay', 'record'].includes(provider)) {
+          throw new UsageError('--provider must be one of: mock, replay, record');
+        }
+        options.provider = provider as ProviderMode;
+        break;
+      }
+      case '--threshold': {
+        const threshold = parseFloat(value());
+        if (isNaN(threshold) || threshold < 0 || threshold > 1) {
+          throw new UsageError('--threshold must be a number between 0 and 1');
+        }
+        options.threshold = threshold;
+        break;
+      }
+      default:
+        throw new UsageError(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function createProvider(options: CliOptions): LLMProvider {
+  if (options.provider === 'mock') {
+    return new MockLLMProvider();
+  }
+
+  const recordings = options.recordings
+    || resolve(EVALUATION_DIR, 'recordings', basename(options.dataset));
+
+  if (options.provider === 'record') {
+    if (!process.env.ANTHROPIC_API_KEY) {
+      throw new UsageError('Recording needs ANTHROPIC_API_KEY');
+    }
+    mkdirSync(dirname(recordings), { recursive: true });
+    return new RecordedLLMProvider(recordings, createLLMProvider(anthropic));
+  }
+
+  if (!existsSync(recordings)) {
+    throw new UsageError(`No recordings at ${recordings}; create them with --provider record`);
+  }
+  return new RecordedLLMProvider(recordings);
+}
+
+function loadBaseline(path: string): Baseline | null {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null;
+}
+
+function toBaseline(report: EvaluationReport): Baseline {
+  return {
+    dataset: report.dataset,
+    provider: report.provider,
+    generated_at: report.generated_at,
+    metrics: report.metrics,
+    cases: Object.fromEntries(report.cases.map(c => [c.id, c.predictions]))
+  };
+}
+
+function formatDeltas(deltas: MetricDelta[]): string {
+  const width = Math.max(...deltas.map(d => d.metric.length)) + 2;
+  const header = 'metric'.padEnd(width) + ['baseline', 'current', 'delta'].map(h => h.padStart(10)).join('');
+  const rows = deltas.map(d =>
+    d.metric.padEnd(width)
+    + [d.baseline, d.current].map(v => v.toFixed(4).padStart(10)).join('')
+    + `${d.delta >= 0 ? '+' : ''}${d.delta.toFixed(4)}`.padStart(10)
+    + (d.regressed ? '  REGRESSED' : '')
+  );
+
+  return ['Compared with baseline', header, ...rows].join('\n');
+}
+
+// One line per prediction that differs from the baseline run
+function diffCases(report: EvaluationReport, baseline: Baseline): string[] {
+  const lines: string[] = [];
+
+  report.cases.forEach(result => {
+    const previous = baseline.cases[result.id];
+    if (!previous) {
+      lines.push(`  ${result.id}: new case`);
+      return;
+    }
+
+    (Object.keys(result.predictions) as (keyof CasePredictions)[]).forEach(field => {
+      if (previous[field] !== result.predictions[field]) {
+        lines.push(`  ${result.id}.${field}: ${previous[field] ?? '-'} -> ${result.predictions[field] ?? '-'}`);
+      }
+    });
+  });
+
+  return lines;
+}
+
+function printReport(report: EvaluationReport): void {
+  const width = Math.max(...Object.keys(report.metrics).map(name => name.length)) + 2;
+
+  console.log(`Dataset ${report.dataset}: ${report.cases.length} cases, provider ${report.provider}\n`);
+  console.log('Metrics');
+  Object.entries(report.metrics).forEach(([name, value]) => {
+    console.log(`${name.padEnd(width)}${value.toFixed(4).padStart(10)}`);
+  });
+  console.log('');
+  console.log(formatConfusionMatrix('Intent (standalone analyzer)', report.confusion.intent));
+  console.log('');
+  console.log(formatConfusionMatrix('Sentiment (standalone analyzer)', report.confusion.sentiment));
+  console.log('');
+  console.log(formatConfusionMatrix('Escalation level', report.confusion.escalation));
+  console.log('');
+}
+
+async function main(): Promise<number> {
+  const options = parseArgs(process.argv.slice(2));
+  logger.silent = !options.verbose;
+
+  // The SOP search would only ever reach the placeholder Confluence URL
+  confluenceService.searchSOPs = async () => [];
+
+  const dataset = loadDataset(options.dataset);
+  const provider = createProvider(options);
+  const aiService = new AIService(provider);
+  const qualityService = new QualityAssessmentService(aiService);
+
+  const report = await runEvaluation(dataset, aiService, qualityService, options.provider, (result, index) => {
+    if (options.verbose) {
+      console.error(`[${index + 1}/${dataset.cases.length}] ${result.id}`);
+    }
+  });
+
+  if (provider instanceof RecordedLLMProvider) {
+    provider.save();
+  }
+
+  const baseline = loadBaseline(options.baseline);
+  const deltas = baseline ? compareMetrics(baseline.metrics, report.metrics, options.threshold) : [];
+  const regressions = deltas.filter(d => d.regressed);
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...report, baseline_comparison: deltas }, null, 2));
+  } else {
+    printReport(report);
+
+    if (baseline) {
+      if (baseline.provider !== report.provider) {
+        console.log(`Note: baseline was recorded with the ${baseline.provider} provider\n`);
+      }
+      console.log(formatDeltas(deltas));
+      const changes = diffCases(report, baseline);
+      console.log(`\nPrediction changes since baseline: ${changes.length}`);
+      changes.forEach(line => console.log(line));
+    } else {
+      console.log(`No baseline at ${options.baseline}`);
+    }
+  }
+
+  if (options.updateBaseline) {
+    writeFileSync(options.baseline, `${JSON.stringify(toBaseline(report), null, 2)}\n`);
+    console.error(`Baseline written to ${options.baseline}`);
+    return 0;
+  }
+
+  if (regressions.length > 0) {
+    console.error(`\n${regressions.length} metric(s) regressed by more than ${options.threshold}: ${regressions.map(r => r.metric).join(', ')}`);
+    return 1;
+  }
+
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error instanceof UsageError ? `Usage error: ${error.message}` : error);
+    process.exit(2);
+  });
@@ -0,0 +1,63 @@
+import { readFileSync } from 'fs';
+import { EscalationAnalysis } from '../services/qualityAssessment';
+import { LanguageCode, isSupportedLanguage } from '../services/language';
+import { INTENTS } from '../services/structuredResponse';
+
+export type EscalationLevel = EscalationAnalysis['escalation_level'];
+
+// The labels the query pipeline can produce
+export const INTENT_LABELS: string[] = [...INTENTS];
+export const SENTIMENT_LABELS = ['positive', 'neutral', 'negative'];
+export const ESCALATION_LABELS: EscalationLevel[] = ['immediate', 'recommended', 'monitor', 'standard'];
+
+// One labelled query. Labels use the same English values the services return.
+export interface GoldenCase {
+  id: string;
+  query: string;
+  // Language the query should be detected as
+  expected_language?: LanguageCode;
+  expected_intent: string;
+  expected_sentiment: 'positive' | 'neutral' | 'negative';
+  expected_escalation: EscalationLevel;
+  // What a good agent reply covers; compared with the generated reply by token overlap
+  reference_answer: string;
+  // Extra escalation context passed to detectEscalationNeeds
+  escalation_context?: {
+    interactionCount?: number;
+    customerTier?: string;
+    previousEscalations?: number;
+  };
+}
+
+export interface GoldenDataset {
+  name: string;
+  description?: string;
+  cases: GoldenCase[];
+}
+
+export function loadDataset(path: string): GoldenDataset {
+  const dataset: GoldenDataset = JSON.parse(readFileSync(path, 'utf8'));
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  if (!dataset.name || !Array.isArray(dataset.cases) || dataset.cases.length === 0) {
+    throw new Error(`${path}: dataset needs a name and at least one case`);
+  }
+
+  dataset.cases.forEach((c, index) => {
+    const label = c.id || `#${index}`;
+    if (!c.id || ids.has(c.id)) errors.push(`${label}: missing or duplicate id`);
+    if (!c.query) errors.push(`${label}: missing query`);
+    if (!INTENT_LABELS.includes(c.expected_intent)) errors.push(`${label}: unknown intent "${c.expected_intent}"`);
+    if (!SENTIMENT_LABELS.includes(c.expected_sentiment)) errors.push(`${label}: unknown sentiment "${c.expected_sentiment}"`);
+    if (!ESCALATION_LABELS.includes(c.expected_escalation)) errors.push(`${label}: unknown escalation level "${c.expected_escalation}"`);
+    if (c.expected_language !== undefined && !isSupportedLanguage(c.expected_language)) errors.push(`${label}: unsupported language "${c.expected_language}"`);
+    ids.add(c.id);
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`${path}: invalid dataset\n  ${errors.join('\n  ')}`);
+  }
+
+  return dataset;
+}
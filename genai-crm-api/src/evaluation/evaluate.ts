@@ -0,0 +1,140 @@
+import { AIService } from '../services/ai';
+import QualityAssessmentService from '../services/qualityAssessment';
+import { GoldenDataset, GoldenCase, INTENT_LABELS, SENTIMENT_LABELS, ESCALATION_LABELS } from './dataset';
+import { ConfusionMatrix, accuracy, confusionMatrix, tokenF1, round } from './metrics';
+
+// Labels predicted for one case, by the query pipeline and by the standalone analyzers
+export interface CasePredictions {
+  pipeline_intent?: string;
+  pipeline_sentiment?: string;
+  intent: string;
+  sentiment: string;
+  escalation: string;
+  language?: string;
+}
+
+export interface CaseResult {
+  id: string;
+  predictions: CasePredictions;
+  answer_f1: number;
+  quality_score: number | null;
+  confidence: number;
+  fallback: boolean;
+  response: string;
+}
+
+export interface EvaluationReport {
+  dataset: string;
+  provider: string;
+  generated_at: string;
+  // All on a 0-1 scale, higher is better
+  metrics: Record<string, number>;
+  confusion: {
+    intent: ConfusionMatrix;
+    sentiment: ConfusionMatrix;
+    escalation: ConfusionMatrix;
+  };
+  cases: CaseResult[];
+}
+
+const EVALUATION_USER_ID = 'offline-evaluation';
+
+// Cases run one at a time: recorded runs hit the real API and the mock gains nothing from parallelism
+export async function runEvaluation(
+  dataset: GoldenDataset,
+  aiService: AIService,
+  qualityService: QualityAssessmentService,
+  providerName: string,
+  onCase?: (result: CaseResult, index: number) => void
+): Promise<EvaluationReport> {
+  const results: CaseResult[] = [];
+
+  for (const [index, goldenCase] of dataset.cases.entries()) {
+    const result = await evaluateCase(goldenCase, aiService, qualityService);
+    results.push(result);
+    onCase?.(result, index);
+  }
+
+  return buildReport(dataset, providerName, results);
+}
+
+async function evaluateCase(
+  goldenCase: GoldenCase,
+  aiService: AIService,
+  qualityService: QualityAssessmentService
+): Promise<CaseResult> {
+  const response = await aiService.processQuery(goldenCase.query, {}, EVALUATION_USER_ID);
+  const fallback = !!response.metadata?.fallback;
+
+  const [intent, sentiment, escalation, quality] = await Promise.all([
+    aiService.analyzeIntent(goldenCase.query),
+    aiService.analyzeSentiment(goldenCase.query),
+    qualityService.detectEscalationNeeds(goldenCase.query, {
+      sentiment: goldenCase.expected_sentiment,
+      ...goldenCase.escalation_context
+    }),
+    fallback
+      ? Promise.resolve(null)
+      : qualityService.assessResponseQuality(goldenCase.query, response.response, { language: response.language })
+  ]);
+
+  return {
+    id: goldenCase.id,
+    predictions: {
+      pipeline_intent: response.intent,
+      pipeline_sentiment: response.sentiment,
+      intent,
+      sentiment,
+      escalation: escalation.escalation_level,
+      language: response.language
+    },
+    answer_f1: round(tokenF1(goldenCase.reference_answer, response.response)),
+    quality_score: quality ? quality.overall_score : null,
+    confidence: response.confidence_score,
+    fallback,
+    response: response.response
+  };
+}
+
+function buildReport(dataset: GoldenDataset, providerName: string, results: CaseResult[]): EvaluationReport {
+  const byId = new Map(dataset.cases.map(c => [c.id, c]));
+  const pairs = (expected: (c: GoldenCase) => string, predicted: (r: CaseResult) => string | undefined) =>
+    results.map(r => ({ expected: expected(byId.get(r.id)!), predicted: predicted(r) || 'none' }));
+
+  const intentPairs = pairs(c => c.expected_intent, r => r.predictions.intent);
+  const sentimentPairs = pairs(c => c.expected_sentiment, r => r.predictions.sentiment);
+  const escalationPairs = pairs(c => c.expected_escalation, r => r.predictions.escalation);
+  const withLanguage = results.filter(r => byId.get(r.id)!.expected_language);
+  const scored = results.filter(r => r.quality_score !== null);
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+  const metrics: Record<string, number> = {
+    intent_accuracy: accuracy(intentPairs),
+    sentiment_accuracy: accuracy(sentimentPairs),
+    escalation_accuracy: accuracy(escalationPairs),
+    pipeline_intent_accuracy: accuracy(pairs(c => c.expected_intent, r => r.predictions.pipeline_intent)),
+    pipeline_sentiment_accuracy: accuracy(pairs(c => c.expected_sentiment, r => r.predictions.pipeline_sentiment)),
+    answer_f1: mean(results.map(r => r.answer_f1)),
+    // Quality scores are 0-10
+    quality_score: mean(scored.map(r => r.quality_score! / 10)),
+    mean_confidence: mean(results.map(r => r.confidence)),
+    success_rate: mean(results.map(r => (r.fallback ? 0 : 1)))
+  };
+
+  if (withLanguage.length > 0) {
+    metrics.language_accuracy = mean(withLanguage.map(r => (r.predictions.language === byId.get(r.id)!.expected_language ? 1 : 0)));
+  }
+
+  return {
+    dataset: dataset.name,
+    provider: providerName,
+    generated_at: new Date().toISOString(),
+    metrics: Object.fromEntries(Object.entries(metrics).map(([name, value]) => [name, round(value)])),
+    confusion: {
+      intent: confusionMatrix(intentPairs, INTENT_LABELS),
+      sentiment: confusionMatrix(sentimentPairs, SENTIMENT_LABELS),
+      escalation: confusionMatrix(escalationPairs, ESCALATION_LABELS)
+    },
+    cases: results
+  };
+}
@@ -0,0 +1,117 @@
+export interface ConfusionMatrix {
+  labels: string[];
+  // matrix[expected][predicted] = count
+  matrix: Record<string, Record<string, number>>;
+}
+
+export interface LabelPair {
+  expected: string;
+  predicted: string;
+}
+
+export function accuracy(pairs: LabelPair[]): number {
+  if (pairs.length === 0) return 0;
+  return pairs.filter(p => p.expected === p.predicted).length / pairs.length;
+}
+
+// Labels outside `labels` (e.g. an unparseable model answer) get their own row/column
+export function confusionMatrix(pairs: LabelPair[], labels: string[]): ConfusionMatrix {
+  const allLabels = [...labels];
+  pairs.forEach(p => {
+    if (!allLabels.includes(p.predicted)) allLabels.push(p.predicted);
+  });
+
+  const matrix: ConfusionMatrix['matrix'] = {};
+  allLabels.forEach(expected => {
+    matrix[expected] = Object.fromEntries(allLabels.map(predicted => [predicted, 0]));
+  });
+  pairs.forEach(p => {
+    matrix[p.expected][p.predicted]++;
+  });
+
+  // Drop labels that never occur to keep the printed table readable
+  const used = allLabels.filter(label =>
+    allLabels.some(other => matrix[label][other] > 0 || matrix[other][label] > 0)
+  );
+
+  return {
+    labels: used,
+    matrix: Object.fromEntries(used.map(expected => [
+      expected,
+      Object.fromEntries(used.map(predicted => [predicted, matrix[expected][predicted]]))
+    ]))
+  };
+}
+
+export function formatConfusionMatrix(title: string, cm: ConfusionMatrix): string {
+  const corner = 'expected \\ predicted';
+  const labelWidth = Math.max(corner.length, ...cm.labels.map(label => label.length)) + 2;
+  const width = Math.max(8, ...cm.labels.map(label => label.length)) + 2;
+  const header = corner.padEnd(labelWidth) + cm.labels.map(label => label.padStart(width)).join('');
+  const rows = cm.labels.map(expected =>
+    expected.padEnd(labelWidth) + cm.labels.map(predicted => String(cm.matrix[expected][predicted]).padStart(width)).join('')
+  );
+
+  return [title, header, ...rows].join('\n');
+}
+
+const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/\p{L}+|\p{N}+/gu) || []).filter(token => token.length > 2);
+
+// Unigram F1 between a generated reply and a reference answer; a cheap, deterministic
+// stand-in for "covers the same points"
+export function tokenF1(reference: string, candidate: string): number {
+  const ref = tokenize(reference);
+  const cand = tokenize(candidate);
+  if (ref.length === 0 || cand.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  ref.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+
+  let overlap = 0;
+  cand.forEach(token => {
+    const remaining = counts.get(token) || 0;
+    if (remaining > 0) {
+      overlap++;
+      counts.set(token, remaining - 1);
+    }
+  });
+
+  if (overlap === 0) return 0;
+  const precision = overlap / cand.length;
+  const recall = overlap / ref.length;
+  return (2 * precision * recall) / (precision + recall);
+}
+
+export interface MetricDelta {
+  metric: string;
+  baseline: number;
+  current: number;
+  delta: number;
+  regressed: boolean;
+}
+
+// Every metric is on a 0-1 scale where higher is better
+export function compareMetrics(
+  baseline: Record<string, number>,
+  current: Record<string, number>,
+  threshold: number
+): MetricDelta[] {
+  return Object.keys(baseline)
+    .filter(metric => metric in current)
+    .map(metric => {
+      const delta = current[metric] - baseline[metric];
+      return {
+        metric,
+        baseline: baseline[metric],
+        current: current[metric],
+        delta: round(delta),
+        regressed: delta < -threshold
+      };
+    });
+}
+
+export const round = (value: number, digits = 4): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
@@ -0,0 +1,22 @@
+// Imported before anything else by the evaluation CLI. The services create their
+// Supabase and Confluence clients at import time, so point them at an address
+// that refuses connections: evaluations never read or write real data, and
+// lookups fail fast into the services' existing fallbacks.
+const UNREACHABLE = 'http://127.0.0.1:9';
+
+process.env.SUPABASE_URL = UNREACHABLE;
+process.env.SUPABASE_ANON_KEY = 'offline-evaluation';
+process.env.SUPABASE_SERVICE_KEY = 'offline-evaluation';
+process.env.CONFLUENCE_BASE_URL = UNREACHABLE;
+process.env.CONFLUENCE_API_TOKEN = 'offline-evaluation';
+
+// Services log while loading, before the CLI has parsed its arguments
+if (!process.argv.includes('--verbose')) {
+  process.env.LOG_LEVEL = 'error';
+}
+
+// Keep the response cache in memory so runs don't share state through Redis
+process.env.AI_CACHE_REDIS_URL = '';
+process.env.REDIS_URL = '';
+
+export {};
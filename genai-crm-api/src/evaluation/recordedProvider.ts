@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { LLMProvider, LLMRequest, LLMCompletion } from '../services/llmProvider';
+
+interface Recording {
+  use_case?: string;
+  model: string;
+  completion: LLMCompletion;
+}
+
+// Replays completions captured from a real provider so evaluations are repeatable
+// without API access. In record mode every request goes to `upstream` and the
+// completion is saved under a hash of the request.
+export class RecordedLLMProvider implements LLMProvider {
+  readonly name = 'recorded';
+  private recordings: Record<string, Recording>;
+  private path: string;
+  private upstream?: LLMProvider;
+  private dirty = false;
+
+  constructor(path: string, upstream?: LLMProvider) {
+    this.path = path;
+    this.upstream = upstream;
+    this.recordings = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : {};
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const key = this.requestKey(request);
+
+    if (this.upstream) {
+      const completion = await this.upstream.complete(request);
+      this.recordings[key] = { use_case: request.useCase, model: request.model, completion };
+      this.dirty = true;
+      return completion;
+    }
+
+    const recording = this.recordings[key];
+    if (!recording) {
+      throw new Error(`No recording for ${request.useCase || 'unknown'} request ${key.slice(0, 12)}; re-record with --provider record`);
+    }
+
+    return recording.completion;
+  }
+
+  async stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    onToken(completion.text);
+    return completion;
+  }
+
+  save(): void {
+    if (this.dirty) {
+      writeFileSync(this.path, `${JSON.stringify(this.recordings, null, 2)}\n`);
+      this.dirty = false;
+    }
+  }
+
+  // Signals and timeouts don't change what the model sees, so they are left out
+  private requestKey(request: LLMRequest): string {
+    return createHash('sha256').update(JSON.stringify({
+      useCase: request.useCase,
+      model: request.model,
+      temperature: request.temperature,
+      messages: request.messages,
+      tools: request.tools?.map(tool => tool.name)
+    })).digest('hex');
+  }
+}
+
+export default RecordedLLMProvider;
@@ -7,9 +7,31 @@ export interface AuthenticatedRequest extends Request {
     id: string;
     email: string;
     role: string;
+    organization_id?: string;
+    // Handoffs to a team reach the agents whose metadata names it
+    team?: string;
   };
 }
 
+// The user a Supabase access token belongs to, or null when the token isn't valid. Also
+// used by connections that can't send an Authorization header, such as WebSockets.
+export const verifyAccessToken = async (token: string): Promise<NonNullable<AuthenticatedRequest['user']> | null> => {
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+
+  if (error || !user) {
+    logger.warn('Token verification failed:', error?.message);
+    return null;
+  }
+
+  return {
+    id: user.id,
+    email: user.email || '',
+    role: user.user_metadata?.role || 'user',
+    organization_id: user.user_metadata?.organization_id,
+    team: user.user_metadata?.team
+  };
+};
+
 export const authenticateToken = async (
   req: AuthenticatedRequest,
   res: Response,
@@ -28,10 +50,9 @@ export const authenticateToken = async (
     }
 
     // Verify token with Supabase
-    const { data: { user }, error } = await supabase.auth.getUser(token);
+    const user = await verifyAccessToken(token);
 
-    if (error || !user) {
-      logger.warn('Token verification failed:', error?.message);
+    if (!user) {
       res.status(403).json({
         error: 'Invalid token',
         message: 'Token verification failed'
@@ -40,11 +61,7 @@ export const authenticateToken = async (
     }
 
     // Add user information to request
-    req.user = {
-      id: user.id,
-      email: user.email || '',
-      role: user.user_metadata?.role || 'user'
-    };
+    req.user = user;
 
     next();
   } catch (error) {
@@ -94,7 +111,9 @@ export const optionalAuth = async (
         req.user = {
           id: user.id,
           email: user.email || '',
-          role: user.user_metadata?.role || 'user'
+          role: user.user_metadata?.role || 'user',
+          organization_id: user.user_metadata?.organization_id,
+          team: user.user_metadata?.team
         };
       }
     }
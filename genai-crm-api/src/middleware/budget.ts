@@ -0,0 +1,76 @@
+import { Response, NextFunction } from 'express';
+import { logger } from '../server';
+import { AuthenticatedRequest } from './auth';
+import { aiBudgetService, BudgetViolation } from '../services/aiBudgets';
+import { metricsCollector } from '../services/metricsCollector';
+import { APIResponse } from '../types';
+
+const describeViolation = (violation: BudgetViolation): string => {
+  const scope = violation.scope_type === 'agent' ? 'agent' : `organization ${violation.scope_id}`;
+  const amount = violation.limit_type === 'cost'
+    ? `$${violation.used.toFixed(2)} of $${violation.limit.toFixed(2)}`
+    : `${violation.used} of ${violation.limit} tokens`;
+
+  return `Monthly ${violation.limit_type} budget for ${scope} at ${violation.usage_percentage.toFixed(1)}% (${amount})`;
+};
+
+// Enforces monthly AI budgets for the requesting agent and their organization.
+// Must run after authenticateToken.
+export const enforceAIBudget = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const userId = req.user!.id;
+
+  try {
+    const result = await aiBudgetService.checkBudgets({
+      userId,
+      organizationId: req.user?.organization_id
+    });
+
+    for (const warning of result.warnings) {
+      metricsCollector.recordMetric('ai_budget_soft_limit', warning.usage_percentage, {
+        scope_type: warning.scope_type,
+        scope_id: warning.scope_id,
+        limit_type: warning.limit_type,
+        used: warning.used,
+        limit: warning.limit
+      }, 'budget', userId);
+    }
+
+    if (!result.allowed && result.exceeded) {
+      const exceeded = result.exceeded;
+
+      metricsCollector.recordMetric('ai_budget_hard_limit', 1, {
+        scope_type: exceeded.scope_type,
+        scope_id: exceeded.scope_id,
+        limit_type: exceeded.limit_type,
+        used: exceeded.used,
+        limit: exceeded.limit
+      }, 'budget', userId);
+
+      logger.warn('AI request blocked by budget', { user_id: userId, ...exceeded });
+
+      res.setHeader('Retry-After', Math.ceil((new Date(exceeded.resets_at).getTime() - Date.now()) / 1000));
+      res.status(429).json({
+        success: false,
+        error: 'AI budget exceeded',
+        message: `${describeViolation(exceeded)}. Resets at ${exceeded.resets_at}.`,
+        data: exceeded,
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+      return;
+    }
+
+    if (result.warnings.length > 0) {
+      res.setHeader('X-AI-Budget-Warning', result.warnings.map(describeViolation).join('; '));
+    }
+
+    next();
+  } catch (error) {
+    // Budget lookups failing should not take AI features down with them
+    logger.error('Failed to check AI budget', { error, user_id: userId });
+    next();
+  }
+};
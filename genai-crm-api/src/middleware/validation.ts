@@ -1,6 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult, ValidationChain } from 'express-validator';
+import { body, param, query, validationResult, ValidationChain } from 'express-validator';
 import { logger } from '../server';
+import { redactPIIDeep } from '../services/piiRedaction';
+import { currentPIIPolicy, piiPolicies, withPIIPolicy } from '../services/piiPolicies';
+import { PII_TYPES } from '../services/piiDetectors';
+import { AuthenticatedRequest } from './auth';
 
 export const handleValidationErrors = (
   req: Request,
@@ -39,6 +43,15 @@ export const validateAIQuery = [
     .optional()
     .isUUID()
     .withMessage('Customer ID must be a valid UUID'),
+  body('quality_assessment')
+    .optional()
+    .isIn(['none', 'async', 'sync'])
+    .withMessage('Quality assessment must be one of: none, async, sync'),
+  body('conversation_id')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Conversation ID must be a string'),
   handleValidationErrors
 ];
 
@@ -99,51 +112,673 @@ export const validateAnalyticsQuery = [
   handleValidationErrors
 ];
 
-// PII detection middleware
-export const detectAndRedactPII = (
-  req: Request,
+export const validateBudgetUpdate = [
+  param('scopeType')
+    .isIn(['organization', 'agent'])
+    .withMessage('Scope type must be one of: organization, agent'),
+  param('scopeId')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Scope ID must be a string between 1 and 100 characters'),
+  // Agents are users, and their usage is looked up by user id
+  param('scopeId')
+    .if(param('scopeType').equals('agent'))
+    .isUUID()
+    .withMessage('Agent scope ID must be a valid UUID'),
+  body('monthly_token_limit')
+    .optional({ nullable: true })
+    .isInt({ min: 0 })
+    .withMessage('Monthly token limit must be a non-negative integer or null'),
+  body('monthly_cost_limit_usd')
+    .optional({ nullable: true })
+    .isFloat({ min: 0 })
+    .withMessage('Monthly cost limit must be a non-negative number or null'),
+  body('soft_limit_percentage')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Soft limit percentage must be between 1 and 100'),
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean'),
+  handleValidationErrors
+];
+
+const templateNameParam = param('name')
+  .matches(/^[a-z][a-z0-9_]{0,99}$/)
+  .withMessage('Template name must be lowercase letters, digits and underscores');
+
+const templateVersionParam = param('version')
+  .isInt({ min: 1 })
+  .withMessage('Version must be a positive integer');
+
+export const validateTemplateVersion = [
+  templateNameParam,
+  templateVersionParam,
+  handleValidationErrors
+];
+
+export const validateTemplateVersionCreate = [
+  templateNameParam,
+  body('template')
+    .isString()
+    .isLength({ min: 1, max: 20000 })
+    .withMessage('Template must be a string between 1 and 20000 characters'),
+  body('description')
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage('Description must be at most 500 characters'),
+  body('variables')
+    .optional()
+    .isArray({ max: 50 })
+    .withMessage('Variables must be an array of names'),
+  body('variables.*')
+    .isString()
+    .matches(/^[A-Za-z_][A-Za-z0-9_]*$/)
+    .withMessage('Variable names must be identifiers'),
+  body('change_note')
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Change note is required and must be at most 1000 characters'),
+  handleValidationErrors
+];
+
+export const validateTemplateRollback = [
+  templateNameParam,
+  body('version')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Version must be a positive integer'),
+  handleValidationErrors
+];
+
+const experimentFields = (optional: boolean): ValidationChain[] => {
+  const field = (chain: ValidationChain) => (optional ? chain.optional() : chain);
+
+  return [
+    field(body('name'))
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be a string between 1 and 100 characters'),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Description must be at most 1000 characters'),
+    body('assignment_unit')
+      .optional()
+      .isIn(['agent', 'conversation'])
+      .withMessage('Assignment unit must be one of: agent, conversation'),
+    body('primary_metric')
+      .optional()
+      .isIn(['quality_score', 'confidence', 'feedback_accuracy', 'cost_per_query'])
+      .withMessage('Primary metric must be one of: quality_score, confidence, feedback_accuracy, cost_per_query'),
+    body('traffic_percentage')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Traffic percentage must be between 1 and 100'),
+    field(body('variants'))
+      .isArray({ min: 2, max: 10 })
+      .withMessage('Variants must be an array of 2 to 10 variants'),
+    body('variants.*.key')
+      .isString()
+      .matches(/^[A-Za-z0-9_-]{1,50}$/)
+      .withMessage('Variant key must be 1-50 letters, digits, dashes or underscores'),
+    body('variants.*.weight')
+      .isFloat({ gt: 0 })
+      .withMessage('Variant weight must be a positive number'),
+    body('variants.*.template_version')
+      .optional({ nullable: true })
+      .isInt({ min: 0 })
+      .withMessage('Variant template version must be a non-negative integer'),
+    body('variants.*.model')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Variant model must be a string between 1 and 100 characters')
+  ];
+};
+
+export const validateExperimentCreate = [...experimentFields(false), handleValidationErrors];
+
+const experimentIdParam = param('id').isUUID().withMessage('Experiment ID must be a valid UUID');
+
+export const validateExperimentId = [experimentIdParam, handleValidationErrors];
+
+export const validateExperimentUpdate = [
+  experimentIdParam,
+  ...experimentFields(true),
+  handleValidationErrors
+];
+
+const reviewItemIdParam = param('id').isUUID().withMessage('Review item ID must be a valid UUID');
+
+export const validateReviewList = [
+  query('status')
+    .optional()
+    .matches(/^(pending|in_review|approved|edited|rejected)(,(pending|in_review|approved|edited|rejected))*$/)
+    .withMessage('Status must be a comma-separated list of: pending, in_review, approved, edited, rejected'),
+  query('assigned_to')
+    .optional()
+    .custom(value => value === 'me' || value === 'none' || /^[0-9a-f-]{36}$/i.test(value))
+    .withMessage('Assigned to must be "me", "none" or a user ID'),
+  query('reason')
+    .optional()
+    .isIn(['low_quality', 'escalation'])
+    .withMessage('Reason must be one of: low_quality, escalation'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500'),
+  handleValidationErrors
+];
+
+export const validateReviewItemId = [reviewItemIdParam, handleValidationErrors];
+
+export const validateReviewAssign = [
+  reviewItemIdParam,
+  body('assignee_id')
+    .optional()
+    .isUUID()
+    .withMessage('Assignee ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+export const validateReviewDecision = [
+  reviewItemIdParam,
+  body('corrected_response')
+    .if((value, { req }) => req.params?.decision === 'edit')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Corrected response must be a string between 1 and 5000 characters'),
+  body('comment')
+    .if((value, { req }) => req.params?.decision === 'reject')
+    .isString()
+    .trim()
+    .isLength({ min: 1 })
+    .withMessage('A comment is required to reject an item'),
+  body('comment')
+    .optional()
+    .isString()
+    .isLength({ max: 5000 })
+    .withMessage('Comment must be at most 5000 characters'),
+  handleValidationErrors
+];
+
+export const validateReviewComment = [
+  reviewItemIdParam,
+  body('body')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Comment must be a string between 1 and 5000 characters'),
+  handleValidationErrors
+];
+
+export const validateFeedbackSubmit = [
+  body('rating')
+    .isIn(['accurate', 'inaccurate'])
+    .withMessage('Rating must be one of: accurate, inaccurate'),
+  body('response_id')
+    .optional()
+    .isUUID()
+    .withMessage('Response ID must be a valid UUID'),
+  body('reason')
+    .optional()
+    .isString()
+    .isLength({ max: 2000 })
+    .withMessage('Reason must be at most 2000 characters'),
+  body('corrected_response')
+    .optional()
+    .isString()
+    .isLength({ max: 10000 })
+    .withMessage('Corrected response must be at most 10000 characters'),
+  body('wrong_sop_urls')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('Wrong SOP URLs must be an array of at most 20 URLs'),
+  body('wrong_sop_urls.*')
+    .isString()
+    .withMessage('Wrong SOP URLs must be strings'),
+  body('sop_sources')
+    .optional()
+    .isArray({ max: 20 })
+    .withMessage('SOP sources must be an array of at most 20 sources'),
+  body('sop_sources.*.url')
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Each SOP source needs a url'),
+  body('sop_sources.*.title')
+    .isString()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Each SOP source needs a title'),
+  body('query')
+    .optional()
+    .isString()
+    .isLength({ max: 10000 })
+    .withMessage('Query must be at most 10000 characters'),
+  body('response')
+    .optional()
+    .isString()
+    .isLength({ min: 1, max: 20000 })
+    .withMessage('Response must be a string between 1 and 20000 characters'),
+  body('ticket_id')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Ticket ID must be at most 100 characters'),
+  handleValidationErrors
+];
+
+export const validateFeedbackList = [
+  query('rating')
+    .optional()
+    .isIn(['accurate', 'inaccurate'])
+    .withMessage('Rating must be one of: accurate, inaccurate'),
+  query('since')
+    .optional()
+    .isISO8601()
+    .withMessage('Since must be a valid ISO 8601 date'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 500 })
+    .withMessage('Limit must be between 1 and 500'),
+  handleValidationErrors
+];
+
+export const validateSOPAccuracyQuery = [
+  query('start_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  query('end_date')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+  query('min_ratings')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Minimum ratings must be a positive integer'),
+  handleValidationErrors
+];
+
+export const validateCalibrationFit = [
+  body('start_date')
+    .optional()
+    .isISO8601()
+    .withMessage('Start date must be a valid ISO 8601 date'),
+  body('end_date')
+    .optional()
+    .isISO8601()
+    .withMessage('End date must be a valid ISO 8601 date'),
+  handleValidationErrors
+];
+
+export const validateConfidenceCalibration = [
+  body('confidence')
+    .isFloat({ min: 0, max: 1 })
+    .withMessage('Confidence must be a number between 0 and 1'),
+  body('intent')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Intent must be a string of at most 50 characters'),
+  body('model')
+    .optional()
+    .isString()
+    .isLength({ max: 100 })
+    .withMessage('Model must be a string of at most 100 characters'),
+  handleValidationErrors
+];
+
+const escalationRuleFields = (optional: boolean): ValidationChain[] => {
+  const field = (chain: ValidationChain) => (optional ? chain.optional() : chain);
+
+  return [
+    field(body('name'))
+      .isString()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Name must be a string between 1 and 100 characters'),
+    body('description')
+      .optional()
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Description must be at most 1000 characters'),
+    body('enabled')
+      .optional()
+      .isBoolean()
+      .withMessage('Enabled must be a boolean'),
+    body('priority')
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage('Priority must be a non-negative integer'),
+    field(body('conditions'))
+      .isArray({ min: 1, max: 20 })
+      .withMessage('Conditions must be an array of 1 to 20 conditions'),
+    body('conditions.*.field')
+      .isString()
+      .withMessage('Condition field must be a string'),
+    body('conditions.*.operator')
+      .isString()
+      .withMessage('Condition operator must be a string'),
+    body('conditions.*.value')
+      .exists()
+      .withMessage('Condition value is required'),
+    body('match')
+      .optional()
+      .isIn(['all', 'any'])
+      .withMessage('Match must be one of: all, any'),
+    field(body('escalation_level'))
+      .isIn(['immediate', 'recommended', 'monitor', 'standard'])
+      .withMessage('Escalation level must be one of: immediate, recommended, monitor, standard'),
+    body('urgency')
+      .optional({ nullable: true })
+      .isIn(['low', 'medium', 'high', 'critical'])
+      .withMessage('Urgency must be one of: low, medium, high, critical'),
+    body('mode')
+      .optional()
+      .isIn(['short_circuit', 'combine'])
+      .withMessage('Mode must be one of: short_circuit, combine'),
+    body('suggested_action')
+      .optional({ nullable: true })
+      .isString()
+      .isLength({ max: 1000 })
+      .withMessage('Suggested action must be at most 1000 characters')
+  ];
+};
+
+export const validateEscalationRuleCreate = [...escalationRuleFields(false), handleValidationErrors];
+
+const escalationRuleIdParam = param('id').isUUID().withMessage('Escalation rule ID must be a valid UUID');
+
+export const validateEscalationRuleId = [escalationRuleIdParam, handleValidationErrors];
+
+export const validateEscalationRuleUpdate = [
+  escalationRuleIdParam,
+  ...escalationRuleFields(true),
+  handleValidationErrors
+];
+
+export const validateEscalationRuleTest = [
+  body('query')
+    .isString()
+    .isLength({ min: 1, max: 5000 })
+    .withMessage('Query must be a string between 1 and 5000 characters'),
+  body('customer_context')
+    .optional()
+    .isObject()
+    .withMessage('Customer context must be an object'),
+  body('rules')
+    .optional()
+    .isArray({ min: 1, max: 50 })
+    .withMessage('Rules must be an array of 1 to 50 rules'),
+  handleValidationErrors
+];
+
+export const validateConversationSearch = [
+  body('customer_id')
+    .isUUID()
+    .withMessage('Customer ID must be a valid UUID'),
+  body('query')
+    .isString()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Query must be a string between 1 and 1000 characters'),
+  body('limit')
+    .optional()
+    .isInt({ min: 1, max: 50 })
+    .withMessage('Limit must be between 1 and 50'),
+  handleValidationErrors
+];
+
+export const validateConversationReindex = [
+  body('customer_id')
+    .optional()
+    .isUUID()
+    .withMessage('Customer ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+export const validateConversationHandoff = [
+  param('id')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Conversation ID is required'),
+  body('to_agent_id')
+    .optional()
+    .isUUID()
+    .withMessage('Receiving agent ID must be a valid UUID'),
+  body('to_team')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 50 })
+    .withMessage('Team must be a string between 1 and 50 characters'),
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Reason must be a string between 1 and 2000 characters'),
+  body()
+    .custom(value => !!(value?.to_agent_id || value?.to_team))
+    .withMessage('Either to_agent_id or to_team is required'),
+  handleValidationErrors
+];
+
+export const validateHandoffId = [
+  param('id').isUUID().withMessage('Handoff ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+export const validateNotificationList = [
+  query('unread')
+    .optional()
+    .isBoolean()
+    .withMessage('Unread must be a boolean'),
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limit must be between 1 and 100'),
+  handleValidationErrors
+];
+
+export const validateNotificationId = [
+  param('id').isUUID().withMessage('Notification ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+const transcriptOptionFields = [
+  query('format')
+    .optional()
+    .isIn(['txt', 'html', 'pdf', 'jsonl'])
+    .withMessage('Format must be one of: txt, html, pdf, jsonl'),
+  query('redact')
+    .optional()
+    .isBoolean()
+    .withMessage('Redact must be a boolean'),
+  query('names')
+    .optional()
+    .isBoolean()
+    .withMessage('Names must be a boolean')
+];
+
+export const validateTranscriptExport = [
+  param('id')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Conversation ID is required'),
+  ...transcriptOptionFields,
+  handleValidationErrors
+];
+
+export const validateBulkTranscriptExport = [
+  query('from')
+    .isISO8601()
+    .withMessage('From must be a valid ISO 8601 date'),
+  query('to')
+    .isISO8601()
+    .withMessage('To must be a valid ISO 8601 date')
+    .custom((value, { req }) => new Date(value) >= new Date(req.query?.from))
+    .withMessage('To must not be before from'),
+  query('agent_id')
+    .optional()
+    .isUUID()
+    .withMessage('Agent ID must be a valid UUID'),
+  ...transcriptOptionFields,
+  handleValidationErrors
+];
+
+const policyOrganizationParam = param('organizationId')
+  .isString()
+  .isLength({ min: 1, max: 100 })
+  .withMessage('Organization ID must be a string between 1 and 100 characters, or * for the default policy');
+
+export const validateRetentionPolicyUpdate = [
+  policyOrganizationParam,
+  body('turn_retention_days')
+    .optional({ nullable: true })
+    .isInt({ min: 1, max: 36500 })
+    .withMessage('Turn retention days must be a positive integer or null'),
+  body('keep_summaries')
+    .optional()
+    .isBoolean()
+    .withMessage('Keep summaries must be a boolean'),
+  body('ai_log_retention_days')
+    .optional({ nullable: true })
+    .isInt({ min: 1, max: 36500 })
+    .withMessage('AI log retention days must be a positive integer or null'),
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean'),
+  handleValidationErrors
+];
+
+export const validateRetentionPolicyId = [policyOrganizationParam, handleValidationErrors];
+
+export const validateCustomerErasure = [
+  param('id')
+    .isUUID()
+    .withMessage('Customer ID must be a valid UUID'),
+  body('mode')
+    .optional()
+    .isIn(['delete', 'anonymize'])
+    .withMessage('Mode must be one of: delete, anonymize'),
+  body('reason')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 2000 })
+    .withMessage('Reason must be a string between 1 and 2000 characters'),
+  body('request_reference')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Request reference must be a string between 1 and 200 characters'),
+  handleValidationErrors
+];
+
+export const validateErasureReceiptList = [
+  query('customer_id')
+    .optional()
+    .isUUID()
+    .withMessage('Customer ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+export const validateErasureReceiptId = [
+  param('id').isUUID().withMessage('Receipt ID must be a valid UUID'),
+  handleValidationErrors
+];
+
+export const validateConversationWhisper = [
+  param('id')
+    .isString()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Conversation ID is required'),
+  body('text')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 1000 })
+    .withMessage('Text must be a string between 1 and 1000 characters'),
+  handleValidationErrors
+];
+
+export const validatePIIPolicyUpdate = [
+  policyOrganizationParam,
+  body('enabled')
+    .optional()
+    .isBoolean()
+    .withMessage('Enabled must be a boolean'),
+  body('mode')
+    .optional()
+    .isIn(['tokenize', 'redact'])
+    .withMessage('Mode must be one of: tokenize, redact'),
+  body('detectors')
+    .optional({ nullable: true })
+    .isArray({ min: 1 })
+    .withMessage('Detectors must be a non-empty array, or null for all detectors'),
+  body('detectors.*')
+    .isIn(PII_TYPES)
+    .withMessage(`Detectors must be among: ${PII_TYPES.join(', ')}`),
+  handleValidationErrors
+];
+
+export const validatePIIPolicyId = [policyOrganizationParam, handleValidationErrors];
+
+export const validatePIIDetection = [
+  body('text')
+    .isString()
+    .isLength({ min: 1, max: 20000 })
+    .withMessage('Text must be a string between 1 and 20000 characters'),
+  body('detectors')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Detectors must be a non-empty array'),
+  body('detectors.*')
+    .isIn(PII_TYPES)
+    .withMessage(`Detectors must be among: ${PII_TYPES.join(', ')}`),
+  handleValidationErrors
+];
+
+// Resolves the organization's PII policy and scopes the rest of the request to it, so
+// every model call the request makes follows that policy
+export const applyPIIPolicy = async (
+  req: AuthenticatedRequest,
   res: Response,
   next: NextFunction
-): void => {
-  if (!process.env.PII_DETECTION_ENABLED || process.env.PII_DETECTION_ENABLED !== 'true') {
-    next();
-    return;
+): Promise<void> => {
+  try {
+    const policy = await piiPolicies.getEffectivePolicy(req.user?.organization_id);
+    withPIIPolicy(policy, next);
+  } catch (error) {
+    next(error);
   }
+};
 
-  // Simple PII detection patterns
-  const piiPatterns = [
-    { pattern: /\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, replacement: '[CARD_NUMBER]' },
-    { pattern: /\b\d{3}-\d{2}-\d{4}\b/g, replacement: '[SSN]' },
-    { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g, replacement: '[EMAIL]' }
-  ];
-
-  const redactText = (text: string): string => {
-    let redacted = text;
-    piiPatterns.forEach(({ pattern, replacement }) => {
-      redacted = redacted.replace(pattern, replacement);
-    });
-    return redacted;
-  };
-
-  // Redact PII from request body
-  if (req.body && typeof req.body === 'object') {
-    const redactObject = (obj: any): any => {
-      if (typeof obj === 'string') {
-        return redactText(obj);
-      } else if (Array.isArray(obj)) {
-        return obj.map(redactObject);
-      } else if (obj && typeof obj === 'object') {
-        const redacted: any = {};
-        for (const [key, value] of Object.entries(obj)) {
-          redacted[key] = redactObject(value);
+// PII detection middleware for the query and context, following the organization's
+// policy. 'redact' replaces personal data for good, so it is never stored, cached or
+// shown back to the agent. 'tokenize' leaves the request as it is: the model provider
+// tokenizes each call and restores the placeholders in its output.
+export const detectAndRedactPII = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const policy = currentPIIPolicy() || await piiPolicies.getEffectivePolicy(req.user?.organization_id);
+    if (policy.enabled && policy.mode === 'redact' && req.body && typeof req.body === 'object') {
+      // Only the free text; ids and options pass through untouched
+      for (const field of ['query', 'context']) {
+        if (req.body[field] !== undefined) {
+          req.body[field] = redactPIIDeep(req.body[field], policy.detectors || undefined, 'request');
         }
-        return redacted;
       }
-      return obj;
-    };
+    }
 
-    req.body = redactObject(req.body);
+    withPIIPolicy(policy, next);
+  } catch (error) {
+    next(error);
   }
-
-  next();
-};
\ No newline at end of file
+};
@@ -1,17 +1,37 @@
 import { Router, Response } from 'express';
-import { supabase, logger } from '../server';
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
-import { validateAIQuery } from '../middleware/validation';
+import { logger } from '../server';
+import { anthropic } from '../clients';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateAIQuery,
+  validateConversationSearch,
+  validateConversationReindex,
+  validateConversationHandoff,
+  validateHandoffId,
+  validateTranscriptExport,
+  validateBulkTranscriptExport,
+  validateConversationWhisper,
+  applyPIIPolicy
+} from '../middleware/validation';
+import { enforceAIBudget } from '../middleware/budget';
 import { APIResponse } from '../types';
 import AIService from '../services/ai';
+import { createLLMProvider } from '../services/llmProvider';
 import QualityAssessmentService from '../services/qualityAssessment';
-import ConversationMemoryService from '../services/conversationMemory';
+import { conversationMemory } from '../services/conversationMemory';
+import { conversationSearch } from '../services/conversationSearch';
+import ConversationHandoffService, { HandoffError } from '../services/conversationHandoff';
+import { transcriptExport, TranscriptExportError, TranscriptFormat, TranscriptOptions } from '../services/transcriptExport';
+import { liveConversations, LiveConversationError } from '../services/liveConversations';
 import AIAnalyticsService from '../services/aiAnalytics';
+import { errorStatus, sendRouteError } from './errors';
 
 const router = Router();
+const handoffService = new ConversationHandoffService(new AIService(createLLMProvider(anthropic)));
 
-// Apply authentication to all enhanced AI routes
+// Apply authentication and the organization's PII policy to all enhanced AI routes
 router.use(authenticateToken);
+router.use(applyPIIPolicy);
 
 // Get AI performance analytics
 router.get('/analytics/performance', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
@@ -64,17 +84,42 @@ router.get('/analytics/usage', async (req: AuthenticatedRequest, res: Response):
   }
 });
 
+// Compare token usage, cost and performance per model
+router.get('/analytics/models', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const startDate = req.query.start_date as string || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const endDate = req.query.end_date as string || new Date().toISOString();
+
+    const analyticsService = new AIAnalyticsService();
+    const comparison = await analyticsService.compareModelPerformance(startDate, endDate);
+
+    res.status(200).json({
+      success: true,
+      data: comparison,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to compare model performance', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Analytics retrieval failed',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
 // Start a conversation
 router.post('/conversation/start', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { customer_id, initial_message } = req.body;
     const agentId = req.user!.id;
 
-    const conversationService = new ConversationMemoryService();
-    const conversationId = await conversationService.startConversation(
+    const conversationId = await conversationMemory.startConversation(
       customer_id,
       agentId,
-      initial_message
+      initial_message,
+      req.user!.organization_id
     );
 
     res.status(201).json({
@@ -102,8 +147,7 @@ router.post('/conversation/:id/turn', async (req: AuthenticatedRequest, res: Res
     const conversationId = req.params.id;
     const { role, content, metadata } = req.body;
 
-    const conversationService = new ConversationMemoryService();
-    await conversationService.addConversationTurn(conversationId, role, content, metadata);
+    await conversationMemory.addConversationTurn(conversationId, role, content, metadata);
 
     res.status(200).json({
       success: true,
@@ -127,8 +171,7 @@ router.get('/conversation/:id', async (req: AuthenticatedRequest, res: Response)
     const conversationId = req.params.id;
     const maxTurns = parseInt(req.query.max_turns as string) || 20;
 
-    const conversationService = new ConversationMemoryService();
-    const context = await conversationService.getConversationContext(conversationId);
+    const context = await conversationMemory.getConversationContext(conversationId);
 
     if (!context) {
       res.status(404).json({
@@ -167,8 +210,7 @@ router.post('/conversation/:id/close', async (req: AuthenticatedRequest, res: Re
     const conversationId = req.params.id;
     const { status, summary } = req.body;
 
-    const conversationService = new ConversationMemoryService();
-    await conversationService.closeConversation(conversationId, status, summary);
+    await conversationMemory.closeConversation(conversationId, status, summary);
 
     res.status(200).json({
       success: true,
@@ -186,16 +228,112 @@ router.post('/conversation/:id/close', async (req: AuthenticatedRequest, res: Re
   }
 });
 
+// Download a conversation's transcript, archived turns included, as txt, html, pdf or
+// jsonl (one turn per line)
+router.get('/conversation/:id/export', validateTranscriptExport, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rendered = await transcriptExport.exportConversation(
+      req.params.id,
+      (req.query.format as TranscriptFormat) || 'txt',
+      transcriptOptions(req)
+    );
+
+    res.setHeader('Content-Type', rendered.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${rendered.filename}"`);
+    res.status(200).send(rendered.content);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to export conversation transcript', TRANSCRIPT_EXPORT_ERRORS);
+  }
+});
+
+// Hand an active conversation to another agent or to a team's queue, with a brief of
+// where it stands; the receiving agent (or team) is notified
+router.post('/conversation/:id/handoff', validateConversationHandoff, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { to_agent_id, to_team, reason } = req.body;
+
+    const result = await handoffService.handoff(
+      req.params.id,
+      { to_agent_id, to_team, reason },
+      { id: req.user!.id, role: req.user!.role, team: req.user!.team }
+    );
+
+    res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Conversation handed off successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to hand off conversation', HANDOFF_ERRORS);
+  }
+});
+
+// Handoffs and ownership periods of a conversation, oldest first
+router.get('/conversation/:id/handoffs', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const history = await handoffService.getHistory(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: history,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get conversation handoffs', HANDOFF_ERRORS);
+  }
+});
+
+// Accept a handoff; accepting a team handoff makes the caller the conversation's owner
+router.post('/handoffs/:id/accept', validateHandoffId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const handoff = await handoffService.accept(
+      req.params.id,
+      { id: req.user!.id, role: req.user!.role, team: req.user!.team }
+    );
+
+    res.status(200).json({
+      success: true,
+      data: handoff,
+      message: 'Handoff accepted',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to accept handoff', HANDOFF_ERRORS);
+  }
+});
+
+// Send the agent on an active conversation a suggestion that the customer doesn't see
+router.post('/conversation/:id/whisper', requireRole('supervisor'), validateConversationWhisper, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await liveConversations.whisper(req.params.id, req.body.text, req.user!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Whisper sent',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to send whisper', LIVE_CONVERSATION_ERRORS);
+  }
+});
+
 // Assess response quality
-router.post('/quality/assess', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/quality/assess', enforceAIBudget, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { original_query, response, customer_context } = req.body;
 
-    const qualityService = new QualityAssessmentService(new AIService(require('../server').anthropic));
+    const qualityService = new QualityAssessmentService(new AIService(createLLMProvider(anthropic)));
     const qualityMetrics = await qualityService.assessResponseQuality(
       original_query,
       response,
-      customer_context
+      customer_context,
+      { userId: req.user?.id, organizationId: req.user?.organization_id }
     );
 
     res.status(200).json({
@@ -215,12 +353,15 @@ router.post('/quality/assess', async (req: AuthenticatedRequest, res: Response):
 });
 
 // Detect escalation needs
-router.post('/escalation/detect', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+router.post('/escalation/detect', enforceAIBudget, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { query, customer_context } = req.body;
 
-    const qualityService = new QualityAssessmentService(new AIService(require('../server').anthropic));
-    const escalationAnalysis = await qualityService.detectEscalationNeeds(query, customer_context);
+    const qualityService = new QualityAssessmentService(new AIService(createLLMProvider(anthropic)));
+    const escalationAnalysis = await qualityService.detectEscalationNeeds(query, customer_context, {
+      userId: req.user?.id,
+      organizationId: req.user?.organization_id
+    });
 
     res.status(200).json({
       success: true,
@@ -263,13 +404,12 @@ router.get('/insights', async (req: AuthenticatedRequest, res: Response): Promis
   }
 });
 
-// Get active conversations for agent
+// Get active conversations for agent, and ones waiting in their team's handoff queue
 router.get('/conversations/active', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const agentId = req.user!.id;
 
-    const conversationService = new ConversationMemoryService();
-    const activeConversations = await conversationService.getActiveConversations(agentId);
+    const activeConversations = await conversationMemory.getActiveConversations(agentId, req.user!.team);
 
     res.status(200).json({
       success: true,
@@ -287,16 +427,68 @@ router.get('/conversations/active', async (req: AuthenticatedRequest, res: Respo
   }
 });
 
-// Search conversation history
-router.post('/conversations/search', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+// Active conversations in the supervisor's organization with their latest customer
+// sentiment; changes arrive over the live updates WebSocket
+router.get('/conversations/live', requireRole('supervisor'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const conversations = await liveConversations.listLiveConversations(req.user!.organization_id);
+
+    res.status(200).json({
+      success: true,
+      data: conversations,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get live conversations', LIVE_CONVERSATION_ERRORS);
+  }
+});
+
+// Stream a ZIP of the transcripts of closed conversations started in a date range,
+// optionally for one agent
+router.get('/conversations/export', requireRole('supervisor'), validateBulkTranscriptExport, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const format = (req.query.format as TranscriptFormat) || 'txt';
+    const conversationIds = await transcriptExport.findConversationsForExport({
+      from: req.query.from as string,
+      to: req.query.to as string,
+      agentId: req.query.agent_id as string | undefined
+    });
+
+    const day = (value: string) => new Date(value).toISOString().slice(0, 10);
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="transcripts_${day(req.query.from as string)}_${day(req.query.to as string)}.zip"`
+    );
+    res.status(200);
+
+    try {
+      const result = await transcriptExport.writeBulkExport(conversationIds, format, transcriptOptions(req), res);
+      res.end();
+
+      logger.info('Bulk transcript export completed', { ...result, format, requested_by: req.user!.id });
+    } catch (error) {
+      // Headers are already sent, so the download can only be cut short
+      logger.error('Bulk transcript export failed while streaming', { error });
+      res.destroy(error as Error);
+    }
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to export conversation transcripts', TRANSCRIPT_EXPORT_ERRORS);
+  }
+});
+
+// Search a customer's conversation history, archived turns included. Results are grouped
+// by conversation, with the best matching turns or summary and highlighted snippets.
+router.post('/conversations/search', validateConversationSearch, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
     const { customer_id, query, limit } = req.body;
 
-    const conversationService = new ConversationMemoryService();
-    const searchResults = await conversationService.searchConversationHistory(
+    const searchResults = await conversationMemory.searchConversationHistory(
       customer_id,
       query,
-      limit
+      limit ? parseInt(limit) : undefined
     );
 
     res.status(200).json({
@@ -315,24 +507,45 @@ router.post('/conversations/search', async (req: AuthenticatedRequest, res: Resp
   }
 });
 
-// Helper function to get customer info
-async function getCustomerInfo(customerId: string) {
+// Embed turns and summaries missing from the search index (all customers, or one)
+router.post('/conversations/reindex', requireRole('admin'), validateConversationReindex, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
   try {
-    const { data, error } = await supabase
-      .from('customers')
-      .select('*')
-      .eq('id', customerId)
-      .single();
-
-    if (error || !data) {
-      return null;
-    }
+    const result = await conversationSearch.reindex(req.body.customer_id);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Conversation search index updated',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
 
-    return data;
   } catch (error) {
-    logger.warn('Failed to get customer info', { error, customerId });
-    return null;
+    logger.error('Failed to reindex conversations', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Conversation reindex failed',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
   }
+});
+
+function transcriptOptions(req: AuthenticatedRequest): TranscriptOptions {
+  return {
+    redact: req.query.redact === 'true',
+    displayNames: req.query.names === 'true'
+  };
 }
 
+const TRANSCRIPT_EXPORT_ERRORS = [
+  errorStatus(TranscriptExportError, { not_found: 404, invalid: 422 })
+];
+
+const HANDOFF_ERRORS = [
+  errorStatus(HandoffError, { not_found: 404, conflict: 409, invalid: 422, forbidden: 403 })
+];
+
+const LIVE_CONVERSATION_ERRORS = [
+  errorStatus(LiveConversationError, { not_found: 404, forbidden: 403, conflict: 409 })
+];
+
 export default router;
\ No newline at end of file
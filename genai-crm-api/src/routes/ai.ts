@@ -1,62 +1,109 @@
 import { Router, Response } from 'express';
 import { anthropic, logger } from '../server';
-import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
-import { validateAIQuery, detectAndRedactPII } from '../middleware/validation';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateAIQuery, validateConfidenceCalibration, detectAndRedactPII, applyPIIPolicy } from '../middleware/validation';
+import { enforceAIBudget } from '../middleware/budget';
 import { APIResponse, AIQueryRequest } from '../types';
-import AIService from '../services/ai';
-import QualityAssessmentService from '../services/qualityAssessment';
-import ConversationMemoryService from '../services/conversationMemory';
+import AIService, { AIContext, AIResponse, AIRequestOwner, customerCacheTag } from '../services/ai';
+import QualityAssessmentService, { QualityMetrics } from '../services/qualityAssessment';
+import { conversationMemory, ConversationContext } from '../services/conversationMemory';
+import { conversationEvents } from '../services/conversationEvents';
 import AIAnalyticsService from '../services/aiAnalytics';
+import { customerService } from '../services/customers';
+import { createLLMProvider } from '../services/llmProvider';
+import { CircuitOpenError } from '../services/resilience';
+import { aiResponseCache } from '../services/responseCache';
+import { reviewQueueService } from '../services/reviewQueue';
+import { needsEscalationCheck } from '../services/structuredResponse';
+import { confidenceCalibrator } from '../services/confidenceCalibration';
 
 const router = Router();
 
 // Initialize services
-const aiService = new AIService(anthropic);
+const aiService = new AIService(createLLMProvider(anthropic));
 const qualityService = new QualityAssessmentService(aiService);
-const conversationService = new ConversationMemoryService();
 const analyticsService = new AIAnalyticsService();
 
-// Apply authentication to all AI routes
+// Apply authentication and the organization's PII policy to all AI routes
 router.use(authenticateToken);
+router.use(applyPIIPolicy);
 
-// Process AI query endpoint with enhanced context and quality assessment
+// Process AI query endpoint with enhanced context and quality assessment.
+// quality_assessment: 'async' (default) scores the reply after responding and stores the
+// metrics on the ai_responses row, 'sync' waits and returns them inline, 'none' skips it.
+// With conversation_id, the conversation's turns are used as history and the exchange,
+// including any tools the model called, is appended to it.
 router.post(
   '/query',
   detectAndRedactPII,
   validateAIQuery,
+  enforceAIBudget,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
-      const { query, context, customer_id }: AIQueryRequest = req.body;
+      const { query, context, customer_id, conversation_id, quality_assessment = 'async' }: AIQueryRequest = req.body;
       const userId = req.user!.id;
       
       logger.info('Processing enhanced AI query:', {
         user_id: userId,
         query_length: query.length,
         has_context: !!context,
-        customer_id
+        customer_id,
+        conversation_id
       });
 
+      const conversation = conversation_id ? await getCallerConversation(conversation_id, req.user!) : null;
+      if (conversation_id && !conversation) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
       // Build enhanced context
-      const aiContext = {
-        customer: customer_id ? await getCustomerInfo(customer_id) : undefined,
-        ...context
-      };
+      const aiContext = await buildQueryContext(customer_id, context, conversation);
 
       // Process query with AI service
-      const aiResponse = await aiService.processQuery(query, aiContext, userId);
+      const owner = { userId, organizationId: req.user?.organization_id };
+      const aiResponse = await aiService.processQuery(query, aiContext, userId, {
+        organizationId: owner.organizationId,
+        conversationId: conversation_id
+      });
+
+      if (conversation) {
+        await recordConversationTurns(conversation, query, aiResponse);
+      }
 
-      // Assess response quality
-      const qualityMetrics = await qualityService.assessResponseQuality(
-        query,
-        aiResponse.response,
-        aiContext
-      );
+      // Assess response quality in the language the reply was written in
+      const assessmentContext = { ...aiContext, language: aiResponse.language };
+      const canAssess = quality_assessment !== 'none' && !aiResponse.metadata?.fallback;
+      let qualityMetrics;
+
+      if (canAssess && quality_assessment === 'sync') {
+        qualityMetrics = await qualityService.assessResponseQuality(query, aiResponse.response, assessmentContext, owner);
+        if (aiResponse.id) {
+          const responseId = aiResponse.id;
+          await aiService.updateResponseMetadata(responseId, { quality_metrics: qualityMetrics });
+          flagForReview(query, aiResponse, aiContext, owner, qualityMetrics)
+            .catch(error => logger.error('Failed to flag AI response for review', { error, response_id: responseId }));
+        }
+      } else if (canAssess && aiResponse.id) {
+        const responseId = aiResponse.id;
+        qualityService.assessResponseQuality(query, aiResponse.response, assessmentContext, owner)
+          .then(async metrics => {
+            await aiService.updateResponseMetadata(responseId, { quality_metrics: metrics });
+            await flagForReview(query, aiResponse, aiContext, owner, metrics);
+          })
+          .catch(error => logger.error('Background quality assessment failed', { error, response_id: responseId }));
+      }
 
       res.status(200).json({
         success: true,
         data: {
           ...aiResponse,
-          quality_metrics: qualityMetrics
+          quality_metrics: qualityMetrics,
+          quality_assessment: canAssess ? (quality_assessment === 'sync' ? 'completed' : 'pending') : 'skipped'
         },
         timestamp: new Date().toISOString()
       } as APIResponse);
@@ -77,6 +124,114 @@ router.post(
   }
 );
 
+// Stream an AI query over Server-Sent Events.
+// Emits `token` events while the model is generating, then a single `done` event with
+// the analysis (confidence, intent, sentiment, suggestions) or an `error` event.
+router.post(
+  '/query/stream',
+  detectAndRedactPII,
+  validateAIQuery,
+  enforceAIBudget,
+  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const { query, context, customer_id, conversation_id }: AIQueryRequest = req.body;
+    const userId = req.user!.id;
+    const abortController = new AbortController();
+
+    const sendEvent = (event: string, data: Record<string, any>) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Client went away before we finished - cancel the upstream model call
+    res.on('close', () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    try {
+      // Looked up before the stream opens, so a missing conversation is still a plain 404
+      const conversation = conversation_id ? await getCallerConversation(conversation_id, req.user!) : null;
+      if (conversation_id && !conversation) {
+        res.status(404).json({
+          success: false,
+          error: 'Conversation not found',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+        return;
+      }
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no');
+      res.flushHeaders();
+
+      logger.info('Processing streaming AI query:', {
+        user_id: userId,
+        query_length: query.length,
+        has_context: !!context,
+        customer_id,
+        conversation_id
+      });
+
+      const aiContext = await buildQueryContext(customer_id, context, conversation);
+
+      const aiResponse = await aiService.streamQuery(query, aiContext, userId, {
+        organizationId: req.user?.organization_id,
+        conversationId: conversation_id,
+        signal: abortController.signal,
+        onToken: (text) => sendEvent('token', { text })
+      });
+
+      if (conversation) {
+        await recordConversationTurns(conversation, query, aiResponse);
+      }
+
+      sendEvent('done', {
+        id: aiResponse.id,
+        confidence_score: aiResponse.confidence_score,
+        intent: aiResponse.intent,
+        sentiment: aiResponse.sentiment,
+        language: aiResponse.language,
+        suggestions: aiResponse.suggestions,
+        processing_time_ms: aiResponse.processing_time_ms,
+        metadata: aiResponse.metadata
+      });
+
+    } catch (error: any) {
+      if (!res.headersSent) {
+        logger.error('Streaming AI query setup failed:', { user_id: userId, error: error.message });
+        res.status(500).json({
+          success: false,
+          error: 'AI processing failed',
+          message: 'Failed to process your query. Please try again.',
+          timestamp: new Date().toISOString()
+        } as APIResponse);
+      } else if (!abortController.signal.aborted) {
+        logger.error('Streaming AI query processing failed:', {
+          user_id: userId,
+          error: error.message
+        });
+
+        sendEvent('error', error instanceof CircuitOpenError
+          ? {
+              error: 'AI temporarily unavailable',
+              message: 'The AI service is recovering from errors. Please try again shortly.',
+              retry_after_ms: error.retryAfterMs
+            }
+          : {
+              error: 'AI processing failed',
+              message: 'Failed to process your query. Please try again.'
+            });
+      }
+    } finally {
+      res.end();
+    }
+  }
+);
+
 // Generate response suggestions for customer interactions
 router.post(
   '/suggestions',
@@ -97,6 +252,7 @@ router.post(
     },
     validateAIQuery[validateAIQuery.length - 1] // Add back the error handler
   ],
+  enforceAIBudget,
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     const startTime = Date.now();
 
@@ -122,21 +278,15 @@ Please provide 3 different response options:
 
 Format your response as a JSON array of objects with 'type' and 'text' fields.`;
 
-      const message = await anthropic.messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1500,
-        temperature: 0.8,
-        messages: [
-          {
-            role: 'user',
-            content: prompt
-          }
-        ]
-      });
-
-      const response = message.content[0].type === 'text' ? message.content[0].text : '';
+      const completion = await aiService.completePrompt('suggestions', prompt);
+      const response = completion.text;
       const processingTime = Date.now() - startTime;
 
+      await aiService.recordCompletion('suggestions', query, { ...completion, text: response }, processingTime, {
+        userId: req.user?.id,
+        organizationId: req.user?.organization_id
+      });
+
       // Try to parse JSON response, fallback to plain text
       let suggestions;
       try {
@@ -154,7 +304,8 @@ Format your response as a JSON array of objects with 'type' and 'text' fields.`;
         success: true,
         data: {
           suggestions,
-          processing_time_ms: processingTime
+          processing_time_ms: processingTime,
+          model: completion.model
         },
         timestamp: new Date().toISOString()
       } as APIResponse);
@@ -178,4 +329,175 @@ Format your response as a JSON array of objects with 'type' and 'text' fields.`;
   }
 );
 
+// Map a confidence score produced elsewhere (e.g. the dashboard's SOP processor) through
+// the fitted calibration curves, so callers don't have to trust a model's own number
+router.post('/confidence/calibrate', validateConfidenceCalibration, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { confidence, intent, model } = req.body;
+    const calibrated = await confidenceCalibrator.calibrate(Number(confidence), intent, model);
+
+    res.status(200).json({
+      success: true,
+      data: calibrated,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to calibrate confidence', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to calibrate confidence',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Response cache statistics (hit rate, size and backend)
+router.get('/cache/stats', requireRole('admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const stats = await aiResponseCache.getStats();
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to get AI cache stats', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI cache stats',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Drop cached responses for a customer, e.g. after their record has changed
+router.delete('/cache/customers/:customerId', requireRole('admin'), async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { customerId } = req.params;
+    const removed = await aiResponseCache.invalidateTag(customerCacheTag(customerId));
+
+    logger.info('AI cache invalidated for customer', {
+      customer_id: customerId,
+      removed,
+      user_id: req.user?.id
+    });
+
+    res.status(200).json({
+      success: true,
+      data: { customer_id: customerId, removed },
+      message: 'Cached responses removed',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to invalidate AI cache', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to invalidate AI cache',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// The conversation, if the caller owns it or it belongs to their organization. Anyone
+// else's conversation is reported as missing, so its history isn't read into the prompt
+// and the exchange isn't appended to it.
+async function getCallerConversation(
+  conversationId: string,
+  user: NonNullable<AuthenticatedRequest['user']>
+): Promise<ConversationContext | null> {
+  const conversation = await conversationMemory.getConversationContext(conversationId);
+  if (!conversation) {
+    return null;
+  }
+
+  const owned = conversation.agent_id === user.id;
+  const inOrganization = !!conversation.organization_id && conversation.organization_id === user.organization_id;
+  return owned || inOrganization ? conversation : null;
+}
+
+// An explicit customer_id takes precedence over the conversation's customer
+async function buildQueryContext(
+  customerId: string | undefined,
+  context: Record<string, any> | undefined,
+  conversation: ConversationContext | null
+) {
+  const resolvedCustomerId = customerId || conversation?.customer_id;
+
+  return {
+    customer: resolvedCustomerId ? await customerService.getCustomerById(resolvedCustomerId) : undefined,
+    conversationSummary: conversation?.structured_summary,
+    conversationHistory: conversation?.turns
+      .filter(turn => turn.role !== 'system')
+      .map(turn => ({ role: turn.role as 'user' | 'assistant', content: turn.content, timestamp: turn.timestamp })),
+    ...context
+  };
+}
+
+// Queues the response for human review when its quality score is low or the customer
+// needs escalating. Escalation rules are always evaluated; asking the model costs another
+// call, so it only happens when needsEscalationCheck says so.
+async function flagForReview(
+  query: string,
+  aiResponse: AIResponse,
+  aiContext: AIContext,
+  owner: AIRequestOwner,
+  quality: QualityMetrics
+): Promise<void> {
+  const escalation = await qualityService.detectEscalationNeeds(query, {
+    sentiment: aiResponse.sentiment,
+    interactionCount: aiContext.previousInteractions?.length,
+    customerTier: aiContext.customer?.metadata?.tier
+  }, owner, { useModel: needsEscalationCheck(aiResponse) });
+
+  await reviewQueueService.flagResponse(
+    {
+      id: aiResponse.id!,
+      query,
+      response: aiResponse.response,
+      userId: owner.userId,
+      customerId: aiContext.customer?.id
+    },
+    { quality, escalation }
+  );
+}
+
+// Appends the query and reply to the conversation. The assistant turn records the tools
+// the model called and what they returned, so agents can see how the answer was assembled.
+// The suggested replies go to live subscribers only; they aren't part of the conversation.
+async function recordConversationTurns(conversation: ConversationContext, query: string, aiResponse: AIResponse): Promise<void> {
+  const conversationId = conversation.conversation_id;
+
+  try {
+    await conversationMemory.addConversationTurn(conversationId, 'user', query, {
+      source: 'ai_query',
+      language: aiResponse.language
+    });
+    await conversationMemory.addConversationTurn(conversationId, 'assistant', aiResponse.response, {
+      ai_response_id: aiResponse.id,
+      intent: aiResponse.intent,
+      sentiment: aiResponse.sentiment,
+      language: aiResponse.language,
+      confidence_score: aiResponse.confidence_score,
+      tool_calls: aiResponse.metadata?.tool_calls || [],
+      fallback: !!aiResponse.metadata?.fallback
+    });
+
+    if (aiResponse.suggestions?.length) {
+      conversationEvents.publish({
+        type: 'suggestion',
+        conversation_id: conversationId,
+        organization_id: conversation.organization_id,
+        ai_response_id: aiResponse.id,
+        suggestions: aiResponse.suggestions
+      });
+    }
+  } catch (error) {
+    logger.error('Failed to record AI conversation turns', { error, conversation_id: conversationId });
+  }
+}
+
 export default router;
\ No newline at end of file
@@ -3,14 +3,14 @@ import { logger } from '../server';
 import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { APIResponse, PaginatedResponse } from '../types';
 import DashboardAnalyticsService from '../services/dashboardAnalytics';
-import MetricsCollectorService from '../services/metricsCollector';
+import { metricsCollector } from '../services/metricsCollector';
 import ReportingService from '../services/reportingService';
 
 const router = Router();
 
 // Initialize services
 const dashboardService = new DashboardAnalyticsService();
-const metricsService = new MetricsCollectorService();
+const metricsService = metricsCollector;
 const reportingService = new ReportingService();
 
 // Apply authentication to all enhanced analytics routes
@@ -0,0 +1,127 @@
+import { Router, Response } from 'express';
+import { logger } from '../server';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateBudgetUpdate } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { aiBudgetService, AIBudgetUpdate, BudgetScope } from '../services/aiBudgets';
+
+const router = Router();
+
+// Budget management is admin only
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+// List budgets with current month usage and remaining allowance
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const scopeType = req.query.scope_type as BudgetScope | undefined;
+
+    const budgets = await aiBudgetService.listBudgets(scopeType);
+    const statuses = await Promise.all(budgets.map(budget => aiBudgetService.getBudgetStatus(budget)));
+
+    res.status(200).json({
+      success: true,
+      data: statuses,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to list AI budgets', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list AI budgets',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Get a single budget with remaining allowance
+router.get('/:scopeType/:scopeId', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { scopeType, scopeId } = req.params;
+
+    const budget = await aiBudgetService.getBudget(scopeType as BudgetScope, scopeId);
+
+    if (!budget) {
+      res.status(404).json({
+        success: false,
+        error: 'Budget not found',
+        timestamp: new Date().toISOString()
+      } as APIResponse);
+      return;
+    }
+
+    const status = await aiBudgetService.getBudgetStatus(budget);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to get AI budget', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI budget',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Create or adjust a budget
+router.put('/:scopeType/:scopeId', validateBudgetUpdate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { scopeType, scopeId } = req.params;
+    const { monthly_token_limit, monthly_cost_limit_usd, soft_limit_percentage, enabled } = req.body;
+
+    const updates: AIBudgetUpdate = {};
+    if (monthly_token_limit !== undefined) updates.monthly_token_limit = monthly_token_limit;
+    if (monthly_cost_limit_usd !== undefined) updates.monthly_cost_limit_usd = monthly_cost_limit_usd;
+    if (soft_limit_percentage !== undefined) updates.soft_limit_percentage = soft_limit_percentage;
+    if (enabled !== undefined) updates.enabled = enabled;
+
+    const budget = await aiBudgetService.upsertBudget(scopeType as BudgetScope, scopeId, updates, req.user!.id);
+    const status = await aiBudgetService.getBudgetStatus(budget);
+
+    res.status(200).json({
+      success: true,
+      data: status,
+      message: 'Budget updated successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to update AI budget', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update AI budget',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Remove a budget
+router.delete('/:scopeType/:scopeId', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { scopeType, scopeId } = req.params;
+
+    await aiBudgetService.deleteBudget(scopeType as BudgetScope, scopeId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Budget deleted successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to delete AI budget', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete AI budget',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+export default router;
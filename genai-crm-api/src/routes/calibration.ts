@@ -0,0 +1,60 @@
+import { Router, Response } from 'express';
+import { logger } from '../server';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateCalibrationFit } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { confidenceCalibrator } from '../services/confidenceCalibration';
+
+const router = Router();
+
+// Calibration curves change every response's confidence score, so only admins manage them
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const curves = await confidenceCalibrator.listCurves();
+
+    res.status(200).json({
+      success: true,
+      data: curves,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to list confidence calibration curves', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list confidence calibration curves',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+// Refit the curves from outcomes between start_date and end_date (the last 90 days by default)
+router.post('/fit', validateCalibrationFit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const result = await confidenceCalibrator.fit({
+      startDate: req.body.start_date,
+      endDate: req.body.end_date,
+      fittedBy: req.user!.id
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+      message: `Fitted ${result.fitted.length} calibration curve(s) from ${result.labelled} labelled responses`,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    logger.error('Failed to fit confidence calibration', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fit confidence calibration',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+  }
+});
+
+export default router;
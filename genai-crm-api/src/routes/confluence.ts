@@ -1,11 +1,11 @@
 import { Router, Request, Response } from 'express'
 import { confluenceService } from '../services/confluence'
-import { validateAuth } from '../middleware/auth'
+import { authenticateToken } from '../middleware/auth'
 
 const router = Router()
 
 // Apply authentication middleware to all routes
-router.use(validateAuth)
+router.use(authenticateToken)
 
 // Get all Confluence spaces
 router.get('/spaces', async (req: Request, res: Response) => {
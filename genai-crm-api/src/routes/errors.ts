@@ -0,0 +1,54 @@
+import { Response } from 'express';
+import { logger } from '../server';
+import { APIResponse } from '../types';
+
+// Service errors that name what went wrong, e.g. ReviewQueueError with code 'not_found'
+export interface CodedError extends Error {
+  readonly code: string;
+}
+
+export interface ErrorStatusMapping<E extends CodedError> {
+  type: new (...args: any[]) => E;
+  status: Record<E['code'], number>;
+  // Extra response data, such as validation details
+  data?: (error: E) => any;
+}
+
+// Keeps the status map checked against the error's codes
+export function errorStatus<E extends CodedError>(
+  type: new (...args: any[]) => E,
+  status: Record<E['code'], number>,
+  data?: (error: E) => any
+): ErrorStatusMapping<E> {
+  return { type, status, data };
+}
+
+// Errors listed in mappings are expected (a missing record, a conflicting change) and are
+// answered with their own status and message. Anything else is logged and answered with a
+// 500 carrying only the given message.
+export function sendRouteError(
+  res: Response,
+  error: unknown,
+  message: string,
+  mappings: ErrorStatusMapping<any>[]
+): void {
+  const mapping = mappings.find(candidate => error instanceof candidate.type);
+
+  if (mapping) {
+    const known = error as CodedError;
+    res.status(mapping.status[known.code]).json({
+      success: false,
+      error: known.message,
+      data: mapping.data ? mapping.data(known) : undefined,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+    return;
+  }
+
+  logger.error(message, { error });
+  res.status(500).json({
+    success: false,
+    error: message,
+    timestamp: new Date().toISOString()
+  } as APIResponse);
+}
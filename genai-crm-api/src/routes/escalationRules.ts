@@ -0,0 +1,138 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateEscalationRuleCreate,
+  validateEscalationRuleId,
+  validateEscalationRuleUpdate,
+  validateEscalationRuleTest
+} from '../middleware/validation';
+import { APIResponse } from '../types';
+import { escalationRuleService, EscalationRuleError, EscalationRuleInput } from '../services/escalationRules';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+// All rules in evaluation order, disabled ones included
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rules = await escalationRuleService.listRules();
+
+    res.status(200).json({
+      success: true,
+      data: rules,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list escalation rules', ESCALATION_RULE_ERRORS);
+  }
+});
+
+// Evaluate the stored rules, or the draft rules in the body, against a sample query
+// and customer context without calling the model
+router.post('/test', validateEscalationRuleTest, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const evaluation = await escalationRuleService.test(
+      { query: req.body.query, ...(req.body.customer_context || {}) },
+      req.body.rules?.map(pickEscalationRuleInput)
+    );
+
+    res.status(200).json({
+      success: true,
+      data: evaluation,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to test escalation rules', ESCALATION_RULE_ERRORS);
+  }
+});
+
+router.get('/:id', validateEscalationRuleId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await escalationRuleService.getRule(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: rule,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get escalation rule', ESCALATION_RULE_ERRORS);
+  }
+});
+
+router.post('/', validateEscalationRuleCreate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await escalationRuleService.createRule(pickEscalationRuleInput(req.body), req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: rule,
+      message: 'Escalation rule created',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to create escalation rule', ESCALATION_RULE_ERRORS);
+  }
+});
+
+router.patch('/:id', validateEscalationRuleUpdate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await escalationRuleService.updateRule(req.params.id, pickEscalationRuleInput(req.body));
+
+    res.status(200).json({
+      success: true,
+      data: rule,
+      message: 'Escalation rule updated',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to update escalation rule', ESCALATION_RULE_ERRORS);
+  }
+});
+
+router.delete('/:id', validateEscalationRuleId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await escalationRuleService.deleteRule(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Escalation rule deleted',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete escalation rule', ESCALATION_RULE_ERRORS);
+  }
+});
+
+function pickEscalationRuleInput(body: any): EscalationRuleInput {
+  const { name, description, enabled, priority, conditions, match, escalation_level, urgency, mode, suggested_action } = body;
+  const input: EscalationRuleInput = {
+    name, description, enabled, priority, conditions, match, escalation_level, urgency, mode, suggested_action
+  };
+
+  // Leave out fields that weren't sent so updates don't clear them
+  (Object.keys(input) as Array<keyof EscalationRuleInput>).forEach(key => {
+    if (input[key] === undefined) delete input[key];
+  });
+
+  if (input.conditions) {
+    input.conditions = input.conditions.map(({ field, operator, value }) => ({ field, operator, value }));
+  }
+
+  return input;
+}
+
+const ESCALATION_RULE_ERRORS = [
+  errorStatus(EscalationRuleError, { not_found: 404, conflict: 409, invalid: 422 })
+];
+
+export default router;
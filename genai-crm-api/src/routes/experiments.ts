@@ -0,0 +1,141 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateExperimentCreate, validateExperimentUpdate, validateExperimentId } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { experimentService, ExperimentError, ExperimentStatus, AIExperimentInput } from '../services/experiments';
+import { AIAnalyticsService } from '../services/aiAnalytics';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+const analyticsService = new AIAnalyticsService();
+
+// Experiment management is admin only
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const experiments = await experimentService.listExperiments(req.query.status as ExperimentStatus | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: experiments,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list AI experiments', EXPERIMENT_ERRORS);
+  }
+});
+
+// Create a draft experiment
+router.post('/', validateExperimentCreate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const experiment = await experimentService.createExperiment(pickExperimentInput(req.body), req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: experiment,
+      message: 'Experiment created successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to create AI experiment', EXPERIMENT_ERRORS);
+  }
+});
+
+router.get('/:id', validateExperimentId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const experiment = await experimentService.getExperiment(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: experiment,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get AI experiment', EXPERIMENT_ERRORS);
+  }
+});
+
+router.patch('/:id', validateExperimentUpdate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const experiment = await experimentService.updateExperiment(req.params.id, pickExperimentInput(req.body));
+
+    res.status(200).json({
+      success: true,
+      data: experiment,
+      message: 'Experiment updated successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to update AI experiment', EXPERIMENT_ERRORS);
+  }
+});
+
+// Start, pause or complete an experiment
+router.post('/:id/:action(start|pause|complete)', validateExperimentId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { id, action } = req.params;
+
+    const experiment = action === 'start'
+      ? await experimentService.startExperiment(id)
+      : action === 'pause'
+        ? await experimentService.pauseExperiment(id)
+        : await experimentService.completeExperiment(id);
+
+    res.status(200).json({
+      success: true,
+      data: experiment,
+      message: `Experiment ${experiment.status}`,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to change AI experiment status', EXPERIMENT_ERRORS);
+  }
+});
+
+// Per-variant confidence, quality, feedback and cost, with a significance test on the primary metric
+router.get('/:id/results', validateExperimentId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const experiment = await experimentService.getExperiment(req.params.id);
+    const results = await analyticsService.getExperimentResults(experiment);
+
+    res.status(200).json({
+      success: true,
+      data: results,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get AI experiment results', EXPERIMENT_ERRORS);
+  }
+});
+
+function pickExperimentInput(body: any): AIExperimentInput {
+  const { name, description, assignment_unit, variants, primary_metric, traffic_percentage } = body;
+  const input: AIExperimentInput = { name, description, assignment_unit, variants, primary_metric, traffic_percentage };
+
+  // Leave out fields that weren't sent so updates don't clear them
+  (Object.keys(input) as Array<keyof AIExperimentInput>).forEach(key => {
+    if (input[key] === undefined) delete input[key];
+  });
+
+  if (input.variants) {
+    input.variants = input.variants.map(({ key, weight, template_version, model, description }) => ({
+      key, weight: Number(weight), template_version, model, description
+    }));
+  }
+
+  return input;
+}
+
+const EXPERIMENT_ERRORS = [
+  errorStatus(ExperimentError, { not_found: 404, conflict: 409, invalid: 422 })
+];
+
+export default router;
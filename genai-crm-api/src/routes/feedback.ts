@@ -0,0 +1,86 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateFeedbackSubmit, validateFeedbackList, validateSOPAccuracyQuery } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { responseFeedbackService, FeedbackError, FeedbackRating } from '../services/responseFeedback';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Rate an AI answer: a stored response by response_id, or an answer the dashboard
+// generated itself (response plus the sop_sources it cited)
+router.post('/', validateFeedbackSubmit, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const feedback = await responseFeedbackService.submitFeedback({
+      response_id: req.body.response_id,
+      rating: req.body.rating,
+      reason: req.body.reason,
+      corrected_response: req.body.corrected_response,
+      wrong_sop_urls: req.body.wrong_sop_urls,
+      sop_sources: req.body.sop_sources,
+      query: req.body.query,
+      response: req.body.response,
+      ticket_id: req.body.ticket_id
+    }, req.user!.id);
+
+    res.status(201).json({
+      success: true,
+      data: feedback,
+      message: 'Feedback recorded',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to record feedback', FEEDBACK_ERRORS);
+  }
+});
+
+// Recent feedback, newest first (optional rating, sop_url, agent_id, since, limit)
+router.get('/', requireRole('supervisor'), validateFeedbackList, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const feedback = await responseFeedbackService.listFeedback({
+      rating: req.query.rating as FeedbackRating | undefined,
+      sopUrl: req.query.sop_url as string | undefined,
+      agentId: req.query.agent_id as string | undefined,
+      since: req.query.since as string | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: feedback,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list feedback', FEEDBACK_ERRORS);
+  }
+});
+
+// Per-SOP accuracy of the answers citing each document, worst first
+router.get('/sops', requireRole('supervisor'), validateSOPAccuracyQuery, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const startDate = req.query.start_date as string || new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString();
+    const endDate = req.query.end_date as string || new Date().toISOString();
+    const minRatings = req.query.min_ratings ? parseInt(req.query.min_ratings as string) : undefined;
+
+    const accuracy = await responseFeedbackService.getSOPAccuracy(startDate, endDate, minRatings);
+
+    res.status(200).json({
+      success: true,
+      data: accuracy,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get SOP accuracy', FEEDBACK_ERRORS);
+  }
+});
+
+const FEEDBACK_ERRORS = [
+  errorStatus(FeedbackError, { not_found: 404, invalid: 422 })
+];
+
+export default router;
@@ -0,0 +1,50 @@
+import { Router, Response } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { validateNotificationList, validateNotificationId } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { notificationService, NotificationError } from '../services/notifications';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// The caller's notifications and their team's, newest first
+router.get('/', validateNotificationList, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const notifications = await notificationService.listForAgent(req.user!.id, req.user!.team, {
+      unreadOnly: req.query.unread === 'true',
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: notifications,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list notifications', NOTIFICATION_ERRORS);
+  }
+});
+
+router.post('/:id/read', validateNotificationId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const notification = await notificationService.markRead(req.params.id, req.user!.id, req.user!.team);
+
+    res.status(200).json({
+      success: true,
+      data: notification,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to mark notification read', NOTIFICATION_ERRORS);
+  }
+});
+
+const NOTIFICATION_ERRORS = [
+  errorStatus(NotificationError, { not_found: 404 })
+];
+
+export default router;
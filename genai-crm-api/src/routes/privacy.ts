@@ -0,0 +1,258 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateRetentionPolicyUpdate,
+  validateRetentionPolicyId,
+  validateCustomerErasure,
+  validateErasureReceiptList,
+  validateErasureReceiptId,
+  validatePIIPolicyUpdate,
+  validatePIIPolicyId,
+  validatePIIDetection
+} from '../middleware/validation';
+import { APIResponse } from '../types';
+import { dataRetention, RetentionError, RetentionPolicyInput } from '../services/dataRetention';
+import { dataErasure, ErasureError } from '../services/dataErasure';
+import { piiPolicies, PIIPolicyError, PIIPolicyInput } from '../services/piiPolicies';
+import { detectPII } from '../services/piiDetectors';
+import { getPIIRedactionStats, redactPII } from '../services/piiRedaction';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+// Retention, erasure and PII policies are admin only
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+router.get('/retention/policies', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const policies = await dataRetention.listPolicies();
+
+    res.status(200).json({
+      success: true,
+      data: policies,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list retention policies', PRIVACY_ERRORS);
+  }
+});
+
+// Create or adjust an organization's policy; "*" is the default policy
+router.put('/retention/policies/:organizationId', validateRetentionPolicyUpdate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { turn_retention_days, keep_summaries, ai_log_retention_days, enabled } = req.body;
+
+    const input: RetentionPolicyInput = {};
+    if (turn_retention_days !== undefined) input.turn_retention_days = turn_retention_days;
+    if (keep_summaries !== undefined) input.keep_summaries = keep_summaries;
+    if (ai_log_retention_days !== undefined) input.ai_log_retention_days = ai_log_retention_days;
+    if (enabled !== undefined) input.enabled = enabled;
+
+    const policy = await dataRetention.savePolicy(req.params.organizationId, input, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: policy,
+      message: 'Retention policy saved',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to save retention policy', PRIVACY_ERRORS);
+  }
+});
+
+router.delete('/retention/policies/:organizationId', validateRetentionPolicyId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await dataRetention.deletePolicy(req.params.organizationId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Retention policy deleted; the organization now follows the default policy',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete retention policy', PRIVACY_ERRORS);
+  }
+});
+
+// Apply the policies now instead of waiting for the schedule
+router.post('/retention/purge', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const run = await dataRetention.runPurge(req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: run,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Retention purge failed', PRIVACY_ERRORS);
+  }
+});
+
+router.get('/retention/runs', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const runs = await dataRetention.listRuns();
+
+    res.status(200).json({
+      success: true,
+      data: runs,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list retention purge runs', PRIVACY_ERRORS);
+  }
+});
+
+// Right to erasure: removes or anonymizes the customer everywhere and returns the receipt
+router.post('/customers/:id/erase', validateCustomerErasure, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const receipt = await dataErasure.eraseCustomer(
+      req.params.id,
+      {
+        mode: req.body.mode || 'delete',
+        reason: req.body.reason,
+        request_reference: req.body.request_reference
+      },
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      data: receipt,
+      message: 'Customer data erased',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Customer erasure failed', PRIVACY_ERRORS);
+  }
+});
+
+router.get('/erasure-receipts', validateErasureReceiptList, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const receipts = await dataErasure.listReceipts(req.query.customer_id as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: receipts,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list erasure receipts', PRIVACY_ERRORS);
+  }
+});
+
+// A receipt with `verified` telling whether it still matches its hash
+router.get('/erasure-receipts/:id', validateErasureReceiptId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const receipt = await dataErasure.getReceipt(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: receipt,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get erasure receipt', PRIVACY_ERRORS);
+  }
+});
+
+router.get('/pii/policies', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const policies = await piiPolicies.listPolicies();
+
+    res.status(200).json({
+      success: true,
+      data: policies,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list PII policies', PRIVACY_ERRORS);
+  }
+});
+
+// Create or adjust an organization's PII policy; "*" is the default policy
+router.put('/pii/policies/:organizationId', validatePIIPolicyUpdate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { enabled, mode, detectors } = req.body;
+
+    const input: PIIPolicyInput = {};
+    if (enabled !== undefined) input.enabled = enabled;
+    if (mode !== undefined) input.mode = mode;
+    if (detectors !== undefined) input.detectors = detectors;
+
+    const policy = await piiPolicies.savePolicy(req.params.organizationId, input, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: policy,
+      message: 'PII policy saved',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to save PII policy', PRIVACY_ERRORS);
+  }
+});
+
+router.delete('/pii/policies/:organizationId', validatePIIPolicyId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await piiPolicies.deletePolicy(req.params.organizationId);
+
+    res.status(200).json({
+      success: true,
+      message: 'PII policy deleted; the organization now follows the default policy',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete PII policy', PRIVACY_ERRORS);
+  }
+});
+
+// Redactions by surface and type since this process started, so security can check
+// that requests, prompts, model output, logs and exports are all covered
+router.get('/pii/metrics', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  res.status(200).json({
+    success: true,
+    data: getPIIRedactionStats(),
+    timestamp: new Date().toISOString()
+  } as APIResponse);
+});
+
+// Dry run of the detectors on sample text, for checking a policy before saving it
+router.post('/pii/detect', validatePIIDetection, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { text, detectors } = req.body;
+
+    res.status(200).json({
+      success: true,
+      data: {
+        matches: detectPII(text, detectors),
+        redacted: redactPII(text, detectors)
+      },
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'PII detection failed', PRIVACY_ERRORS);
+  }
+});
+
+const PRIVACY_ERRORS = [
+  errorStatus(RetentionError, { not_found: 404, invalid: 422, conflict: 409 }),
+  errorStatus(ErasureError, { not_found: 404 }),
+  errorStatus(PIIPolicyError, { not_found: 404, invalid: 422 })
+];
+
+export default router;
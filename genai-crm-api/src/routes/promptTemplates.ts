@@ -0,0 +1,148 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import { validateTemplateVersion, validateTemplateVersionCreate, validateTemplateRollback } from '../middleware/validation';
+import { APIResponse } from '../types';
+import { promptTemplateRegistry, PromptTemplateError } from '../services/promptTemplateRegistry';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+// Prompt template management is admin only
+router.use(authenticateToken);
+router.use(requireRole('admin'));
+
+// List templates with their published and latest versions
+router.get('/', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const templates = await promptTemplateRegistry.listTemplates();
+
+    res.status(200).json({
+      success: true,
+      data: templates,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list prompt templates', TEMPLATE_ERRORS);
+  }
+});
+
+// Built-in template, the version currently in use and the version history
+router.get('/:name', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { name } = req.params;
+
+    const builtin = promptTemplateRegistry.getBuiltin(name);
+    const [active, versions] = await Promise.all([
+      promptTemplateRegistry.resolve(name),
+      promptTemplateRegistry.getVersions(name)
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: { builtin, active: active.ref, versions },
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get prompt template', TEMPLATE_ERRORS);
+  }
+});
+
+router.get('/:name/versions/:version', validateTemplateVersion, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const version = await promptTemplateRegistry.getVersion(req.params.name, parseInt(req.params.version));
+
+    res.status(200).json({
+      success: true,
+      data: version,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get prompt template version', TEMPLATE_ERRORS);
+  }
+});
+
+// Create a new draft version
+router.post('/:name/versions', validateTemplateVersionCreate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const { template, description, variables, change_note } = req.body;
+
+    const version = await promptTemplateRegistry.createVersion(
+      req.params.name,
+      { template, description, variables, change_note },
+      req.user!.id
+    );
+    const validation = promptTemplateRegistry.validate(version.name, { template: version.template, variables: version.variables });
+
+    res.status(201).json({
+      success: true,
+      data: { ...version, validation },
+      message: 'Draft created successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to create prompt template version', TEMPLATE_ERRORS);
+  }
+});
+
+// Validate a version and make it the one used for new prompts
+router.post('/:name/versions/:version/publish', validateTemplateVersion, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const version = await promptTemplateRegistry.publish(req.params.name, parseInt(req.params.version), req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: version,
+      message: 'Template published successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to publish prompt template', TEMPLATE_ERRORS);
+  }
+});
+
+// Go back to the previously published version, or to `version` when given
+router.post('/:name/rollback', validateTemplateRollback, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const toVersion = req.body.version !== undefined ? parseInt(req.body.version) : undefined;
+    const active = await promptTemplateRegistry.rollback(req.params.name, req.user!.id, toVersion);
+
+    res.status(200).json({
+      success: true,
+      data: active,
+      message: `Template rolled back to ${active.source === 'builtin' ? 'the built-in version' : `version ${active.version}`}`,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to roll back prompt template', TEMPLATE_ERRORS);
+  }
+});
+
+// Delete an unpublished draft
+router.delete('/:name/versions/:version', validateTemplateVersion, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    await promptTemplateRegistry.deleteDraft(req.params.name, parseInt(req.params.version));
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft deleted successfully',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to delete prompt template draft', TEMPLATE_ERRORS);
+  }
+});
+
+const TEMPLATE_ERRORS = [
+  errorStatus(PromptTemplateError, { not_found: 404, conflict: 409, invalid: 422 }, error =>
+    error.details ? { errors: error.details } : undefined
+  )
+];
+
+export default router;
@@ -0,0 +1,171 @@
+import { Router, Response } from 'express';
+import { authenticateToken, requireRole, AuthenticatedRequest } from '../middleware/auth';
+import {
+  validateReviewList,
+  validateReviewItemId,
+  validateReviewAssign,
+  validateReviewDecision,
+  validateReviewComment
+} from '../middleware/validation';
+import { APIResponse } from '../types';
+import {
+  reviewQueueService,
+  ReviewQueueError,
+  ReviewDecision,
+  ReviewReason,
+  ReviewStatus
+} from '../services/reviewQueue';
+import { errorStatus, sendRouteError } from './errors';
+
+const router = Router();
+
+// The review queue is worked by supervisors (admins pass requireRole too)
+router.use(authenticateToken);
+router.use(requireRole('supervisor'));
+
+// Open items by default, soonest SLA deadline first.
+// ?status=pending,in_review  ?assigned_to=me|<user id>|none  ?reason=low_quality|escalation
+router.get('/', validateReviewList, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const assignedTo = req.query.assigned_to as string | undefined;
+
+    const items = await reviewQueueService.listItems({
+      status: req.query.status ? (req.query.status as string).split(',') as ReviewStatus[] : undefined,
+      assignedTo: assignedTo === 'me' ? req.user!.id : assignedTo !== 'none' ? assignedTo : undefined,
+      unassigned: assignedTo === 'none',
+      reason: req.query.reason as ReviewReason | undefined,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined
+    });
+
+    res.status(200).json({
+      success: true,
+      data: items,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list review items', REVIEW_ERRORS);
+  }
+});
+
+// Queue counts and SLA breaches
+router.get('/stats', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const stats = await reviewQueueService.getStats();
+
+    res.status(200).json({
+      success: true,
+      data: stats,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get review queue stats', REVIEW_ERRORS);
+  }
+});
+
+// Reviewer-corrected answers, for building evaluation datasets
+router.get('/corrections', async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const corrections = await reviewQueueService.listCorrections(req.query.since as string | undefined);
+
+    res.status(200).json({
+      success: true,
+      data: corrections,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to list review corrections', REVIEW_ERRORS);
+  }
+});
+
+router.get('/:id', validateReviewItemId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const item = await reviewQueueService.getItem(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: item,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to get review item', REVIEW_ERRORS);
+  }
+});
+
+// Assign to assignee_id, or to the caller when it is left out
+router.post('/:id/assign', validateReviewAssign, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const item = await reviewQueueService.assignItem(req.params.id, req.body.assignee_id || req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: item,
+      message: 'Review item assigned',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to assign review item', REVIEW_ERRORS);
+  }
+});
+
+router.post('/:id/unassign', validateReviewItemId, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const item = await reviewQueueService.unassignItem(req.params.id);
+
+    res.status(200).json({
+      success: true,
+      data: item,
+      message: 'Review item returned to the queue',
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to unassign review item', REVIEW_ERRORS);
+  }
+});
+
+// Approve, edit (with corrected_response) or reject (with comment) an item
+router.post('/:id/:decision(approve|edit|reject)', validateReviewDecision, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const decision = req.params.decision as ReviewDecision;
+    const item = await reviewQueueService.resolveItem(req.params.id, decision, req.user!.id, {
+      correctedResponse: req.body.corrected_response,
+      comment: req.body.comment
+    });
+
+    res.status(200).json({
+      success: true,
+      data: item,
+      message: `Review item ${item.status}`,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to resolve review item', REVIEW_ERRORS);
+  }
+});
+
+router.post('/:id/comments', validateReviewComment, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const comment = await reviewQueueService.addComment(req.params.id, req.user!.id, req.body.body);
+
+    res.status(201).json({
+      success: true,
+      data: comment,
+      timestamp: new Date().toISOString()
+    } as APIResponse);
+
+  } catch (error) {
+    sendRouteError(res, error, 'Failed to add review comment', REVIEW_ERRORS);
+  }
+});
+
+const REVIEW_ERRORS = [
+  errorStatus(ReviewQueueError, { not_found: 404, conflict: 409, invalid: 422 })
+];
+
+export default router;
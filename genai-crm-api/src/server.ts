@@ -4,32 +4,7 @@ import helmet from 'helmet';
 import compression from 'compression';
 import morgan from 'morgan';
 import rateLimit from 'express-rate-limit';
-import dotenv from 'dotenv';
-import { createClient } from '@supabase/supabase-js';
-import Anthropic from '@anthropic-ai/sdk';
-import winston from 'winston';
-
-// Load environment variables
-dotenv.config();
-
-// Initialize logger
-const logger = winston.createLogger({
-  level: process.env.LOG_LEVEL || 'info',
-  format: winston.format.combine(
-    winston.format.timestamp(),
-    winston.format.errors({ stack: true }),
-    winston.format.json()
-  ),
-  defaultMeta: { service: 'genai-crm-api' },
-  transports: [
-    new winston.transports.Console({
-      format: winston.format.combine(
-        winston.format.colorize(),
-        winston.format.simple()
-      )
-    })
-  ]
-});
+import { logger, supabase, supabaseAdmin, anthropic } from './clients';
 
 // Initialize Express app
 const app = express();
@@ -73,24 +48,18 @@ app.use(morgan('combined', { stream: { write: (message) => logger.info(message.t
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_ANON_KEY!
-);
-
-// Initialize Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY!
-});
-
 // Health check endpoint
 app.get('/health', (req, res) => {
+  const aiCircuit = llmCircuitBreaker.getSnapshot();
+
   res.status(200).json({
-    status: 'healthy',
+    status: aiCircuit.state === 'closed' ? 'healthy' : 'degraded',
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '1.0.0',
-    environment: process.env.NODE_ENV || 'development'
+    environment: process.env.NODE_ENV || 'development',
+    services: {
+      ai_provider: aiCircuit
+    }
   });
 });
 
@@ -98,17 +67,38 @@ app.get('/health', (req, res) => {
 import authRoutes from './routes/auth';
 import aiRoutes from './routes/ai';
 import aiEnhancedRoutes from './routes/ai-enhanced';
+import budgetRoutes from './routes/budgets';
+import promptTemplateRoutes from './routes/promptTemplates';
+import experimentRoutes from './routes/experiments';
+import reviewRoutes from './routes/reviews';
+import calibrationRoutes from './routes/calibration';
+import feedbackRoutes from './routes/feedback';
+import escalationRuleRoutes from './routes/escalationRules';
 import analyticsRoutes from './routes/analytics';
 import analyticsEnhancedRoutes from './routes/analytics-enhanced';
 import confluenceRoutes from './routes/confluence';
+import notificationRoutes from './routes/notifications';
+import privacyRoutes from './routes/privacy';
+import { llmCircuitBreaker } from './services/resilience';
+import { dataRetention } from './services/dataRetention';
+import { liveConversations } from './services/liveConversations';
 
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/ai', aiRoutes);
 app.use('/api/ai/enhanced', aiEnhancedRoutes);
+app.use('/api/ai/budgets', budgetRoutes);
+app.use('/api/ai/templates', promptTemplateRoutes);
+app.use('/api/ai/experiments', experimentRoutes);
+app.use('/api/ai/reviews', reviewRoutes);
+app.use('/api/ai/calibration', calibrationRoutes);
+app.use('/api/ai/feedback', feedbackRoutes);
+app.use('/api/ai/escalation-rules', escalationRuleRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/analytics/enhanced', analyticsEnhancedRoutes);
 app.use('/api/confluence', confluenceRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/privacy', privacyRoutes);
 
 // Error handling middleware
 app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
@@ -146,11 +136,16 @@ process.on('SIGINT', () => {
   process.exit(0);
 });
 
-// Start server
-app.listen(PORT, () => {
-  logger.info(`🚀 GenAI CRM API server running on port ${PORT}`);
-  logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
-  logger.info(`🔗 Health check: http://localhost:${PORT}/health`);
-});
+// Start server, unless imported by a script such as the evaluation CLI
+if (require.main === module) {
+  const server = app.listen(PORT, () => {
+    logger.info(`🚀 GenAI CRM API server running on port ${PORT}`);
+    logger.info(`📊 Environment: ${process.env.NODE_ENV || 'development'}`);
+    logger.info(`🔗 Health check: http://localhost:${PORT}/health`);
+  });
+
+  liveConversations.attach(server);
+  dataRetention.startSchedule();
+}
 
-export { app, supabase, anthropic, logger };
\ No newline at end of file
+export { app, supabase, supabaseAdmin, anthropic, logger };
\ No newline at end of file
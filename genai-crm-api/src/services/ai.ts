@@ -1,6 +1,19 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { createHash } from 'crypto';
 import { supabase, logger } from '../server';
 import { confluenceService, ConfluencePage } from './confluence';
+import { LLMProvider, LLMCompletion, LLMMessage, LLMRequest, LLMContentBlock, AIUseCase, ModelConfig, getModelConfig } from './llmProvider';
+import { UsageCost, emptyUsage, addUsage } from './aiPricing';
+import { CircuitOpenError, TimeoutError } from './resilience';
+import { parseStructuredQueryResponse, JSONStringFieldExtractor, STRUCTURED_RESPONSE_INSTRUCTIONS, INTENTS } from './structuredResponse';
+import { aiResponseCache, AI_CACHE_TTL_MS } from './responseCache';
+import { getToolDefinitions, executeToolCall, ToolCallRecord, ToolExecutionContext, AI_TOOLS_ENABLED, AI_MAX_TOOL_ROUNDS } from './aiTools';
+import { customerService } from './customers';
+import { LanguageCode, DEFAULT_LANGUAGE, detectLanguage, isSupportedLanguage, replyLanguageInstruction, toEnglishLabel, getFallbackMessage } from './language';
+import { promptTemplateRegistry, ResolvedTemplate, RenderedPrompt, TemplateRef, QUERY_PROMPT_TEMPLATE } from './promptTemplateRegistry';
+import { experimentService, ExperimentAssignment } from './experiments';
+import { confidenceCalibrator } from './confidenceCalibration';
+import { ConversationSummary } from './conversationMemory';
+import { piiPolicies, PIIPolicy } from './piiPolicies';
 import { AIQueryRequest, Customer, Interaction } from '../types';
 
 export interface AIContext {
@@ -11,11 +24,16 @@ export interface AIContext {
     content: string;
     timestamp: string;
   }>;
+  // Covers the turns before conversationHistory, including archived ones
+  conversationSummary?: ConversationSummary;
   relevantSOPs?: ConfluencePage[];
+  // Language to reply in; detected from the query when not given
+  language?: LanguageCode;
   metadata?: Record<string, any>;
 }
 
 export interface AIResponse {
+  id?: string;
   response: string;
   confidence_score: number;
   processing_time_ms: number;
@@ -26,118 +44,281 @@ export interface AIResponse {
   }>;
   intent?: string;
   sentiment?: 'positive' | 'neutral' | 'negative';
+  language?: LanguageCode;
+  usage?: UsageCost;
   metadata?: Record<string, any>;
 }
 
+// A Confluence SOP an answer was based on
+export interface SOPSource {
+  id?: string;
+  title: string;
+  url: string;
+  version?: number | string;
+}
+
+export interface ProcessQueryOptions {
+  organizationId?: string;
+  // Used for experiments assigned per conversation
+  conversationId?: string;
+}
+
+export interface StreamQueryOptions extends ProcessQueryOptions {
+  onToken: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface AIRequestOwner {
+  userId?: string;
+  customerId?: string;
+  organizationId?: string;
+}
+
+// Template, model and experiment variant chosen for one query before the model is called
+interface QueryPlan {
+  template: ResolvedTemplate;
+  modelConfig: ModelConfig;
+  experiment: ExperimentAssignment | null;
+  cacheKey: string;
+}
+
+// Everything the model produced for one query, across tool rounds
+interface QueryRun {
+  completion: LLMCompletion;
+  prompt: string;
+  template: TemplateRef;
+  usage: UsageCost;
+  modelCalls: number;
+  modelTime: number;
+  toolTime: number;
+  toolCalls: ToolCallRecord[];
+}
+
+export const customerCacheTag = (customerId: string) => `customer:${customerId}`;
+
+// How many of the retrieved SOPs are put in the query prompt
+const PROMPT_SOP_LIMIT = 2;
+
 export class AIService {
-  private anthropic: Anthropic;
-  private responseCache = new Map<string, { response: AIResponse; timestamp: number }>();
-  private cacheTimeout = 5 * 60 * 1000; // 5 minutes
+  private provider: LLMProvider;
 
-  constructor(anthropic: Anthropic) {
-    this.anthropic = anthropic;
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  // Single-prompt completion using the configured model for the given use case.
+  // When a usage total is passed, the call's tokens and cost are added to it.
+  async completePrompt(useCase: AIUseCase, prompt: string, usage?: UsageCost): Promise<LLMCompletion> {
+    const completion = await this.provider.complete({
+      ...getModelConfig(useCase),
+      useCase,
+      messages: [{ role: 'user', content: prompt }]
+    });
+
+    if (usage) {
+      addUsage(usage, completion.model, completion.usage);
+    }
+
+    return completion;
+  }
+
+  // Persists a standalone AI call (suggestions, quality checks) so its tokens and
+  // cost show up alongside query responses in analytics.
+  async recordCompletion(
+    useCase: AIUseCase,
+    query: string,
+    completion: LLMCompletion,
+    processingTimeMs: number,
+    owner: AIRequestOwner = {},
+    metadata: Record<string, any> = {}
+  ): Promise<void> {
+    const usage = addUsage(emptyUsage(), completion.model, completion.usage);
+
+    try {
+      await supabase
+        .from('ai_responses')
+        .insert({
+          user_id: owner.userId,
+          customer_id: owner.customerId,
+          organization_id: owner.organizationId,
+          query: query.slice(0, 2000),
+          response: completion.text.slice(0, 5000) || '[empty]',
+          processing_time_ms: processingTimeMs,
+          model_version: completion.model,
+          input_tokens: usage.input_tokens,
+          output_tokens: usage.output_tokens,
+          cost_usd: usage.cost_usd,
+          metadata: {
+            use_case: useCase,
+            provider: completion.provider,
+            ...metadata
+          }
+        });
+    } catch (error) {
+      logger.error('Failed to record AI completion usage', { error, useCase });
+    }
+  }
+
+  // A cache hit is recorded as a response of its own, so feedback and reviews attach to
+  // this request rather than the one that filled the cache. It used no tokens, so budgets
+  // aren't charged twice.
+  private async serveCachedResponse(
+    cached: AIResponse,
+    query: string,
+    context: AIContext,
+    userId: string,
+    startTime: number,
+    options: ProcessQueryOptions
+  ): Promise<AIResponse> {
+    const response: AIResponse = {
+      ...cached,
+      processing_time_ms: Date.now() - startTime,
+      usage: emptyUsage(),
+      metadata: { ...cached.metadata, cache_hit: true, cached_response_id: cached.id }
+    };
+
+    response.id = await this.storeAIResponse(userId, query, response, context.customer?.id, options.organizationId, options.conversationId);
+    return response;
   }
 
   async processQuery(
     query: string,
     context: AIContext = {},
-    userId: string
+    userId: string,
+    options: ProcessQueryOptions = {}
   ): Promise<AIResponse> {
     const startTime = Date.now();
     
     try {
       // Check cache first
-      const cacheKey = this.generateCacheKey(query, context);
-      const cached = this.getCachedResponse(cacheKey);
+      const plan = await this.planQuery(query, context, userId, options);
+      const cached = await this.getCachedResponse(plan.cacheKey);
       if (cached) {
         logger.info('AI query served from cache', { userId, query_length: query.length });
-        return cached;
+        return await this.serveCachedResponse(cached, query, context, userId, startTime, options);
       }
 
       // Build enhanced context
       const enhancedContext = await this.buildEnhancedContext(context, query);
       
       // Generate prompt
-      const prompt = this.buildPrompt(query, enhancedContext);
+      const prompt = this.buildPrompt(query, enhancedContext, plan.template);
       
-      // Call Anthropic API
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1500,
-        temperature: 0.7,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      // Call the configured LLM provider, running any tools it asks for
+      const run = await this.runQueryModel(
+        prompt,
+        plan.modelConfig,
+        { userId, customerId: context.customer?.id, organizationId: options.organizationId, conversationId: options.conversationId },
+        (request) => this.provider.complete(request)
+      );
 
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : '';
+      return await this.finalizeResponse(query, run, plan, enhancedContext, context, userId, startTime, options);
 
-      // Analyze response
-      const analysis = await this.analyzeResponse(query, responseText, enhancedContext);
+    } catch (error: any) {
+      const processingTime = Date.now() - startTime;
       
-      const response: AIResponse = {
-        response: responseText,
-        confidence_score: analysis.confidence,
-        processing_time_ms: Date.now() - startTime,
-        suggestions: await this.generateSuggestions(query, enhancedContext),
-        intent: analysis.intent,
-        sentiment: analysis.sentiment,
-        metadata: {
-          model: 'claude-3-sonnet-20240229',
-          prompt_length: prompt.length,
-          has_context: Object.keys(enhancedContext).length > 0
+      logger.error('AI query processing failed', {
+        userId,
+        error: error.message,
+        processing_time: processingTime
+      });
+
+      // Return fallback response
+      return this.getFallbackResponse(query, processingTime, error, this.resolveLanguage(query, context));
+    }
+  }
+
+  // Same pipeline as processQuery, but the reply text is forwarded to onToken as the
+  // model produces it. Aborting the signal cancels the upstream provider request.
+  async streamQuery(
+    query: string,
+    context: AIContext = {},
+    userId: string,
+    options: StreamQueryOptions
+  ): Promise<AIResponse> {
+    const startTime = Date.now();
+
+    try {
+      const plan = await this.planQuery(query, context, userId, options);
+      const cached = await this.getCachedResponse(plan.cacheKey);
+      if (cached) {
+        logger.info('AI stream query served from cache', { userId, query_length: query.length });
+        const response = await this.serveCachedResponse(cached, query, context, userId, startTime, options);
+        options.onToken(response.response);
+        return response;
+      }
+
+      const enhancedContext = await this.buildEnhancedContext(context, query);
+      const prompt = this.buildPrompt(query, enhancedContext, plan.template);
+
+      if (options.signal?.aborted) {
+        throw new Error('AI stream query aborted by client');
+      }
+
+      // The model streams a JSON object; only the "response" field is forwarded to the client.
+      // Tool rounds carry no such field, so nothing is forwarded until the model answers.
+      let streamedLength = 0;
+
+      const forward = (text: string) => {
+        if (text) {
+          streamedLength += text.length;
+          options.onToken(text);
         }
       };
 
-      // Cache response
-      this.cacheResponse(cacheKey, response);
+      const run = await this.runQueryModel(
+        prompt,
+        plan.modelConfig,
+        { userId, customerId: context.customer?.id, organizationId: options.organizationId, conversationId: options.conversationId },
+        (request) => {
+          const extractor = new JSONStringFieldExtractor('response');
+          return this.provider.stream({ ...request, signal: options.signal }, (delta) => {
+            const text = extractor.push(delta);
+            if (text) {
+              forward(text);
+            }
+          });
+        }
+      );
 
-      // Store in database
-      await this.storeAIResponse(userId, query, response, context.customer?.id);
+      const response = await this.finalizeResponse(query, run, plan, enhancedContext, context, userId, startTime, options);
 
-      logger.info('AI query processed successfully', {
-        userId,
-        processing_time: response.processing_time_ms,
-        confidence: response.confidence_score,
-        intent: response.intent
-      });
+      // Model ignored the JSON format, so nothing was extracted while streaming
+      if (streamedLength === 0) {
+        options.onToken(response.response);
+      }
 
       return response;
 
     } catch (error: any) {
       const processingTime = Date.now() - startTime;
-      
-      logger.error('AI query processing failed', {
-        userId,
-        error: error.message,
-        processing_time: processingTime
-      });
 
-      // Return fallback response
-      return this.getFallbackResponse(query, processingTime);
+      if (options.signal?.aborted) {
+        logger.info('AI stream query aborted by client', { userId, processing_time: processingTime });
+      } else {
+        logger.error('AI stream query processing failed', {
+          userId,
+          error: error.message,
+          processing_time: processingTime
+        });
+      }
+
+      throw error;
     }
   }
 
   async generateSuggestions(
     query: string,
-    context: AIContext
+    context: AIContext,
+    usage?: UsageCost
   ): Promise<Array<{ type: 'direct' | 'detailed' | 'empathetic'; text: string; confidence: number }>> {
     try {
       const prompt = this.buildSuggestionsPrompt(query, context);
       
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-sonnet-20240229',
-        max_tokens: 1000,
-        temperature: 0.8,
-        messages: [{ role: 'user', content: prompt }]
-      });
-
-      const responseText = message.content[0].type === 'text' 
-        ? message.content[0].text 
-        : '';
+      const completion = await this.completePrompt('suggestions', prompt, usage);
 
       // Parse suggestions from response
-      return this.parseSuggestions(responseText);
+      return this.parseSuggestions(completion.text);
 
     } catch (error) {
       logger.warn('Failed to generate suggestions', { error });
@@ -145,13 +326,13 @@ export class AIService {
     }
   }
 
-  async analyzeIntent(query: string): Promise<string> {
+  async analyzeIntent(query: string, usage?: UsageCost): Promise<string> {
     try {
       const prompt = `Analyze the following customer query and identify the primary intent. 
       
 Customer Query: "${query}"
 
-Classify the intent as one of:
+The query may be written in English, Spanish, German or Portuguese. Always answer with one of these English categories:
 - question (asking for information)
 - complaint (expressing dissatisfaction)
 - request (asking for action)
@@ -162,19 +343,10 @@ Classify the intent as one of:
 
 Respond with just the intent category.`;
 
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-haiku-20240307', // Faster model for classification
-        max_tokens: 50,
-        temperature: 0.1,
-        messages: [{ role: 'user', content: prompt }]
-      });
+      const completion = await this.completePrompt('intent', prompt, usage);
+      const intent = toEnglishLabel(completion.text) || 'general';
 
-      const intent = message.content[0].type === 'text' 
-        ? message.content[0].text.trim().toLowerCase()
-        : 'general';
-
-      return ['question', 'complaint', 'request', 'compliment', 'technical_support', 'billing', 'general']
-        .includes(intent) ? intent : 'general';
+      return (INTENTS as readonly string[]).includes(intent) ? intent : 'general';
 
     } catch (error) {
       logger.warn('Intent analysis failed', { error });
@@ -182,24 +354,16 @@ Respond with just the intent category.`;
     }
   }
 
-  async analyzeSentiment(text: string): Promise<'positive' | 'neutral' | 'negative'> {
+  async analyzeSentiment(text: string, usage?: UsageCost): Promise<'positive' | 'neutral' | 'negative'> {
     try {
       const prompt = `Analyze the sentiment of the following text:
 
 "${text}"
 
-Respond with only: positive, neutral, or negative`;
+The text may be in any language. Respond with only the English word: positive, neutral, or negative`;
 
-      const message = await this.anthropic.messages.create({
-        model: 'claude-3-haiku-20240307',
-        max_tokens: 20,
-        temperature: 0.1,
-        messages: [{ role: 'user', content: prompt }]
-      });
-
-      const sentiment = message.content[0].type === 'text' 
-        ? message.content[0].text.trim().toLowerCase()
-        : 'neutral';
+      const completion = await this.completePrompt('sentiment', prompt, usage);
+      const sentiment = toEnglishLabel(completion.text) || 'neutral';
 
       return ['positive', 'neutral', 'negative'].includes(sentiment) 
         ? sentiment as 'positive' | 'neutral' | 'negative'
@@ -211,20 +375,172 @@ Respond with only: positive, neutral, or negative`;
     }
   }
 
+  // Lets the model call CRM lookup tools before it answers. Requested tools run in parallel
+  // and their results are sent back; after AI_MAX_TOOL_ROUNDS rounds the model must answer.
+  private async runQueryModel(
+    prompt: RenderedPrompt,
+    modelConfig: ModelConfig,
+    toolContext: ToolExecutionContext,
+    call: (request: LLMRequest) => Promise<LLMCompletion>
+  ): Promise<QueryRun> {
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt.text }];
+    const tools = AI_TOOLS_ENABLED ? getToolDefinitions() : undefined;
+    const usage = emptyUsage();
+    const toolCalls: ToolCallRecord[] = [];
+    let modelCalls = 0;
+    let modelTime = 0;
+    let toolTime = 0;
+    let toolRounds = 0;
+    let limitReached = false;
+
+    while (true) {
+      const modelStart = Date.now();
+      const completion = await call({ ...modelConfig, useCase: 'query', messages, tools });
+      modelTime += Date.now() - modelStart;
+      modelCalls++;
+      addUsage(usage, completion.model, completion.usage);
+
+      if (completion.toolCalls.length === 0 || limitReached) {
+        return { completion, prompt: prompt.text, template: prompt.template, usage, modelCalls, modelTime, toolTime, toolCalls };
+      }
+
+      const assistantContent: LLMContentBlock[] = completion.text
+        ? [{ type: 'text', text: completion.text }, ...completion.toolCalls]
+        : [...completion.toolCalls];
+      messages.push({ role: 'assistant', content: assistantContent });
+
+      limitReached = toolRounds >= AI_MAX_TOOL_ROUNDS;
+      let results: LLMContentBlock[];
+
+      if (limitReached) {
+        logger.warn('AI tool round limit reached', { user_id: toolContext.userId, rounds: toolRounds });
+        results = completion.toolCalls.map(toolCall => ({
+          type: 'tool_result' as const,
+          tool_use_id: toolCall.id,
+          content: 'Tool call limit reached. Answer with the information gathered so far.',
+          is_error: true
+        }));
+      } else {
+        toolRounds++;
+        const toolStart = Date.now();
+        const executed = await Promise.all(completion.toolCalls.map(toolCall => executeToolCall(toolCall, toolContext)));
+        toolTime += Date.now() - toolStart;
+
+        toolCalls.push(...executed.map(e => e.record));
+        results = executed.map(e => e.result);
+      }
+
+      messages.push({ role: 'user', content: results });
+    }
+  }
+
+  private async finalizeResponse(
+    query: string,
+    run: QueryRun,
+    plan: QueryPlan,
+    enhancedContext: AIContext,
+    context: AIContext,
+    userId: string,
+    startTime: number,
+    options: ProcessQueryOptions
+  ): Promise<AIResponse> {
+    const { completion, prompt, usage } = run;
+    const structured = parseStructuredQueryResponse(completion.text);
+    let analysis: Pick<AIResponse, 'response' | 'intent' | 'sentiment' | 'suggestions'>;
+    let modelCalls = run.modelCalls;
+    let modelTime = run.modelTime;
+
+    if (structured) {
+      analysis = structured;
+    } else {
+      // Model didn't return valid JSON: keep its text as the reply and fall back to separate calls
+      logger.warn('Structured AI response failed validation, using separate analysis calls', {
+        userId,
+        response_length: completion.text.length
+      });
+
+      const fallbackStart = Date.now();
+      const [intent, sentiment, suggestions] = await Promise.all([
+        this.analyzeIntent(query, usage),
+        this.analyzeSentiment(query, usage),
+        this.generateSuggestions(query, enhancedContext, usage)
+      ]);
+      modelTime += Date.now() - fallbackStart;
+      modelCalls += 3;
+
+      analysis = { response: completion.text.trim(), intent, sentiment, suggestions };
+    }
+
+    // The heuristic score is mapped onto the accuracy seen for similar responses
+    const calibration = await confidenceCalibrator.calibrate(
+      this.calculateConfidence(analysis.response),
+      analysis.intent,
+      completion.model
+    );
+
+    const processingTime = Date.now() - startTime;
+
+    const response: AIResponse = {
+      response: analysis.response,
+      confidence_score: calibration.confidence,
+      processing_time_ms: processingTime,
+      suggestions: analysis.suggestions,
+      intent: analysis.intent,
+      sentiment: analysis.sentiment,
+      language: enhancedContext.language,
+      usage,
+      metadata: {
+        model: completion.model,
+        provider: completion.provider,
+        prompt_length: prompt.length,
+        template: run.template,
+        ...(plan.experiment && {
+          experiment: { id: plan.experiment.experiment_id, name: plan.experiment.experiment_name, variant: plan.experiment.variant }
+        }),
+        raw_confidence: calibration.raw_confidence,
+        ...(calibration.segment && { calibration: calibration.segment }),
+        has_context: Object.keys(enhancedContext).length > 0,
+        pipeline: structured ? 'structured' : 'structured_fallback',
+        tool_calls: run.toolCalls,
+        // Which documents feedback on this answer should count against
+        sop_sources: this.collectSOPSources(enhancedContext, run.toolCalls),
+        latency: {
+          model_calls: modelCalls,
+          model_time_ms: modelTime,
+          tool_time_ms: run.toolTime,
+          total_time_ms: processingTime
+        }
+      }
+    };
+
+    // Store in database
+    response.id = await this.storeAIResponse(userId, query, response, context.customer?.id, options.organizationId, options.conversationId);
+
+    // Cache response
+    await this.cacheResponse(plan.cacheKey, response, context.customer?.id);
+
+    logger.info('AI query processed successfully', {
+      userId,
+      processing_time: response.processing_time_ms,
+      confidence: response.confidence_score,
+      intent: response.intent,
+      cost_usd: usage.cost_usd
+    });
+
+    return response;
+  }
+
   private async buildEnhancedContext(context: AIContext, query?: string): Promise<AIContext> {
     const enhanced = { ...context };
 
+    if (query) {
+      enhanced.language = this.resolveLanguage(query, context);
+    }
+
     // Fetch customer history if customer ID provided
     if (context.customer?.id) {
       try {
-        const { data: interactions } = await supabase
-          .from('interactions')
-          .select('*')
-          .eq('customer_id', context.customer.id)
-          .order('created_at', { ascending: false })
-          .limit(5);
-
-        enhanced.previousInteractions = interactions || [];
+        enhanced.previousInteractions = await customerService.getRecentInteractions(context.customer.id, 5);
       } catch (error) {
         logger.warn('Failed to fetch customer interactions', { error });
       }
@@ -245,55 +561,72 @@ Respond with only: positive, neutral, or negative`;
     return enhanced;
   }
 
-  private buildPrompt(query: string, context: AIContext): string {
-    let prompt = `You are an expert customer service AI assistant. Your goal is to provide helpful, professional, and empathetic responses to customer inquiries.
-
-Customer Query: "${query}"`;
+  // Applies the running experiment's variant, if this agent or conversation is enrolled
+  private async planQuery(query: string, context: AIContext, userId: string, options: ProcessQueryOptions): Promise<QueryPlan> {
+    const experiment = await experimentService.getAssignment(userId, options.conversationId);
+    const modelConfig = { ...getModelConfig('query'), ...(experiment?.model && { model: experiment.model }) };
+    let template: ResolvedTemplate | null = null;
 
-    if (context.customer) {
-      prompt += `\n\nCustomer Information:
-- Name: ${context.customer.name}
-- Email: ${context.customer.email}
-- Company: ${context.customer.company || 'N/A'}`;
+    if (experiment && experiment.template_version !== undefined && experiment.template_version !== null) {
+      try {
+        template = await promptTemplateRegistry.resolveVersion(QUERY_PROMPT_TEMPLATE, experiment.template_version);
+      } catch (error) {
+        logger.warn('Experiment template version unavailable, using published template', {
+          error,
+          experiment_id: experiment.experiment_id,
+          variant: experiment.variant
+        });
+      }
     }
 
-    if (context.previousInteractions && context.previousInteractions.length > 0) {
-      prompt += `\n\nRecent Interaction History:`;
-      context.previousInteractions.slice(0, 3).forEach((interaction, index) => {
-        prompt += `\n${index + 1}. ${interaction.type}: ${interaction.content.slice(0, 100)}${interaction.content.length > 100 ? '...' : ''}`;
-      });
+    if (!template) {
+      template = await promptTemplateRegistry.resolve(QUERY_PROMPT_TEMPLATE);
     }
 
-    if (context.conversationHistory && context.conversationHistory.length > 0) {
-      prompt += `\n\nConversation History:`;
-      context.conversationHistory.slice(-3).forEach((msg) => {
-        prompt += `\n${msg.role}: ${msg.content}`;
-      });
-    }
+    const piiPolicy = await piiPolicies.getEffectivePolicy(options.organizationId);
 
-    if (context.relevantSOPs && context.relevantSOPs.length > 0) {
-      prompt += `\n\nRelevant Company SOPs and Procedures:`;
-      context.relevantSOPs.slice(0, 2).forEach((sop, index) => {
-        prompt += `\n\n${index + 1}. ${sop.title}`;
-        prompt += `\nURL: ${sop.url}`;
-        // Include first 300 characters of content for context
-        const content = sop.content.slice(0, 300);
-        prompt += `\nContent: ${content}${sop.content.length > 300 ? '...' : ''}`;
-      });
-      prompt += `\n\nPlease reference these SOPs when relevant and provide the URL for further reading.`;
+    return {
+      template,
+      modelConfig,
+      experiment,
+      cacheKey: this.generateCacheKey(query, context, template.ref, modelConfig.model, options.organizationId, piiPolicy)
+    };
+  }
+
+  // SOPs placed in the prompt plus any the model looked up with the search_sops tool
+  private collectSOPSources(context: AIContext, toolCalls: ToolCallRecord[]): SOPSource[] {
+    const sources = new Map<string, SOPSource>();
+
+    for (const page of context.relevantSOPs?.slice(0, PROMPT_SOP_LIMIT) || []) {
+      sources.set(page.url, { id: page.id, title: page.title, url: page.url, version: page.version });
     }
 
-    prompt += `\n\nProvide a helpful, professional response that:
-1. Addresses the customer's specific query
-2. Takes into account their history and context
-3. References relevant SOPs and procedures when applicable
-4. Maintains a friendly and empathetic tone
-5. Offers clear next steps when appropriate
-6. Includes SOP URLs when referencing procedures
+    for (const call of toolCalls) {
+      if (call.name !== 'search_sops' || !Array.isArray(call.output)) {
+        continue;
+      }
+      for (const page of call.output) {
+        if (page?.url && !sources.has(page.url)) {
+          sources.set(page.url, { id: page.id, title: page.title, url: page.url });
+        }
+      }
+    }
 
-Response:`;
+    return Array.from(sources.values());
+  }
 
-    return prompt;
+  private buildPrompt(query: string, context: AIContext, template: ResolvedTemplate): RenderedPrompt {
+    return promptTemplateRegistry.renderResolved(template, {
+      query,
+      customer: context.customer,
+      previousInteractions: context.previousInteractions?.slice(0, 3) || [],
+      conversationSummary: context.conversationSummary,
+      conversationHistory: context.conversationHistory?.slice(-3) || [],
+      relevantSOPs: context.relevantSOPs?.slice(0, PROMPT_SOP_LIMIT) || [],
+      toolsEnabled: AI_TOOLS_ENABLED,
+      languageInstruction: replyLanguageInstruction(context.language || DEFAULT_LANGUAGE),
+      responseFormat: STRUCTURED_RESPONSE_INSTRUCTIONS
+    });
   }
 
   private buildSuggestionsPrompt(query: string, context: AIContext): string {
@@ -303,6 +636,8 @@ Customer Query: "${query}"
 
 ${context.customer ? `Customer: ${context.customer.name} (${context.customer.company})` : ''}
 
+${replyLanguageInstruction(context.language || DEFAULT_LANGUAGE)}
+
 Provide 3 response options:
 1. DIRECT: A brief, to-the-point response
 2. DETAILED: A comprehensive, thorough response
@@ -316,33 +651,21 @@ Format as JSON array:
 ]`;
   }
 
-  private async analyzeResponse(
-    query: string, 
-    response: string, 
-    context: AIContext
-  ): Promise<{ confidence: number; intent: string; sentiment: string }> {
+  private calculateConfidence(response: string): number {
     // Calculate confidence based on response quality
     let confidence = 0.7; // Base confidence
     
     // Increase confidence if response is detailed
     if (response.length > 100) confidence += 0.1;
     if (response.includes('?')) confidence += 0.05; // Asks clarifying questions
-    if (response.toLowerCase().includes('sorry') || response.toLowerCase().includes('apologize')) {
+    if (/sorry|apologi[sz]e|lo siento|disculp|lamento|entschuldig|tut mir leid|desculp|sinto muito/.test(response.toLowerCase())) {
       confidence += 0.05; // Shows empathy
     }
     
     // Decrease confidence for very short responses
     if (response.length < 50) confidence -= 0.15;
     
-    confidence = Math.min(0.95, Math.max(0.3, confidence));
-
-    // Analyze intent and sentiment in parallel
-    const [intent, sentiment] = await Promise.all([
-      this.analyzeIntent(query),
-      this.analyzeSentiment(query)
-    ]);
-
-    return { confidence, intent, sentiment };
+    return Math.min(0.95, Math.max(0.3, confidence));
   }
 
   private parseSuggestions(responseText: string): Array<{ type: 'direct' | 'detailed' | 'empathetic'; text: string; confidence: number }> {
@@ -387,64 +710,154 @@ Format as JSON array:
     userId: string,
     query: string,
     response: AIResponse,
-    customerId?: string
-  ): Promise<void> {
+    customerId?: string,
+    organizationId?: string,
+    conversationId?: string
+  ): Promise<string | undefined> {
     try {
-      await supabase
+      const { data, error } = await supabase
         .from('ai_responses')
         .insert({
           user_id: userId,
           customer_id: customerId,
+          organization_id: organizationId,
           query,
           response: response.response,
           confidence_score: response.confidence_score,
           processing_time_ms: response.processing_time_ms,
+          model_version: response.metadata?.model,
+          language: response.language,
+          input_tokens: response.usage?.input_tokens || 0,
+          output_tokens: response.usage?.output_tokens || 0,
+          cost_usd: response.usage?.cost_usd || 0,
           metadata: {
+            use_case: 'query',
             intent: response.intent,
             sentiment: response.sentiment,
             suggestions_count: response.suggestions?.length || 0,
+            // Lets the conversation's resolution count as this response's outcome
+            ...(conversationId && { conversation_id: conversationId }),
             ...response.metadata
           }
-        });
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      return data?.id;
     } catch (error) {
       logger.error('Failed to store AI response', { error });
+      return undefined;
+    }
+  }
+
+  // Merges fields into a stored response's metadata, e.g. quality metrics computed after the reply was sent
+  async updateResponseMetadata(responseId: string, updates: Record<string, any>): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('ai_responses')
+        .select('metadata')
+        .eq('id', responseId)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      await supabase
+        .from('ai_responses')
+        .update({ metadata: { ...(data?.metadata || {}), ...updates } })
+        .eq('id', responseId);
+    } catch (error) {
+      logger.error('Failed to update AI response metadata', { error, responseId });
     }
   }
 
-  private generateCacheKey(query: string, context: AIContext): string {
-    const contextKey = JSON.stringify({
+  private generateCacheKey(
+    query: string,
+    context: AIContext,
+    template: TemplateRef,
+    model: string,
+    organizationId: string | undefined,
+    piiPolicy: PIIPolicy
+  ): string {
+    const keyMaterial = JSON.stringify({
+      query: query.toLowerCase().trim(),
+      // Answers never cross tenants, or PII policies: a reply redacted under one
+      // organization's detectors isn't safe to show under another's
+      organizationId: organizationId || null,
+      pii: piiPolicy.enabled ? `${piiPolicy.mode}:${[...(piiPolicy.detectors || ['all'])].sort().join(',')}` : 'off',
       customerId: context.customer?.id,
-      hasHistory: !!context.previousInteractions?.length
+      hasHistory: !!context.previousInteractions?.length,
+      // buildPrompt includes the last three conversation messages
+      conversation: context.conversationHistory?.slice(-3).map(msg => `${msg.role}:${msg.content}`),
+      conversationSummary: context.conversationSummary?.generated_at,
+      language: context.language,
+      model,
+      // A newly published template version must not reuse answers from the previous one
+      template: `${template.name}@${template.version}:${template.checksum}`
     });
-    return `${query.toLowerCase().trim()}_${contextKey}`;
+    return `query:${createHash('sha256').update(keyMaterial).digest('hex')}`;
   }
 
-  private getCachedResponse(key: string): AIResponse | null {
-    const cached = this.responseCache.get(key);
-    if (cached && Date.now() - cached.timestamp < this.cacheTimeout) {
-      return cached.response;
-    }
-    if (cached) {
-      this.responseCache.delete(key);
-    }
-    return null;
+  private async getCachedResponse(key: string): Promise<AIResponse | null> {
+    return aiResponseCache.get(key);
   }
 
-  private cacheResponse(key: string, response: AIResponse): void {
-    this.responseCache.set(key, {
-      response,
-      timestamp: Date.now()
+  // Tool outputs hold customer records, so the cached copy keeps only which tools ran
+  private async cacheResponse(key: string, response: AIResponse, customerId?: string): Promise<void> {
+    const toolCalls: ToolCallRecord[] | undefined = response.metadata?.tool_calls;
+    const cacheable: AIResponse = {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        tool_calls: toolCalls?.map(call => ({ id: call.id, name: call.name, duration_ms: call.duration_ms }))
+      }
+    };
+
+    await aiResponseCache.set(key, cacheable, {
+      ttlMs: AI_CACHE_TTL_MS,
+      tags: customerId ? [customerCacheTag(customerId)] : []
     });
   }
 
-  private getFallbackResponse(query: string, processingTime: number): AIResponse {
+  // An explicit language wins; otherwise detect it from the query, adding the customer's recent
+  // messages when the query alone is too short to tell (e.g. "gracias")
+  private resolveLanguage(query: string, context: AIContext): LanguageCode {
+    if (isSupportedLanguage(context.language)) {
+      return context.language;
+    }
+
+    const detection = detectLanguage(query);
+    if (detection.reliable || !context.conversationHistory?.length) {
+      return detection.language;
+    }
+
+    const recentCustomerText = context.conversationHistory
+      .filter(msg => msg.role === 'user')
+      .slice(-3)
+      .map(msg => msg.content)
+      .join(' ');
+    return detectLanguage(`${query} ${recentCustomerText}`).language;
+  }
+
+  private getFallbackResponse(query: string, processingTime: number, error?: any, language: LanguageCode = DEFAULT_LANGUAGE): AIResponse {
+    let reason = 'error';
+    if (error instanceof CircuitOpenError) reason = 'circuit_open';
+    else if (error instanceof TimeoutError) reason = 'timeout';
+    else if (error?.status === 429 || error?.status === 529) reason = 'rate_limited';
+
     return {
-      response: "I'm sorry, I'm experiencing some technical difficulties right now. Please try again in a moment, or feel free to contact our support team directly for immediate assistance.",
+      response: getFallbackMessage(language),
       confidence_score: 0.3,
       processing_time_ms: processingTime,
       intent: 'general',
       sentiment: 'neutral',
-      metadata: { fallback: true }
+      language,
+      metadata: { fallback: true, fallback_reason: reason }
     };
   }
 }
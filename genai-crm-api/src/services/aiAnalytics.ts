@@ -1,4 +1,8 @@
 import { supabase, logger } from '../server';
+import { AIExperiment, ExperimentMetric } from './experiments';
+import { SampleSummary, SignificanceTest, summarize, welchTTest, twoProportionZTest } from './statistics';
+import { confidenceCalibrator, CalibrationReport } from './confidenceCalibration';
+import { responseFeedbackService, FeedbackSummary } from './responseFeedback';
 
 export interface AIPerformanceMetrics {
   total_queries: number;
@@ -19,6 +23,24 @@ export interface AIPerformanceMetrics {
     fair: number;      // 5-6
     poor: number;      // <5
   };
+  cost: AICostBreakdown;
+  // Compares the single structured call against rows from the older multi-call pipeline
+  latency_by_pipeline: Array<{ pipeline: string; queries: number; avg_processing_time: number; avg_model_calls: number | null }>;
+  // Reliability diagrams of confidence against feedback, review and resolution outcomes
+  calibration: CalibrationReport;
+  // Agent ratings from ai_response_feedback, including answers generated by the dashboard
+  feedback: FeedbackSummary;
+}
+
+export interface AICostBreakdown {
+  total_cost_usd: number;
+  cost_per_query: number;
+  total_input_tokens: number;
+  total_output_tokens: number;
+  by_use_case: Array<{ use_case: string; calls: number; cost_usd: number }>;
+  by_agent: Array<{ user_id: string; queries: number; cost_usd: number }>;
+  by_customer: Array<{ customer_id: string; queries: number; cost_usd: number }>;
+  by_day: Array<{ date: string; queries: number; cost_usd: number }>;
 }
 
 export interface AIUsageAnalytics {
@@ -42,11 +64,60 @@ export interface ModelPerformanceComparison {
   total_queries: number;
   avg_processing_time: number;
   avg_confidence: number;
-  user_satisfaction: number;
+  user_satisfaction: number | null; // % of rated answers agents marked accurate; null without ratings
+  total_input_tokens: number;
+  total_output_tokens: number;
+  total_cost_usd: number;
   cost_per_query: number;
   error_rate: number;
 }
 
+export interface ExperimentVariantStats {
+  variant: string;
+  queries: number;
+  avg_processing_time: number;
+  confidence: SampleSummary;
+  // From QualityAssessmentService; only responses that have been assessed
+  quality_score: SampleSummary;
+  // Agent ratings stored in metadata.agent_feedback
+  feedback: { rated: number; accurate: number; accuracy_rate: number | null };
+  cost: SampleSummary & { total_cost_usd: number };
+}
+
+export interface ExperimentComparison {
+  variant: string;
+  baseline: string;
+  metric: ExperimentMetric;
+  baseline_value: number | null;
+  variant_value: number | null;
+  difference: number | null;
+  // Null until both variants have enough data for the test
+  significance: SignificanceTest | null;
+  significant: boolean;
+}
+
+export interface ExperimentResults {
+  experiment: AIExperiment;
+  significance_level: number;
+  variants: ExperimentVariantStats[];
+  // Each variant against the first (baseline) variant on the experiment's primary metric
+  comparisons: ExperimentComparison[];
+}
+
+// Raw per-response values for one experiment variant
+interface VariantSamples {
+  queries: number;
+  processingTime: number;
+  confidence: number[];
+  quality: number[];
+  cost: number[];
+  rated: number;
+  accurate: number;
+}
+
+// Two-sided significance level for experiment comparisons
+const EXPERIMENT_SIGNIFICANCE_LEVEL = 0.05;
+
 export class AIAnalyticsService {
   async getPerformanceMetrics(
     startDate: string,
@@ -64,16 +135,19 @@ export class AIAnalyticsService {
         query = query.eq('user_id', userId);
       }
 
-      const { data: responses, error } = await query;
+      const { data: rows, error } = await query;
 
       if (error) {
         throw error;
       }
 
-      const totalQueries = responses?.length || 0;
+      // Suggestions and quality checks are stored for cost accounting only
+      const responses = (rows || []).filter(r => this.isQueryResponse(r));
+      const totalQueries = responses.length;
+      const feedback = await responseFeedbackService.getSummary(startDate, endDate, userId);
       
       if (totalQueries === 0) {
-        return this.getEmptyMetrics();
+        return { ...this.getEmptyMetrics(), cost: this.calculateCostBreakdown(rows || [], 0), feedback };
       }
 
       // Calculate metrics
@@ -132,7 +206,11 @@ export class AIAnalyticsService {
         cache_hit_rate: cacheHitRate,
         top_intents: topIntents,
         sentiment_distribution: sentimentCounts,
-        quality_scores: qualityScores
+        quality_scores: qualityScores,
+        cost: this.calculateCostBreakdown(rows || [], totalQueries),
+        latency_by_pipeline: this.calculateLatencyByPipeline(responses),
+        calibration: await confidenceCalibrator.buildReport(responses),
+        feedback
       };
 
     } catch (error) {
@@ -146,7 +224,7 @@ export class AIAnalyticsService {
     endDate: string
   ): Promise<AIUsageAnalytics> {
     try {
-      const { data: responses, error } = await supabase
+      const { data: rows, error } = await supabase
         .from('ai_responses')
         .select('user_id, created_at, metadata')
         .gte('created_at', startDate)
@@ -156,6 +234,8 @@ export class AIAnalyticsService {
         throw error;
       }
 
+      const responses = (rows || []).filter(r => this.isQueryResponse(r));
+
       // Queries by hour
       const hourlyData = responses!.reduce((acc, r) => {
         const hour = new Date(r.created_at).getHours();
@@ -228,7 +308,7 @@ export class AIAnalyticsService {
     try {
       const { data: responses, error } = await supabase
         .from('ai_responses')
-        .select('model_version, processing_time_ms, confidence_score, metadata')
+        .select('model_version, processing_time_ms, confidence_score, input_tokens, output_tokens, cost_usd, metadata')
         .gte('created_at', startDate)
         .lte('created_at', endDate);
 
@@ -243,29 +323,50 @@ export class AIAnalyticsService {
             total_queries: 0,
             total_processing_time: 0,
             total_confidence: 0,
+            total_input_tokens: 0,
+            total_output_tokens: 0,
             total_cost: 0,
+            rated: 0,
+            accurate: 0,
             errors: 0
           };
         }
         
-        acc[model].total_queries++;
-        acc[model].total_processing_time += r.processing_time_ms || 0;
-        acc[model].total_confidence += r.confidence_score || 0;
-        // Cost calculation would need pricing data
-        acc[model].total_cost += 0.001; // Placeholder
+        // Cost covers every call made with the model; timing and confidence only apply to query responses
+        acc[model].total_input_tokens += r.input_tokens || 0;
+        acc[model].total_output_tokens += r.output_tokens || 0;
+        acc[model].total_cost += Number(r.cost_usd) || 0;
+
+        if (this.isQueryResponse(r)) {
+          acc[model].total_queries++;
+          acc[model].total_processing_time += r.processing_time_ms || 0;
+          acc[model].total_confidence += r.confidence_score || 0;
+
+          const rating = r.metadata?.agent_feedback?.rating;
+          if (rating === 'accurate' || rating === 'inaccurate') {
+            acc[model].rated++;
+            if (rating === 'accurate') acc[model].accurate++;
+          }
+        }
         
         return acc;
       }, {} as Record<string, any>);
 
-      return Object.entries(modelStats).map(([modelName, stats]) => ({
-        model_name: modelName,
-        total_queries: stats.total_queries,
-        avg_processing_time: Math.round(stats.total_processing_time / stats.total_queries),
-        avg_confidence: Math.round((stats.total_confidence / stats.total_queries) * 100) / 100,
-        user_satisfaction: 4.2, // Placeholder
-        cost_per_query: Math.round((stats.total_cost / stats.total_queries) * 1000) / 1000,
-        error_rate: (stats.errors / stats.total_queries) * 100
-      }));
+      return Object.entries(modelStats).map(([modelName, stats]) => {
+        const queries = Math.max(stats.total_queries, 1);
+        return {
+          model_name: modelName,
+          total_queries: stats.total_queries,
+          avg_processing_time: Math.round(stats.total_processing_time / queries),
+          avg_confidence: Math.round((stats.total_confidence / queries) * 100) / 100,
+          user_satisfaction: stats.rated > 0 ? Math.round((stats.accurate / stats.rated) * 10000) / 100 : null,
+          total_input_tokens: stats.total_input_tokens,
+          total_output_tokens: stats.total_output_tokens,
+          total_cost_usd: this.roundCost(stats.total_cost),
+          cost_per_query: this.roundCost(stats.total_cost / queries),
+          error_rate: (stats.errors / queries) * 100
+        };
+      });
 
     } catch (error) {
       logger.error('Failed to compare model performance', { error });
@@ -397,6 +498,223 @@ export class AIAnalyticsService {
     }
   }
 
+  async getExperimentResults(experiment: AIExperiment): Promise<ExperimentResults> {
+    try {
+      const { data: rows, error } = await supabase
+        .from('ai_responses')
+        .select('processing_time_ms, confidence_score, cost_usd, metadata')
+        .eq('metadata->experiment->>id', experiment.id);
+
+      if (error) {
+        throw error;
+      }
+
+      // Fallback replies never reached the model, so they say nothing about the variant
+      const responses = (rows || []).filter(r => this.isQueryResponse(r) && !r.metadata?.fallback);
+      const samples = experiment.variants.map(variant =>
+        this.collectVariantSamples(responses.filter(r => r.metadata?.experiment?.variant === variant.key))
+      );
+
+      const variants: ExperimentVariantStats[] = experiment.variants.map((variant, index) => {
+        const sample = samples[index];
+        const cost = summarize(sample.cost);
+
+        return {
+          variant: variant.key,
+          queries: sample.queries,
+          avg_processing_time: sample.queries > 0 ? Math.round(sample.processingTime / sample.queries) : 0,
+          confidence: this.roundSummary(summarize(sample.confidence)),
+          quality_score: this.roundSummary(summarize(sample.quality)),
+          feedback: {
+            rated: sample.rated,
+            accurate: sample.accurate,
+            accuracy_rate: sample.rated > 0 ? Math.round((sample.accurate / sample.rated) * 10000) / 100 : null
+          },
+          cost: {
+            n: cost.n,
+            mean: this.roundCost(cost.mean),
+            std_dev: this.roundCost(cost.std_dev),
+            total_cost_usd: this.roundCost(sample.cost.reduce((sum, c) => sum + c, 0))
+          }
+        };
+      });
+
+      const metric = experiment.primary_metric;
+      const baseline = samples[0];
+      const comparisons: ExperimentComparison[] = samples.slice(1).map((sample, index) => {
+        const significance = metric === 'feedback_accuracy'
+          ? twoProportionZTest(baseline.accurate, baseline.rated, sample.accurate, sample.rated)
+          : welchTTest(this.metricValues(baseline, metric), this.metricValues(sample, metric));
+        const baselineValue = this.metricValue(variants[0], metric);
+        const variantValue = this.metricValue(variants[index + 1], metric);
+
+        return {
+          variant: variants[index + 1].variant,
+          baseline: variants[0].variant,
+          metric,
+          baseline_value: baselineValue,
+          variant_value: variantValue,
+          difference: baselineValue !== null && variantValue !== null
+            ? Math.round((variantValue - baselineValue) * 1_000_000) / 1_000_000
+            : null,
+          significance: significance && {
+            ...significance,
+            statistic: Math.round(significance.statistic * 1000) / 1000,
+            p_value: Math.round(significance.p_value * 10000) / 10000
+          },
+          significant: !!significance && significance.p_value < EXPERIMENT_SIGNIFICANCE_LEVEL
+        };
+      });
+
+      return { experiment, significance_level: EXPERIMENT_SIGNIFICANCE_LEVEL, variants, comparisons };
+
+    } catch (error) {
+      logger.error('Failed to get AI experiment results', { error, experiment_id: experiment.id });
+      throw error;
+    }
+  }
+
+  private collectVariantSamples(responses: any[]): VariantSamples {
+    const sample: VariantSamples = {
+      queries: responses.length,
+      processingTime: 0,
+      confidence: [],
+      quality: [],
+      cost: [],
+      rated: 0,
+      accurate: 0
+    };
+
+    for (const r of responses) {
+      sample.processingTime += r.processing_time_ms || 0;
+      sample.confidence.push(Number(r.confidence_score) || 0);
+      sample.cost.push(Number(r.cost_usd) || 0);
+
+      const quality = r.metadata?.quality_metrics?.overall_score;
+      if (typeof quality === 'number') {
+        sample.quality.push(quality);
+      }
+
+      const rating = r.metadata?.agent_feedback?.rating;
+      if (rating === 'accurate' || rating === 'inaccurate') {
+        sample.rated++;
+        if (rating === 'accurate') sample.accurate++;
+      }
+    }
+
+    return sample;
+  }
+
+  private metricValues(sample: VariantSamples, metric: ExperimentMetric): number[] {
+    if (metric === 'quality_score') return sample.quality;
+    if (metric === 'confidence') return sample.confidence;
+    return sample.cost;
+  }
+
+  private metricValue(stats: ExperimentVariantStats, metric: ExperimentMetric): number | null {
+    switch (metric) {
+      case 'quality_score': return stats.quality_score.n > 0 ? stats.quality_score.mean : null;
+      case 'confidence': return stats.confidence.n > 0 ? stats.confidence.mean : null;
+      case 'feedback_accuracy': return stats.feedback.accuracy_rate;
+      case 'cost_per_query': return stats.cost.n > 0 ? stats.cost.mean : null;
+    }
+  }
+
+  private roundSummary(summary: SampleSummary): SampleSummary {
+    return {
+      n: summary.n,
+      mean: Math.round(summary.mean * 1000) / 1000,
+      std_dev: Math.round(summary.std_dev * 1000) / 1000
+    };
+  }
+
+  private isQueryResponse(row: { metadata?: Record<string, any> }): boolean {
+    const useCase = row.metadata?.use_case;
+    return !useCase || useCase === 'query';
+  }
+
+  private calculateCostBreakdown(rows: any[], totalQueries: number): AICostBreakdown {
+    const byUseCase: Record<string, { calls: number; cost_usd: number }> = {};
+    const byAgent: Record<string, { queries: number; cost_usd: number }> = {};
+    const byCustomer: Record<string, { queries: number; cost_usd: number }> = {};
+    const byDay: Record<string, { queries: number; cost_usd: number }> = {};
+
+    let totalCost = 0;
+    let totalInputTokens = 0;
+    let totalOutputTokens = 0;
+
+    const addTo = (bucket: Record<string, { queries: number; cost_usd: number }>, key: string, cost: number, isQuery: boolean) => {
+      if (!bucket[key]) bucket[key] = { queries: 0, cost_usd: 0 };
+      bucket[key].cost_usd += cost;
+      if (isQuery) bucket[key].queries++;
+    };
+
+    for (const row of rows) {
+      const cost = Number(row.cost_usd) || 0;
+      const isQuery = this.isQueryResponse(row);
+      const useCase = row.metadata?.use_case || 'query';
+
+      totalCost += cost;
+      totalInputTokens += row.input_tokens || 0;
+      totalOutputTokens += row.output_tokens || 0;
+
+      if (!byUseCase[useCase]) byUseCase[useCase] = { calls: 0, cost_usd: 0 };
+      byUseCase[useCase].calls++;
+      byUseCase[useCase].cost_usd += cost;
+
+      if (row.user_id) addTo(byAgent, row.user_id, cost, isQuery);
+      if (row.customer_id) addTo(byCustomer, row.customer_id, cost, isQuery);
+      addTo(byDay, row.created_at.split('T')[0], cost, isQuery);
+    }
+
+    return {
+      total_cost_usd: this.roundCost(totalCost),
+      cost_per_query: totalQueries > 0 ? this.roundCost(totalCost / totalQueries) : 0,
+      total_input_tokens: totalInputTokens,
+      total_output_tokens: totalOutputTokens,
+      by_use_case: Object.entries(byUseCase)
+        .map(([use_case, stats]) => ({ use_case, calls: stats.calls, cost_usd: this.roundCost(stats.cost_usd) }))
+        .sort((a, b) => b.cost_usd - a.cost_usd),
+      by_agent: Object.entries(byAgent)
+        .map(([user_id, stats]) => ({ user_id, queries: stats.queries, cost_usd: this.roundCost(stats.cost_usd) }))
+        .sort((a, b) => b.cost_usd - a.cost_usd),
+      by_customer: Object.entries(byCustomer)
+        .map(([customer_id, stats]) => ({ customer_id, queries: stats.queries, cost_usd: this.roundCost(stats.cost_usd) }))
+        .sort((a, b) => b.cost_usd - a.cost_usd),
+      by_day: Object.entries(byDay)
+        .map(([date, stats]) => ({ date, queries: stats.queries, cost_usd: this.roundCost(stats.cost_usd) }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    };
+  }
+
+  private calculateLatencyByPipeline(responses: any[]): AIPerformanceMetrics['latency_by_pipeline'] {
+    const stats = responses
+      .filter(r => !r.metadata?.fallback)
+      .reduce((acc, r) => {
+        const pipeline = r.metadata?.pipeline || 'legacy';
+        if (!acc[pipeline]) acc[pipeline] = { queries: 0, total_time: 0, total_calls: 0, counted: 0 };
+        acc[pipeline].queries++;
+        acc[pipeline].total_time += r.processing_time_ms || 0;
+        // Only responses that recorded their model calls; older ones are left out of the average
+        if (typeof r.metadata?.latency?.model_calls === 'number') {
+          acc[pipeline].total_calls += r.metadata.latency.model_calls;
+          acc[pipeline].counted++;
+        }
+        return acc;
+      }, {} as Record<string, { queries: number; total_time: number; total_calls: number; counted: number }>);
+
+    return Object.entries(stats).map(([pipeline, s]: [string, { queries: number; total_time: number; total_calls: number; counted: number }]) => ({
+      pipeline,
+      queries: s.queries,
+      avg_processing_time: Math.round(s.total_time / s.queries),
+      avg_model_calls: s.counted > 0 ? Math.round((s.total_calls / s.counted) * 100) / 100 : null
+    }));
+  }
+
+  private roundCost(value: number): number {
+    return Math.round(value * 1_000_000) / 1_000_000;
+  }
+
   private getEmptyMetrics(): AIPerformanceMetrics {
     return {
       total_queries: 0,
@@ -407,7 +725,36 @@ export class AIAnalyticsService {
       cache_hit_rate: 0,
       top_intents: [],
       sentiment_distribution: { positive: 0, neutral: 0, negative: 0 },
-      quality_scores: { excellent: 0, good: 0, fair: 0, poor: 0 }
+      quality_scores: { excellent: 0, good: 0, fair: 0, poor: 0 },
+      latency_by_pipeline: [],
+      calibration: {
+        labelled: 0,
+        sources: { agent_feedback: 0, review: 0, resolution: 0 },
+        raw: confidenceCalibrator.buildReliabilityDiagram([]),
+        calibrated: confidenceCalibrator.buildReliabilityDiagram([]),
+        by_intent: [],
+        curves: []
+      },
+      feedback: {
+        rated: 0,
+        accurate: 0,
+        inaccurate: 0,
+        accuracy_rate: null,
+        with_reason: 0,
+        with_correction: 0,
+        wrong_sop_reports: 0,
+        by_source: { api: 0, confluence_assistant: 0 }
+      },
+      cost: {
+        total_cost_usd: 0,
+        cost_per_query: 0,
+        total_input_tokens: 0,
+        total_output_tokens: 0,
+        by_use_case: [],
+        by_agent: [],
+        by_customer: [],
+        by_day: []
+      }
     };
   }
 }
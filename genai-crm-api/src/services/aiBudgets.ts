@@ -0,0 +1,260 @@
+import { supabase, supabaseAdmin, logger } from '../server';
+
+export type BudgetScope = 'organization' | 'agent';
+export type BudgetLimitType = 'tokens' | 'cost';
+
+export interface AIBudget {
+  id: string;
+  scope_type: BudgetScope;
+  scope_id: string;
+  monthly_token_limit: number | null;
+  monthly_cost_limit_usd: number | null;
+  soft_limit_percentage: number;
+  enabled: boolean;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AIBudgetUpdate {
+  monthly_token_limit?: number | null;
+  monthly_cost_limit_usd?: number | null;
+  soft_limit_percentage?: number;
+  enabled?: boolean;
+}
+
+export interface BudgetStatus {
+  budget: AIBudget;
+  period_start: string;
+  resets_at: string;
+  tokens_used: number;
+  cost_used_usd: number;
+  remaining_tokens: number | null;
+  remaining_cost_usd: number | null;
+  token_usage_percentage: number | null;
+  cost_usage_percentage: number | null;
+  soft_limit_reached: boolean;
+  hard_limit_reached: boolean;
+}
+
+export interface BudgetViolation {
+  scope_type: BudgetScope;
+  scope_id: string;
+  limit_type: BudgetLimitType;
+  used: number;
+  limit: number;
+  usage_percentage: number;
+  resets_at: string;
+}
+
+export interface BudgetCheckResult {
+  allowed: boolean;
+  exceeded?: BudgetViolation;
+  warnings: BudgetViolation[];
+}
+
+export class AIBudgetService {
+  async listBudgets(scopeType?: BudgetScope): Promise<AIBudget[]> {
+    let query = supabase
+      .from('ai_budgets')
+      .select('*')
+      .order('scope_type', { ascending: true });
+
+    if (scopeType) {
+      query = query.eq('scope_type', scopeType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getBudget(scopeType: BudgetScope, scopeId: string): Promise<AIBudget | null> {
+    const { data, error } = await supabase
+      .from('ai_budgets')
+      .select('*')
+      .eq('scope_type', scopeType)
+      .eq('scope_id', scopeId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async upsertBudget(
+    scopeType: BudgetScope,
+    scopeId: string,
+    updates: AIBudgetUpdate,
+    updatedBy: string
+  ): Promise<AIBudget> {
+    const { data, error } = await supabase
+      .from('ai_budgets')
+      .upsert({
+        scope_type: scopeType,
+        scope_id: scopeId,
+        ...updates,
+        updated_by: updatedBy
+      }, { onConflict: 'scope_type,scope_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    logger.info('AI budget updated', { scope_type: scopeType, scope_id: scopeId, updated_by: updatedBy });
+    return data;
+  }
+
+  async deleteBudget(scopeType: BudgetScope, scopeId: string): Promise<void> {
+    const { error } = await supabase
+      .from('ai_budgets')
+      .delete()
+      .eq('scope_type', scopeType)
+      .eq('scope_id', scopeId);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  async getBudgetStatus(budget: AIBudget): Promise<BudgetStatus> {
+    const { periodStart, resetsAt } = this.getCurrentPeriod();
+    const usage = await this.getUsage(budget.scope_type, budget.scope_id, periodStart);
+
+    const tokenPercentage = budget.monthly_token_limit
+      ? (usage.tokens / budget.monthly_token_limit) * 100
+      : null;
+    const costPercentage = budget.monthly_cost_limit_usd
+      ? (usage.cost_usd / Number(budget.monthly_cost_limit_usd)) * 100
+      : null;
+    const highestPercentage = Math.max(tokenPercentage || 0, costPercentage || 0);
+
+    return {
+      budget,
+      period_start: periodStart,
+      resets_at: resetsAt,
+      tokens_used: usage.tokens,
+      cost_used_usd: Math.round(usage.cost_usd * 1_000_000) / 1_000_000,
+      remaining_tokens: budget.monthly_token_limit !== null
+        ? Math.max(0, budget.monthly_token_limit - usage.tokens)
+        : null,
+      remaining_cost_usd: budget.monthly_cost_limit_usd !== null
+        ? Math.max(0, Math.round((Number(budget.monthly_cost_limit_usd) - usage.cost_usd) * 1_000_000) / 1_000_000)
+        : null,
+      token_usage_percentage: tokenPercentage !== null ? Math.round(tokenPercentage * 100) / 100 : null,
+      cost_usage_percentage: costPercentage !== null ? Math.round(costPercentage * 100) / 100 : null,
+      soft_limit_reached: budget.enabled && highestPercentage >= budget.soft_limit_percentage,
+      hard_limit_reached: budget.enabled && highestPercentage >= 100
+    };
+  }
+
+  // Checks the agent and organization budgets that apply to a request.
+  // The first exhausted budget blocks the request; budgets past their soft limit are returned as warnings.
+  async checkBudgets(owner: { userId: string; organizationId?: string }): Promise<BudgetCheckResult> {
+    const scopes: Array<{ scope_type: BudgetScope; scope_id: string }> = [
+      { scope_type: 'agent', scope_id: owner.userId }
+    ];
+    if (owner.organizationId) {
+      scopes.push({ scope_type: 'organization', scope_id: owner.organizationId });
+    }
+
+    const budgets = (await Promise.all(
+      scopes.map(scope => this.getBudget(scope.scope_type, scope.scope_id))
+    )).filter((budget): budget is AIBudget => !!budget && budget.enabled);
+
+    const result: BudgetCheckResult = { allowed: true, warnings: [] };
+
+    for (const budget of budgets) {
+      const status = await this.getBudgetStatus(budget);
+      const violations = this.getViolations(status);
+
+      const exceeded = violations.find(v => v.usage_percentage >= 100);
+      if (exceeded && result.allowed) {
+        result.allowed = false;
+        result.exceeded = exceeded;
+      }
+
+      result.warnings.push(...violations.filter(v => v.usage_percentage < 100));
+    }
+
+    return result;
+  }
+
+  private getViolations(status: BudgetStatus): BudgetViolation[] {
+    const violations: BudgetViolation[] = [];
+    const { budget } = status;
+
+    if (budget.monthly_token_limit !== null && status.token_usage_percentage !== null &&
+        status.token_usage_percentage >= budget.soft_limit_percentage) {
+      violations.push({
+        scope_type: budget.scope_type,
+        scope_id: budget.scope_id,
+        limit_type: 'tokens',
+        used: status.tokens_used,
+        limit: budget.monthly_token_limit,
+        usage_percentage: status.token_usage_percentage,
+        resets_at: status.resets_at
+      });
+    }
+
+    if (budget.monthly_cost_limit_usd !== null && status.cost_usage_percentage !== null &&
+        status.cost_usage_percentage >= budget.soft_limit_percentage) {
+      violations.push({
+        scope_type: budget.scope_type,
+        scope_id: budget.scope_id,
+        limit_type: 'cost',
+        used: status.cost_used_usd,
+        limit: Number(budget.monthly_cost_limit_usd),
+        usage_percentage: status.cost_usage_percentage,
+        resets_at: status.resets_at
+      });
+    }
+
+    return violations;
+  }
+
+  // Summed by get_ai_usage (migration 027): selecting the rows would stop at PostgREST's
+  // row limit and undercount busy scopes
+  private async getUsage(
+    scopeType: BudgetScope,
+    scopeId: string,
+    since: string
+  ): Promise<{ tokens: number; cost_usd: number }> {
+    const { data, error } = await supabaseAdmin
+      .rpc('get_ai_usage', { p_scope_type: scopeType, p_scope_id: scopeId, p_since: since })
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const usage = data as { tokens: number | string; cost_usd: number | string } | null;
+    return {
+      tokens: Number(usage?.tokens) || 0,
+      cost_usd: Number(usage?.cost_usd) || 0
+    };
+  }
+
+  private getCurrentPeriod(): { periodStart: string; resetsAt: string } {
+    const now = new Date();
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const resetsAt = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    return {
+      periodStart: periodStart.toISOString(),
+      resetsAt: resetsAt.toISOString()
+    };
+  }
+}
+
+export const aiBudgetService = new AIBudgetService();
+
+export default AIBudgetService;
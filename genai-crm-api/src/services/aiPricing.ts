@@ -0,0 +1,70 @@
+import { logger } from '../server';
+
+export interface TokenUsage {
+  input_tokens: number;
+  output_tokens: number;
+}
+
+export interface UsageCost extends TokenUsage {
+  cost_usd: number;
+}
+
+export interface ModelPrice {
+  input_per_million: number;
+  output_per_million: number;
+}
+
+// USD per million tokens. Override or extend with AI_MODEL_PRICING, e.g.
+// AI_MODEL_PRICING={"claude-3-sonnet-20240229":{"input_per_million":3,"output_per_million":15}}
+const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'claude-3-opus-20240229': { input_per_million: 15, output_per_million: 75 },
+  'claude-3-sonnet-20240229': { input_per_million: 3, output_per_million: 15 },
+  'claude-3-haiku-20240307': { input_per_million: 0.25, output_per_million: 1.25 },
+  'claude-3-5-sonnet-20240620': { input_per_million: 3, output_per_million: 15 }
+};
+
+const unpricedModels = new Set<string>();
+
+export function getModelPricing(): Record<string, ModelPrice> {
+  if (!process.env.AI_MODEL_PRICING) {
+    return DEFAULT_MODEL_PRICING;
+  }
+
+  try {
+    return { ...DEFAULT_MODEL_PRICING, ...JSON.parse(process.env.AI_MODEL_PRICING) };
+  } catch (error) {
+    logger.warn('Invalid AI_MODEL_PRICING, using default price table', { error });
+    return DEFAULT_MODEL_PRICING;
+  }
+}
+
+export function calculateCost(model: string, usage: TokenUsage): number {
+  // Mock provider calls are free
+  if (model.startsWith('mock-')) {
+    return 0;
+  }
+
+  const price = getModelPricing()[model];
+  if (!price) {
+    if (!unpricedModels.has(model)) {
+      unpricedModels.add(model);
+      logger.warn('No pricing configured for model, cost recorded as 0', { model });
+    }
+    return 0;
+  }
+
+  const cost = (usage.input_tokens * price.input_per_million + usage.output_tokens * price.output_per_million) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+export function emptyUsage(): UsageCost {
+  return { input_tokens: 0, output_tokens: 0, cost_usd: 0 };
+}
+
+// Adds a single call's usage, priced for its model, into a running total
+export function addUsage(total: UsageCost, model: string, usage: TokenUsage): UsageCost {
+  total.input_tokens += usage.input_tokens;
+  total.output_tokens += usage.output_tokens;
+  total.cost_usd = Math.round((total.cost_usd + calculateCost(model, usage)) * 1_000_000) / 1_000_000;
+  return total;
+}
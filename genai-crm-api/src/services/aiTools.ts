@@ -0,0 +1,219 @@
+import { logger } from '../server';
+import { LLMToolDefinition, LLMToolUseBlock, LLMToolResultBlock } from './llmProvider';
+import { customerService } from './customers';
+import { confluenceService } from './confluence';
+import { conversationMemory } from './conversationMemory';
+import { envInt } from '../config';
+
+export interface ToolExecutionContext {
+  userId: string;
+  customerId?: string;
+  organizationId?: string;
+  conversationId?: string;
+}
+
+export interface AITool extends LLMToolDefinition {
+  execute(input: Record<string, any>, context: ToolExecutionContext): Promise<any>;
+}
+
+// What an agent sees about each lookup the model made while assembling an answer
+export interface ToolCallRecord {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+  output?: any;
+  error?: string;
+  duration_ms: number;
+}
+
+export const AI_TOOLS_ENABLED = process.env.AI_TOOLS_ENABLED !== 'false';
+export const AI_MAX_TOOL_ROUNDS = envInt('AI_MAX_TOOL_ROUNDS', 3);
+
+// Tool results go back into the prompt, so keep them to a reasonable size
+const MAX_RESULT_CHARS = 4000;
+const MAX_RECORDED_OUTPUT_CHARS = 1000;
+
+const clampLimit = (value: any, fallback: number, max: number): number => {
+  const limit = parseInt(value);
+  return isNaN(limit) || limit < 1 ? fallback : Math.min(limit, max);
+};
+
+// Tool inputs come from the model, which a customer message can steer, so lookups are
+// held to the customer the request is about
+function scopedCustomerId(requested: any, context: ToolExecutionContext): string {
+  if (!context.customerId) {
+    throw new Error('No customer in context');
+  }
+  if (requested && requested !== context.customerId) {
+    throw new Error('Only the customer in the current conversation can be looked up');
+  }
+  return context.customerId;
+}
+
+const CUSTOMER_TOOL_COLUMNS = 'id, name, email, phone, company';
+
+export const AI_TOOLS: AITool[] = [
+  {
+    name: 'get_customer',
+    description: 'Look up the customer in the current conversation. Returns name, email, phone and company.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        customer_id: { type: 'string', description: 'Customer UUID. Defaults to the customer in the current conversation.' },
+        email: { type: 'string', description: 'Customer email address, checked against the current customer' }
+      }
+    },
+    async execute(input, context) {
+      const customer = await customerService.getCustomerById(scopedCustomerId(input.customer_id, context), CUSTOMER_TOOL_COLUMNS);
+
+      if (customer && input.email && customer.email?.toLowerCase() !== String(input.email).trim().toLowerCase()) {
+        throw new Error('Only the customer in the current conversation can be looked up');
+      }
+
+      return customer || { found: false };
+    }
+  },
+  {
+    name: 'list_recent_interactions',
+    description: 'List the most recent interactions (emails, calls, chats, meetings) with a customer, newest first.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        customer_id: { type: 'string', description: 'Customer UUID. Defaults to the customer in the current conversation.' },
+        limit: { type: 'integer', description: 'Number of interactions to return (1-20, default 5)' },
+        type: { type: 'string', enum: ['email', 'phone', 'chat', 'meeting', 'other'] }
+      }
+    },
+    async execute(input, context) {
+      const customerId = scopedCustomerId(input.customer_id, context);
+
+      const interactions = await customerService.getRecentInteractions(customerId, clampLimit(input.limit, 5, 20), input.type);
+
+      return interactions.map(interaction => ({
+        id: interaction.id,
+        type: interaction.type,
+        content: interaction.content.slice(0, 500),
+        sentiment: interaction.sentiment,
+        created_at: interaction.created_at
+      }));
+    }
+  },
+  {
+    name: 'search_sops',
+    description: 'Search company standard operating procedures and guidelines in Confluence. Returns titles, URLs and excerpts.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search terms' },
+        limit: { type: 'integer', description: 'Number of results (1-5, default 3)' }
+      },
+      required: ['query']
+    },
+    async execute(input) {
+      const pages = await confluenceService.searchSOPs(String(input.query || ''), clampLimit(input.limit, 3, 5));
+
+      return pages.map(page => ({
+        id: page.id,
+        title: page.title,
+        url: page.url,
+        excerpt: page.content.slice(0, 600)
+      }));
+    }
+  },
+  {
+    name: 'get_conversation_history',
+    description: 'Get recent turns of the current conversation or another of the current customer\'s conversations, or search the customer\'s past conversations (including archived turns) by meaning and keywords.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        conversation_id: { type: 'string', description: 'Conversation to read recent turns from' },
+        customer_id: { type: 'string', description: 'Customer whose past conversations to search. Defaults to the customer in the current conversation.' },
+        query: { type: 'string', description: 'What to look for in past conversations, e.g. "complaints about shipping delays"' },
+        limit: { type: 'integer', description: 'Number of turns or conversations to return (1-10, default 5)' }
+      }
+    },
+    async execute(input, context) {
+      const limit = clampLimit(input.limit, 5, 10);
+
+      if (input.conversation_id) {
+        if (input.conversation_id !== context.conversationId) {
+          const conversation = await conversationMemory.getConversationContext(input.conversation_id);
+          const allowed = conversation
+            && !!context.customerId
+            && conversation.customer_id === context.customerId
+            && (!conversation.organization_id || conversation.organization_id === context.organizationId);
+          if (!allowed) {
+            throw new Error('Only conversations with the current customer in your organization can be read');
+          }
+        }
+
+        const turns = await conversationMemory.getRecentContext(input.conversation_id, limit);
+        return turns.map(turn => ({ role: turn.role, content: turn.content, timestamp: turn.timestamp }));
+      }
+
+      if (!input.query) {
+        throw new Error('Provide conversation_id, or a query to search past conversations');
+      }
+
+      return conversationMemory.searchConversationHistory(scopedCustomerId(input.customer_id, context), input.query, limit);
+    }
+  }
+];
+
+export function getToolDefinitions(): LLMToolDefinition[] {
+  return AI_TOOLS.map(({ name, description, input_schema }) => ({ name, description, input_schema }));
+}
+
+// Tool failures are reported back to the model as error results rather than failing the query
+export async function executeToolCall(
+  call: LLMToolUseBlock,
+  context: ToolExecutionContext
+): Promise<{ record: ToolCallRecord; result: LLMToolResultBlock }> {
+  const startTime = Date.now();
+  const tool = AI_TOOLS.find(t => t.name === call.name);
+
+  try {
+    if (!tool) {
+      throw new Error(`Unknown tool: ${call.name}`);
+    }
+
+    const output = await tool.execute(call.input || {}, context);
+    const serialized = JSON.stringify(output ?? null);
+
+    return {
+      record: {
+        id: call.id,
+        name: call.name,
+        input: call.input,
+        output: serialized.length > MAX_RECORDED_OUTPUT_CHARS
+          ? `${serialized.slice(0, MAX_RECORDED_OUTPUT_CHARS)}...`
+          : output,
+        duration_ms: Date.now() - startTime
+      },
+      result: {
+        type: 'tool_result',
+        tool_use_id: call.id,
+        content: serialized.slice(0, MAX_RESULT_CHARS)
+      }
+    };
+
+  } catch (error: any) {
+    logger.warn('AI tool call failed', { tool: call.name, error: error.message, user_id: context.userId });
+
+    return {
+      record: {
+        id: call.id,
+        name: call.name,
+        input: call.input,
+        error: error.message,
+        duration_ms: Date.now() - startTime
+      },
+      result: {
+        type: 'tool_result',
+        tool_use_id: call.id,
+        content: `Error: ${error.message}`,
+        is_error: true
+      }
+    };
+  }
+}
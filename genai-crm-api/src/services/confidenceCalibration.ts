@@ -0,0 +1,402 @@
+import { supabase, logger } from '../server';
+import { CalibrationPoint, isotonicRegression, interpolate } from './statistics';
+import { envInt } from '../config';
+
+// Where a response's correct/incorrect label came from, strongest signal first
+export type OutcomeSource = 'agent_feedback' | 'review' | 'resolution';
+
+// Matches any model or intent in a calibration segment
+export const ANY_SEGMENT = '*';
+
+export interface ConfidenceCalibration {
+  id: string;
+  model: string;
+  intent: string;
+  method: 'isotonic';
+  points: CalibrationPoint[];
+  sample_count: number;
+  positive_rate: number;
+  ece_before: number;
+  ece_after: number;
+  brier_before: number;
+  brier_after: number;
+  window_start: string;
+  window_end: string;
+  fitted_by?: string;
+  fitted_at: string;
+}
+
+export interface CalibratedConfidence {
+  confidence: number;
+  raw_confidence: number;
+  // Curve that was applied; null when no curve covers the response yet
+  segment: { model: string; intent: string; fitted_at: string } | null;
+}
+
+// A query response joined with the outcome it turned out to have
+export interface LabelledResponse {
+  id: string;
+  model: string;
+  intent: string;
+  raw_confidence: number;
+  confidence: number;
+  outcome: 0 | 1;
+  source: OutcomeSource;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  mean_confidence: number | null;
+  accuracy: number | null;
+}
+
+export interface ReliabilityDiagram {
+  samples: number;
+  // Expected calibration error: count-weighted gap between confidence and accuracy
+  ece: number | null;
+  brier: number | null;
+  bins: ReliabilityBin[];
+}
+
+export interface CalibrationReport {
+  labelled: number;
+  sources: Record<OutcomeSource, number>;
+  // Heuristic scores before calibration, and the scores responses were actually given
+  raw: ReliabilityDiagram;
+  calibrated: ReliabilityDiagram;
+  by_intent: Array<{ intent: string; samples: number; accuracy: number; raw_ece: number | null; calibrated_ece: number | null }>;
+  curves: ConfidenceCalibration[];
+}
+
+export interface CalibrationFitResult {
+  window_start: string;
+  window_end: string;
+  labelled: number;
+  fitted: ConfidenceCalibration[];
+  // Segments that had outcomes but too few to fit a curve on
+  skipped: Array<{ model: string; intent: string; samples: number }>;
+}
+
+// Labelled responses a segment needs before it gets its own curve
+export const CALIBRATION_MIN_SAMPLES = envInt('AI_CALIBRATION_MIN_SAMPLES', 50);
+
+// How long fitted curves are cached before the database is checked again
+const CALIBRATION_CACHE_TTL_MS = envInt('AI_CALIBRATION_CACHE_TTL_MS', 5 * 60 * 1000);
+
+// Outcomes from the last 90 days are used when no window is given
+const DEFAULT_FIT_WINDOW_DAYS = 90;
+
+const RELIABILITY_BINS = 10;
+
+const round = (value: number, decimals: number): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export class ConfidenceCalibrationService {
+  private cache: { curves: ConfidenceCalibration[]; expiresAt: number } | null = null;
+
+  // Maps a heuristic confidence score onto the accuracy observed for similar responses.
+  // Falls back from the model and intent curve to the model curve, then the global one.
+  async calibrate(rawConfidence: number, intent: string | undefined, model: string | undefined): Promise<CalibratedConfidence> {
+    const curve = this.findCurve(await this.getCurves(), model || ANY_SEGMENT, intent || ANY_SEGMENT);
+    if (!curve) {
+      return { confidence: rawConfidence, raw_confidence: rawConfidence, segment: null };
+    }
+
+    return {
+      // ai_responses.confidence_score holds two decimals
+      confidence: round(Math.min(1, Math.max(0, interpolate(curve.points, rawConfidence))), 2),
+      raw_confidence: rawConfidence,
+      segment: { model: curve.model, intent: curve.intent, fitted_at: curve.fitted_at }
+    };
+  }
+
+  async listCurves(): Promise<ConfidenceCalibration[]> {
+    const { data, error } = await supabase
+      .from('ai_confidence_calibrations')
+      .select('*')
+      .order('model')
+      .order('intent');
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Fits an isotonic curve for every model and intent, every model, and all traffic
+  // with enough labelled responses in the window. A refitted segment's curve replaces
+  // the old one; segments without enough outcomes keep whatever they had.
+  async fit(options: { startDate?: string; endDate?: string; fittedBy?: string } = {}): Promise<CalibrationFitResult> {
+    const windowEnd = options.endDate || new Date().toISOString();
+    const windowStart = options.startDate
+      || new Date(new Date(windowEnd).getTime() - DEFAULT_FIT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+    const labelled = await this.collectOutcomes(windowStart, windowEnd);
+
+    const segments = new Map<string, { model: string; intent: string; samples: LabelledResponse[] }>();
+    const addTo = (model: string, intent: string, sample: LabelledResponse) => {
+      const key = `${model}\u0000${intent}`;
+      if (!segments.has(key)) {
+        segments.set(key, { model, intent, samples: [] });
+      }
+      segments.get(key)!.samples.push(sample);
+    };
+
+    for (const sample of labelled) {
+      addTo(sample.model, sample.intent, sample);
+      addTo(sample.model, ANY_SEGMENT, sample);
+      addTo(ANY_SEGMENT, ANY_SEGMENT, sample);
+    }
+
+    const fitted: ConfidenceCalibration[] = [];
+    const skipped: CalibrationFitResult['skipped'] = [];
+
+    for (const segment of segments.values()) {
+      if (segment.samples.length < CALIBRATION_MIN_SAMPLES) {
+        skipped.push({ model: segment.model, intent: segment.intent, samples: segment.samples.length });
+        continue;
+      }
+
+      const raw = segment.samples.map(s => ({ prediction: s.raw_confidence, outcome: s.outcome }));
+      const points = isotonicRegression(raw).map(p => ({ x: round(p.x, 4), y: round(p.y, 4) }));
+      const calibrated = raw.map(s => ({ prediction: interpolate(points, s.prediction), outcome: s.outcome }));
+      const before = this.buildReliabilityDiagram(raw);
+      const after = this.buildReliabilityDiagram(calibrated);
+
+      const { data, error } = await supabase
+        .from('ai_confidence_calibrations')
+        .upsert({
+          model: segment.model,
+          intent: segment.intent,
+          method: 'isotonic',
+          points,
+          sample_count: raw.length,
+          positive_rate: round(raw.filter(s => s.outcome === 1).length / raw.length, 4),
+          ece_before: round(before.ece || 0, 4),
+          ece_after: round(after.ece || 0, 4),
+          brier_before: round(before.brier || 0, 4),
+          brier_after: round(after.brier || 0, 4),
+          window_start: windowStart,
+          window_end: windowEnd,
+          fitted_by: options.fittedBy,
+          fitted_at: new Date().toISOString()
+        }, { onConflict: 'model,intent' })
+        .select()
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      fitted.push(data);
+    }
+
+    this.cache = null;
+
+    logger.info('Confidence calibration fitted', {
+      labelled: labelled.length,
+      fitted: fitted.length,
+      skipped: skipped.length,
+      window_start: windowStart,
+      window_end: windowEnd
+    });
+
+    return { window_start: windowStart, window_end: windowEnd, labelled: labelled.length, fitted, skipped };
+  }
+
+  // Reliability of the heuristic and the calibrated scores for query responses that have an outcome
+  async buildReport(responses: any[]): Promise<CalibrationReport> {
+    const labelled = await this.labelResponses(responses);
+
+    const sources: Record<OutcomeSource, number> = { agent_feedback: 0, review: 0, resolution: 0 };
+    const byIntent = new Map<string, LabelledResponse[]>();
+    for (const sample of labelled) {
+      sources[sample.source]++;
+      if (!byIntent.has(sample.intent)) {
+        byIntent.set(sample.intent, []);
+      }
+      byIntent.get(sample.intent)!.push(sample);
+    }
+
+    const rawSamples = (samples: LabelledResponse[]) => samples.map(s => ({ prediction: s.raw_confidence, outcome: s.outcome }));
+    const calibratedSamples = (samples: LabelledResponse[]) => samples.map(s => ({ prediction: s.confidence, outcome: s.outcome }));
+
+    return {
+      labelled: labelled.length,
+      sources,
+      raw: this.buildReliabilityDiagram(rawSamples(labelled)),
+      calibrated: this.buildReliabilityDiagram(calibratedSamples(labelled)),
+      by_intent: Array.from(byIntent.entries())
+        .map(([intent, samples]) => ({
+          intent,
+          samples: samples.length,
+          accuracy: round(samples.filter(s => s.outcome === 1).length / samples.length, 4),
+          raw_ece: this.buildReliabilityDiagram(rawSamples(samples)).ece,
+          calibrated_ece: this.buildReliabilityDiagram(calibratedSamples(samples)).ece
+        }))
+        .sort((a, b) => b.samples - a.samples),
+      curves: await this.getCurves()
+    };
+  }
+
+  buildReliabilityDiagram(samples: Array<{ prediction: number; outcome: number }>): ReliabilityDiagram {
+    const bins = Array.from({ length: RELIABILITY_BINS }, (_, i) => ({
+      lower: i / RELIABILITY_BINS,
+      upper: (i + 1) / RELIABILITY_BINS,
+      count: 0,
+      confidenceSum: 0,
+      outcomeSum: 0
+    }));
+
+    let squaredError = 0;
+    for (const sample of samples) {
+      const prediction = Math.min(1, Math.max(0, sample.prediction));
+      const bin = bins[Math.min(RELIABILITY_BINS - 1, Math.floor(prediction * RELIABILITY_BINS))];
+      bin.count++;
+      bin.confidenceSum += prediction;
+      bin.outcomeSum += sample.outcome;
+      squaredError += (prediction - sample.outcome) ** 2;
+    }
+
+    const n = samples.length;
+    const ece = bins.reduce((sum, bin) => sum + (bin.count > 0 ? Math.abs(bin.outcomeSum - bin.confidenceSum) / n : 0), 0);
+
+    return {
+      samples: n,
+      ece: n > 0 ? round(ece, 4) : null,
+      brier: n > 0 ? round(squaredError / n, 4) : null,
+      bins: bins.map(bin => ({
+        lower: round(bin.lower, 2),
+        upper: round(bin.upper, 2),
+        count: bin.count,
+        mean_confidence: bin.count > 0 ? round(bin.confidenceSum / bin.count, 4) : null,
+        accuracy: bin.count > 0 ? round(bin.outcomeSum / bin.count, 4) : null
+      }))
+    };
+  }
+
+  private async collectOutcomes(startDate: string, endDate: string): Promise<LabelledResponse[]> {
+    const { data, error } = await supabase
+      .from('ai_responses')
+      .select('id, confidence_score, model_version, metadata')
+      .gte('created_at', startDate)
+      .lte('created_at', endDate);
+
+    if (error) {
+      throw error;
+    }
+
+    return this.labelResponses(data || []);
+  }
+
+  // Labels each query response from agent feedback, then the review decision, then how
+  // its conversation ended. Responses without any of these are left out.
+  private async labelResponses(rows: any[]): Promise<LabelledResponse[]> {
+    const queries = rows.filter(r => !r.metadata?.use_case || r.metadata.use_case === 'query');
+    const conversationStatus = await this.getConversationStatuses(
+      queries.map(r => r.metadata?.conversation_id).filter((id): id is string => typeof id === 'string')
+    );
+
+    const labelled: LabelledResponse[] = [];
+    for (const row of queries) {
+      const label = this.labelOutcome(row.metadata || {}, conversationStatus);
+      if (!label) {
+        continue;
+      }
+
+      const confidence = Number(row.confidence_score) || 0;
+      const rawConfidence = Number(row.metadata?.raw_confidence);
+
+      labelled.push({
+        id: row.id,
+        model: row.model_version || ANY_SEGMENT,
+        intent: row.metadata?.intent || ANY_SEGMENT,
+        // Responses stored before calibration only have the heuristic score
+        raw_confidence: isNaN(rawConfidence) ? confidence : rawConfidence,
+        confidence,
+        outcome: label.outcome,
+        source: label.source
+      });
+    }
+
+    return labelled;
+  }
+
+  private labelOutcome(
+    metadata: Record<string, any>,
+    conversationStatus: Map<string, string>
+  ): { outcome: 0 | 1; source: OutcomeSource } | null {
+    const rating = metadata.agent_feedback?.rating;
+    if (rating === 'accurate' || rating === 'inaccurate') {
+      return { outcome: rating === 'accurate' ? 1 : 0, source: 'agent_feedback' };
+    }
+
+    // Edited and rejected answers were not good enough to send as they were
+    const review = metadata.review?.status;
+    if (review === 'approved' || review === 'edited' || review === 'rejected') {
+      return { outcome: review === 'approved' ? 1 : 0, source: 'review' };
+    }
+
+    // Active and closed conversations say nothing either way
+    const status = metadata.conversation_id ? conversationStatus.get(metadata.conversation_id) : undefined;
+    if (status === 'resolved' || status === 'escalated') {
+      return { outcome: status === 'resolved' ? 1 : 0, source: 'resolution' };
+    }
+
+    return null;
+  }
+
+  private async getConversationStatuses(conversationIds: string[]): Promise<Map<string, string>> {
+    const statuses = new Map<string, string>();
+    const ids = Array.from(new Set(conversationIds));
+
+    // Chunked to keep the IN filter within URL limits
+    for (let i = 0; i < ids.length; i += 200) {
+      const { data, error } = await supabase
+        .from('conversation_contexts')
+        .select('conversation_id, status')
+        .in('conversation_id', ids.slice(i, i + 200));
+
+      if (error) {
+        throw error;
+      }
+
+      for (const row of data || []) {
+        statuses.set(row.conversation_id, row.status);
+      }
+    }
+
+    return statuses;
+  }
+
+  private findCurve(curves: ConfidenceCalibration[], model: string, intent: string): ConfidenceCalibration | undefined {
+    const find = (m: string, i: string) => curves.find(curve => curve.model === m && curve.intent === i);
+    return find(model, intent) || find(model, ANY_SEGMENT) || find(ANY_SEGMENT, ANY_SEGMENT);
+  }
+
+  private async getCurves(): Promise<ConfidenceCalibration[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.curves;
+    }
+
+    let curves: ConfidenceCalibration[] = [];
+    try {
+      curves = await this.listCurves();
+    } catch (error) {
+      // Scores stay uncalibrated until the curves can be read again
+      logger.warn('Failed to load confidence calibration curves', { error });
+    }
+
+    this.cache = { curves, expiresAt: Date.now() + CALIBRATION_CACHE_TTL_MS };
+    return curves;
+  }
+}
+
+export const confidenceCalibrator = new ConfidenceCalibrationService();
+
+export default ConfidenceCalibrationService;
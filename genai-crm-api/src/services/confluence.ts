@@ -1,4 +1,5 @@
 import axios, { AxiosInstance } from 'axios'
+import { logger } from '../server'
 
 export interface ConfluenceSpace {
   id: string
@@ -74,7 +75,7 @@ export class ConfluenceService {
         type: space.type,
       }))
     } catch (error) {
-      console.error('Error fetching Confluence spaces:', error)
+      logger.error('Error fetching Confluence spaces', { error })
       throw new Error('Failed to fetch Confluence spaces')
     }
   }
@@ -124,7 +125,7 @@ export class ConfluenceService {
         searchTime,
       }
     } catch (error) {
-      console.error('Error searching Confluence pages:', error)
+      logger.error('Error searching Confluence pages', { error })
       throw new Error('Failed to search Confluence pages')
     }
   }
@@ -154,7 +155,7 @@ export class ConfluenceService {
       if (axios.isAxiosError(error) && error.response?.status === 404) {
         return null
       }
-      console.error('Error fetching Confluence page:', error)
+      logger.error('Error fetching Confluence page', { error })
       throw new Error('Failed to fetch Confluence page')
     }
   }
@@ -187,7 +188,7 @@ export class ConfluenceService {
         labels: page.metadata?.labels?.results?.map((label: any) => label.name) || [],
       }))
     } catch (error) {
-      console.error('Error fetching pages by space:', error)
+      logger.error('Error fetching pages by space', { error })
       throw new Error('Failed to fetch pages by space')
     }
   }
@@ -229,7 +230,7 @@ export class ConfluenceService {
 
           allResults.push(...pages)
         } catch (queryError) {
-          console.warn('SOP query failed:', cqlQuery, queryError)
+          logger.warn('SOP query failed', { cql: cqlQuery, error: queryError })
           // Continue with next query
         }
       }
@@ -241,7 +242,7 @@ export class ConfluenceService {
 
       return uniqueResults.slice(0, limit)
     } catch (error) {
-      console.error('Error searching SOPs:', error)
+      logger.error('Error searching SOPs', { error })
       throw new Error('Failed to search SOPs')
     }
   }
@@ -284,7 +285,7 @@ export class ConfluenceService {
           labels: result.content.metadata?.labels?.results?.map((label: any) => label.name) || [],
         }))
     } catch (error) {
-      console.error('Error fetching recently updated pages:', error)
+      logger.error('Error fetching recently updated pages', { error })
       throw new Error('Failed to fetch recently updated pages')
     }
   }
@@ -308,7 +309,7 @@ export class ConfluenceService {
       await this.client.get('/rest/api/user/current')
       return true
     } catch (error) {
-      console.error('Confluence connection test failed:', error)
+      logger.error('Confluence connection test failed', { error })
       return false
     }
   }
@@ -322,7 +323,7 @@ export class ConfluenceService {
         emailAddress: response.data.emailAddress,
       }
     } catch (error) {
-      console.error('Error getting current user:', error)
+      logger.error('Error getting current user', { error })
       return null
     }
   }
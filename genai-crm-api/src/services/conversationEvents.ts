@@ -0,0 +1,55 @@
+import { EventEmitter } from 'events';
+import { logger } from '../server';
+import { ConversationContext, ConversationTurn } from './conversationMemory';
+import { AIResponse } from './ai';
+
+// Each event carries the conversation's organization, so supervisors following every
+// conversation only get their own organization's
+export type ConversationEvent = { organization_id?: string } & (
+  | { type: 'started'; conversation_id: string; agent_id: string | null; customer_id: string; at: string }
+  | { type: 'turn'; conversation_id: string; turn: ConversationTurn; at: string }
+  | { type: 'status'; conversation_id: string; status: ConversationContext['status']; at: string }
+  // Ownership moved by a handoff, or a queued handoff was accepted
+  | { type: 'assigned'; conversation_id: string; agent_id: string | null; team?: string; at: string }
+  | { type: 'suggestion'; conversation_id: string; ai_response_id?: string; suggestions: NonNullable<AIResponse['suggestions']>; at: string }
+  // A supervisor's note to the agent; never shown to the customer or added to the turns
+  | { type: 'whisper'; conversation_id: string; from: string; text: string; at: string }
+);
+
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+export type ConversationEventInput = DistributiveOmit<ConversationEvent, 'at'>;
+
+// In-process fan-out of conversation changes to live subscribers. Events only reach
+// clients connected to the API instance that made the change.
+export class ConversationEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per connected client
+    this.emitter.setMaxListeners(0);
+  }
+
+  // A failing listener is logged; publishing never breaks the change it reports
+  publish(input: ConversationEventInput): void {
+    const event = { ...input, at: new Date().toISOString() } as ConversationEvent;
+
+    for (const listener of this.emitter.listeners('event')) {
+      try {
+        (listener as (event: ConversationEvent) => void)(event);
+      } catch (error) {
+        logger.error('Conversation event listener failed', { error, type: event.type, conversation_id: event.conversation_id });
+      }
+    }
+  }
+
+  // Returns the function that removes the listener
+  subscribe(listener: (event: ConversationEvent) => void): () => void {
+    this.emitter.on('event', listener);
+    return () => this.emitter.off('event', listener);
+  }
+}
+
+export const conversationEvents = new ConversationEventBus();
+
+export default ConversationEventBus;
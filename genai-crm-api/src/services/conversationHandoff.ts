@@ -0,0 +1,414 @@
+import { supabase, logger } from '../server';
+import { AIService } from './ai';
+import { promptTemplateRegistry } from './promptTemplateRegistry';
+import {
+  conversationMemory,
+  ConversationContext,
+  ConversationOwnershipPeriod,
+  ConversationSummary,
+  ConversationTurn
+} from './conversationMemory';
+import { notificationService } from './notifications';
+
+// What the receiving agent reads before picking the conversation up
+export interface HandoffBrief {
+  summary: string;
+  customer_intent: string;
+  key_topics: string[];
+  resolution_status: ConversationSummary['resolution_status'];
+  // Sentiment of the customer's latest summarized turn
+  recent_sentiment?: 'positive' | 'neutral' | 'negative';
+  // Asked by the customer and not answered yet
+  open_questions: string[];
+  // Committed to the customer and not done yet
+  promised_actions: string[];
+  // 'extractive' when the model was unavailable and the brief was built from the turns
+  generated_by: 'model' | 'extractive';
+  generated_at: string;
+}
+
+export interface ConversationHandoff {
+  id: string;
+  conversation_id: string;
+  from_agent_id?: string;
+  to_agent_id?: string;
+  to_team?: string;
+  reason: string;
+  brief: HandoffBrief;
+  initiated_by?: string;
+  accepted_by?: string;
+  accepted_at?: string;
+  created_at: string;
+}
+
+export interface HandoffInput {
+  to_agent_id?: string;
+  to_team?: string;
+  reason: string;
+}
+
+export interface HandoffActor {
+  id: string;
+  role: string;
+  team?: string;
+}
+
+export interface HandoffHistory {
+  handoffs: ConversationHandoff[];
+  ownership: ConversationOwnershipPeriod[];
+}
+
+export class HandoffError extends Error {
+  readonly code: 'not_found' | 'conflict' | 'invalid' | 'forbidden';
+
+  constructor(code: 'not_found' | 'conflict' | 'invalid' | 'forbidden', message: string) {
+    super(message);
+    this.name = 'HandoffError';
+    this.code = code;
+  }
+}
+
+// Turns shown to the model when writing the brief; older ones are covered by the summary
+const BRIEF_RECENT_TURNS = 20;
+const BRIEF_MAX_ITEMS = 10;
+const PROMISE_PATTERN = /\b(i'll|i will|i'm going to|we'll|we will|we're going to|let me)\b/i;
+
+const SUPERVISOR_ROLES = ['admin', 'supervisor'];
+
+export class ConversationHandoffService {
+  private aiService: AIService;
+
+  constructor(aiService: AIService) {
+    this.aiService = aiService;
+  }
+
+  // Transfers an active conversation to an agent, or to a team's queue when only
+  // to_team is given. The current owner, a member of the owning team while it is
+  // queued, or a supervisor may hand it off.
+  async handoff(conversationId: string, input: HandoffInput, actor: HandoffActor): Promise<{
+    handoff: ConversationHandoff;
+    conversation: ConversationContext;
+  }> {
+    const context = await this.getActiveConversation(conversationId);
+
+    if (!this.canManage(context, actor)) {
+      throw new HandoffError('forbidden', 'Only the conversation owner or a supervisor can hand it off');
+    }
+
+    if (!input.to_agent_id && !input.to_team) {
+      throw new HandoffError('invalid', 'A handoff needs a receiving agent or team');
+    }
+
+    const alreadyOwned = input.to_agent_id
+      ? input.to_agent_id === context.agent_id
+      : !context.agent_id && input.to_team === context.team;
+    if (alreadyOwned) {
+      throw new HandoffError('invalid', 'The conversation already belongs to that agent or team');
+    }
+
+    const target = this.describeTarget(input);
+    const brief = await this.buildBrief(context, target, input.reason, actor.id);
+
+    const { data: handoff, error } = await supabase
+      .from('conversation_handoffs')
+      .insert({
+        conversation_id: conversationId,
+        from_agent_id: context.agent_id,
+        to_agent_id: input.to_agent_id || null,
+        to_team: input.to_team || null,
+        reason: input.reason,
+        brief,
+        initiated_by: actor.id
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    const fromAgentId = context.agent_id;
+    const conversation = await conversationMemory.transferConversation(
+      conversationId,
+      { agentId: input.to_agent_id || null, team: input.to_team },
+      'handoff',
+      handoff.id
+    );
+
+    await conversationMemory.addConversationTurn(
+      conversationId,
+      'system',
+      `Conversation handed off to ${target}. Reason: ${input.reason}`,
+      {
+        type: 'handoff',
+        handoff_id: handoff.id,
+        from_agent_id: fromAgentId,
+        to_agent_id: input.to_agent_id,
+        to_team: input.to_team,
+        initiated_by: actor.id
+      }
+    );
+
+    await notificationService.notify({
+      recipient_id: input.to_agent_id,
+      recipient_team: input.to_agent_id ? null : input.to_team,
+      type: 'handoff',
+      title: input.to_agent_id ? 'A conversation was handed to you' : `A conversation was handed to ${target}`,
+      body: `${brief.summary}\nReason: ${input.reason}`,
+      data: {
+        handoff_id: handoff.id,
+        conversation_id: conversationId,
+        customer_id: context.customer_id,
+        from_agent_id: fromAgentId,
+        open_questions: brief.open_questions.length,
+        promised_actions: brief.promised_actions.length
+      }
+    });
+
+    logger.info('Conversation handed off', {
+      conversation_id: conversationId,
+      handoff_id: handoff.id,
+      from_agent_id: fromAgentId,
+      to_agent_id: input.to_agent_id,
+      to_team: input.to_team,
+      initiated_by: actor.id,
+      brief_generated_by: brief.generated_by
+    });
+
+    return { handoff, conversation };
+  }
+
+  // The receiving agent acknowledges a direct handoff; for a team handoff, the first
+  // team member to accept becomes the owner
+  async accept(handoffId: string, actor: HandoffActor): Promise<ConversationHandoff> {
+    const { data: handoff, error: fetchError } = await supabase
+      .from('conversation_handoffs')
+      .select('*')
+      .eq('id', handoffId)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    if (!handoff) {
+      throw new HandoffError('not_found', 'Handoff not found');
+    }
+
+    if (handoff.accepted_at) {
+      throw new HandoffError('conflict', 'Handoff was already accepted');
+    }
+
+    const allowed = handoff.to_agent_id
+      ? handoff.to_agent_id === actor.id
+      : actor.team === handoff.to_team || SUPERVISOR_ROLES.includes(actor.role);
+    if (!allowed) {
+      throw new HandoffError('forbidden', 'This handoff was sent to another agent or team');
+    }
+
+    await this.getActiveConversation(handoff.conversation_id);
+
+    // A later handoff supersedes this one
+    const ownership = await conversationMemory.getOwnershipHistory(handoff.conversation_id);
+    const current = ownership.find(period => !period.ended_at);
+    if (current && current.handoff_id !== handoffId) {
+      throw new HandoffError('conflict', 'The conversation has been handed off again since');
+    }
+
+    // Guarded on accepted_at so two team members accepting at once can't both win
+    const { data: accepted, error } = await supabase
+      .from('conversation_handoffs')
+      .update({ accepted_by: actor.id, accepted_at: new Date().toISOString() })
+      .eq('id', handoffId)
+      .is('accepted_at', null)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!accepted) {
+      throw new HandoffError('conflict', 'Handoff was already accepted');
+    }
+
+    if (!handoff.to_agent_id) {
+      await conversationMemory.transferConversation(
+        handoff.conversation_id,
+        { agentId: actor.id, team: handoff.to_team },
+        'accepted',
+        handoffId
+      );
+    }
+
+    logger.info('Conversation handoff accepted', {
+      conversation_id: handoff.conversation_id,
+      handoff_id: handoffId,
+      accepted_by: actor.id
+    });
+
+    return accepted;
+  }
+
+  async getHistory(conversationId: string): Promise<HandoffHistory> {
+    const context = await conversationMemory.getConversationContext(conversationId);
+    if (!context) {
+      throw new HandoffError('not_found', 'Conversation not found');
+    }
+
+    const { data, error } = await supabase
+      .from('conversation_handoffs')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return {
+      handoffs: data || [],
+      ownership: await conversationMemory.getOwnershipHistory(conversationId)
+    };
+  }
+
+  private async getActiveConversation(conversationId: string): Promise<ConversationContext> {
+    const context = await conversationMemory.getConversationContext(conversationId);
+    if (!context) {
+      throw new HandoffError('not_found', 'Conversation not found');
+    }
+
+    if (context.status !== 'active') {
+      throw new HandoffError('conflict', `Conversation is ${context.status}; only active conversations can be handed off`);
+    }
+
+    return context;
+  }
+
+  private canManage(context: ConversationContext, actor: HandoffActor): boolean {
+    if (SUPERVISOR_ROLES.includes(actor.role)) {
+      return true;
+    }
+    return context.agent_id
+      ? context.agent_id === actor.id
+      : !!context.team && context.team === actor.team;
+  }
+
+  private describeTarget(input: HandoffInput): string {
+    if (input.to_agent_id && input.to_team) {
+      return `agent ${input.to_agent_id} (${input.to_team} team)`;
+    }
+    return input.to_agent_id ? `agent ${input.to_agent_id}` : `the ${input.to_team} team`;
+  }
+
+  // Brings the conversation summary up to date, then asks the model for open questions
+  // and promised actions. Falls back to picking them out of the turns.
+  private async buildBrief(
+    context: ConversationContext,
+    target: string,
+    reason: string,
+    actorId: string
+  ): Promise<HandoffBrief> {
+    const summary = await conversationMemory.generateConversationSummary(context);
+    const turns = context.turns
+      .filter(turn => turn.role !== 'system')
+      .slice(-BRIEF_RECENT_TURNS);
+
+    const items = await this.briefWithModel(context, summary, turns, target, reason, actorId)
+      || this.briefExtractively(turns);
+
+    return {
+      summary: items.summary || summary.customer_intent,
+      customer_intent: summary.customer_intent,
+      key_topics: summary.key_topics,
+      resolution_status: summary.resolution_status,
+      recent_sentiment: summary.sentiment_progression[summary.sentiment_progression.length - 1]?.sentiment,
+      open_questions: items.open_questions,
+      promised_actions: items.promised_actions,
+      generated_by: items.generated_by,
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  private async briefWithModel(
+    context: ConversationContext,
+    summary: ConversationSummary,
+    turns: ConversationTurn[],
+    target: string,
+    reason: string,
+    actorId: string
+  ): Promise<Pick<HandoffBrief, 'summary' | 'open_questions' | 'promised_actions' | 'generated_by'> | null> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = await promptTemplateRegistry.render('handoff_brief', {
+        target,
+        reason,
+        summary,
+        turns: turns.map((turn, index) => ({ number: index + 1, role: turn.role, content: turn.content }))
+      });
+
+      const completion = await this.aiService.completePrompt('summary', prompt.text);
+      await this.aiService.recordCompletion(
+        'summary',
+        `Handoff brief for ${context.conversation_id}`,
+        completion,
+        Date.now() - startTime,
+        { userId: actorId, customerId: context.customer_id },
+        { template: prompt.template }
+      );
+
+      const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('Handoff brief response contained no JSON');
+      }
+
+      const parsed = JSON.parse(jsonMatch[0]);
+      const strings = (value: any): string[] =>
+        Array.isArray(value)
+          ? value.filter(item => typeof item === 'string' && item.trim()).slice(0, BRIEF_MAX_ITEMS)
+          : [];
+
+      return {
+        summary: typeof parsed.summary === 'string' ? parsed.summary.trim() : '',
+        open_questions: strings(parsed.open_questions),
+        promised_actions: strings(parsed.promised_actions),
+        generated_by: 'model'
+      };
+
+    } catch (error) {
+      logger.warn('Model handoff brief failed, using extractive brief', {
+        error,
+        conversation_id: context.conversation_id
+      });
+      return null;
+    }
+  }
+
+  // Open questions are customer questions with no reply after them; promised actions are
+  // assistant sentences committing to do something
+  private briefExtractively(
+    turns: ConversationTurn[]
+  ): Pick<HandoffBrief, 'summary' | 'open_questions' | 'promised_actions' | 'generated_by'> {
+    const lastReply = turns.map(turn => turn.role).lastIndexOf('assistant');
+    const sentences = (text: string) => text.match(/[^.!?]+[.!?]*/g)?.map(sentence => sentence.trim()) || [];
+
+    const openQuestions = turns
+      .slice(lastReply + 1)
+      .filter(turn => turn.role === 'user')
+      .flatMap(turn => sentences(turn.content).filter(sentence => sentence.endsWith('?')));
+
+    const promisedActions = turns
+      .filter(turn => turn.role === 'assistant')
+      .flatMap(turn => sentences(turn.content).filter(sentence => PROMISE_PATTERN.test(sentence)));
+
+    return {
+      summary: '',
+      open_questions: Array.from(new Set(openQuestions)).slice(-BRIEF_MAX_ITEMS),
+      promised_actions: Array.from(new Set(promisedActions)).slice(-BRIEF_MAX_ITEMS),
+      generated_by: 'extractive'
+    };
+  }
+}
+
+export default ConversationHandoffService;
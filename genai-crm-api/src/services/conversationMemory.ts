@@ -1,4 +1,9 @@
-import { supabase, logger } from '../server';
+import { supabase, anthropic, logger } from '../server';
+import { AIService } from './ai';
+import { createLLMProvider } from './llmProvider';
+import { promptTemplateRegistry } from './promptTemplateRegistry';
+import { conversationSearch, ConversationSearchResult } from './conversationSearch';
+import { conversationEvents } from './conversationEvents';
 
 export interface ConversationTurn {
   id: string;
@@ -10,11 +15,18 @@ export interface ConversationTurn {
 
 export interface ConversationContext {
   customer_id: string;
-  agent_id: string;
+  // Null while a conversation handed to a team waits for someone to accept it
+  agent_id: string | null;
+  team?: string;
+  // Organization of the agent who started it; selects the retention policy
+  organization_id?: string;
   conversation_id: string;
   turns: ConversationTurn[];
   summary?: string;
+  structured_summary?: ConversationSummary;
   status: 'active' | 'resolved' | 'escalated' | 'closed';
+  // Set once retention deleted the turns and kept only the summary
+  turns_purged_at?: string;
   created_at: string;
   updated_at: string;
 }
@@ -28,17 +40,41 @@ export interface ConversationSummary {
     sentiment: 'positive' | 'neutral' | 'negative';
   }>;
   next_steps: string[];
+  // Turns covered, counted from the start of the conversation (archived turns included)
+  turns_summarized: number;
+  // Last turn the summary covers; later turns are merged in on the next update
+  last_turn_id?: string;
+  // 'extractive' when the model was unavailable and the summary was built from turn metadata
+  generated_by: 'model' | 'extractive';
+  generated_at: string;
 }
 
+// A stretch of time one agent (or a team's queue) owned a conversation
+export interface ConversationOwnershipPeriod {
+  id: string;
+  conversation_id: string;
+  agent_id: string | null;
+  team?: string;
+  handoff_id?: string;
+  started_at: string;
+  ended_at?: string;
+  end_reason?: 'handoff' | 'accepted' | 'resolved' | 'escalated' | 'closed';
+}
+
+const RESOLUTION_STATUSES: ConversationSummary['resolution_status'][] = ['resolved', 'pending', 'escalated'];
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
 export class ConversationMemoryService {
   private maxTurnsPerConversation = 50;
   private summaryInterval = 10; // Summarize every 10 turns
   private memoryCache = new Map<string, ConversationContext>();
+  private aiService?: AIService;
 
   async startConversation(
     customerId: string,
     agentId: string,
-    initialMessage?: string
+    initialMessage?: string,
+    organizationId?: string
   ): Promise<string> {
     try {
       const conversationId = `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -46,6 +82,7 @@ export class ConversationMemoryService {
       const context: ConversationContext = {
         customer_id: customerId,
         agent_id: agentId,
+        organization_id: organizationId,
         conversation_id: conversationId,
         turns: [],
         status: 'active',
@@ -65,10 +102,17 @@ export class ConversationMemoryService {
 
       // Store in database
       await this.storeConversationContext(context);
+      await this.startOwnership(conversationId, { agentId });
+      await conversationSearch.indexTurns(context, context.turns);
       
       // Cache in memory
       this.memoryCache.set(conversationId, context);
 
+      conversationEvents.publish({ type: 'started', conversation_id: conversationId, organization_id: organizationId, agent_id: agentId, customer_id: customerId });
+      for (const turn of context.turns) {
+        conversationEvents.publish({ type: 'turn', conversation_id: conversationId, organization_id: organizationId, turn });
+      }
+
       logger.info('Conversation started', {
         conversation_id: conversationId,
         customer_id: customerId,
@@ -85,7 +129,7 @@ export class ConversationMemoryService {
 
   async addConversationTurn(
     conversationId: string,
-    role: 'user' | 'assistant',
+    role: ConversationTurn['role'],
     content: string,
     metadata: Record<string, any> = {}
   ): Promise<void> {
@@ -106,21 +150,31 @@ export class ConversationMemoryService {
       context.turns.push(turn);
       context.updated_at = new Date().toISOString();
 
+      const overLimit = context.turns.length > this.maxTurnsPerConversation;
+      const summarize = overLimit || this.unsummarizedTurns(context).length >= this.summaryInterval;
+
+      // Summarize periodically, and before archiving so archived turns stay covered
+      if (summarize) {
+        await this.generateConversationSummary(context);
+      }
+
       // Limit conversation length
-      if (context.turns.length > this.maxTurnsPerConversation) {
+      if (overLimit) {
         // Archive older turns and keep recent ones
         await this.archiveOldTurns(context);
       }
 
-      // Generate summary periodically
-      if (context.turns.length % this.summaryInterval === 0) {
-        context.summary = await this.generateConversationSummary(context);
-      }
-
       // Update storage
       await this.storeConversationContext(context);
       this.memoryCache.set(conversationId, context);
 
+      await conversationSearch.indexTurns(context, [turn]);
+      if (summarize) {
+        await conversationSearch.indexSummary(context);
+      }
+
+      conversationEvents.publish({ type: 'turn', conversation_id: conversationId, organization_id: context.organization_id, turn });
+
       logger.debug('Conversation turn added', {
         conversation_id: conversationId,
         role,
@@ -152,16 +206,7 @@ export class ConversationMemoryService {
         return null;
       }
 
-      const context: ConversationContext = {
-        customer_id: data.customer_id,
-        agent_id: data.agent_id,
-        conversation_id: data.conversation_id,
-        turns: data.turns || [],
-        summary: data.summary,
-        status: data.status,
-        created_at: data.created_at,
-        updated_at: data.updated_at
-      };
+      const context = this.fromRow(data);
 
       // Cache for future use
       this.memoryCache.set(conversationId, context);
@@ -192,46 +237,14 @@ export class ConversationMemoryService {
     }
   }
 
+  // Semantic and keyword search over the customer's conversations, archived turns included
   async searchConversationHistory(
     customerId: string,
     query: string,
     limit: number = 5
-  ): Promise<Array<{
-    conversation_id: string;
-    relevant_turns: ConversationTurn[];
-    context_summary: string;
-  }>> {
+  ): Promise<ConversationSearchResult[]> {
     try {
-      const { data, error } = await supabase
-        .from('conversation_contexts')
-        .select('*')
-        .eq('customer_id', customerId)
-        .order('updated_at', { ascending: false })
-        .limit(20); // Get recent conversations
-
-      if (error || !data) {
-        return [];
-      }
-
-      const results = [];
-      const queryLower = query.toLowerCase();
-
-      for (const conv of data) {
-        const turns = conv.turns || [];
-        const relevantTurns = turns.filter((turn: ConversationTurn) =>
-          turn.content.toLowerCase().includes(queryLower)
-        );
-
-        if (relevantTurns.length > 0) {
-          results.push({
-            conversation_id: conv.conversation_id,
-            relevant_turns: relevantTurns.slice(0, 3), // Limit relevant turns
-            context_summary: conv.summary || 'No summary available'
-          });
-        }
-      }
-
-      return results.slice(0, limit);
+      return await conversationSearch.search(customerId, query, limit);
 
     } catch (error) {
       logger.error('Failed to search conversation history', { error });
@@ -239,35 +252,34 @@ export class ConversationMemoryService {
     }
   }
 
-  async generateConversationSummary(context: ConversationContext): Promise<string> {
-    try {
-      if (context.turns.length === 0) {
-        return 'Empty conversation';
-      }
-
-      // Simple extractive summary
-      const userMessages = context.turns
-        .filter(turn => turn.role === 'user')
-        .map(turn => turn.content)
-        .join(' ');
-
-      const assistantMessages = context.turns
-        .filter(turn => turn.role === 'assistant')
-        .map(turn => turn.content)
-        .join(' ');
+  // Merges the turns added since the last summary into the structured summary and
+  // refreshes the plain-text summary from it. Falls back to an extractive summary when
+  // the model is unavailable, so this never throws.
+  async generateConversationSummary(context: ConversationContext): Promise<ConversationSummary> {
+    const previous = context.structured_summary;
+    const newTurns = this.unsummarizedTurns(context);
+    const firstTurnNumber = (previous?.turns_summarized || 0) + 1;
+    const numbered = newTurns.map((turn, index) => ({ ...turn, number: firstTurnNumber + index }));
+
+    let summary: ConversationSummary;
+    if (numbered.length === 0) {
+      summary = previous ? { ...previous } : this.summarizeExtractively(context, undefined, []);
+    } else {
+      summary = await this.summarizeWithModel(context, previous, numbered)
+        || this.summarizeExtractively(context, previous, numbered);
+      summary.turns_summarized = (previous?.turns_summarized || 0) + numbered.length;
+      summary.last_turn_id = newTurns[newTurns.length - 1]?.id || previous?.last_turn_id;
+    }
 
-      // Extract key information
-      const summary = `Customer inquiry: ${userMessages.slice(0, 200)}... 
-                      Response approach: ${assistantMessages.slice(0, 200)}...
-                      Total turns: ${context.turns.length}
-                      Status: ${context.status}`;
+    // A closed conversation's outcome is known; don't leave it to the model
+    if (context.status === 'resolved' || context.status === 'escalated') {
+      summary.resolution_status = context.status;
+    }
 
-      return summary;
+    context.structured_summary = summary;
+    context.summary = this.describeSummary(summary);
 
-    } catch (error) {
-      logger.error('Failed to generate conversation summary', { error });
-      return 'Summary generation failed';
-    }
+    return summary;
   }
 
   async closeConversation(
@@ -284,17 +296,22 @@ export class ConversationMemoryService {
       context.status = status;
       context.updated_at = new Date().toISOString();
 
+      await this.generateConversationSummary(context);
+
+      // An agent's own wrap-up replaces the generated text, the structured summary is kept
       if (finalSummary) {
         context.summary = finalSummary;
-      } else if (!context.summary) {
-        context.summary = await this.generateConversationSummary(context);
       }
 
       await this.storeConversationContext(context);
+      await this.endOwnership(conversationId, status);
+      await conversationSearch.indexSummary(context);
       
       // Remove from active memory cache
       this.memoryCache.delete(conversationId);
 
+      conversationEvents.publish({ type: 'status', conversation_id: conversationId, organization_id: context.organization_id, status });
+
       logger.info('Conversation closed', {
         conversation_id: conversationId,
         status,
@@ -307,7 +324,7 @@ export class ConversationMemoryService {
     }
   }
 
-  async getActiveConversations(agentId: string): Promise<ConversationContext[]> {
+  async getActiveConversations(agentId: string, team?: string): Promise<ConversationContext[]> {
     try {
       const { data, error } = await supabase
         .from('conversation_contexts')
@@ -320,16 +337,26 @@ export class ConversationMemoryService {
         throw error;
       }
 
-      return data?.map(row => ({
-        customer_id: row.customer_id,
-        agent_id: row.agent_id,
-        conversation_id: row.conversation_id,
-        turns: row.turns || [],
-        summary: row.summary,
-        status: row.status,
-        created_at: row.created_at,
-        updated_at: row.updated_at
-      })) || [];
+      let rows = data || [];
+
+      // Conversations handed to the agent's team that nobody has accepted yet
+      if (team) {
+        const { data: queued, error: queueError } = await supabase
+          .from('conversation_contexts')
+          .select('*')
+          .is('agent_id', null)
+          .eq('team', team)
+          .eq('status', 'active')
+          .order('updated_at', { ascending: false });
+
+        if (queueError) {
+          throw queueError;
+        }
+
+        rows = [...rows, ...(queued || [])];
+      }
+
+      return rows.map(row => this.fromRow(row));
 
     } catch (error) {
       logger.error('Failed to get active conversations', { error });
@@ -337,6 +364,104 @@ export class ConversationMemoryService {
     }
   }
 
+  // Moves an active conversation to another agent, or to a team's queue when agentId is
+  // null, closing the current ownership period and opening the next one
+  async transferConversation(
+    conversationId: string,
+    owner: { agentId: string | null; team?: string },
+    endReason: 'handoff' | 'accepted',
+    handoffId?: string
+  ): Promise<ConversationContext> {
+    const context = await this.getConversationContext(conversationId);
+    if (!context) {
+      throw new Error(`Conversation ${conversationId} not found`);
+    }
+
+    context.agent_id = owner.agentId;
+    context.team = owner.team;
+    context.updated_at = new Date().toISOString();
+
+    await this.storeConversationContext(context);
+    this.memoryCache.set(conversationId, context);
+
+    await this.endOwnership(conversationId, endReason);
+    await this.startOwnership(conversationId, owner, handoffId);
+
+    conversationEvents.publish({
+      type: 'assigned',
+      conversation_id: conversationId,
+      organization_id: context.organization_id,
+      agent_id: owner.agentId,
+      team: owner.team
+    });
+
+    return context;
+  }
+
+  async getOwnershipHistory(conversationId: string): Promise<ConversationOwnershipPeriod[]> {
+    const { data, error } = await supabase
+      .from('conversation_ownership')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  private fromRow(row: any): ConversationContext {
+    return {
+      customer_id: row.customer_id,
+      agent_id: row.agent_id,
+      team: row.team || undefined,
+      organization_id: row.organization_id || undefined,
+      conversation_id: row.conversation_id,
+      turns: row.turns || [],
+      summary: row.summary,
+      structured_summary: row.structured_summary || undefined,
+      status: row.status,
+      turns_purged_at: row.turns_purged_at || undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  // Ownership history is for attribution; failing to record it doesn't fail the conversation
+  private async startOwnership(
+    conversationId: string,
+    owner: { agentId: string | null; team?: string },
+    handoffId?: string
+  ): Promise<void> {
+    const { error } = await supabase
+      .from('conversation_ownership')
+      .insert({
+        conversation_id: conversationId,
+        agent_id: owner.agentId,
+        team: owner.team || null,
+        handoff_id: handoffId || null,
+        started_at: new Date().toISOString()
+      });
+
+    if (error) {
+      logger.error('Failed to record conversation ownership', { error, conversation_id: conversationId });
+    }
+  }
+
+  private async endOwnership(conversationId: string, reason: NonNullable<ConversationOwnershipPeriod['end_reason']>): Promise<void> {
+    const { error } = await supabase
+      .from('conversation_ownership')
+      .update({ ended_at: new Date().toISOString(), end_reason: reason })
+      .eq('conversation_id', conversationId)
+      .is('ended_at', null);
+
+    if (error) {
+      logger.error('Failed to close conversation ownership period', { error, conversation_id: conversationId });
+    }
+  }
+
   private async storeConversationContext(context: ConversationContext): Promise<void> {
     try {
       const { error } = await supabase
@@ -345,12 +470,15 @@ export class ConversationMemoryService {
           conversation_id: context.conversation_id,
           customer_id: context.customer_id,
           agent_id: context.agent_id,
+          team: context.team || null,
+          organization_id: context.organization_id || null,
           turns: context.turns,
           summary: context.summary,
+          structured_summary: context.structured_summary || null,
           status: context.status,
           created_at: context.created_at,
           updated_at: context.updated_at
-        });
+        }, { onConflict: 'conversation_id' });
 
       if (error) {
         throw error;
@@ -379,6 +507,7 @@ export class ConversationMemoryService {
           });
 
         context.turns = turnsToKeep;
+        await conversationSearch.markArchived(context.conversation_id, turnsToArchive.map(turn => turn.id));
 
         logger.debug('Archived old conversation turns', {
           conversation_id: context.conversation_id,
@@ -392,6 +521,152 @@ export class ConversationMemoryService {
     }
   }
 
+  // Turns after the last one the structured summary covers
+  private unsummarizedTurns(context: ConversationContext): ConversationTurn[] {
+    const lastTurnId = context.structured_summary?.last_turn_id;
+    const index = lastTurnId ? context.turns.findIndex(turn => turn.id === lastTurnId) : -1;
+    return context.turns.slice(index + 1);
+  }
+
+  private async summarizeWithModel(
+    context: ConversationContext,
+    previous: ConversationSummary | undefined,
+    turns: Array<ConversationTurn & { number: number }>
+  ): Promise<ConversationSummary | null> {
+    const startTime = Date.now();
+
+    try {
+      const prompt = await promptTemplateRegistry.render('conversation_summary', {
+        previousSummary: previous,
+        turns: turns.map(turn => ({ number: turn.number, role: turn.role, content: turn.content })),
+        status: context.status
+      });
+
+      const aiService = this.getAIService();
+      const completion = await aiService.completePrompt('summary', prompt.text);
+      await aiService.recordCompletion(
+        'summary',
+        `Summary of ${context.conversation_id}`,
+        completion,
+        Date.now() - startTime,
+        { userId: context.agent_id || undefined, customerId: context.customer_id },
+        { template: prompt.template }
+      );
+
+      const jsonMatch = completion.text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error('Summary response contained no JSON');
+      }
+
+      return this.normalizeSummary(JSON.parse(jsonMatch[0]), previous);
+
+    } catch (error) {
+      logger.warn('Model conversation summary failed, using extractive summary', {
+        error,
+        conversation_id: context.conversation_id
+      });
+      return null;
+    }
+  }
+
+  // Keeps only well-formed fields from the model's JSON; anything missing comes from the
+  // previous summary
+  private normalizeSummary(parsed: any, previous?: ConversationSummary): ConversationSummary {
+    const strings = (value: any, fallback: string[] = []): string[] =>
+      Array.isArray(value) ? value.filter(item => typeof item === 'string' && item.trim()).slice(0, 20) : fallback;
+
+    const progression = new Map<number, ConversationSummary['sentiment_progression'][number]>();
+    for (const entry of [...(previous?.sentiment_progression || []), ...(Array.isArray(parsed.sentiment_progression) ? parsed.sentiment_progression : [])]) {
+      if (Number.isInteger(entry?.turn) && SENTIMENTS.includes(entry?.sentiment)) {
+        progression.set(entry.turn, { turn: entry.turn, sentiment: entry.sentiment });
+      }
+    }
+
+    return {
+      key_topics: strings(parsed.key_topics, previous?.key_topics),
+      customer_intent: typeof parsed.customer_intent === 'string' && parsed.customer_intent.trim()
+        ? parsed.customer_intent.trim()
+        : previous?.customer_intent || 'Unknown',
+      resolution_status: RESOLUTION_STATUSES.includes(parsed.resolution_status)
+        ? parsed.resolution_status
+        : previous?.resolution_status || 'pending',
+      sentiment_progression: Array.from(progression.values()).sort((a, b) => a.turn - b.turn),
+      next_steps: strings(parsed.next_steps, previous?.next_steps),
+      turns_summarized: previous?.turns_summarized || 0,
+      generated_by: 'model',
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  // Built from what the query pipeline recorded on assistant turns: the intent and
+  // sentiment of the customer message each one answered
+  private summarizeExtractively(
+    context: ConversationContext,
+    previous: ConversationSummary | undefined,
+    turns: Array<ConversationTurn & { number: number }>
+  ): ConversationSummary {
+    const topics = new Set(previous?.key_topics || []);
+    const progression = [...(previous?.sentiment_progression || [])];
+
+    turns.forEach((turn, index) => {
+      if (turn.role !== 'assistant') {
+        return;
+      }
+      if (turn.metadata?.intent) {
+        topics.add(turn.metadata.intent);
+      }
+      const answered = turns[index - 1];
+      if (answered?.role === 'user' && SENTIMENTS.includes(turn.metadata?.sentiment)) {
+        progression.push({ turn: answered.number, sentiment: turn.metadata!.sentiment });
+      }
+    });
+
+    const firstCustomerMessage = turns.find(turn => turn.role === 'user')?.content;
+
+    return {
+      key_topics: Array.from(topics),
+      customer_intent: previous?.customer_intent
+        || (firstCustomerMessage ? firstCustomerMessage.slice(0, 200) : 'Unknown'),
+      resolution_status: previous?.resolution_status || 'pending',
+      sentiment_progression: progression,
+      next_steps: previous?.next_steps || [],
+      turns_summarized: previous?.turns_summarized || 0,
+      generated_by: 'extractive',
+      generated_at: new Date().toISOString()
+    };
+  }
+
+  // Plain-text form kept in the summary column, used by history search
+  private describeSummary(summary: ConversationSummary): string {
+    const lines = [
+      `Customer intent: ${summary.customer_intent}`,
+      `Topics: ${summary.key_topics.join(', ') || 'none'}`,
+      `Status: ${summary.resolution_status}`
+    ];
+    if (summary.next_steps.length > 0) {
+      lines.push(`Next steps: ${summary.next_steps.join('; ')}`);
+    }
+    lines.push(`Turns: ${summary.turns_summarized}`);
+    return lines.join('\n');
+  }
+
+  // Created on first use: this module is loaded by the AI tools, which ai.ts imports
+  private getAIService(): AIService {
+    if (!this.aiService) {
+      this.aiService = new AIService(createLLMProvider(anthropic));
+    }
+    return this.aiService;
+  }
+
+  // Drops a customer's conversations from the cache after their data was erased
+  forgetCustomer(customerId: string): void {
+    for (const [conversationId, context] of this.memoryCache.entries()) {
+      if (context.customer_id === customerId) {
+        this.memoryCache.delete(conversationId);
+      }
+    }
+  }
+
   // Clean up old memory cache entries
   cleanupMemoryCache(): void {
     const oneHourAgo = Date.now() - (60 * 60 * 1000);
@@ -405,4 +680,7 @@ export class ConversationMemoryService {
   }
 }
 
+// Shared so every route sees the same in-memory conversation state
+export const conversationMemory = new ConversationMemoryService();
+
 export default ConversationMemoryService;
\ No newline at end of file
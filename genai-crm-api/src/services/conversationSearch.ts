@@ -0,0 +1,409 @@
+import { supabase, logger } from '../server';
+import { EmbeddingProvider, createEmbeddingProvider, stemWord } from './embeddingProvider';
+import { ConversationContext, ConversationTurn } from './conversationMemory';
+import { envInt, envFloat } from '../config';
+
+export type SearchItemSource = 'turn' | 'summary';
+
+export interface ConversationSearchMatch {
+  // The turn id, or 'summary'
+  item_key: string;
+  source: SearchItemSource;
+  role?: ConversationTurn['role'];
+  archived: boolean;
+  timestamp?: string;
+  score: number;
+  semantic_score: number;
+  keyword_score: number;
+  snippet: string;
+  // [start, end) character ranges of matched query terms within the snippet
+  highlights: Array<[number, number]>;
+}
+
+export interface ConversationSearchResult {
+  conversation_id: string;
+  status?: ConversationContext['status'];
+  updated_at?: string;
+  // Score of the best match in the conversation
+  score: number;
+  context_summary: string;
+  matches: ConversationSearchMatch[];
+}
+
+export interface ReindexResult {
+  conversations: number;
+  items_indexed: number;
+}
+
+interface IndexItem {
+  conversation_id: string;
+  customer_id: string;
+  item_key: string;
+  source: SearchItemSource;
+  role?: ConversationTurn['role'];
+  content: string;
+  archived: boolean;
+  turn_timestamp?: string;
+}
+
+interface Candidate {
+  conversation_id: string;
+  item_key: string;
+  source: SearchItemSource;
+  role?: ConversationTurn['role'];
+  content: string;
+  archived: boolean;
+  turn_timestamp?: string;
+  similarity?: number;
+}
+
+// Share of the hybrid score that comes from keyword matches; the rest is semantic similarity
+const CONVERSATION_SEARCH_KEYWORD_WEIGHT = Math.min(1, Math.max(0, envFloat('CONVERSATION_SEARCH_KEYWORD_WEIGHT', 0.3)));
+// Matches scoring below this are dropped unless they contain a query term
+const CONVERSATION_SEARCH_MIN_SCORE = envFloat('CONVERSATION_SEARCH_MIN_SCORE', 0.25);
+// Items fetched from each of the semantic and keyword indexes before ranking
+const CONVERSATION_SEARCH_CANDIDATES = envInt('CONVERSATION_SEARCH_CANDIDATES', 50);
+
+const MATCHES_PER_CONVERSATION = 3;
+const SNIPPET_LENGTH = 200;
+const SUMMARY_ITEM_KEY = 'summary';
+
+// Searches are scoped to one customer, so words like "customer" carry no signal
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'before', 'by', 'can', 'customer',
+  'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'in', 'is', 'it', 'its', 'me',
+  'my', 'of', 'on', 'or', 'our', 'she', 'that', 'the', 'their', 'them', 'they', 'this', 'to', 'was', 'we', 'were', 'what',
+  'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+// Stems of the meaningful words in a query
+export function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  return Array.from(new Set(words.filter(word => !STOP_WORDS.has(word)).map(stemWord)));
+}
+
+// Words starting with a term, so the stem "delay" finds "delays" and "delayed"
+const termPattern = (term: string): RegExp => new RegExp(`(?<![\\p{L}\\p{N}])${term}[\\p{L}\\p{N}]*`, 'giu');
+
+// Share of query terms that appear in the text
+export function keywordScore(text: string, terms: string[]): number {
+  if (terms.length === 0) {
+    return 0;
+  }
+  return terms.filter(term => termPattern(term).test(text)).length / terms.length;
+}
+
+// A window of the text around the first matched term, with the matched words' ranges
+export function buildSnippet(text: string, terms: string[], length: number = SNIPPET_LENGTH): { snippet: string; highlights: Array<[number, number]> } {
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (const match of text.matchAll(termPattern(term))) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  let start = 0;
+  if (ranges.length > 0 && text.length > length) {
+    // Start a little before the first match, at a word boundary
+    start = Math.max(0, Math.min(ranges[0][0] - Math.floor(length / 4), text.length - length));
+    const space = text.lastIndexOf(' ', start);
+    start = space > 0 && start - space < 20 ? space + 1 : start;
+  }
+  const end = Math.min(text.length, start + length);
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = `${prefix}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+  const highlights = ranges
+    .filter(([from, to]) => from >= start && to <= end)
+    .map(([from, to]): [number, number] => [from - start + prefix.length, to - start + prefix.length]);
+
+  return { snippet, highlights };
+}
+
+export class ConversationSearchService {
+  private provider: EmbeddingProvider;
+
+  constructor(provider: EmbeddingProvider = createEmbeddingProvider()) {
+    this.provider = provider;
+  }
+
+  // Embeds turns as they are added. Indexing failures are logged and never fail the
+  // conversation update; reindex() fills any gaps.
+  async indexTurns(context: ConversationContext, turns: ConversationTurn[], archived: boolean = false): Promise<number> {
+    const items = turns
+      .filter(turn => turn.role !== 'system' && turn.content?.trim())
+      .map((turn): IndexItem => ({
+        conversation_id: context.conversation_id,
+        customer_id: context.customer_id,
+        item_key: turn.id,
+        source: 'turn',
+        role: turn.role,
+        content: turn.content,
+        archived,
+        turn_timestamp: turn.timestamp
+      }));
+
+    return this.indexItems(items);
+  }
+
+  async indexSummary(context: ConversationContext): Promise<void> {
+    if (!context.summary?.trim()) {
+      return;
+    }
+
+    await this.indexItems([{
+      conversation_id: context.conversation_id,
+      customer_id: context.customer_id,
+      item_key: SUMMARY_ITEM_KEY,
+      source: 'summary',
+      content: context.summary,
+      archived: false,
+      turn_timestamp: context.updated_at
+    }]);
+  }
+
+  async markArchived(conversationId: string, turnIds: string[]): Promise<void> {
+    if (turnIds.length === 0) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('conversation_embeddings')
+      .update({ archived: true })
+      .eq('conversation_id', conversationId)
+      .in('item_key', turnIds);
+
+    if (error) {
+      logger.warn('Failed to mark archived conversation embeddings', { error, conversation_id: conversationId });
+    }
+  }
+
+  // Indexes turns (including archived ones) and summaries that have no embedding from the
+  // current model yet, e.g. conversations from before the index existed or after a model change
+  async reindex(customerId?: string): Promise<ReindexResult> {
+    const result: ReindexResult = { conversations: 0, items_indexed: 0 };
+    const pageSize = 50;
+
+    for (let offset = 0; ; offset += pageSize) {
+      let query = supabase
+        .from('conversation_contexts')
+        .select('conversation_id, customer_id, agent_id, turns, summary, status, created_at, updated_at')
+        .order('created_at', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (customerId) {
+        query = query.eq('customer_id', customerId);
+      }
+
+      const { data, error } = await query;
+      if (error) {
+        throw error;
+      }
+
+      for (const context of (data || []) as ConversationContext[]) {
+        result.items_indexed += await this.reindexConversation(context);
+        result.conversations++;
+      }
+
+      if (!data || data.length < pageSize) {
+        break;
+      }
+    }
+
+    logger.info('Conversation search index rebuilt', { customer_id: customerId, model: this.provider.model, ...result });
+    return result;
+  }
+
+  // Hybrid search over a customer's conversations: semantic similarity to the query plus
+  // the share of query terms each turn or summary contains. Results are grouped by
+  // conversation, best first, with highlighted snippets.
+  async search(customerId: string, query: string, limit: number = 5): Promise<ConversationSearchResult[]> {
+    const terms = queryTerms(query);
+    const [semantic, keyword] = await Promise.all([
+      this.semanticCandidates(customerId, query),
+      this.keywordCandidates(customerId, terms)
+    ]);
+
+    const candidates = new Map<string, Candidate>();
+    for (const candidate of [...semantic, ...keyword]) {
+      const key = `${candidate.conversation_id}:${candidate.item_key}`;
+      candidates.set(key, { ...candidate, ...candidates.get(key) });
+    }
+
+    const byConversation = new Map<string, ConversationSearchMatch[]>();
+    for (const candidate of candidates.values()) {
+      const semanticScore = Math.max(0, candidate.similarity || 0);
+      const keywordMatch = keywordScore(candidate.content, terms);
+      const score = (1 - CONVERSATION_SEARCH_KEYWORD_WEIGHT) * semanticScore + CONVERSATION_SEARCH_KEYWORD_WEIGHT * keywordMatch;
+
+      if (score < CONVERSATION_SEARCH_MIN_SCORE && keywordMatch === 0) {
+        continue;
+      }
+
+      const matches = byConversation.get(candidate.conversation_id) || [];
+      matches.push({
+        item_key: candidate.item_key,
+        source: candidate.source,
+        role: candidate.role || undefined,
+        archived: candidate.archived,
+        timestamp: candidate.turn_timestamp || undefined,
+        score: Math.round(score * 1000) / 1000,
+        semantic_score: Math.round(semanticScore * 1000) / 1000,
+        keyword_score: Math.round(keywordMatch * 1000) / 1000,
+        ...buildSnippet(candidate.content, terms)
+      });
+      byConversation.set(candidate.conversation_id, matches);
+    }
+
+    const ranked = Array.from(byConversation.entries())
+      .map(([conversationId, matches]) => ({
+        conversation_id: conversationId,
+        matches: matches.sort((a, b) => b.score - a.score).slice(0, MATCHES_PER_CONVERSATION)
+      }))
+      .sort((a, b) => b.matches[0].score - a.matches[0].score)
+      .slice(0, limit);
+
+    const conversations = await this.fetchConversations(ranked.map(result => result.conversation_id));
+
+    return ranked.map(result => {
+      const conversation = conversations.get(result.conversation_id);
+      return {
+        conversation_id: result.conversation_id,
+        status: conversation?.status,
+        updated_at: conversation?.updated_at,
+        score: result.matches[0].score,
+        context_summary: conversation?.summary || 'No summary available',
+        matches: result.matches
+      };
+    });
+  }
+
+  private async reindexConversation(context: ConversationContext): Promise<number> {
+    const { data: existing, error } = await supabase
+      .from('conversation_embeddings')
+      .select('item_key')
+      .eq('conversation_id', context.conversation_id)
+      .eq('model', this.provider.model);
+
+    if (error) {
+      throw error;
+    }
+
+    const indexed = new Set((existing || []).map(row => row.item_key));
+
+    const { data: archives } = await supabase
+      .from('conversation_archives')
+      .select('archived_turns')
+      .eq('conversation_id', context.conversation_id);
+
+    const archivedTurns: ConversationTurn[] = (archives || []).flatMap(archive => archive.archived_turns || []);
+    let count = await this.indexTurns(context, archivedTurns.filter(turn => !indexed.has(turn.id)), true);
+    count += await this.indexTurns(context, (context.turns || []).filter(turn => !indexed.has(turn.id)));
+
+    // Summaries change as the conversation goes on, so they are always re-embedded
+    if (context.summary?.trim()) {
+      await this.indexSummary(context);
+      count++;
+    }
+
+    return count;
+  }
+
+  private async indexItems(items: IndexItem[]): Promise<number> {
+    if (items.length === 0) {
+      return 0;
+    }
+
+    try {
+      const embeddings = await this.provider.embed(items.map(item => item.content), 'document');
+
+      const { error } = await supabase
+        .from('conversation_embeddings')
+        .upsert(
+          items.map((item, index) => ({ ...item, embedding: embeddings[index], model: this.provider.model })),
+          { onConflict: 'conversation_id,item_key,model' }
+        );
+
+      if (error) {
+        throw error;
+      }
+
+      return items.length;
+
+    } catch (error) {
+      logger.warn('Failed to index conversation items for search', {
+        error,
+        conversation_id: items[0].conversation_id,
+        items: items.length
+      });
+      return 0;
+    }
+  }
+
+  // With embeddings unavailable the search falls back to keyword matches only
+  private async semanticCandidates(customerId: string, query: string): Promise<Candidate[]> {
+    try {
+      const [embedding] = await this.provider.embed([query], 'query');
+
+      const { data, error } = await supabase.rpc('match_conversation_embeddings', {
+        query_embedding: embedding,
+        match_customer_id: customerId,
+        match_model: this.provider.model,
+        match_count: CONVERSATION_SEARCH_CANDIDATES
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      return data || [];
+
+    } catch (error) {
+      logger.warn('Semantic conversation search failed, using keyword matches only', { error, customer_id: customerId });
+      return [];
+    }
+  }
+
+  private async keywordCandidates(customerId: string, terms: string[]): Promise<Candidate[]> {
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await supabase
+      .from('conversation_embeddings')
+      .select('conversation_id, item_key, source, role, content, archived, turn_timestamp')
+      .eq('customer_id', customerId)
+      .eq('model', this.provider.model)
+      .textSearch('content_tsv', terms.map(term => `${term}:*`).join(' | '), { config: 'simple' })
+      .limit(CONVERSATION_SEARCH_CANDIDATES);
+
+    if (error) {
+      logger.warn('Keyword conversation search failed', { error, customer_id: customerId });
+      return [];
+    }
+
+    return data || [];
+  }
+
+  private async fetchConversations(conversationIds: string[]): Promise<Map<string, Pick<ConversationContext, 'summary' | 'status' | 'updated_at'>>> {
+    if (conversationIds.length === 0) {
+      return new Map();
+    }
+
+    const { data, error } = await supabase
+      .from('conversation_contexts')
+      .select('conversation_id, summary, status, updated_at')
+      .in('conversation_id', conversationIds);
+
+    if (error) {
+      logger.warn('Failed to load searched conversations', { error });
+    }
+
+    return new Map((data || []).map(row => [row.conversation_id, row]));
+  }
+}
+
+export const conversationSearch = new ConversationSearchService();
+
+export default ConversationSearchService;
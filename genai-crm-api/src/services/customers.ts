@@ -0,0 +1,53 @@
+import { supabase, logger } from '../server';
+import { Customer, Interaction } from '../types';
+
+export class CustomerService {
+  // columns narrows the record, e.g. to what may be shown to the model
+  async getCustomerById(customerId: string, columns: string = '*'): Promise<Customer | null> {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select(columns)
+        .eq('id', customerId)
+        .single();
+
+      if (error || !data) {
+        return null;
+      }
+
+      return data as unknown as Customer;
+    } catch (error) {
+      logger.warn('Failed to get customer info', { error, customerId });
+      return null;
+    }
+  }
+
+  async getRecentInteractions(
+    customerId: string,
+    limit: number = 5,
+    type?: Interaction['type']
+  ): Promise<Interaction[]> {
+    let query = supabase
+      .from('interactions')
+      .select('*')
+      .eq('customer_id', customerId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (type) {
+      query = query.eq('type', type);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+}
+
+export const customerService = new CustomerService();
+
+export default CustomerService;
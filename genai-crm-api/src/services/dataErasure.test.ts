@@ -0,0 +1,153 @@
+import fs from 'fs';
+import path from 'path';
+import { PGlite } from '@electric-sql/pglite';
+
+// Subpath exports aren't visible to this tsconfig's module resolution
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { vector } = require('@electric-sql/pglite/vector');
+
+const MIGRATIONS = path.join(__dirname, '../../supabase/migrations');
+
+// What the migrations expect Supabase to provide
+const SUPABASE_STUBS = `
+  CREATE ROLE anon;
+  CREATE ROLE authenticated;
+  CREATE ROLE service_role;
+  CREATE PUBLICATION supabase_realtime;
+  CREATE SCHEMA auth;
+  CREATE TABLE auth.users (id UUID PRIMARY KEY, email TEXT, raw_user_meta_data JSONB);
+  CREATE FUNCTION auth.jwt() RETURNS JSONB LANGUAGE sql AS $$ SELECT '{}'::jsonb $$;
+  CREATE FUNCTION auth.uid() RETURNS UUID LANGUAGE sql AS $$ SELECT NULL::uuid $$;
+`;
+
+// 007 enables row level security on a materialized view, which Postgres rejects; it only
+// creates analytics views, which erasure doesn't touch
+const SKIPPED_MIGRATIONS = ['007_create_views_and_optimizations.sql'];
+
+const CUSTOMER_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_CUSTOMER_ID = '22222222-2222-4222-8222-222222222222';
+const RESPONSE_ID = '33333333-3333-4333-8333-333333333333';
+const REVIEW_ITEM_ID = '44444444-4444-4444-8444-444444444444';
+
+const EMAIL = 'ana@example.com';
+const PHONE = '+14155550134';
+
+// A get_customer call as the AI service records it, output included
+const TOOL_CALLS = [{
+  id: 'call-1',
+  name: 'get_customer',
+  input: { email: EMAIL },
+  output: JSON.stringify({ id: CUSTOMER_ID, name: 'Ana Lima', email: EMAIL, phone: PHONE }),
+  duration_ms: 12
+}];
+
+describe('erase_customer_data', () => {
+  let db: PGlite;
+
+  beforeAll(async () => {
+    db = new PGlite({ extensions: { vector } });
+    await db.exec(SUPABASE_STUBS);
+
+    const files = fs.readdirSync(MIGRATIONS).filter(file => file.endsWith('.sql')).sort();
+    for (const file of files.filter(file => !SKIPPED_MIGRATIONS.includes(file))) {
+      await db.exec(fs.readFileSync(path.join(MIGRATIONS, file), 'utf8'));
+    }
+  }, 120000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  beforeEach(async () => {
+    await db.exec(`
+      TRUNCATE customers CASCADE;
+
+      INSERT INTO customers (id, name, email, phone) VALUES
+        ('${CUSTOMER_ID}', 'Ana Lima', '${EMAIL}', '${PHONE}'),
+        ('${OTHER_CUSTOMER_ID}', 'Bo Chen', 'bo@example.com', NULL);
+    `);
+
+    await db.query(
+      `INSERT INTO ai_responses (id, customer_id, query, response, processing_time_ms, metadata)
+       VALUES ($1, $2, 'What is my phone number on file?', 'It ends in 0134.', 40, $3)`,
+      [RESPONSE_ID, CUSTOMER_ID, { tool_calls: TOOL_CALLS }]
+    );
+    await db.query(
+      `INSERT INTO ai_review_items (id, response_id, customer_id, query, original_response, reasons, due_at)
+       VALUES ($1, $2, $3, 'What is my phone number on file?', 'It ends in 0134.', ARRAY['low_quality'], NOW())`,
+      [REVIEW_ITEM_ID, RESPONSE_ID, CUSTOMER_ID]
+    );
+    await db.query(
+      `INSERT INTO ai_review_comments (item_id, body) VALUES ($1, $2)`,
+      [REVIEW_ITEM_ID, `Should have confirmed ${EMAIL} first`]
+    );
+
+    // The query was asked in Bo's conversation, so the turn that recorded it is kept
+    const turns = [
+      { id: 'turn-1', role: 'user', content: 'Look up Ana', timestamp: '2026-01-01T00:00:00Z' },
+      {
+        id: 'turn-2',
+        role: 'assistant',
+        content: 'It ends in 0134.',
+        timestamp: '2026-01-01T00:00:01Z',
+        metadata: { ai_response_id: RESPONSE_ID, tool_calls: TOOL_CALLS }
+      }
+    ];
+    await db.query(
+      `INSERT INTO conversation_contexts (conversation_id, customer_id, turns) VALUES ('conv_1_bo', $1, $2)`,
+      [OTHER_CUSTOMER_ID, JSON.stringify(turns)]
+    );
+    await db.query(
+      `INSERT INTO conversation_archives (conversation_id, archived_turns) VALUES ('conv_1_bo', $1)`,
+      [JSON.stringify(turns)]
+    );
+  });
+
+  async function erase(mode: 'delete' | 'anonymize' = 'delete'): Promise<Record<string, number>> {
+    const result = await db.query<{ counts: Record<string, number> }>(
+      'SELECT erase_customer_data($1, $2) AS counts',
+      [CUSTOMER_ID, mode]
+    );
+    return result.rows[0].counts;
+  }
+
+  const mentionsCustomer = (value: unknown) => /ana@example\.com|4155550134/.test(JSON.stringify(value));
+
+  it('deletes the review comments on the customer\'s AI responses', async () => {
+    const counts = await erase('anonymize');
+
+    const comments = await db.query('SELECT * FROM ai_review_comments WHERE item_id = $1', [REVIEW_ITEM_ID]);
+    expect(comments.rows).toHaveLength(0);
+    expect(counts.ai_review_comments).toBe(1);
+  });
+
+  it('keeps only the tool names in the customer\'s AI logs', async () => {
+    await erase('anonymize');
+
+    const { rows } = await db.query<{ metadata: any }>('SELECT metadata FROM ai_responses WHERE id = $1', [RESPONSE_ID]);
+    expect(rows[0].metadata.tool_calls).toEqual([{ id: 'call-1', name: 'get_customer', duration_ms: 12 }]);
+  });
+
+  it('strips the tool calls from turns recorded in another customer\'s conversation', async () => {
+    const counts = await erase();
+
+    const context = await db.query<{ turns: any[] }>('SELECT turns FROM conversation_contexts WHERE conversation_id = $1', ['conv_1_bo']);
+    const archive = await db.query<{ archived_turns: any[] }>('SELECT archived_turns FROM conversation_archives WHERE conversation_id = $1', ['conv_1_bo']);
+
+    for (const turns of [context.rows[0].turns, archive.rows[0].archived_turns]) {
+      expect(mentionsCustomer(turns)).toBe(false);
+      expect(turns.map(turn => turn.id)).toEqual(['turn-1', 'turn-2']);
+      expect(turns[1].metadata.tool_calls).toEqual([{ id: 'call-1', name: 'get_customer', duration_ms: 12 }]);
+    }
+    expect(counts).toMatchObject({ conversation_contexts_scrubbed: 1, conversation_archives_scrubbed: 1, customers: 1 });
+  });
+
+  it('can only be called by the service role', async () => {
+    await db.exec('SET ROLE anon');
+    try {
+      await expect(erase()).rejects.toThrow(/permission denied/);
+    } finally {
+      await db.exec('RESET ROLE');
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { supabase, supabaseAdmin, logger } from '../server';
+import { conversationMemory } from './conversationMemory';
+import { aiResponseCache } from './responseCache';
+import { customerCacheTag } from './ai';
+
+// 'delete' removes the customer; 'anonymize' keeps the customer and interaction rows
+// without personal data, so aggregate analytics still add up
+export type ErasureMode = 'delete' | 'anonymize';
+
+export interface ErasureRequest {
+  mode: ErasureMode;
+  reason: string;
+  // The data subject's request, e.g. a ticket number
+  request_reference?: string;
+}
+
+export interface ErasureReceipt {
+  id: string;
+  customer_id: string;
+  mode: ErasureMode;
+  reason: string;
+  request_reference?: string;
+  requested_by?: string;
+  // Rows deleted or anonymized per table
+  affected: Record<string, number>;
+  receipt_hash: string;
+  completed_at: string;
+  created_at: string;
+}
+
+export class ErasureError extends Error {
+  readonly code: 'not_found';
+
+  constructor(code: 'not_found', message: string) {
+    super(message);
+    this.name = 'ErasureError';
+    this.code = code;
+  }
+}
+
+export class DataErasureService {
+  // Erases the customer across customers, interactions, AI logs, conversations (live,
+  // archived and indexed), notifications and analytics dimensions in one database
+  // transaction, then records a receipt
+  async eraseCustomer(customerId: string, request: ErasureRequest, requestedBy: string): Promise<ErasureReceipt> {
+    const { data: customer, error: customerError } = await supabase
+      .from('customers')
+      .select('id')
+      .eq('id', customerId)
+      .maybeSingle();
+
+    if (customerError) {
+      throw customerError;
+    }
+
+    if (!customer) {
+      throw new ErasureError('not_found', 'Customer not found');
+    }
+
+    const { data: affected, error } = await supabaseAdmin.rpc('erase_customer_data', {
+      p_customer_id: customerId,
+      p_mode: request.mode
+    });
+
+    if (error) {
+      throw error;
+    }
+
+    // Copies held outside the database
+    conversationMemory.forgetCustomer(customerId);
+    await aiResponseCache.invalidateTag(customerCacheTag(customerId));
+
+    const contents = {
+      customer_id: customerId,
+      mode: request.mode,
+      reason: request.reason,
+      request_reference: request.request_reference || null,
+      requested_by: requestedBy,
+      affected: affected as Record<string, number>,
+      completed_at: new Date().toISOString()
+    };
+
+    const { data: receipt, error: receiptError } = await supabase
+      .from('data_erasure_receipts')
+      .insert({ ...contents, receipt_hash: this.hashReceipt(contents) })
+      .select()
+      .single();
+
+    if (receiptError) {
+      // The erasure itself is done and can't be rolled back; keep the receipt in the logs
+      logger.error('Failed to store erasure receipt', { error: receiptError, receipt: contents });
+      throw receiptError;
+    }
+
+    logger.info('Customer data erased', {
+      receipt_id: receipt.id,
+      customer_id: customerId,
+      mode: request.mode,
+      affected,
+      requested_by: requestedBy
+    });
+
+    return receipt;
+  }
+
+  // The receipt, and whether its contents still match the hash taken at erasure time
+  async getReceipt(id: string): Promise<ErasureReceipt & { verified: boolean }> {
+    const { data, error } = await supabase
+      .from('data_erasure_receipts')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new ErasureError('not_found', 'Erasure receipt not found');
+    }
+
+    return { ...data, verified: this.hashReceipt(data) === data.receipt_hash };
+  }
+
+  async listReceipts(customerId?: string): Promise<ErasureReceipt[]> {
+    let query = supabase
+      .from('data_erasure_receipts')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+
+    if (customerId) {
+      query = query.eq('customer_id', customerId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Fields are hashed in a fixed order, with affected tables sorted, so the hash doesn't
+  // depend on how the database returns the JSON
+  private hashReceipt(receipt: Pick<ErasureReceipt, 'customer_id' | 'mode' | 'reason' | 'affected' | 'completed_at'> & {
+    request_reference?: string | null;
+    requested_by?: string | null;
+  }): string {
+    const affected = Object.keys(receipt.affected || {})
+      .sort()
+      .map(table => [table, receipt.affected[table]]);
+
+    const canonical = JSON.stringify([
+      receipt.customer_id,
+      receipt.mode,
+      receipt.reason,
+      receipt.request_reference || null,
+      receipt.requested_by || null,
+      affected,
+      new Date(receipt.completed_at).toISOString()
+    ]);
+
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+}
+
+export const dataErasure = new DataErasureService();
+
+export default DataErasureService;
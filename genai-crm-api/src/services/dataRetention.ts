@@ -0,0 +1,245 @@
+import { supabase, supabaseAdmin, logger } from '../server';
+import { conversationMemory } from './conversationMemory';
+import { envInt } from '../config';
+
+export interface RetentionPolicy {
+  id: string;
+  // DEFAULT_RETENTION_ORGANIZATION for the policy that covers everyone else
+  organization_id: string;
+  // Days after a closed conversation started before its turns are deleted; null keeps them
+  turn_retention_days: number | null;
+  // Whether the summary outlives the turns; when false the conversation is deleted
+  keep_summaries: boolean;
+  // Days before AI log query and response text is scrubbed; null keeps it
+  ai_log_retention_days: number | null;
+  enabled: boolean;
+  updated_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RetentionPolicyInput {
+  turn_retention_days?: number | null;
+  keep_summaries?: boolean;
+  ai_log_retention_days?: number | null;
+  enabled?: boolean;
+}
+
+export interface PolicyPurgeResult {
+  conversations_trimmed: number;
+  conversations_deleted: number;
+  archives_deleted: number;
+  embeddings_deleted: number;
+  ai_responses_scrubbed: number;
+}
+
+export interface PurgeRun {
+  id: string;
+  triggered_by?: string;
+  status: 'running' | 'completed' | 'failed';
+  // Keyed by organization_id
+  results: Record<string, PolicyPurgeResult | { error: string }>;
+  error?: string;
+  started_at: string;
+  finished_at?: string;
+}
+
+export class RetentionError extends Error {
+  readonly code: 'not_found' | 'invalid' | 'conflict';
+
+  constructor(code: 'not_found' | 'invalid' | 'conflict', message: string) {
+    super(message);
+    this.name = 'RetentionError';
+    this.code = code;
+  }
+}
+
+export const DEFAULT_RETENTION_ORGANIZATION = '*';
+
+// How often the scheduled purge runs; 0 turns the schedule off
+const RETENTION_PURGE_INTERVAL_MS = envInt('RETENTION_PURGE_INTERVAL_MS', 24 * 60 * 60 * 1000);
+
+export class DataRetentionService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  async listPolicies(): Promise<RetentionPolicy[]> {
+    const { data, error } = await supabase
+      .from('retention_policies')
+      .select('*')
+      .order('organization_id', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getPolicy(organizationId: string): Promise<RetentionPolicy> {
+    const { data, error } = await supabase
+      .from('retention_policies')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new RetentionError('not_found', 'Retention policy not found');
+    }
+
+    return data;
+  }
+
+  // Creates the organization's policy or changes the fields given
+  async savePolicy(organizationId: string, input: RetentionPolicyInput, updatedBy: string): Promise<RetentionPolicy> {
+    const { data, error } = await supabase
+      .from('retention_policies')
+      .upsert({ organization_id: organizationId, ...input, updated_by: updatedBy }, { onConflict: 'organization_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    logger.info('Retention policy saved', { organization_id: organizationId, ...input, updated_by: updatedBy });
+    return data;
+  }
+
+  // The organization falls back to the default policy
+  async deletePolicy(organizationId: string): Promise<void> {
+    if (organizationId === DEFAULT_RETENTION_ORGANIZATION) {
+      throw new RetentionError('invalid', 'The default retention policy can be changed but not deleted');
+    }
+
+    await this.getPolicy(organizationId);
+
+    const { error } = await supabase
+      .from('retention_policies')
+      .delete()
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      throw error;
+    }
+
+    logger.info('Retention policy deleted', { organization_id: organizationId });
+  }
+
+  // Applies every enabled policy and records the run. One policy failing doesn't stop
+  // the others; the run is marked failed and the error kept with that organization.
+  async runPurge(triggeredBy?: string): Promise<PurgeRun> {
+    if (this.running) {
+      throw new RetentionError('conflict', 'A retention purge is already running');
+    }
+    this.running = true;
+
+    try {
+      const { data: run, error: runError } = await supabase
+        .from('retention_purge_runs')
+        .insert({ triggered_by: triggeredBy || null })
+        .select()
+        .single();
+
+      if (runError) {
+        throw runError;
+      }
+
+      const policies = await this.listPolicies();
+      const organizations = policies
+        .map(policy => policy.organization_id)
+        .filter(organizationId => organizationId !== DEFAULT_RETENTION_ORGANIZATION);
+      const results: PurgeRun['results'] = {};
+      let failed = false;
+
+      for (const policy of policies.filter(policy => policy.enabled)) {
+        const { data, error } = await supabaseAdmin.rpc('apply_retention_policy', {
+          p_organization_id: policy.organization_id,
+          p_excluded_orgs: organizations,
+          p_turn_retention_days: policy.turn_retention_days,
+          p_keep_summaries: policy.keep_summaries,
+          p_ai_log_retention_days: policy.ai_log_retention_days
+        });
+
+        if (error) {
+          failed = true;
+          results[policy.organization_id] = { error: error.message };
+          logger.error('Retention policy failed to apply', { error, organization_id: policy.organization_id });
+        } else {
+          results[policy.organization_id] = data as PolicyPurgeResult;
+        }
+      }
+
+      // Trimmed conversations may still be cached with their old turns
+      conversationMemory.cleanupMemoryCache();
+
+      const { data: finished, error: finishError } = await supabase
+        .from('retention_purge_runs')
+        .update({
+          status: failed ? 'failed' : 'completed',
+          results,
+          error: failed ? 'One or more policies failed to apply' : null,
+          finished_at: new Date().toISOString()
+        })
+        .eq('id', run.id)
+        .select()
+        .single();
+
+      if (finishError) {
+        throw finishError;
+      }
+
+      logger.info('Retention purge finished', { run_id: run.id, status: finished.status, results });
+      return finished;
+
+    } finally {
+      this.running = false;
+    }
+  }
+
+  async listRuns(limit: number = 20): Promise<PurgeRun[]> {
+    const { data, error } = await supabase
+      .from('retention_purge_runs')
+      .select('*')
+      .order('started_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Runs the purge every RETENTION_PURGE_INTERVAL_MS. Each API instance runs its own
+  // schedule; purges are idempotent, so overlapping instances only repeat work.
+  startSchedule(): void {
+    if (this.timer || RETENTION_PURGE_INTERVAL_MS <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.runPurge().catch(error => {
+        logger.error('Scheduled retention purge failed', { error });
+      });
+    }, RETENTION_PURGE_INTERVAL_MS);
+    this.timer.unref();
+
+    logger.info('Retention purge scheduled', { interval_ms: RETENTION_PURGE_INTERVAL_MS });
+  }
+
+  stopSchedule(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+export const dataRetention = new DataRetentionService();
+
+export default DataRetentionService;
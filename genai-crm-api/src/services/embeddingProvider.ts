@@ -0,0 +1,121 @@
+import axios from 'axios';
+import { envInt } from '../config';
+import { PIIGuardedEmbeddingProvider } from './piiGuardedProvider';
+
+// Documents and search queries are embedded differently by retrieval models
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Stored with each vector; only vectors from the same model are compared
+  readonly model: string;
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+const VOYAGE_API_URL = 'https://api.voyageai.com/v1/embeddings';
+// Inputs per request accepted by the Voyage API
+const VOYAGE_BATCH_SIZE = 128;
+
+export class VoyageEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'voyage';
+  readonly model: string;
+  private apiKey: string;
+  private timeoutMs: number;
+
+  constructor(apiKey: string, model: string, timeoutMs: number) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.timeoutMs = timeoutMs;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const vectors: number[][] = [];
+
+    for (let i = 0; i < texts.length; i += VOYAGE_BATCH_SIZE) {
+      const response = await axios.post(
+        VOYAGE_API_URL,
+        { input: texts.slice(i, i + VOYAGE_BATCH_SIZE), model: this.model, input_type: inputType },
+        { headers: { Authorization: `Bearer ${this.apiKey}` }, timeout: this.timeoutMs }
+      );
+
+      const data: Array<{ index: number; embedding: number[] }> = response.data.data;
+      vectors.push(...data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+    }
+
+    return vectors;
+  }
+}
+
+// Deterministic feature-hashing embeddings for tests and offline development. Words
+// (with common suffixes stripped) and their character trigrams are hashed into a fixed
+// number of buckets, so texts sharing vocabulary score close without any model.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.model = `local-hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array(this.dimensions).fill(0);
+
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+      const stem = stemWord(word);
+      this.addFeature(vector, `w:${stem}`, 1);
+
+      const padded = `^${stem}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        this.addFeature(vector, `t:${padded.slice(i, i + 3)}`, 0.3);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  // Signed hashing keeps collisions from only ever adding similarity
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    let hash = 2166136261;
+    for (let i = 0; i < feature.length; i++) {
+      hash = Math.imul(hash ^ feature.charCodeAt(i), 16777619);
+    }
+    const index = (hash >>> 0) % this.dimensions;
+    vector[index] += (hash & 0x80000000) ? -weight : weight;
+  }
+}
+
+// Strips common English inflections so "delays", "delayed" and "delay" match
+export function stemWord(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix)) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+// EMBEDDING_PROVIDER is "voyage" or "local"; without it, Voyage is used when an API
+// key is configured and the local provider otherwise. Text sent to Voyage goes through
+// the PII policy first; the local provider keeps it in the process.
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const provider = process.env.EMBEDDING_PROVIDER || (process.env.VOYAGE_API_KEY ? 'voyage' : 'local');
+
+  if (provider === 'voyage') {
+    return new PIIGuardedEmbeddingProvider(new VoyageEmbeddingProvider(
+      process.env.VOYAGE_API_KEY || '',
+      process.env.EMBEDDING_MODEL || 'voyage-3-lite',
+      envInt('EMBEDDING_TIMEOUT_MS', 10000)
+    ));
+  }
+
+  return new LocalEmbeddingProvider(envInt('EMBEDDING_DIMENSIONS', 256));
+}
+
+export default createEmbeddingProvider;
@@ -0,0 +1,421 @@
+import { supabase, logger } from '../server';
+import { envInt } from '../config';
+
+export type EscalationLevel = 'immediate' | 'recommended' | 'monitor' | 'standard';
+export type EscalationUrgency = 'low' | 'medium' | 'high' | 'critical';
+export type RuleMode = 'short_circuit' | 'combine';
+
+export type TextField = 'customerTier' | 'sentiment' | 'issueComplexity';
+export type NumberField = 'interactionCount' | 'previousEscalations' | 'responseTime';
+export type ConditionField = TextField | NumberField | 'query';
+export type ConditionOperator =
+  | 'eq' | 'neq' | 'in' | 'not_in'
+  | 'gt' | 'gte' | 'lt' | 'lte'
+  | 'contains_any' | 'contains_none';
+
+export interface RuleCondition {
+  field: ConditionField;
+  operator: ConditionOperator;
+  value: string | number | Array<string | number>;
+}
+
+export interface EscalationRule {
+  id: string;
+  name: string;
+  description?: string;
+  enabled: boolean;
+  priority: number;
+  conditions: RuleCondition[];
+  match: 'all' | 'any';
+  escalation_level: EscalationLevel;
+  urgency?: EscalationUrgency;
+  mode: RuleMode;
+  suggested_action?: string;
+  created_by?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface EscalationRuleInput {
+  name?: string;
+  description?: string;
+  enabled?: boolean;
+  priority?: number;
+  conditions?: RuleCondition[];
+  match?: 'all' | 'any';
+  escalation_level?: EscalationLevel;
+  urgency?: EscalationUrgency;
+  mode?: RuleMode;
+  suggested_action?: string;
+}
+
+// What rules are evaluated against: the query plus detectEscalationNeeds' customer context
+export interface EscalationSignals {
+  query: string;
+  sentiment?: string;
+  customerTier?: string;
+  issueComplexity?: string;
+  interactionCount?: number;
+  previousEscalations?: number;
+  responseTime?: number;
+}
+
+export interface RuleMatch {
+  rule_id: string;
+  rule_name: string;
+  escalation_level: EscalationLevel;
+  urgency: EscalationUrgency;
+  mode: RuleMode;
+  // e.g. 'Rule "Legal threat": query mentions "lawyer"'
+  explanation: string;
+  suggested_action?: string;
+}
+
+export interface RuleEvaluation {
+  matches: RuleMatch[];
+  // Highest level and urgency among the matches; null when nothing matched
+  escalation_level: EscalationLevel | null;
+  urgency: EscalationUrgency | null;
+  // A matching short_circuit rule makes the verdict final without asking the model
+  short_circuit: boolean;
+  suggested_action?: string;
+}
+
+export class EscalationRuleError extends Error {
+  readonly code: 'not_found' | 'conflict' | 'invalid';
+
+  constructor(code: 'not_found' | 'conflict' | 'invalid', message: string) {
+    super(message);
+    this.name = 'EscalationRuleError';
+    this.code = code;
+  }
+}
+
+// How long enabled rules are cached before the database is checked again
+const ESCALATION_RULES_CACHE_TTL_MS = envInt('ESCALATION_RULES_CACHE_TTL_MS', 60 * 1000);
+
+export const ESCALATION_LEVELS: EscalationLevel[] = ['standard', 'monitor', 'recommended', 'immediate'];
+export const ESCALATION_URGENCIES: EscalationUrgency[] = ['low', 'medium', 'high', 'critical'];
+
+const DEFAULT_URGENCY: Record<EscalationLevel, EscalationUrgency> = {
+  immediate: 'critical',
+  recommended: 'high',
+  monitor: 'medium',
+  standard: 'low'
+};
+
+const TEXT_FIELDS: TextField[] = ['customerTier', 'sentiment', 'issueComplexity'];
+const NUMBER_FIELDS: NumberField[] = ['interactionCount', 'previousEscalations', 'responseTime'];
+
+const OPERATORS_BY_KIND: Record<'text' | 'number' | 'query', ConditionOperator[]> = {
+  text: ['eq', 'neq', 'in', 'not_in'],
+  number: ['eq', 'neq', 'gt', 'gte', 'lt', 'lte'],
+  query: ['contains_any', 'contains_none']
+};
+
+const fieldKind = (field: ConditionField): 'text' | 'number' | 'query' | null => {
+  if (field === 'query') return 'query';
+  if ((TEXT_FIELDS as string[]).includes(field)) return 'text';
+  if ((NUMBER_FIELDS as string[]).includes(field)) return 'number';
+  return null;
+};
+
+// Signals fall back to the same defaults the escalation prompt uses
+const signalValue = (signals: EscalationSignals, field: ConditionField): string | number => {
+  switch (field) {
+    case 'query': return signals.query || '';
+    case 'sentiment': return (signals.sentiment || 'neutral').toLowerCase();
+    case 'customerTier': return (signals.customerTier || 'standard').toLowerCase();
+    case 'issueComplexity': return (signals.issueComplexity || 'low').toLowerCase();
+    default: return Number(signals[field]) || 0;
+  }
+};
+
+// Keywords match at the start of a word, so "cancel" also finds "cancelled"
+const mentions = (text: string, keyword: string): boolean =>
+  new RegExp(`(^|[^\\p{L}\\p{N}])${keyword.toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`, 'u').test(text.toLowerCase());
+
+const asList = (value: RuleCondition['value']): Array<string | number> => Array.isArray(value) ? value : [value];
+
+// Returns why the condition holds, or null when it doesn't
+function explainCondition(condition: RuleCondition, signals: EscalationSignals): string | null {
+  const actual = signalValue(signals, condition.field);
+  const expected = asList(condition.value).map(v => typeof v === 'string' ? v.toLowerCase() : v);
+
+  switch (condition.operator) {
+    case 'contains_any': {
+      const found = expected.filter(keyword => mentions(String(actual), String(keyword)));
+      return found.length > 0 ? `query mentions ${found.map(k => `"${k}"`).join(', ')}` : null;
+    }
+    case 'contains_none':
+      return expected.every(keyword => !mentions(String(actual), String(keyword)))
+        ? `query mentions none of ${expected.map(k => `"${k}"`).join(', ')}`
+        : null;
+    case 'eq':
+      return actual === expected[0] ? `${condition.field} is ${actual}` : null;
+    case 'neq':
+      return actual !== expected[0] ? `${condition.field} is ${actual}, not ${expected[0]}` : null;
+    case 'in':
+      return expected.includes(actual) ? `${condition.field} is ${actual}` : null;
+    case 'not_in':
+      return !expected.includes(actual) ? `${condition.field} is ${actual}` : null;
+    case 'gt':
+      return Number(actual) > Number(expected[0]) ? `${condition.field} is ${actual} (> ${expected[0]})` : null;
+    case 'gte':
+      return Number(actual) >= Number(expected[0]) ? `${condition.field} is ${actual} (>= ${expected[0]})` : null;
+    case 'lt':
+      return Number(actual) < Number(expected[0]) ? `${condition.field} is ${actual} (< ${expected[0]})` : null;
+    case 'lte':
+      return Number(actual) <= Number(expected[0]) ? `${condition.field} is ${actual} (<= ${expected[0]})` : null;
+    default:
+      return null;
+  }
+}
+
+// Evaluates enabled rules in priority order. Pure, so it can run without the database.
+export function evaluateEscalationRules(rules: EscalationRule[], signals: EscalationSignals): RuleEvaluation {
+  const matches: RuleMatch[] = [];
+
+  for (const rule of [...rules].filter(r => r.enabled).sort((a, b) => a.priority - b.priority)) {
+    const reasons = rule.conditions.map(condition => explainCondition(condition, signals));
+    const held = reasons.filter((reason): reason is string => reason !== null);
+    const matched = rule.match === 'any' ? held.length > 0 : held.length === rule.conditions.length;
+
+    if (matched) {
+      matches.push({
+        rule_id: rule.id,
+        rule_name: rule.name,
+        escalation_level: rule.escalation_level,
+        urgency: rule.urgency || DEFAULT_URGENCY[rule.escalation_level],
+        mode: rule.mode,
+        explanation: `Rule "${rule.name}": ${held.join('; ')}`,
+        suggested_action: rule.suggested_action
+      });
+    }
+  }
+
+  if (matches.length === 0) {
+    return { matches, escalation_level: null, urgency: null, short_circuit: false };
+  }
+
+  // The first match at the highest level decides the suggested action, falling back to
+  // the first match that has one
+  const top = matches.reduce((best, match) =>
+    ESCALATION_LEVELS.indexOf(match.escalation_level) > ESCALATION_LEVELS.indexOf(best.escalation_level) ? match : best
+  );
+
+  return {
+    matches,
+    escalation_level: top.escalation_level,
+    urgency: matches.reduce<EscalationUrgency>((highest, match) =>
+      ESCALATION_URGENCIES.indexOf(match.urgency) > ESCALATION_URGENCIES.indexOf(highest) ? match.urgency : highest, 'low'),
+    short_circuit: matches.some(match => match.mode === 'short_circuit'),
+    suggested_action: top.suggested_action || matches.find(match => match.suggested_action)?.suggested_action
+  };
+}
+
+export class EscalationRuleService {
+  private cache: { rules: EscalationRule[]; expiresAt: number } | null = null;
+
+  async listRules(): Promise<EscalationRule[]> {
+    const { data, error } = await supabase
+      .from('escalation_rules')
+      .select('*')
+      .order('priority', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getRule(id: string): Promise<EscalationRule> {
+    const { data, error } = await supabase
+      .from('escalation_rules')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new EscalationRuleError('not_found', 'Escalation rule not found');
+    }
+
+    return data;
+  }
+
+  async createRule(input: EscalationRuleInput, createdBy: string): Promise<EscalationRule> {
+    this.validateConditions(input.conditions || []);
+
+    const { data, error } = await supabase
+      .from('escalation_rules')
+      .insert({ ...input, created_by: createdBy })
+      .select()
+      .single();
+
+    if (error) {
+      throw this.translateError(error, input.name);
+    }
+
+    this.cache = null;
+    logger.info('Escalation rule created', { rule_id: data.id, name: data.name, created_by: createdBy });
+    return data;
+  }
+
+  async updateRule(id: string, updates: EscalationRuleInput): Promise<EscalationRule> {
+    await this.getRule(id);
+
+    if (updates.conditions) {
+      this.validateConditions(updates.conditions);
+    }
+
+    const { data, error } = await supabase
+      .from('escalation_rules')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw this.translateError(error, updates.name);
+    }
+
+    this.cache = null;
+    return data;
+  }
+
+  async deleteRule(id: string): Promise<void> {
+    await this.getRule(id);
+
+    const { error } = await supabase
+      .from('escalation_rules')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      throw error;
+    }
+
+    this.cache = null;
+  }
+
+  // Evaluates the enabled rules; with the rules unavailable nothing matches and the
+  // model decides on its own
+  async evaluate(signals: EscalationSignals): Promise<RuleEvaluation> {
+    return evaluateEscalationRules(await this.getEnabledRules(), signals);
+  }
+
+  // Dry run against sample signals: the stored rules (disabled ones included), or an
+  // unsaved draft set when one is given
+  async test(signals: EscalationSignals, drafts?: EscalationRuleInput[]): Promise<RuleEvaluation> {
+    if (!drafts) {
+      const stored = await this.listRules();
+      return evaluateEscalationRules(stored.map(rule => ({ ...rule, enabled: true })), signals);
+    }
+
+    const now = new Date().toISOString();
+    const rules = drafts.map((draft, index): EscalationRule => {
+      this.validateConditions(draft.conditions || []);
+      if (!draft.escalation_level || !ESCALATION_LEVELS.includes(draft.escalation_level)) {
+        throw new EscalationRuleError('invalid', `Rule ${index + 1}: escalation_level is required`);
+      }
+
+      return {
+        id: `draft-${index + 1}`,
+        name: draft.name || `Draft rule ${index + 1}`,
+        description: draft.description,
+        enabled: true,
+        priority: draft.priority ?? index,
+        conditions: draft.conditions!,
+        match: draft.match || 'all',
+        escalation_level: draft.escalation_level,
+        urgency: draft.urgency,
+        mode: draft.mode || 'combine',
+        suggested_action: draft.suggested_action,
+        created_at: now,
+        updated_at: now
+      };
+    });
+
+    return evaluateEscalationRules(rules, signals);
+  }
+
+  validateConditions(conditions: RuleCondition[]): void {
+    if (!Array.isArray(conditions) || conditions.length === 0) {
+      throw new EscalationRuleError('invalid', 'A rule needs at least one condition');
+    }
+
+    conditions.forEach((condition, index) => {
+      const kind = fieldKind(condition.field);
+      if (!kind) {
+        throw new EscalationRuleError('invalid', `Condition ${index + 1}: unknown field "${condition.field}"`);
+      }
+
+      if (!OPERATORS_BY_KIND[kind].includes(condition.operator)) {
+        throw new EscalationRuleError(
+          'invalid',
+          `Condition ${index + 1}: ${condition.field} supports ${OPERATORS_BY_KIND[kind].join(', ')}, not "${condition.operator}"`
+        );
+      }
+
+      const values = asList(condition.value);
+      const listOperator = ['in', 'not_in', 'contains_any', 'contains_none'].includes(condition.operator);
+      if (values.length === 0 || (!listOperator && Array.isArray(condition.value))) {
+        throw new EscalationRuleError(
+          'invalid',
+          `Condition ${index + 1}: ${condition.operator} needs ${listOperator ? 'a non-empty list' : 'a single value'}`
+        );
+      }
+
+      if (kind === 'number' && values.some(value => typeof value !== 'number')) {
+        throw new EscalationRuleError('invalid', `Condition ${index + 1}: ${condition.field} is compared with numbers`);
+      }
+
+      if (kind !== 'number' && values.some(value => typeof value !== 'string' || value.trim() === '')) {
+        throw new EscalationRuleError('invalid', `Condition ${index + 1}: ${condition.field} is compared with non-empty strings`);
+      }
+    });
+  }
+
+  private async getEnabledRules(): Promise<EscalationRule[]> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.rules;
+    }
+
+    let rules: EscalationRule[] = [];
+    try {
+      const { data, error } = await supabase
+        .from('escalation_rules')
+        .select('*')
+        .eq('enabled', true)
+        .order('priority', { ascending: true });
+
+      if (error) {
+        throw error;
+      }
+
+      rules = data || [];
+    } catch (error) {
+      logger.warn('Failed to load escalation rules', { error });
+    }
+
+    this.cache = { rules, expiresAt: Date.now() + ESCALATION_RULES_CACHE_TTL_MS };
+    return rules;
+  }
+
+  private translateError(error: any, name?: string): Error {
+    if (error.code === '23505') {
+      return new EscalationRuleError('conflict', `An escalation rule named "${name}" already exists`);
+    }
+    return error;
+  }
+}
+
+export const escalationRuleService = new EscalationRuleService();
+
+export default EscalationRuleService;
@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { supabase, logger } from '../server';
+import { promptTemplateRegistry, QUERY_PROMPT_TEMPLATE } from './promptTemplateRegistry';
+import { envInt } from '../config';
+
+export type ExperimentStatus = 'draft' | 'running' | 'paused' | 'completed';
+export type ExperimentUnit = 'agent' | 'conversation';
+export type ExperimentMetric = 'quality_score' | 'confidence' | 'feedback_accuracy' | 'cost_per_query';
+
+export interface ExperimentVariant {
+  key: string;
+  // Relative share of enrolled traffic
+  weight: number;
+  // Version of the query prompt template (customer_query_response); 0 is the built-in,
+  // unset uses whatever version is published
+  template_version?: number | null;
+  // Query model override; unset uses the configured query model
+  model?: string | null;
+  description?: string;
+}
+
+export interface AIExperiment {
+  id: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  assignment_unit: ExperimentUnit;
+  // The first variant is the baseline the others are compared against
+  variants: ExperimentVariant[];
+  primary_metric: ExperimentMetric;
+  traffic_percentage: number;
+  created_by?: string;
+  started_at?: string;
+  ended_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AIExperimentInput {
+  name?: string;
+  description?: string;
+  assignment_unit?: ExperimentUnit;
+  variants?: ExperimentVariant[];
+  primary_metric?: ExperimentMetric;
+  traffic_percentage?: number;
+}
+
+export interface ExperimentAssignment {
+  experiment_id: string;
+  experiment_name: string;
+  variant: string;
+  unit: ExperimentUnit;
+  template_version?: number | null;
+  model?: string | null;
+}
+
+export class ExperimentError extends Error {
+  readonly code: 'not_found' | 'conflict' | 'invalid';
+
+  constructor(code: 'not_found' | 'conflict' | 'invalid', message: string) {
+    super(message);
+    this.name = 'ExperimentError';
+    this.code = code;
+  }
+}
+
+// How long the running experiment is cached before the database is checked again
+const EXPERIMENT_CACHE_TTL_MS = envInt('AI_EXPERIMENT_CACHE_TTL_MS', 30 * 1000);
+
+// Maps a string to a stable number in [0, 1)
+const hashToUnit = (value: string): number =>
+  parseInt(createHash('sha256').update(value).digest('hex').slice(0, 8), 16) / 0x100000000;
+
+export class ExperimentService {
+  private running: { experiment: AIExperiment | null; expiresAt: number } | null = null;
+
+  async listExperiments(status?: ExperimentStatus): Promise<AIExperiment[]> {
+    let query = supabase
+      .from('ai_experiments')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getExperiment(id: string): Promise<AIExperiment> {
+    const { data, error } = await supabase
+      .from('ai_experiments')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new ExperimentError('not_found', 'Experiment not found');
+    }
+
+    return data;
+  }
+
+  async createExperiment(input: AIExperimentInput, createdBy: string): Promise<AIExperiment> {
+    this.validateVariants(input.variants || []);
+
+    const { data, error } = await supabase
+      .from('ai_experiments')
+      .insert({ ...input, status: 'draft', created_by: createdBy })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ExperimentError('conflict', `An experiment named "${input.name}" already exists`);
+      }
+      throw error;
+    }
+
+    logger.info('AI experiment created', { experiment_id: data.id, name: data.name, created_by: createdBy });
+    return data;
+  }
+
+  // Only drafts can be edited: changing variants of a started experiment would reassign traffic
+  async updateExperiment(id: string, updates: AIExperimentInput): Promise<AIExperiment> {
+    const experiment = await this.getExperiment(id);
+    if (experiment.status !== 'draft') {
+      throw new ExperimentError('conflict', `Only draft experiments can be edited; this one is ${experiment.status}`);
+    }
+
+    if (updates.variants) {
+      this.validateVariants(updates.variants);
+    }
+
+    const { data, error } = await supabase
+      .from('ai_experiments')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  async startExperiment(id: string): Promise<AIExperiment> {
+    const experiment = await this.getExperiment(id);
+    if (experiment.status === 'running') {
+      return experiment;
+    }
+    if (experiment.status === 'completed') {
+      throw new ExperimentError('conflict', 'Completed experiments cannot be restarted');
+    }
+
+    // Every variant's template must render before any traffic reaches it
+    for (const variant of experiment.variants) {
+      if (variant.template_version === undefined || variant.template_version === null) continue;
+
+      const resolved = await promptTemplateRegistry.resolveVersion(QUERY_PROMPT_TEMPLATE, variant.template_version)
+        .catch(() => null);
+      if (!resolved) {
+        throw new ExperimentError('invalid', `Variant "${variant.key}": template version ${variant.template_version} not found`);
+      }
+
+      const validation = promptTemplateRegistry.validate(QUERY_PROMPT_TEMPLATE, resolved.template);
+      if (!validation.valid) {
+        throw new ExperimentError('invalid', `Variant "${variant.key}": ${validation.errors.join('; ')}`);
+      }
+    }
+
+    return this.setStatus(id, 'running', {
+      started_at: experiment.started_at || new Date().toISOString()
+    });
+  }
+
+  async pauseExperiment(id: string): Promise<AIExperiment> {
+    const experiment = await this.getExperiment(id);
+    if (experiment.status !== 'running') {
+      throw new ExperimentError('conflict', `Only running experiments can be paused; this one is ${experiment.status}`);
+    }
+
+    return this.setStatus(id, 'paused');
+  }
+
+  async completeExperiment(id: string): Promise<AIExperiment> {
+    const experiment = await this.getExperiment(id);
+    if (experiment.status === 'completed') {
+      return experiment;
+    }
+
+    return this.setStatus(id, 'completed', { ended_at: new Date().toISOString() });
+  }
+
+  // Variant for an agent or conversation under the running experiment, or null when no
+  // experiment is running or the unit falls outside the experiment's traffic share
+  async getAssignment(userId: string, conversationId?: string): Promise<ExperimentAssignment | null> {
+    const experiment = await this.getRunningExperiment();
+    if (!experiment) {
+      return null;
+    }
+
+    const unitId = experiment.assignment_unit === 'conversation' ? conversationId : userId;
+    if (!unitId) {
+      return null;
+    }
+
+    const variant = this.assignVariant(experiment, unitId);
+    if (!variant) {
+      return null;
+    }
+
+    return {
+      experiment_id: experiment.id,
+      experiment_name: experiment.name,
+      variant: variant.key,
+      unit: experiment.assignment_unit,
+      template_version: variant.template_version,
+      model: variant.model
+    };
+  }
+
+  // Deterministic: the same unit always gets the same variant for a given experiment.
+  // Enrolment and variant choice use separate hashes so raising traffic_percentage
+  // only adds units, it never moves enrolled ones to another variant.
+  assignVariant(experiment: AIExperiment, unitId: string): ExperimentVariant | null {
+    if (hashToUnit(`${experiment.id}:traffic:${unitId}`) * 100 >= experiment.traffic_percentage) {
+      return null;
+    }
+
+    const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0);
+    let point = hashToUnit(`${experiment.id}:variant:${unitId}`) * totalWeight;
+
+    for (const variant of experiment.variants) {
+      point -= variant.weight;
+      if (point < 0) {
+        return variant;
+      }
+    }
+
+    return experiment.variants[experiment.variants.length - 1];
+  }
+
+  private async getRunningExperiment(): Promise<AIExperiment | null> {
+    if (this.running && this.running.expiresAt > Date.now()) {
+      return this.running.experiment;
+    }
+
+    let experiment: AIExperiment | null = null;
+    try {
+      const { data, error } = await supabase
+        .from('ai_experiments')
+        .select('*')
+        .eq('status', 'running')
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      experiment = data;
+    } catch (error) {
+      logger.warn('Failed to load running AI experiment', { error });
+    }
+
+    this.running = { experiment, expiresAt: Date.now() + EXPERIMENT_CACHE_TTL_MS };
+    return experiment;
+  }
+
+  private async setStatus(id: string, status: ExperimentStatus, extra: Record<string, any> = {}): Promise<AIExperiment> {
+    const { data, error } = await supabase
+      .from('ai_experiments')
+      .update({ status, ...extra })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ExperimentError('conflict', 'Another experiment is already running');
+      }
+      throw error;
+    }
+
+    this.running = null;
+    logger.info('AI experiment status changed', { experiment_id: id, status });
+    return data;
+  }
+
+  private validateVariants(variants: ExperimentVariant[]): void {
+    if (variants.length < 2) {
+      throw new ExperimentError('invalid', 'An experiment needs at least two variants');
+    }
+
+    const keys = new Set(variants.map(v => v.key));
+    if (keys.size !== variants.length) {
+      throw new ExperimentError('invalid', 'Variant keys must be unique');
+    }
+
+    if (variants.some(v => !(v.weight > 0))) {
+      throw new ExperimentError('invalid', 'Variant weights must be positive');
+    }
+  }
+}
+
+export const experimentService = new ExperimentService();
+
+export default ExperimentService;
@@ -0,0 +1,115 @@
+export const SUPPORTED_LANGUAGES = ['en', 'es', 'de', 'pt'] as const;
+export type LanguageCode = typeof SUPPORTED_LANGUAGES[number];
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  pt: 'Portuguese'
+};
+
+export interface LanguageDetection {
+  language: LanguageCode;
+  confidence: number;
+  // False when there was too little evidence and the default language was assumed
+  reliable: boolean;
+}
+
+// Common function words. Spanish and Portuguese share several ("de", "que", "a"),
+// so the accent hints below are what usually separates them on short texts.
+const STOPWORDS: Record<LanguageCode, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'to', 'of', 'my', 'i', 'you', 'it', 'this', 'that', 'with', 'for', 'not',
+    'have', 'can', 'what', 'how', 'please', 'was', 'be', 'on', 'in', 'do', 'does', 'why', 'when', 'thanks', 'hello']),
+  es: new Set(['el', 'la', 'los', 'las', 'de', 'que', 'y', 'en', 'un', 'una', 'es', 'por', 'para', 'con', 'no', 'mi',
+    'me', 'se', 'lo', 'está', 'pero', 'como', 'qué', 'cuando', 'gracias', 'hola', 'mis', 'del', 'al', 'puedo', 'tengo', 'usted']),
+  de: new Set(['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'sie', 'es', 'mit', 'ein', 'eine', 'zu', 'auf', 'für',
+    'mein', 'meine', 'den', 'dem', 'wie', 'kann', 'bitte', 'danke', 'hallo', 'haben', 'habe', 'wir', 'auch', 'noch', 'warum']),
+  pt: new Set(['o', 'a', 'os', 'as', 'de', 'que', 'e', 'em', 'um', 'uma', 'é', 'não', 'meu', 'minha', 'para', 'com',
+    'por', 'se', 'mas', 'como', 'está', 'obrigado', 'obrigada', 'olá', 'do', 'da', 'no', 'na', 'você', 'posso', 'tenho'])
+};
+
+const CHARACTER_HINTS: Array<{ pattern: RegExp; language: LanguageCode }> = [
+  { pattern: /[ñ¿¡]/g, language: 'es' },
+  { pattern: /[ãõç]/g, language: 'pt' },
+  { pattern: /[äöüß]/g, language: 'de' }
+];
+
+// Minimum score before a non-default language is trusted
+const MIN_EVIDENCE = 2;
+
+export function isSupportedLanguage(value: any): value is LanguageCode {
+  return SUPPORTED_LANGUAGES.includes(value);
+}
+
+export function detectLanguage(text: string, fallback: LanguageCode = DEFAULT_LANGUAGE): LanguageDetection {
+  const lower = (text || '').toLowerCase();
+  const words = lower.match(/\p{L}+/gu) || [];
+  const scores: Record<LanguageCode, number> = { en: 0, es: 0, de: 0, pt: 0 };
+
+  words.forEach(word => {
+    SUPPORTED_LANGUAGES.forEach(language => {
+      if (STOPWORDS[language].has(word)) scores[language]++;
+    });
+  });
+
+  CHARACTER_HINTS.forEach(({ pattern, language }) => {
+    scores[language] += (lower.match(pattern) || []).length * 2;
+  });
+
+  const ranked = [...SUPPORTED_LANGUAGES].sort((a, b) => scores[b] - scores[a]);
+  const best = ranked[0];
+  const total = SUPPORTED_LANGUAGES.reduce((sum, language) => sum + scores[language], 0);
+
+  if (scores[best] < MIN_EVIDENCE || scores[best] === scores[ranked[1]]) {
+    return { language: fallback, confidence: 0, reliable: false };
+  }
+
+  return {
+    language: best,
+    confidence: Math.round((scores[best] / total) * 100) / 100,
+    reliable: true
+  };
+}
+
+// Reply-language instruction appended to generation prompts
+export function replyLanguageInstruction(language: LanguageCode): string {
+  const name = LANGUAGE_NAMES[language];
+  return `The customer wrote in ${name}. Write the reply and every suggested reply in ${name}. ` +
+    `Classification labels (intent, sentiment) must always be the English values listed, never translated.`;
+}
+
+// Translated labels a model sometimes returns despite instructions, mapped to the English values
+const LOCALIZED_LABELS: Record<string, string> = {
+  positivo: 'positive', positiva: 'positive', positiv: 'positive',
+  neutro: 'neutral', neutra: 'neutral',
+  negativo: 'negative', negativa: 'negative', negativ: 'negative',
+  pregunta: 'question', pergunta: 'question', frage: 'question',
+  queja: 'complaint', reclamación: 'complaint', reclamacion: 'complaint', reclamação: 'complaint',
+  reclamacao: 'complaint', beschwerde: 'complaint',
+  solicitud: 'request', petición: 'request', pedido: 'request', solicitação: 'request', anfrage: 'request',
+  cumplido: 'compliment', elogio: 'compliment', lob: 'compliment', kompliment: 'compliment',
+  soporte_técnico: 'technical_support', soporte_tecnico: 'technical_support',
+  suporte_técnico: 'technical_support', suporte_tecnico: 'technical_support',
+  technischer_support: 'technical_support', technischer_kundendienst: 'technical_support',
+  facturación: 'billing', facturacion: 'billing', faturamento: 'billing', cobrança: 'billing',
+  rechnung: 'billing', abrechnung: 'billing',
+  geral: 'general', allgemein: 'general'
+};
+
+export function toEnglishLabel(value: string): string {
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return LOCALIZED_LABELS[key] || key;
+}
+
+const FALLBACK_MESSAGES: Record<LanguageCode, string> = {
+  en: "I'm sorry, I'm experiencing some technical difficulties right now. Please try again in a moment, or feel free to contact our support team directly for immediate assistance.",
+  es: 'Lo siento, estoy teniendo algunas dificultades técnicas en este momento. Por favor, inténtelo de nuevo en unos instantes o contacte directamente con nuestro equipo de soporte para recibir ayuda inmediata.',
+  de: 'Es tut mir leid, im Moment gibt es technische Schwierigkeiten. Bitte versuchen Sie es gleich noch einmal oder wenden Sie sich direkt an unser Support-Team, um sofort Hilfe zu erhalten.',
+  pt: 'Desculpe, estou com algumas dificuldades técnicas no momento. Por favor, tente novamente em instantes ou entre em contato diretamente com nossa equipe de suporte para obter ajuda imediata.'
+};
+
+export function getFallbackMessage(language: LanguageCode): string {
+  return FALLBACK_MESSAGES[language];
+}
@@ -0,0 +1,149 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket from 'ws';
+import { verifyAccessToken } from '../middleware/auth';
+import { conversationEvents } from './conversationEvents';
+import { conversationMemory } from './conversationMemory';
+import { LIVE_PATH, LiveConversationService } from './liveConversations';
+
+jest.mock('../server', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+  supabase: {}
+}));
+jest.mock('../middleware/auth', () => ({ verifyAccessToken: jest.fn() }));
+jest.mock('./conversationMemory', () => ({ conversationMemory: { getConversationContext: jest.fn() } }));
+jest.mock('./notifications', () => ({ notificationService: { notify: jest.fn() } }));
+
+const AGENT = { id: 'agent-1', email: 'agent@example.com', role: 'user', organization_id: 'org-1' };
+const SUPERVISOR = { id: 'supervisor-1', email: 'supervisor@example.com', role: 'supervisor', organization_id: 'org-1' };
+
+const CONVERSATION = {
+  conversation_id: 'conv-1',
+  customer_id: 'customer-1',
+  agent_id: AGENT.id,
+  organization_id: 'org-1',
+  status: 'active',
+  turns: []
+};
+
+describe('LiveConversationService', () => {
+  let server: http.Server;
+  let clients: WebSocket[];
+
+  beforeAll(async () => {
+    server = http.createServer();
+    new LiveConversationService().attach(server);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    clients = [];
+    jest.mocked(verifyAccessToken).mockResolvedValue(AGENT);
+    jest.mocked(conversationMemory.getConversationContext).mockResolvedValue(CONVERSATION as any);
+  });
+
+  afterEach(() => {
+    clients.forEach(client => client.terminate());
+  });
+
+  // Connects and collects every message the server sends
+  async function connect(): Promise<{ socket: WebSocket; messages: any[]; next: (type: string) => Promise<any> }> {
+    const { port } = server.address() as AddressInfo;
+    const socket = new WebSocket(`ws://127.0.0.1:${port}${LIVE_PATH}`);
+    clients.push(socket);
+
+    const messages: any[] = [];
+    const waiting: Array<{ type: string; resolve: (message: any) => void }> = [];
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      messages.push(message);
+      const index = waiting.findIndex(wait => wait.type === message.type);
+      if (index !== -1) {
+        waiting.splice(index, 1)[0].resolve(message);
+      }
+    });
+
+    await new Promise(resolve => socket.once('open', resolve));
+
+    const next = (type: string) => new Promise<any>(resolve => waiting.push({ type, resolve }));
+    return { socket, messages, next };
+  }
+
+  async function subscribe(): Promise<Awaited<ReturnType<typeof connect>>> {
+    const client = await connect();
+    const ready = client.next('ready');
+    client.socket.send(JSON.stringify({ type: 'auth', token: 'token' }));
+    await ready;
+
+    const subscribed = client.next('subscribed');
+    client.socket.send(JSON.stringify({ type: 'subscribe', conversation_id: CONVERSATION.conversation_id }));
+    await subscribed;
+    return client;
+  }
+
+  it('handles a subscribe sent before the token has been verified', async () => {
+    jest.mocked(verifyAccessToken).mockImplementation(() => new Promise(resolve => setTimeout(() => resolve(AGENT), 50)));
+    const client = await connect();
+    const subscribed = client.next('subscribed');
+
+    client.socket.send(JSON.stringify({ type: 'auth', token: 'token' }));
+    client.socket.send(JSON.stringify({ type: 'subscribe', conversation_id: CONVERSATION.conversation_id }));
+
+    expect(await subscribed).toMatchObject({ conversation_id: CONVERSATION.conversation_id });
+    expect(client.messages.map(message => message.type)).toEqual(['ready', 'subscribed']);
+  });
+
+  it('keeps following a conversation after it escalates', async () => {
+    const client = await subscribe();
+
+    const escalated = client.next('status');
+    conversationEvents.publish({ type: 'status', conversation_id: CONVERSATION.conversation_id, status: 'escalated' });
+    expect(await escalated).toMatchObject({ status: 'escalated' });
+
+    const turn = client.next('turn');
+    conversationEvents.publish({
+      type: 'turn',
+      conversation_id: CONVERSATION.conversation_id,
+      turn: { id: 'turn-1', role: 'user', content: 'Still waiting', timestamp: new Date().toISOString() }
+    });
+    expect(await turn).toMatchObject({ turn: { id: 'turn-1' } });
+    expect(client.messages.some(message => message.type === 'unsubscribed')).toBe(false);
+  });
+
+  it('ends the subscription when the conversation is resolved', async () => {
+    const client = await subscribe();
+
+    const unsubscribed = client.next('unsubscribed');
+    conversationEvents.publish({ type: 'status', conversation_id: CONVERSATION.conversation_id, status: 'resolved' });
+
+    expect(await unsubscribed).toMatchObject({ conversation_id: CONVERSATION.conversation_id, reason: 'resolved' });
+  });
+
+  it('only follows the supervisor\'s own organization', async () => {
+    jest.mocked(verifyAccessToken).mockResolvedValue(SUPERVISOR);
+    jest.mocked(conversationMemory.getConversationContext).mockResolvedValue({ ...CONVERSATION, organization_id: 'org-2' } as any);
+    const client = await connect();
+    const ready = client.next('ready');
+    client.socket.send(JSON.stringify({ type: 'auth', token: 'token' }));
+    await ready;
+
+    const refused = client.next('error');
+    client.socket.send(JSON.stringify({ type: 'subscribe', conversation_id: CONVERSATION.conversation_id }));
+    expect(await refused).toMatchObject({ code: 'not_found' });
+
+    const subscribed = client.next('subscribed');
+    client.socket.send(JSON.stringify({ type: 'subscribe_all' }));
+    await subscribed;
+
+    const started = client.next('started');
+    conversationEvents.publish({ type: 'started', conversation_id: 'conv-2', organization_id: 'org-2', agent_id: null, customer_id: 'customer-2' });
+    conversationEvents.publish({ type: 'started', conversation_id: 'conv-3', organization_id: 'org-1', agent_id: null, customer_id: 'customer-3' });
+
+    expect(await started).toMatchObject({ conversation_id: 'conv-3' });
+    expect(client.messages.filter(message => message.type === 'started')).toHaveLength(1);
+  });
+});
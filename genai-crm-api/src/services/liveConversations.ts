@@ -0,0 +1,311 @@
+import { Server, IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { supabase, logger } from '../server';
+import { AuthenticatedRequest, verifyAccessToken } from '../middleware/auth';
+import { conversationMemory, ConversationContext, ConversationSummary, ConversationTurn } from './conversationMemory';
+import { conversationEvents, ConversationEvent } from './conversationEvents';
+import { notificationService } from './notifications';
+import { acceptWebSocket, WebSocketConnection, CLOSE_POLICY_VIOLATION } from './webSocket';
+
+type LiveUser = NonNullable<AuthenticatedRequest['user']>;
+
+type Sentiment = ConversationSummary['sentiment_progression'][number]['sentiment'];
+
+// An active conversation as the supervisor view lists it, without the turns
+export interface LiveConversation {
+  conversation_id: string;
+  customer_id: string;
+  agent_id: string | null;
+  team?: string;
+  status: ConversationContext['status'];
+  // Of the customer's latest message that has one; null until then
+  latest_sentiment: Sentiment | null;
+  turn_count: number;
+  last_turn?: ConversationTurn;
+  created_at: string;
+  updated_at: string;
+}
+
+export class LiveConversationError extends Error {
+  readonly code: 'not_found' | 'forbidden' | 'conflict';
+
+  constructor(code: 'not_found' | 'forbidden' | 'conflict', message: string) {
+    super(message);
+    this.name = 'LiveConversationError';
+    this.code = code;
+  }
+}
+
+// Client messages: {type: 'auth', token} first, answered with 'ready', then {type:
+// 'subscribe' | 'unsubscribe', conversation_id}, or {type: 'subscribe_all'} for supervisors
+interface LiveClient {
+  connection: WebSocketConnection;
+  user: LiveUser | null;
+  subscriptions: Set<string>;
+  all: boolean;
+  // Messages are handled one at a time, in order, so a subscribe sent right after the
+  // auth message waits for the token to be verified
+  pending: Promise<void>;
+}
+
+export const LIVE_PATH = '/api/live';
+
+// How long a new connection has to send its access token
+const LIVE_AUTH_TIMEOUT_MS = 10000;
+const MAX_LIVE_CONVERSATIONS = 200;
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+const ENDED_STATUSES: ConversationContext['status'][] = ['resolved', 'closed'];
+
+const isSupervisor = (user: LiveUser): boolean => user.role === 'supervisor' || user.role === 'admin';
+
+// Conversations and users without an organization only match each other
+const inOrganization = (user: LiveUser, organizationId?: string | null): boolean =>
+  (organizationId || null) === (user.organization_id || null);
+
+export class LiveConversationService {
+  private clients = new Set<LiveClient>();
+  private unsubscribeEvents: (() => void) | null = null;
+
+  // Serves WebSocket connections on LIVE_PATH from the API's HTTP server
+  attach(server: Server): void {
+    server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const path = (req.url || '').split('?')[0];
+      if (path !== LIVE_PATH) {
+        socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+        return;
+      }
+
+      acceptWebSocket(req, socket, head, connection => this.connect(connection));
+    });
+
+    if (!this.unsubscribeEvents) {
+      this.unsubscribeEvents = conversationEvents.subscribe(event => this.broadcast(event));
+    }
+
+    logger.info('Live conversation updates available', { path: LIVE_PATH });
+  }
+
+  // The organization's active conversations across all agents, most recently updated first
+  async listLiveConversations(organizationId?: string): Promise<LiveConversation[]> {
+    let query = supabase
+      .from('conversation_contexts')
+      .select('*')
+      .eq('status', 'active');
+
+    query = organizationId ? query.eq('organization_id', organizationId) : query.is('organization_id', null);
+
+    const { data, error } = await query
+      .order('updated_at', { ascending: false })
+      .limit(MAX_LIVE_CONVERSATIONS);
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(row => {
+      const turns: ConversationTurn[] = row.turns || [];
+
+      return {
+        conversation_id: row.conversation_id,
+        customer_id: row.customer_id,
+        agent_id: row.agent_id,
+        team: row.team || undefined,
+        status: row.status,
+        latest_sentiment: this.latestSentiment(turns, row.structured_summary?.sentiment_progression),
+        turn_count: turns.length,
+        last_turn: turns[turns.length - 1],
+        created_at: row.created_at,
+        updated_at: row.updated_at
+      };
+    });
+  }
+
+  // Sends a supervisor's note to the agent handling the conversation. It reaches the
+  // agent live when connected and stays in their notifications either way.
+  async whisper(conversationId: string, text: string, supervisor: LiveUser): Promise<void> {
+    const context = await conversationMemory.getConversationContext(conversationId);
+    if (!context || !inOrganization(supervisor, context.organization_id)) {
+      throw new LiveConversationError('not_found', 'Conversation not found');
+    }
+
+    if (context.status !== 'active') {
+      throw new LiveConversationError('conflict', `Conversation is ${context.status}`);
+    }
+
+    conversationEvents.publish({
+      type: 'whisper',
+      conversation_id: conversationId,
+      organization_id: context.organization_id,
+      from: supervisor.id,
+      text
+    });
+
+    if (context.agent_id || context.team) {
+      await notificationService.notify({
+        recipient_id: context.agent_id,
+        recipient_team: context.agent_id ? null : context.team,
+        type: 'whisper',
+        title: 'Supervisor suggestion',
+        body: text,
+        data: { conversation_id: conversationId, from: supervisor.id }
+      });
+    }
+
+    logger.info('Supervisor whisper sent', { conversation_id: conversationId, supervisor_id: supervisor.id });
+  }
+
+  // Supervisors can watch any conversation in their organization, agents only the ones
+  // they own
+  private async authorize(user: LiveUser, conversationId: string): Promise<void> {
+    const context = await conversationMemory.getConversationContext(conversationId);
+    if (!context || !inOrganization(user, context.organization_id)) {
+      throw new LiveConversationError('not_found', 'Conversation not found');
+    }
+
+    if (!isSupervisor(user) && context.agent_id !== user.id) {
+      throw new LiveConversationError('forbidden', 'Only the owning agent and supervisors can follow this conversation');
+    }
+  }
+
+  private connect(connection: WebSocketConnection): void {
+    const client: LiveClient = { connection, user: null, subscriptions: new Set(), all: false, pending: Promise.resolve() };
+    this.clients.add(client);
+
+    const authTimer = setTimeout(() => {
+      if (!client.user) {
+        connection.close(CLOSE_POLICY_VIOLATION, 'Authentication required');
+      }
+    }, LIVE_AUTH_TIMEOUT_MS);
+
+    connection.on('message', (message: string) => {
+      client.pending = client.pending
+        .then(() => connection.isOpen ? this.handleMessage(client, message) : undefined)
+        .catch(error => {
+          logger.error('Live update message failed', { error, user_id: client.user?.id });
+          this.send(client, { type: 'error', code: 'internal', message: 'Request failed' });
+        });
+    });
+
+    connection.on('close', () => {
+      clearTimeout(authTimer);
+      this.clients.delete(client);
+    });
+  }
+
+  private async handleMessage(client: LiveClient, raw: string): Promise<void> {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      this.send(client, { type: 'error', code: 'invalid', message: 'Messages must be JSON' });
+      return;
+    }
+
+    if (!client.user) {
+      if (message?.type !== 'auth' || typeof message.token !== 'string') {
+        client.connection.close(CLOSE_POLICY_VIOLATION, 'Authentication required');
+        return;
+      }
+
+      client.user = await verifyAccessToken(message.token);
+      if (!client.user) {
+        client.connection.close(CLOSE_POLICY_VIOLATION, 'Invalid token');
+        return;
+      }
+
+      this.send(client, { type: 'ready', user_id: client.user.id, role: client.user.role });
+      return;
+    }
+
+    const conversationId = typeof message?.conversation_id === 'string' ? message.conversation_id : null;
+
+    switch (message?.type) {
+      case 'subscribe':
+        if (!conversationId) {
+          break;
+        }
+        try {
+          await this.authorize(client.user, conversationId);
+        } catch (error) {
+          if (error instanceof LiveConversationError) {
+            this.send(client, { type: 'error', code: error.code, message: error.message, conversation_id: conversationId });
+            return;
+          }
+          throw error;
+        }
+        client.subscriptions.add(conversationId);
+        this.send(client, { type: 'subscribed', conversation_id: conversationId });
+        return;
+
+      case 'unsubscribe':
+        if (!conversationId) {
+          break;
+        }
+        client.subscriptions.delete(conversationId);
+        this.send(client, { type: 'unsubscribed', conversation_id: conversationId, reason: 'requested' });
+        return;
+
+      case 'subscribe_all':
+        if (!isSupervisor(client.user)) {
+          this.send(client, { type: 'error', code: 'forbidden', message: 'Required role: supervisor' });
+          return;
+        }
+        client.all = true;
+        this.send(client, { type: 'subscribed', conversation_id: '*' });
+        return;
+    }
+
+    this.send(client, { type: 'error', code: 'invalid', message: 'Unknown message' });
+  }
+
+  private broadcast(event: ConversationEvent): void {
+    for (const client of this.clients) {
+      if (!client.user) {
+        continue;
+      }
+
+      const followsAll = client.all && inOrganization(client.user, event.organization_id);
+      if (!followsAll && !client.subscriptions.has(event.conversation_id)) {
+        continue;
+      }
+
+      this.send(client, event);
+
+      if (!client.subscriptions.has(event.conversation_id)) {
+        continue;
+      }
+
+      // An agent's access ends with their ownership; everyone stops once the conversation
+      // is resolved or closed. Escalated conversations are still followed.
+      if (event.type === 'assigned' && !isSupervisor(client.user) && event.agent_id !== client.user.id) {
+        client.subscriptions.delete(event.conversation_id);
+        this.send(client, { type: 'unsubscribed', conversation_id: event.conversation_id, reason: 'reassigned' });
+      } else if (event.type === 'status' && ENDED_STATUSES.includes(event.status)) {
+        client.subscriptions.delete(event.conversation_id);
+        this.send(client, { type: 'unsubscribed', conversation_id: event.conversation_id, reason: event.status });
+      }
+    }
+  }
+
+  private send(client: LiveClient, message: Record<string, any>): void {
+    client.connection.send(JSON.stringify(message));
+  }
+
+  private latestSentiment(
+    turns: ConversationTurn[],
+    progression: Array<{ sentiment: Sentiment }> = []
+  ): Sentiment | null {
+    for (let i = turns.length - 1; i >= 0; i--) {
+      if (SENTIMENTS.includes(turns[i].metadata?.sentiment)) {
+        return turns[i].metadata!.sentiment;
+      }
+    }
+
+    // The turns that had one may have been archived
+    return progression.length > 0 ? progression[progression.length - 1].sentiment : null;
+  }
+}
+
+export const liveConversations = new LiveConversationService();
+
+export default LiveConversationService;
@@ -0,0 +1,172 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { MockLLMProvider } from './mockLLMProvider';
+import { TokenUsage } from './aiPricing';
+import { ResilientLLMProvider, llmCircuitBreaker, getRetryOptions } from './resilience';
+import { PIIGuardedLLMProvider } from './piiGuardedProvider';
+
+export type AIUseCase = 'query' | 'suggestions' | 'intent' | 'sentiment' | 'quality' | 'summary';
+
+export interface ModelConfig {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
+export interface LLMTextBlock {
+  type: 'text';
+  text: string;
+}
+
+export interface LLMToolUseBlock {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface LLMToolResultBlock {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string;
+  is_error?: boolean;
+}
+
+export type LLMContentBlock = LLMTextBlock | LLMToolUseBlock | LLMToolResultBlock;
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  input_schema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required?: string[];
+  };
+}
+
+export interface LLMRequest extends ModelConfig {
+  messages: LLMMessage[];
+  tools?: LLMToolDefinition[];
+  useCase?: AIUseCase;
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  text: string;
+  // Tools the model asked to run before it can answer; empty when it answered directly
+  toolCalls: LLMToolUseBlock[];
+  model: string;
+  provider: string;
+  usage: TokenUsage;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMCompletion>;
+  stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion>;
+}
+
+const DEFAULT_MODEL_CONFIG: Record<AIUseCase, ModelConfig> = {
+  // Query responses also carry intent, sentiment and three suggestions, hence the larger budget
+  query: { model: 'claude-3-sonnet-20240229', temperature: 0.7, maxTokens: 2500, timeoutMs: 30000 },
+  suggestions: { model: 'claude-3-sonnet-20240229', temperature: 0.8, maxTokens: 1500, timeoutMs: 30000 },
+  intent: { model: 'claude-3-haiku-20240307', temperature: 0.1, maxTokens: 50, timeoutMs: 10000 },
+  sentiment: { model: 'claude-3-haiku-20240307', temperature: 0.1, maxTokens: 20, timeoutMs: 10000 },
+  quality: { model: 'claude-3-sonnet-20240229', temperature: 0.7, maxTokens: 1500, timeoutMs: 30000 },
+  summary: { model: 'claude-3-haiku-20240307', temperature: 0.2, maxTokens: 800, timeoutMs: 15000 }
+};
+
+// Per use case overrides, e.g. AI_QUERY_MODEL, AI_INTENT_TEMPERATURE, AI_QUALITY_MAX_TOKENS, AI_QUERY_TIMEOUT_MS
+export function getModelConfig(useCase: AIUseCase): ModelConfig {
+  const defaults = DEFAULT_MODEL_CONFIG[useCase];
+  const prefix = `AI_${useCase.toUpperCase()}`;
+
+  const temperature = parseFloat(process.env[`${prefix}_TEMPERATURE`] || '');
+  const maxTokens = parseInt(process.env[`${prefix}_MAX_TOKENS`] || '');
+  const timeoutMs = parseInt(process.env[`${prefix}_TIMEOUT_MS`] || '');
+
+  return {
+    model: process.env[`${prefix}_MODEL`] || defaults.model,
+    temperature: isNaN(temperature) ? defaults.temperature : temperature,
+    maxTokens: isNaN(maxTokens) ? defaults.maxTokens : maxTokens,
+    timeoutMs: isNaN(timeoutMs) ? defaults.timeoutMs : timeoutMs
+  };
+}
+
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private anthropic: Anthropic;
+
+  constructor(anthropic: Anthropic) {
+    this.anthropic = anthropic;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const message = await this.anthropic.messages.create(
+      this.buildParams(request),
+      { signal: request.signal, maxRetries: 0 } // retries are handled by ResilientLLMProvider
+    );
+
+    return this.toCompletion(message, request);
+  }
+
+  async stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion> {
+    const stream = this.anthropic.messages.stream(
+      this.buildParams(request),
+      { signal: request.signal, maxRetries: 0 } // retries are handled by ResilientLLMProvider
+    );
+
+    stream.on('text', (delta) => onToken(delta));
+
+    const message = await stream.finalMessage();
+
+    return this.toCompletion(message, request);
+  }
+
+  private buildParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      messages: request.messages,
+      ...(request.tools?.length ? { tools: request.tools } : {})
+    };
+  }
+
+  private toCompletion(message: Anthropic.Message, request: LLMRequest): LLMCompletion {
+    const text = message.content
+      .map(block => block.type === 'text' ? block.text : '')
+      .join('');
+    const toolCalls = message.content
+      .filter((block): block is Anthropic.ToolUseBlock => block.type === 'tool_use')
+      .map(block => ({ type: 'tool_use' as const, id: block.id, name: block.name, input: block.input as Record<string, any> }));
+
+    return {
+      text,
+      toolCalls,
+      model: message.model || request.model,
+      provider: this.name,
+      usage: {
+        input_tokens: message.usage?.input_tokens || 0,
+        output_tokens: message.usage?.output_tokens || 0
+      }
+    };
+  }
+}
+
+// LLM_PROVIDER=mock gives deterministic offline responses for tests and local development.
+// Every request goes through the PII policy before it leaves.
+export function createLLMProvider(anthropic: Anthropic): LLMProvider {
+  const provider = process.env.LLM_PROVIDER === 'mock'
+    ? new MockLLMProvider()
+    : new AnthropicProvider(anthropic);
+
+  return new PIIGuardedLLMProvider(new ResilientLLMProvider(provider, llmCircuitBreaker, getRetryOptions()));
+}
+
+export default createLLMProvider;
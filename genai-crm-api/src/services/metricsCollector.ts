@@ -629,4 +629,7 @@ export class MetricsCollectorService extends EventEmitter {
   }
 }
 
+// Shared instance so every service reports into the same buffer and alert rules
+export const metricsCollector = new MetricsCollectorService();
+
 export default MetricsCollectorService;
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { supabase, logger } from '../server';
+
+export type NotificationType = 'handoff' | 'whisper';
+
+export interface AgentNotification {
+  id: string;
+  // Set for a single agent; recipient_team notifies everyone on the team
+  recipient_id?: string;
+  recipient_team?: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  data: Record<string, any>;
+  read_at?: string;
+  created_at: string;
+}
+
+export interface NotificationInput {
+  recipient_id?: string | null;
+  recipient_team?: string | null;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  data?: Record<string, any>;
+}
+
+export class NotificationError extends Error {
+  readonly code: 'not_found';
+
+  constructor(code: 'not_found', message: string) {
+    super(message);
+    this.name = 'NotificationError';
+    this.code = code;
+  }
+}
+
+const MAX_NOTIFICATIONS = 100;
+
+// Notifications are rows in agent_notifications; the dashboard receives new ones through
+// Supabase real-time and lists or marks them read through the API
+export class NotificationService {
+  // A failed notification is logged rather than thrown; the action it reports has already happened
+  async notify(input: NotificationInput): Promise<AgentNotification | null> {
+    const { data, error } = await supabase
+      .from('agent_notifications')
+      .insert({
+        recipient_id: input.recipient_id || null,
+        recipient_team: input.recipient_team || null,
+        type: input.type,
+        title: input.title,
+        body: input.body,
+        data: input.data || {}
+      })
+      .select()
+      .single();
+
+    if (error) {
+      logger.error('Failed to send notification', { error, type: input.type });
+      return null;
+    }
+
+    return data;
+  }
+
+  async listForAgent(
+    agentId: string,
+    team?: string,
+    options: { unreadOnly?: boolean; limit?: number } = {}
+  ): Promise<AgentNotification[]> {
+    let query = supabase
+      .from('agent_notifications')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(Math.min(options.limit || 50, MAX_NOTIFICATIONS));
+
+    query = team
+      ? query.or(`recipient_id.eq.${agentId},recipient_team.eq."${team.replace(/"/g, '')}"`)
+      : query.eq('recipient_id', agentId);
+
+    if (options.unreadOnly) {
+      query = query.is('read_at', null);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async markRead(id: string, agentId: string, team?: string): Promise<AgentNotification> {
+    const { data: existing, error: fetchError } = await supabase
+      .from('agent_notifications')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+
+    // Someone else's notification is reported as missing rather than forbidden
+    const visible = existing && (existing.recipient_id === agentId || (team && existing.recipient_team === team));
+    if (!visible) {
+      throw new NotificationError('not_found', 'Notification not found');
+    }
+
+    if (existing.read_at) {
+      return existing;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+}
+
+export const notificationService = new NotificationService();
+
+export default NotificationService;
@@ -0,0 +1,66 @@
+import PDFDocument from 'pdfkit';
+
+// Text-only PDF for transcripts, laid out by pdfkit with the standard Helvetica fonts.
+// Those fonts only cover WinAnsi, so other characters are replaced with "?".
+
+export interface PdfBlock {
+  text: string;
+  bold?: boolean;
+  // Font size in points; 10 by default
+  size?: number;
+  // Extra space above the block, in points
+  spaceBefore?: number;
+  indent?: number;
+}
+
+const MARGIN = 54;
+const LINE_GAP = 3;
+
+const TYPOGRAPHIC_REPLACEMENTS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"',
+  '–': '-', '—': '-', '…': '...', ' ': ' '
+};
+
+export function renderPdf(blocks: PdfBlock[], title: string): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: 'LETTER',
+    margin: MARGIN,
+    info: { Title: toWinAnsi(title), Producer: 'genai-crm-api' }
+  });
+
+  const chunks: Buffer[] = [];
+  const rendered = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const width = doc.page.width - 2 * MARGIN;
+
+  blocks.forEach(block => {
+    const indent = block.indent || 0;
+
+    doc
+      .font(block.bold ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(block.size || 10);
+    doc.y += block.spaceBefore || 0;
+    doc.text(toWinAnsi(block.text), MARGIN + indent, doc.y, { width: width - indent, lineGap: LINE_GAP });
+  });
+
+  doc.end();
+  return rendered;
+}
+
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\t/g, '    '))
+    .map(char => {
+      const replacement = TYPOGRAPHIC_REPLACEMENTS[char];
+      if (replacement) {
+        return replacement;
+      }
+      const code = char.charCodeAt(0);
+      // WinAnsi matches Latin-1 outside 0x80-0x9F
+      return char === '\n' || (code >= 0x20 && code < 0x7F) || (code >= 0xA0 && code <= 0xFF) ? char : '?';
+    })
+    .join('');
+}
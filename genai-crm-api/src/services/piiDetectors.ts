@@ -0,0 +1,224 @@
+export type PIIType = 'card_number' | 'ssn' | 'iban' | 'email' | 'phone' | 'passport' | 'address' | 'name';
+
+export interface PIIMatch {
+  type: PIIType;
+  start: number;
+  end: number;
+  value: string;
+}
+
+export interface PIIDetector {
+  type: PIIType;
+  // Placeholder stem: [EMAIL] when redacting, [EMAIL_1] when tokenizing
+  label: string;
+  find(text: string): PIIMatch[];
+}
+
+// Common given names (English, Spanish, German, Portuguese) that start a full name.
+// Words that are also ordinary English ("May", "Will", "Mark") are left out, and a
+// name only counts when a capitalized surname follows it.
+const GIVEN_NAMES = new Set([
+  'aaron', 'adam', 'adrian', 'alan', 'albert', 'alejandro', 'alex', 'alexander', 'alice', 'alicia',
+  'amanda', 'amy', 'ana', 'andrea', 'andreas', 'andrew', 'angela', 'anna', 'anne', 'antonio',
+  'barbara', 'beatriz', 'ben', 'benjamin', 'brian', 'bruno', 'camila', 'carla', 'carlos', 'carmen',
+  'carol', 'catherine', 'charles', 'chris', 'christian', 'christina', 'christopher', 'claudia', 'daniel', 'daniela',
+  'david', 'diana', 'diego', 'dieter', 'elena', 'elizabeth', 'emily', 'emma', 'eric', 'eva',
+  'fernando', 'francisco', 'frank', 'gabriel', 'gabriela', 'george', 'hans', 'helena', 'helga', 'isabel',
+  'jack', 'james', 'jane', 'jason', 'javier', 'jennifer', 'jessica', 'joana', 'joao', 'john',
+  'jonas', 'jorge', 'jose', 'joseph', 'juan', 'julia', 'julian', 'jurgen', 'karen', 'karl',
+  'katharina', 'kevin', 'klaus', 'laura', 'lena', 'linda', 'lisa', 'lucas', 'lucia', 'luis',
+  'luisa', 'lukas', 'manuel', 'marco', 'marcos', 'margaret', 'maria', 'mariana', 'mario', 'martin',
+  'mary', 'matthew', 'maximilian', 'michael', 'michelle', 'miguel', 'monika', 'nancy', 'natalia', 'nicole',
+  'oliver', 'pablo', 'patricia', 'paul', 'paula', 'pedro', 'peter', 'rafael', 'raquel', 'rebecca',
+  'ricardo', 'richard', 'robert', 'roberto', 'rodrigo', 'sandra', 'sara', 'sarah', 'sebastian', 'sofia',
+  'sophie', 'stefan', 'stephanie', 'steven', 'susan', 'thomas', 'tiago', 'timothy', 'ursula', 'victor',
+  'william', 'wolfgang'
+]);
+
+const TITLES = 'Mr|Mrs|Ms|Miss|Dr|Sr|Sra|Srta|Herr|Frau|Dona';
+
+// Letters and digits beyond ASCII, so "José" or "Müller" aren't cut at the accent
+const NOT_WORD_BEFORE = '(?<![\\p{L}\\p{N}])';
+const NOT_WORD_AFTER = '(?![\\p{L}\\p{N}])';
+const CAPITALIZED = "\\p{Lu}[\\p{Ll}'’-]+";
+
+// Every match of a global pattern, optionally narrowed by validate, with the match
+// (or its first capture group) as the value
+function patternDetector(
+  type: PIIType,
+  label: string,
+  pattern: RegExp,
+  validate: (value: string) => boolean = () => true
+): PIIDetector {
+  return {
+    type,
+    label,
+    find(text: string): PIIMatch[] {
+      const matches: PIIMatch[] = [];
+
+      for (const match of text.matchAll(pattern)) {
+        const value = match[1] ?? match[0];
+        const start = match.index! + match[0].lastIndexOf(value);
+
+        if (validate(value)) {
+          matches.push({ type, start, end: start + value.length, value });
+        }
+      }
+
+      return matches;
+    }
+  };
+}
+
+const digitsOf = (value: string): string => value.replace(/\D/g, '');
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = parseInt(digits[digits.length - 1 - i], 10);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// ISO 13616: move the country code and check digits to the end, turn letters into
+// numbers (A=10) and the remainder mod 97 must be 1
+function passesIbanChecksum(value: string): boolean {
+  const iban = value.replace(/\s/g, '').toUpperCase();
+  if (iban.length < 15 || iban.length > 34) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    const code = char >= 'A' ? (char.charCodeAt(0) - 55).toString() : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + parseInt(digit, 10)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+// Area 000, 666 and 900-999, group 00 and serial 0000 are never issued
+const isIssuableSSN = (value: string): boolean => {
+  const [area, group, serial] = value.split('-');
+  return area !== '000' && area !== '666' && area[0] !== '9' && group !== '00' && serial !== '0000';
+};
+
+const BUILT_IN_DETECTORS: PIIDetector[] = [
+  patternDetector(
+    'card_number',
+    'CARD_NUMBER',
+    /(?<!\d)\d(?:[ -]?\d){12,18}(?!\d)/g,
+    value => passesLuhn(digitsOf(value))
+  ),
+  patternDetector('ssn', 'SSN', /\b\d{3}-\d{2}-\d{4}\b/g, isIssuableSSN),
+  patternDetector(
+    'iban',
+    'IBAN',
+    /\b[A-Za-z]{2}\d{2}(?: ?[A-Za-z0-9]){11,30}\b/g,
+    passesIbanChecksum
+  ),
+  patternDetector('email', 'EMAIL', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g),
+  patternDetector(
+    'phone',
+    'PHONE',
+    /(?<![\w+])(?:\+\d{1,3}[-.\s]?)?(?:\(\d{1,4}\)[-.\s]?)?\d{2,4}(?:[-.\s]\d{2,8}){1,4}(?![\w-])/g,
+    value => {
+      const digits = digitsOf(value).length;
+      // A phone number has 7 to 15 digits and either a country code, an area code in
+      // brackets or at least two separators. Dates and amounts have separators too.
+      const isDate = /^(?:\d{4}[-./]\d{1,2}[-./]\d{1,2}|\d{1,2}[-./]\d{1,2}[-./]\d{4})$/.test(value);
+      const isAmount = /^\d{1,3}(?:[ .,]\d{3})+$/.test(value);
+      return digits >= 7 && digits <= 15 && !isDate && !isAmount
+        && (/^[+(]/.test(value) || (value.match(/[-.\s]/g) || []).length >= 2);
+    }
+  ),
+  // Only numbers introduced as passport numbers; on their own they look like any other code
+  patternDetector(
+    'passport',
+    'PASSPORT',
+    /\b(?:passport|pasaporte|passaporte|reisepass)(?:\s+(?:no\.?|number|n[úu]mero|nr\.?|#))?\s*[:#]?\s*([A-Za-z0-9]{6,9})\b/gi,
+    value => /\d/.test(value)
+  ),
+  {
+    type: 'address',
+    label: 'ADDRESS',
+    find(text: string): PIIMatch[] {
+      return [
+        // 221B Baker Street, Apt 4
+        /\b\d{1,6}[A-Za-z]?\s+(?:[A-Z][a-z]+\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Square|Sq)\b\.?(?:,?\s+(?:Apt|Apartment|Suite|Ste|Unit|#)\.?\s*[A-Za-z0-9-]+)?/g,
+        // Calle Mayor 12, Rua Augusta, 45
+        new RegExp(`${NOT_WORD_BEFORE}(?:Calle|Avenida|Av\\.|Rua|Travessa|Plaza|Praça)\\s+(?:(?:de|del|da|do|dos|das|la)\\s+)?(?:${CAPITALIZED}\\s*){1,4},?\\s*(?:n[º°.]?\\s*)?\\d{1,5}[A-Za-z]?${NOT_WORD_AFTER}`, 'gu'),
+        // Hauptstraße 5, Am Lindenweg 12a
+        new RegExp(`${NOT_WORD_BEFORE}\\p{Lu}[\\p{Ll}]+(?:straße|strasse|weg|platz|allee|gasse|ring|damm)\\s+\\d{1,5}[a-z]?${NOT_WORD_AFTER}`, 'gu')
+      ].flatMap(pattern => patternDetector('address', 'ADDRESS', pattern).find(text));
+    }
+  },
+  {
+    type: 'name',
+    label: 'NAME',
+    find(text: string): PIIMatch[] {
+      // The surnames are a lookahead so every capitalized word gets its turn as a given name
+      const fullName = new RegExp(`${NOT_WORD_BEFORE}(${CAPITALIZED})(?=((?:\\s+${CAPITALIZED}){1,2})${NOT_WORD_AFTER})`, 'gu');
+      const titled = new RegExp(`\\b(?:${TITLES})\\.?\\s+${CAPITALIZED}(?:\\s+${CAPITALIZED})?${NOT_WORD_AFTER}`, 'gu');
+      const isGivenName = (word: string) => GIVEN_NAMES.has(word.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase());
+
+      const matches: PIIMatch[] = [];
+      for (const match of text.matchAll(fullName)) {
+        if (isGivenName(match[1])) {
+          const value = match[1] + match[2];
+          matches.push({ type: 'name', start: match.index!, end: match.index! + value.length, value });
+        }
+      }
+      for (const match of text.matchAll(titled)) {
+        matches.push({ type: 'name', start: match.index!, end: match.index! + match[0].length, value: match[0] });
+      }
+      return matches;
+    }
+  }
+];
+
+const detectors = new Map<PIIType, PIIDetector>(BUILT_IN_DETECTORS.map(detector => [detector.type, detector]));
+
+export const PII_TYPES: PIIType[] = BUILT_IN_DETECTORS.map(detector => detector.type);
+
+// Detectors precise enough to run on every log record. Names, phone numbers and
+// addresses are left out: in log text they mostly match places, order numbers and the like.
+export const LOG_PII_TYPES: PIIType[] = ['card_number', 'ssn', 'iban', 'email', 'passport'];
+
+// Replaces the detector for a type, e.g. with one backed by a customer-specific dictionary
+export function registerPIIDetector(detector: PIIDetector): void {
+  detectors.set(detector.type, detector);
+}
+
+export function getPIIDetector(type: PIIType): PIIDetector | undefined {
+  return detectors.get(type);
+}
+
+// Matches of the given types (all by default), in text order and without overlaps.
+// Where matches overlap the longer one wins, then the detector listed first.
+export function detectPII(text: string, types: PIIType[] = PII_TYPES): PIIMatch[] {
+  const priority = new Map(PII_TYPES.map((type, index) => [type, index]));
+  const candidates = types
+    .flatMap(type => detectors.get(type)?.find(text) || [])
+    .sort((a, b) =>
+      (b.end - b.start) - (a.end - a.start)
+      || (priority.get(a.type) ?? 0) - (priority.get(b.type) ?? 0)
+      || a.start - b.start
+    );
+
+  const chosen: PIIMatch[] = [];
+  for (const candidate of candidates) {
+    if (chosen.every(match => candidate.end <= match.start || candidate.start >= match.end)) {
+      chosen.push(candidate);
+    }
+  }
+
+  return chosen.sort((a, b) => a.start - b.start);
+}
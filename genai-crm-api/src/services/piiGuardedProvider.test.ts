@@ -0,0 +1,202 @@
+import axios from 'axios';
+import { createEmbeddingProvider, EmbeddingProvider } from './embeddingProvider';
+import { LLMCompletion, LLMProvider, LLMRequest } from './llmProvider';
+import { PIIGuardedEmbeddingProvider, PIIGuardedLLMProvider } from './piiGuardedProvider';
+import { PIIPolicy, withPIIPolicy } from './piiPolicies';
+
+// Policies can't be loaded, so calls outside a request fall back to tokenizing everything
+jest.mock('../server', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() },
+  supabase: {
+    from: () => {
+      throw new Error('Database unavailable');
+    }
+  }
+}));
+
+jest.mock('axios');
+
+const TOKENIZE: PIIPolicy = { organization_id: 'org-1', enabled: true, mode: 'tokenize', detectors: null };
+const REDACT: PIIPolicy = { organization_id: 'org-1', enabled: true, mode: 'redact', detectors: null };
+const OFF: PIIPolicy = { organization_id: 'org-1', enabled: false, mode: 'tokenize', detectors: null };
+
+// Answers with a script written against the prompt it was sent, streaming it in fixed-size chunks
+class ScriptedProvider implements LLMProvider {
+  readonly name = 'scripted';
+  requests: LLMRequest[] = [];
+
+  constructor(private reply: (prompt: string) => Partial<LLMCompletion>, private chunkSize: number = 4) {}
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    this.requests.push(request);
+    const prompt = request.messages
+      .map(message => typeof message.content === 'string'
+        ? message.content
+        : message.content.map(block => block.type === 'text' ? block.text : JSON.stringify(block)).join('\n'))
+      .join('\n');
+
+    return {
+      text: '',
+      toolCalls: [],
+      model: 'scripted-model',
+      provider: this.name,
+      usage: { input_tokens: 0, output_tokens: 0 },
+      ...this.reply(prompt)
+    };
+  }
+
+  async stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion> {
+    const completion = await this.complete(request);
+    for (let i = 0; i < completion.text.length; i += this.chunkSize) {
+      onToken(completion.text.slice(i, i + this.chunkSize));
+    }
+    return completion;
+  }
+}
+
+function request(text: string): LLMRequest {
+  return {
+    model: 'scripted-model',
+    temperature: 0,
+    maxTokens: 100,
+    timeoutMs: 1000,
+    messages: [{ role: 'user', content: text }]
+  };
+}
+
+const placeholderOf = (prompt: string, stem: string): string => prompt.match(new RegExp(`\\[${stem}_\\d+\\]`))![0];
+
+describe('PIIGuardedLLMProvider', () => {
+  it('sends placeholders to the model and restores them in the output', async () => {
+    const inner = new ScriptedProvider(prompt => ({ text: `We will write to ${placeholderOf(prompt, 'EMAIL')} today.` }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const completion = await withPIIPolicy(TOKENIZE, () => provider.complete(request('Please email ana@example.com')));
+
+    expect(JSON.stringify(inner.requests[0].messages)).not.toContain('ana@example.com');
+    expect(completion.text).toBe('We will write to ana@example.com today.');
+  });
+
+  it('issues fresh placeholders for each call, so none outlives its call', async () => {
+    const inner = new ScriptedProvider(prompt => ({ text: placeholderOf(prompt, 'EMAIL') }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const first = await withPIIPolicy(TOKENIZE, () => provider.complete(request('Contact ana@example.com')));
+    const second = await withPIIPolicy(TOKENIZE, () => provider.complete(request('Contact bo@example.com')));
+
+    expect(first.text).toBe('ana@example.com');
+    expect(second.text).toBe('bo@example.com');
+  });
+
+  it('redacts personal data the model made up', async () => {
+    const inner = new ScriptedProvider(() => ({ text: 'Try support@example.org instead.' }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const completion = await withPIIPolicy(TOKENIZE, () => provider.complete(request('Who can help?')));
+
+    expect(completion.text).toBe('Try [EMAIL] instead.');
+  });
+
+  it('restores tool inputs and tokenizes tool results', async () => {
+    const inner = new ScriptedProvider(prompt => ({
+      toolCalls: [{ type: 'tool_use', id: 'call-1', name: 'get_customer', input: { email: placeholderOf(prompt, 'EMAIL') } }]
+    }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const completion = await withPIIPolicy(TOKENIZE, () => provider.complete({
+      ...request('Look up ana@example.com'),
+      messages: [
+        { role: 'user', content: 'Look up ana@example.com' },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call-0', content: '{"phone":"+1 415 555 0134"}' }] }
+      ]
+    }));
+
+    expect(completion.toolCalls[0].input).toEqual({ email: 'ana@example.com' });
+    expect(JSON.stringify(inner.requests[0].messages)).not.toContain('555 0134');
+  });
+
+  it('restores placeholders split across streamed chunks', async () => {
+    const inner = new ScriptedProvider(prompt => ({ text: `Sent to ${placeholderOf(prompt, 'EMAIL')}. Done` }), 3);
+    const provider = new PIIGuardedLLMProvider(inner);
+    const tokens: string[] = [];
+
+    const completion = await withPIIPolicy(TOKENIZE, () =>
+      provider.stream(request('Email ana@example.com'), text => tokens.push(text)));
+
+    expect(tokens.join('')).toBe('Sent to ana@example.com. Done');
+    expect(completion.text).toBe('Sent to ana@example.com. Done');
+  });
+
+  it('redacts for good in redact mode', async () => {
+    const inner = new ScriptedProvider(prompt => ({ text: prompt }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const completion = await withPIIPolicy(REDACT, () => provider.complete(request('Email ana@example.com')));
+
+    expect(completion.text).toBe('Email [EMAIL]');
+  });
+
+  it('passes calls through when the policy is off', async () => {
+    const inner = new ScriptedProvider(prompt => ({ text: prompt }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    const completion = await withPIIPolicy(OFF, () => provider.complete(request('Email ana@example.com')));
+
+    expect(completion.text).toBe('Email ana@example.com');
+  });
+
+  it('tokenizes calls made outside a request when policies cannot be loaded', async () => {
+    const inner = new ScriptedProvider(() => ({ text: 'ok' }));
+    const provider = new PIIGuardedLLMProvider(inner);
+
+    await provider.complete(request('Summarize the chat with ana@example.com'));
+
+    expect(JSON.stringify(inner.requests[0].messages)).not.toContain('ana@example.com');
+  });
+});
+
+describe('PIIGuardedEmbeddingProvider', () => {
+  class RecordingEmbeddingProvider implements EmbeddingProvider {
+    readonly name = 'recording';
+    readonly model = 'recording-1';
+    texts: string[] = [];
+
+    async embed(texts: string[]): Promise<number[][]> {
+      this.texts.push(...texts);
+      return texts.map(() => [1, 0]);
+    }
+  }
+
+  const turn = 'Call me on +1 415 555 0134 or write to ana@example.com';
+
+  it('redacts texts before they are embedded, in tokenize mode too', async () => {
+    const inner = new RecordingEmbeddingProvider();
+    const provider = new PIIGuardedEmbeddingProvider(inner);
+
+    const vectors = await withPIIPolicy(TOKENIZE, () => provider.embed([turn], 'document'));
+
+    expect(vectors).toEqual([[1, 0]]);
+    expect(inner.texts).toEqual(['Call me on [PHONE] or write to [EMAIL]']);
+  });
+
+  it('redacts texts embedded outside a request', async () => {
+    const inner = new RecordingEmbeddingProvider();
+
+    await new PIIGuardedEmbeddingProvider(inner).embed([turn], 'query');
+
+    expect(inner.texts.join()).not.toMatch(/555 0134|ana@example\.com/);
+  });
+
+  it('guards what is sent to Voyage', async () => {
+    process.env.EMBEDDING_PROVIDER = 'voyage';
+    const post = jest.mocked(axios.post).mockResolvedValue({ data: { data: [{ index: 0, embedding: [1, 0] }] } });
+
+    try {
+      await withPIIPolicy(TOKENIZE, () => createEmbeddingProvider().embed([turn], 'document'));
+    } finally {
+      delete process.env.EMBEDDING_PROVIDER;
+    }
+
+    expect(JSON.stringify(post.mock.calls[0][1])).not.toMatch(/555 0134|ana@example\.com/);
+  });
+});
@@ -0,0 +1,133 @@
+import { LLMCompletion, LLMMessage, LLMProvider, LLMRequest } from './llmProvider';
+import { EmbeddingInputType, EmbeddingProvider } from './embeddingProvider';
+import { currentPIIPolicy, piiPolicies, PIIPolicy } from './piiPolicies';
+import { PIIType } from './piiDetectors';
+import { createStreamRedactor, PIIVault, redactPII, redactPIIDeep } from './piiRedaction';
+
+// Calls made outside an API request, such as summaries written in the background, use
+// the default policy
+async function resolvePIIPolicy(): Promise<PIIPolicy> {
+  return currentPIIPolicy() || piiPolicies.getEffectivePolicy();
+}
+
+// Applies the PII policy to every model call, whichever route or background job makes
+// it: personal data in the messages, tool inputs and tool results is tokenized (or
+// redacted) before the request leaves, and the output is scanned before it comes back.
+// Each call gets its own vault and placeholders are restored before the completion is
+// returned, so no placeholder is ever stored, cached or reused by a later call.
+export class PIIGuardedLLMProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+
+  constructor(inner: LLMProvider) {
+    this.name = inner.name;
+    this.inner = inner;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    const policy = await resolvePIIPolicy();
+    if (!policy.enabled) {
+      return this.inner.complete(request);
+    }
+
+    const types = policy.detectors || undefined;
+    const vault = policy.mode === 'tokenize' ? new PIIVault(types) : null;
+    const completion = await this.inner.complete(this.guardRequest(request, types, vault));
+
+    return this.guardCompletion(completion, types, vault, 'response');
+  }
+
+  async stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion> {
+    const policy = await resolvePIIPolicy();
+    if (!policy.enabled) {
+      return this.inner.stream(request, onToken);
+    }
+
+    const types = policy.detectors || undefined;
+    const vault = policy.mode === 'tokenize' ? new PIIVault(types) : null;
+
+    // Made-up personal data is redacted first, so only real placeholders are restored
+    const redact = createStreamRedactor(types, 'response');
+    const restore = vault ? vault.createStreamRestorer() : (text: string) => text;
+    const forward = (text: string, end: boolean = false) => {
+      const output = restore(redact(text, end), end);
+      if (output) {
+        onToken(output);
+      }
+    };
+
+    const completion = await this.inner.stream(this.guardRequest(request, types, vault), text => forward(text));
+    forward('', true);
+
+    // The streamed text was already counted
+    return this.guardCompletion(completion, types, vault);
+  }
+
+  private guardRequest(request: LLMRequest, types: PIIType[] | undefined, vault: PIIVault | null): LLMRequest {
+    const guard = (text: string) => vault ? vault.tokenize(text, 'model_input') : redactPII(text, types, 'model_input');
+
+    const messages: LLMMessage[] = request.messages.map(message => ({
+      role: message.role,
+      content: typeof message.content === 'string'
+        ? guard(message.content)
+        : message.content.map(block => {
+            switch (block.type) {
+              case 'text':
+                return { ...block, text: guard(block.text) };
+              case 'tool_use':
+                return {
+                  ...block,
+                  input: vault ? vault.tokenizeDeep(block.input, 'model_input') : redactPIIDeep(block.input, types, 'model_input')
+                };
+              case 'tool_result':
+                return { ...block, content: guard(block.content) };
+            }
+          })
+    }));
+
+    return { ...request, messages };
+  }
+
+  // Tool inputs are restored so tools run on the real values; text is scanned, then restored
+  private guardCompletion(
+    completion: LLMCompletion,
+    types: PIIType[] | undefined,
+    vault: PIIVault | null,
+    surface?: 'response'
+  ): LLMCompletion {
+    const text = redactPII(completion.text, types, surface);
+
+    return {
+      ...completion,
+      text: vault ? vault.restore(text) : text,
+      toolCalls: vault
+        ? completion.toolCalls.map(call => ({ ...call, input: vault.restoreDeep(call.input) }))
+        : completion.toolCalls
+    };
+  }
+}
+
+// Redacts personal data in texts sent to an embedding API under the PII policy, in either
+// mode: vectors are never turned back into text, so there is nothing to restore, and
+// documents and queries are embedded with the same labels.
+export class PIIGuardedEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly model: string;
+  private inner: EmbeddingProvider;
+
+  constructor(inner: EmbeddingProvider) {
+    this.name = inner.name;
+    this.model = inner.model;
+    this.inner = inner;
+  }
+
+  async embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]> {
+    const policy = await resolvePIIPolicy();
+    if (!policy.enabled) {
+      return this.inner.embed(texts, inputType);
+    }
+
+    const types = policy.detectors || undefined;
+    return this.inner.embed(texts.map(text => redactPII(text, types, 'model_input')), inputType);
+  }
+}
@@ -0,0 +1,156 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { supabase, logger } from '../server';
+import { PII_TYPES, PIIType } from './piiDetectors';
+import { envInt } from '../config';
+
+// 'tokenize' swaps personal data for placeholders that are restored in the response to
+// the agent; 'redact' replaces it for good, so the agent sees the placeholders too
+export type PIIMode = 'tokenize' | 'redact';
+
+export interface PIIPolicy {
+  id?: string;
+  // DEFAULT_PII_ORGANIZATION for the policy that covers everyone else
+  organization_id: string;
+  enabled: boolean;
+  mode: PIIMode;
+  // Detectors to run; null runs all of them
+  detectors: PIIType[] | null;
+  updated_by?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface PIIPolicyInput {
+  enabled?: boolean;
+  mode?: PIIMode;
+  detectors?: PIIType[] | null;
+}
+
+export class PIIPolicyError extends Error {
+  readonly code: 'not_found' | 'invalid';
+
+  constructor(code: 'not_found' | 'invalid', message: string) {
+    super(message);
+    this.name = 'PIIPolicyError';
+    this.code = code;
+  }
+}
+
+export const DEFAULT_PII_ORGANIZATION = '*';
+
+// How long policies are cached before the database is checked again
+const PII_POLICY_CACHE_TTL_MS = envInt('PII_POLICY_CACHE_TTL_MS', 60 * 1000);
+
+export class PIIPolicyService {
+  private cache: { policies: Map<string, PIIPolicy>; expiresAt: number } | null = null;
+
+  async listPolicies(): Promise<PIIPolicy[]> {
+    const { data, error } = await supabase
+      .from('pii_policies')
+      .select('*')
+      .order('organization_id', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // Creates the organization's policy or changes the fields given
+  async savePolicy(organizationId: string, input: PIIPolicyInput, updatedBy: string): Promise<PIIPolicy> {
+    const unknown = (input.detectors || []).filter(type => !PII_TYPES.includes(type));
+    if (unknown.length > 0) {
+      throw new PIIPolicyError('invalid', `Unknown detectors: ${unknown.join(', ')}`);
+    }
+
+    const { data, error } = await supabase
+      .from('pii_policies')
+      .upsert({ organization_id: organizationId, ...input, updated_by: updatedBy }, { onConflict: 'organization_id' })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    this.cache = null;
+    logger.info('PII policy saved', { organization_id: organizationId, ...input, updated_by: updatedBy });
+    return data;
+  }
+
+  // The organization falls back to the default policy, and the default policy to
+  // PII_DETECTION_ENABLED
+  async deletePolicy(organizationId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('pii_policies')
+      .delete()
+      .eq('organization_id', organizationId)
+      .select('id');
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data || data.length === 0) {
+      throw new PIIPolicyError('not_found', 'PII policy not found');
+    }
+
+    this.cache = null;
+    logger.info('PII policy deleted', { organization_id: organizationId });
+  }
+
+  // The organization's policy, else the stored default, else one built from
+  // PII_DETECTION_ENABLED. If policies can't be loaded at all, everything is tokenized
+  // rather than risk sending personal data to the model.
+  async getEffectivePolicy(organizationId?: string): Promise<PIIPolicy> {
+    const policies = await this.loadPolicies();
+
+    if (!policies) {
+      return { organization_id: DEFAULT_PII_ORGANIZATION, enabled: true, mode: 'tokenize', detectors: null };
+    }
+
+    return (organizationId && policies.get(organizationId))
+      || policies.get(DEFAULT_PII_ORGANIZATION)
+      || {
+        organization_id: DEFAULT_PII_ORGANIZATION,
+        enabled: process.env.PII_DETECTION_ENABLED === 'true',
+        mode: 'tokenize',
+        detectors: null
+      };
+  }
+
+  private async loadPolicies(): Promise<Map<string, PIIPolicy> | null> {
+    if (this.cache && this.cache.expiresAt > Date.now()) {
+      return this.cache.policies;
+    }
+
+    try {
+      const policies = await this.listPolicies();
+      this.cache = {
+        policies: new Map(policies.map(policy => [policy.organization_id, policy])),
+        expiresAt: Date.now() + PII_POLICY_CACHE_TTL_MS
+      };
+      return this.cache.policies;
+    } catch (error) {
+      logger.warn('Failed to load PII policies', { error });
+      // Stale policies beat none
+      return this.cache?.policies || null;
+    }
+  }
+}
+
+export const piiPolicies = new PIIPolicyService();
+
+const policyScope = new AsyncLocalStorage<PIIPolicy>();
+
+// Runs fn, and everything it starts, under the policy of the organization making the request
+export function withPIIPolicy<T>(policy: PIIPolicy, fn: () => T): T {
+  return policyScope.run(policy, fn);
+}
+
+export function currentPIIPolicy(): PIIPolicy | undefined {
+  return policyScope.getStore();
+}
+
+export default PIIPolicyService;
@@ -0,0 +1,188 @@
+import { detectPII, getPIIDetector, PIIMatch, PIIType } from './piiDetectors';
+
+// Where personal data was caught: request bodies, prompts to the model, model output,
+// log records and transcript exports
+export type PIISurface = 'request' | 'model_input' | 'response' | 'log' | 'export';
+
+export interface PIIRedactionStats {
+  since: string;
+  total: number;
+  by_surface: Partial<Record<PIISurface, Partial<Record<PIIType, number>>>>;
+  by_type: Partial<Record<PIIType, number>>;
+}
+
+// Applies fn to every string in a JSON-like value, keys excepted. Errors become their
+// name and message, which is all a JSON log record shows of them; other class
+// instances (dates, buffers) are left as they are.
+function mapStrings<T>(value: T, fn: (text: string) => string): T {
+  if (typeof value === 'string') {
+    return fn(value) as unknown as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn)) as unknown as T;
+  }
+  if (value instanceof Error) {
+    return { ...mapStrings({ ...value }, fn), name: value.name, message: fn(value.message) } as unknown as T;
+  }
+  if (value && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+    const mapped: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      mapped[key] = mapStrings(item, fn);
+    }
+    return mapped as T;
+  }
+  return value;
+}
+
+// Redactions since the process started, for checking that each surface is covered
+const redactionCounts = new Map<PIISurface, Map<PIIType, number>>();
+const countingSince = new Date().toISOString();
+
+function countRedactions(surface: PIISurface, matches: PIIMatch[]): void {
+  if (matches.length === 0) return;
+
+  let counts = redactionCounts.get(surface);
+  if (!counts) {
+    counts = new Map();
+    redactionCounts.set(surface, counts);
+  }
+  for (const match of matches) {
+    counts.set(match.type, (counts.get(match.type) || 0) + 1);
+  }
+}
+
+export function getPIIRedactionStats(): PIIRedactionStats {
+  const stats: PIIRedactionStats = { since: countingSince, total: 0, by_surface: {}, by_type: {} };
+
+  for (const [surface, counts] of redactionCounts) {
+    stats.by_surface[surface] = Object.fromEntries(counts);
+    for (const [type, count] of counts) {
+      stats.by_type[type] = (stats.by_type[type] || 0) + count;
+      stats.total += count;
+    }
+  }
+
+  return stats;
+}
+
+function replaceMatches(
+  text: string,
+  types: PIIType[] | undefined,
+  surface: PIISurface | undefined,
+  replacement: (type: PIIType, value: string) => string
+): string {
+  const matches = detectPII(text, types);
+  if (surface) countRedactions(surface, matches);
+
+  let result = '';
+  let position = 0;
+
+  for (const match of matches) {
+    result += text.slice(position, match.start) + replacement(match.type, match.value);
+    position = match.end;
+  }
+
+  return result + text.slice(position);
+}
+
+const labelOf = (type: PIIType): string => getPIIDetector(type)?.label || type.toUpperCase();
+
+// Irreversible: every match becomes its type's placeholder, e.g. [EMAIL]. Matches are
+// counted against the surface when one is given.
+export function redactPII(text: string, types?: PIIType[], surface?: PIISurface): string {
+  return replaceMatches(text, types, surface, type => `[${labelOf(type)}]`);
+}
+
+export function redactPIIDeep<T>(value: T, types?: PIIType[], surface?: PIISurface): T {
+  return mapStrings(value, text => redactPII(text, types, surface));
+}
+
+// Redacts text arriving in pieces, such as streamed model output. Values can span
+// pieces, so text is let through a sentence or line at a time, or once 200 characters
+// are waiting. Call with end = true for the last piece.
+export function createStreamRedactor(types?: PIIType[], surface?: PIISurface): (text: string, end?: boolean) => string {
+  let pending = '';
+
+  return (text: string, end: boolean = false) => {
+    pending += text;
+
+    let cut = pending.length;
+    if (!end) {
+      const boundaries = [...pending.matchAll(/[.!?]\s|\n/g)];
+      const lastSpace = pending.lastIndexOf(' ');
+      cut = boundaries.length > 0
+        ? boundaries[boundaries.length - 1].index! + boundaries[boundaries.length - 1][0].length
+        : pending.length >= 200 && lastSpace > 0 ? lastSpace + 1 : 0;
+    }
+
+    const ready = pending.slice(0, cut);
+    pending = pending.slice(cut);
+    return ready ? redactPII(ready, types, surface) : '';
+  };
+}
+
+const PLACEHOLDER = /\[([A-Z][A-Z_]*_\d+)\]/g;
+
+// Reversible tokenization for one model call. Each distinct value gets a numbered
+// placeholder ([EMAIL_1], [EMAIL_2]) that is restored from the vault afterwards; the
+// same value always gets the same placeholder, so the model can refer back to it.
+// Placeholders mean nothing outside the vault that issued them, so they must never be
+// stored.
+export class PIIVault {
+  private values = new Map<string, string>();
+  private placeholders = new Map<string, string>();
+  private counts = new Map<string, number>();
+
+  constructor(private types?: PIIType[]) {}
+
+  get size(): number {
+    return this.values.size;
+  }
+
+  tokenize(text: string, surface: PIISurface = 'request'): string {
+    return replaceMatches(text, this.types, surface, (type, value) => {
+      const key = `${type}:${value}`;
+      let placeholder = this.placeholders.get(key);
+
+      if (!placeholder) {
+        const label = labelOf(type);
+        const count = (this.counts.get(label) || 0) + 1;
+        this.counts.set(label, count);
+        placeholder = `[${label}_${count}]`;
+        this.placeholders.set(key, placeholder);
+        this.values.set(placeholder, value);
+      }
+
+      return placeholder;
+    });
+  }
+
+  tokenizeDeep<T>(value: T, surface: PIISurface = 'request'): T {
+    return mapStrings(value, text => this.tokenize(text, surface));
+  }
+
+  // Placeholders the vault didn't issue are left as they are
+  restore(text: string): string {
+    return text.replace(PLACEHOLDER, placeholder => this.values.get(placeholder) ?? placeholder);
+  }
+
+  restoreDeep<T>(value: T): T {
+    return mapStrings(value, text => this.restore(text));
+  }
+
+  // For text arriving in pieces: a placeholder split across pieces is held back until
+  // it is complete. Call with end = true for the last piece.
+  createStreamRestorer(): (text: string, end?: boolean) => string {
+    let pending = '';
+
+    return (text: string, end: boolean = false) => {
+      pending += text;
+      const open = pending.lastIndexOf('[');
+      const holdBack = !end && open !== -1 && !pending.includes(']', open) && pending.length - open <= 40;
+
+      const ready = holdBack ? pending.slice(0, open) : pending;
+      pending = holdBack ? pending.slice(open) : '';
+      return this.restore(ready);
+    };
+  }
+}
@@ -0,0 +1,440 @@
+import { createHash } from 'crypto';
+import { supabase, logger } from '../server';
+import PromptTemplateManager, { PromptTemplate } from './promptTemplates';
+import { envInt } from '../config';
+
+export type PromptTemplateStatus = 'draft' | 'published' | 'archived';
+
+export interface PromptTemplateVersion {
+  id: string;
+  name: string;
+  version: number;
+  description?: string;
+  template: string;
+  variables: string[];
+  status: PromptTemplateStatus;
+  change_note?: string;
+  author_id?: string;
+  published_by?: string;
+  published_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateVersionInput {
+  template: string;
+  description?: string;
+  variables?: string[];
+  change_note?: string;
+}
+
+export interface PromptTemplateSummary {
+  name: string;
+  description: string;
+  // Null while the built-in version is in use
+  published_version: number | null;
+  latest_version: number | null;
+  draft_count: number;
+}
+
+// Identifies the exact template text behind a prompt; stored with every AI response
+export interface TemplateRef {
+  name: string;
+  // 0 for the built-in template shipped with the code
+  version: number;
+  source: 'builtin' | 'registry';
+  checksum: string;
+}
+
+export interface ResolvedTemplate {
+  ref: TemplateRef;
+  template: PromptTemplate;
+}
+
+export interface RenderedPrompt {
+  text: string;
+  template: TemplateRef;
+}
+
+export interface TemplateValidationResult {
+  valid: boolean;
+  errors: string[];
+}
+
+export class PromptTemplateError extends Error {
+  readonly code: 'not_found' | 'conflict' | 'invalid';
+  readonly details?: string[];
+
+  constructor(code: 'not_found' | 'conflict' | 'invalid', message: string, details?: string[]) {
+    super(message);
+    this.name = 'PromptTemplateError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+// How long a published version is used before the database is checked again.
+// Publishing clears the cache on the instance that handled the request only.
+const TEMPLATE_CACHE_TTL_MS = envInt('PROMPT_TEMPLATE_CACHE_TTL_MS', 60 * 1000);
+
+// Variables a stored version must keep using, otherwise the caller's input is silently dropped
+const REQUIRED_VARIABLES: Record<string, string[]> = {
+  customer_query_response: ['query', 'responseFormat'],
+  customer_service_response: ['query'],
+  intent_classification: ['query'],
+  sentiment_analysis: ['text'],
+  response_suggestions: ['query'],
+  response_quality_assessment: ['originalQuery', 'response'],
+  escalation_detection: ['query']
+};
+
+// Template behind AIService.processQuery and streamQuery
+export const QUERY_PROMPT_TEMPLATE = 'customer_query_response';
+
+const VERSION_LIST_COLUMNS =
+  'id, name, version, description, variables, status, change_note, author_id, published_by, published_at, created_at, updated_at';
+
+const checksum = (template: string): string =>
+  createHash('sha256').update(template).digest('hex').slice(0, 12);
+
+// Database-backed prompt templates. Each name starts with the built-in template from
+// PromptTemplateManager; admins add versions as drafts, publish one at a time and can roll back.
+export class PromptTemplateRegistry {
+  private builtins = new PromptTemplateManager();
+  private renderer = new PromptTemplateManager();
+  private cache = new Map<string, { resolved: ResolvedTemplate; expiresAt: number }>();
+
+  async listTemplates(): Promise<PromptTemplateSummary[]> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('name, version, status');
+
+    if (error) {
+      throw error;
+    }
+
+    return this.builtins.listTemplates().map(name => {
+      const rows = (data || []).filter(row => row.name === name);
+      const published = rows.find(row => row.status === 'published');
+
+      return {
+        name,
+        description: this.builtins.getTemplate(name)!.description,
+        published_version: published ? published.version : null,
+        latest_version: rows.length > 0 ? Math.max(...rows.map(row => row.version)) : null,
+        draft_count: rows.filter(row => row.status === 'draft').length
+      };
+    });
+  }
+
+  getBuiltin(name: string): PromptTemplate {
+    const builtin = this.builtins.getTemplate(name);
+    if (!builtin) {
+      throw new PromptTemplateError('not_found', `Template "${name}" not found`);
+    }
+    return builtin;
+  }
+
+  async getVersions(name: string): Promise<Omit<PromptTemplateVersion, 'template'>[]> {
+    this.getBuiltin(name);
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select(VERSION_LIST_COLUMNS)
+      .eq('name', name)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getVersion(name: string, version: number): Promise<PromptTemplateVersion> {
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('*')
+      .eq('name', name)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new PromptTemplateError('not_found', `Template "${name}" version ${version} not found`);
+    }
+
+    return data;
+  }
+
+  async createVersion(name: string, input: PromptTemplateVersionInput, authorId: string): Promise<PromptTemplateVersion> {
+    const builtin = this.getBuiltin(name);
+
+    const { data: latest, error: latestError } = await supabase
+      .from('prompt_templates')
+      .select('version')
+      .eq('name', name)
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (latestError) {
+      throw latestError;
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .insert({
+        name,
+        version: (latest?.version || 0) + 1,
+        description: input.description || builtin.description,
+        template: input.template,
+        variables: input.variables || builtin.variables,
+        status: 'draft',
+        change_note: input.change_note,
+        author_id: authorId
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Another version was created at the same time
+      if (error.code === '23505') {
+        throw new PromptTemplateError('conflict', `Template "${name}" was changed concurrently, please retry`);
+      }
+      throw error;
+    }
+
+    logger.info('Prompt template version created', { name, version: data.version, author_id: authorId });
+    return data;
+  }
+
+  async deleteDraft(name: string, version: number): Promise<void> {
+    const existing = await this.getVersion(name, version);
+    if (existing.status !== 'draft') {
+      throw new PromptTemplateError('conflict', `Only drafts can be deleted; version ${version} is ${existing.status}`);
+    }
+
+    const { error } = await supabase
+      .from('prompt_templates')
+      .delete()
+      .eq('id', existing.id);
+
+    if (error) {
+      throw error;
+    }
+  }
+
+  // Renders the candidate with placeholder values for every variable callers provide.
+  // Catches syntax errors, unknown helpers or partials, variables no caller supplies and
+  // required variables that were dropped.
+  validate(name: string, candidate: Pick<PromptTemplate, 'template' | 'variables'>): TemplateValidationResult {
+    const builtin = this.getBuiltin(name);
+    const scratch = new PromptTemplateManager();
+    scratch.addTemplate({ name, description: builtin.description, template: candidate.template, variables: candidate.variables });
+
+    const sample = Object.fromEntries(builtin.variables.map(variable => [variable, 'sample']));
+    const result = scratch.validateTemplate(name, sample);
+    const errors: string[] = [];
+
+    if (result.error) {
+      errors.push(result.error);
+    }
+    if (result.missingVariables.length > 0) {
+      errors.push(`Variables not provided to this template: ${result.missingVariables.join(', ')}`);
+    }
+
+    const unused = (REQUIRED_VARIABLES[name] || [])
+      .filter(variable => !new RegExp(`\\{\\{[^}]*\\b${variable}\\b`).test(candidate.template));
+    if (unused.length > 0) {
+      errors.push(`Template must use: ${unused.join(', ')}`);
+    }
+
+    return { valid: errors.length === 0, errors };
+  }
+
+  async publish(name: string, version: number, publishedBy: string): Promise<PromptTemplateVersion> {
+    const target = await this.getVersion(name, version);
+
+    if (target.status === 'published') {
+      return target;
+    }
+
+    const validation = this.validate(name, { template: target.template, variables: target.variables || [] });
+    if (!validation.valid) {
+      throw new PromptTemplateError('invalid', `Template "${name}" version ${version} failed validation`, validation.errors);
+    }
+
+    const { data: current, error: currentError } = await supabase
+      .from('prompt_templates')
+      .update({ status: 'archived' })
+      .eq('name', name)
+      .eq('status', 'published')
+      .select('id');
+
+    if (currentError) {
+      throw currentError;
+    }
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .update({ status: 'published', published_by: publishedBy, published_at: new Date().toISOString() })
+      .eq('id', target.id)
+      .select()
+      .single();
+
+    if (error) {
+      // Put the previous version back so the template doesn't silently revert to the built-in
+      if (current && current.length > 0) {
+        await supabase.from('prompt_templates').update({ status: 'published' }).eq('id', current[0].id);
+      }
+      throw error;
+    }
+
+    this.cache.delete(name);
+    logger.info('Prompt template published', { name, version, published_by: publishedBy });
+    return data;
+  }
+
+  // Republishes an earlier published version: the given one, or the one before the current.
+  // With nothing earlier to go back to, the current version is archived and the built-in is used.
+  async rollback(name: string, publishedBy: string, toVersion?: number): Promise<TemplateRef> {
+    this.getBuiltin(name);
+
+    const { data, error } = await supabase
+      .from('prompt_templates')
+      .select('id, version, status, published_at')
+      .eq('name', name)
+      .not('published_at', 'is', null)
+      .order('published_at', { ascending: false });
+
+    if (error) {
+      throw error;
+    }
+
+    const history = data || [];
+    const current = history.find(row => row.status === 'published');
+    const target = toVersion !== undefined
+      ? history.find(row => row.version === toVersion)
+      : history.find(row => row.status !== 'published');
+
+    if (toVersion !== undefined && !target) {
+      throw new PromptTemplateError('not_found', `Template "${name}" version ${toVersion} was never published`);
+    }
+
+    if (target) {
+      await this.publish(name, target.version, publishedBy);
+    } else if (current) {
+      const { error: archiveError } = await supabase
+        .from('prompt_templates')
+        .update({ status: 'archived' })
+        .eq('id', current.id);
+
+      if (archiveError) {
+        throw archiveError;
+      }
+    } else {
+      throw new PromptTemplateError('conflict', `Template "${name}" is already using the built-in version`);
+    }
+
+    this.cache.delete(name);
+    logger.info('Prompt template rolled back', { name, from_version: current?.version, to_version: target?.version || 0 });
+
+    return (await this.resolve(name)).ref;
+  }
+
+  // The published version of a template, or the built-in when none is published or the
+  // database can't be reached
+  async resolve(name: string): Promise<ResolvedTemplate> {
+    const cached = this.cache.get(name);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.resolved;
+    }
+
+    let resolved = this.resolveBuiltin(name);
+
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('version, description, template, variables')
+        .eq('name', name)
+        .eq('status', 'published')
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (data) {
+        resolved = this.toResolved(name, data);
+      }
+    } catch (error) {
+      logger.warn('Failed to load published prompt template, using built-in', { error, name });
+    }
+
+    this.cache.set(name, { resolved, expiresAt: Date.now() + TEMPLATE_CACHE_TTL_MS });
+    return resolved;
+  }
+
+  // A specific version, published or not, e.g. a draft under test in an experiment; 0 is the
+  // built-in. Versions are never edited after creation, so they are cached like published ones.
+  async resolveVersion(name: string, version: number): Promise<ResolvedTemplate> {
+    const key = `${name}@${version}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.resolved;
+    }
+
+    const resolved = version === 0
+      ? this.resolveBuiltin(name)
+      : this.toResolved(name, await this.getVersion(name, version));
+
+    this.cache.set(key, { resolved, expiresAt: Date.now() + TEMPLATE_CACHE_TTL_MS });
+    return resolved;
+  }
+
+  renderResolved(resolved: ResolvedTemplate, variables: Record<string, any>): RenderedPrompt {
+    const { ref, template } = resolved;
+
+    // Keyed by checksum so versions used side by side (experiments) each compile once
+    const key = `${ref.name}@${ref.checksum}`;
+    if (!this.renderer.getTemplate(key)) {
+      this.renderer.addTemplate({ ...template, name: key });
+    }
+
+    return { text: this.renderer.renderTemplate(key, variables), template: ref };
+  }
+
+  async render(name: string, variables: Record<string, any>): Promise<RenderedPrompt> {
+    return this.renderResolved(await this.resolve(name), variables);
+  }
+
+  private resolveBuiltin(name: string): ResolvedTemplate {
+    const builtin = this.getBuiltin(name);
+    return {
+      ref: { name, version: 0, source: 'builtin', checksum: checksum(builtin.template) },
+      template: builtin
+    };
+  }
+
+  private toResolved(name: string, row: Pick<PromptTemplateVersion, 'version' | 'description' | 'template' | 'variables'>): ResolvedTemplate {
+    const builtin = this.getBuiltin(name);
+
+    return {
+      ref: { name, version: row.version, source: 'registry', checksum: checksum(row.template) },
+      template: {
+        name,
+        description: row.description || builtin.description,
+        template: row.template,
+        variables: row.variables || builtin.variables
+      }
+    };
+  }
+}
+
+export const promptTemplateRegistry = new PromptTemplateRegistry();
+
+export default PromptTemplateRegistry;
@@ -0,0 +1,172 @@
+import { PromptTemplateManager } from './promptTemplates';
+
+jest.mock('../server', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() }
+}));
+
+const customer = {
+  id: 'c0a8012e-0000-4000-8000-000000000001',
+  name: 'Ana Souza',
+  email: 'ana@example.com',
+  company: 'Acme & Sons',
+  metadata: { tier: 'enterprise', communication_style: 'concise' }
+};
+
+const previousInteractions = [
+  { type: 'email', content: 'My order arrived damaged.', sentiment: 'negative', created_at: '2026-10-01T10:00:00Z' },
+  { type: 'chat', content: 'Any update on the replacement?', created_at: '2026-10-03T09:30:00Z' }
+];
+
+const summary = {
+  turns_summarized: 4,
+  customer_intent: 'Replace a damaged blender',
+  key_topics: ['damaged item', 'replacement'],
+  resolution_status: 'pending',
+  sentiment_progression: [{ turn: 1, sentiment: 'negative' }],
+  next_steps: ['Ship the replacement']
+};
+
+const turns = [
+  { number: 5, role: 'customer', content: 'Can you send it express?' },
+  { number: 6, role: 'agent', content: 'I have upgraded the shipping.' }
+];
+
+// Variables for every built-in template, filled in the way the services fill them
+const FIXTURES: Record<string, Record<string, any>> = {
+  customer_query_response: {
+    query: 'Where is my replacement?',
+    customer,
+    previousInteractions,
+    conversationSummary: summary,
+    conversationHistory: [{ role: 'customer', content: 'Hi' }, { role: 'assistant', content: 'Hello!' }],
+    relevantSOPs: [{ title: 'Replacements', url: 'https://wiki.example.com/sop/1', content: 'Ship within 2 days.' }],
+    toolsEnabled: true,
+    languageInstruction: 'Reply in English.',
+    responseFormat: 'Respond with JSON.'
+  },
+  customer_service_response: {
+    customer,
+    previousInteractions,
+    query: 'Where is my replacement?',
+    context: { order_id: 'A-1001', items: ['blender'] },
+    tone: 'warm',
+    language: 'English'
+  },
+  intent_classification: {
+    query: 'I want to cancel my plan',
+    customerHistory: { interactionCount: 3, dominantSentiment: 'negative', accountStatus: 'active' }
+  },
+  sentiment_analysis: {
+    text: 'Thanks, that fixed it!',
+    context: { type: 'chat', customerTier: 'standard', previousSentiment: 'negative', interactionNumber: 2 }
+  },
+  response_suggestions: {
+    query: 'Where is my replacement?',
+    intent: 'question',
+    sentiment: 'neutral',
+    customer,
+    context: { order_id: 'A-1001' },
+    language: 'English'
+  },
+  response_quality_assessment: {
+    originalQuery: 'Where is my replacement?',
+    customerContext: JSON.stringify({ name: customer.name }),
+    response: 'It ships tomorrow.',
+    language: 'English'
+  },
+  escalation_detection: {
+    query: 'This is unacceptable, I want a manager',
+    sentiment: 'negative',
+    interactionCount: 2,
+    previousInteractions,
+    customerTier: 'enterprise',
+    issueComplexity: 'medium',
+    responseTime: '2h',
+    previousEscalations: 0
+  },
+  conversation_summary: {
+    previousSummary: summary,
+    turns,
+    status: 'active'
+  },
+  handoff_brief: {
+    target: 'a human agent',
+    reason: 'Customer asked for a manager',
+    summary,
+    turns
+  }
+};
+
+describe('PromptTemplateManager', () => {
+  const manager = new PromptTemplateManager();
+
+  it('has fixtures for every built-in template', () => {
+    expect(manager.listTemplates().sort()).toEqual(Object.keys(FIXTURES).sort());
+  });
+
+  describe.each(Object.keys(FIXTURES))('%s', name => {
+    it('renders without stray tags', () => {
+      const output = manager.renderTemplate(name, FIXTURES[name]);
+
+      expect(output).not.toContain('{{');
+      expect(output).not.toContain('}}');
+    });
+
+    it('validates with its fixture', () => {
+      expect(manager.validateTemplate(name, FIXTURES[name])).toEqual({ valid: true, missingVariables: [] });
+    });
+
+    it('renders without stray tags when optional values are missing', () => {
+      expect(manager.renderTemplate(name, {})).not.toContain('{{');
+    });
+  });
+
+  it('renders sections, nested paths and partials', () => {
+    const output = manager.renderTemplate('customer_service_response', FIXTURES.customer_service_response);
+
+    expect(output).toContain('- Name: Ana Souza');
+    expect(output).toContain('- Customer Tier: enterprise');
+    expect(output).toContain('1. email: My order arrived damaged.');
+    expect(output).toContain('Sentiment: unknown');
+    expect(output).toContain('- order_id: A-1001');
+    expect(output).toContain('- items: ["blender"]');
+    expect(output).toContain('Maintain a warm tone');
+  });
+
+  it('falls back through else branches', () => {
+    const output = manager.renderTemplate('customer_service_response', {
+      customer: { name: 'Bo', email: 'bo@example.com' },
+      query: 'Hi',
+      language: 'English'
+    });
+
+    expect(output).toContain('- Company: N/A');
+    expect(output).toContain('- Customer Tier: standard');
+    expect(output).toContain('friendly and professional tone');
+    expect(output).not.toContain('Recent Interaction History');
+  });
+
+  it('inserts values without HTML escaping', () => {
+    const output = manager.renderTemplate('customer_service_response', {
+      ...FIXTURES.customer_service_response,
+      query: 'Is "5 < 6" & more?'
+    });
+
+    expect(output).toContain('Company: Acme & Sons');
+    expect(output).toContain('Current Query: "Is "5 < 6" & more?"');
+  });
+
+  it('joins lists with each/unless @last', () => {
+    const output = manager.renderTemplate('customer_query_response', FIXTURES.customer_query_response);
+
+    expect(output).toContain('- Topics: damaged item, replacement');
+    expect(output).toContain('1. Replacements');
+    expect(output).toContain('You can use the provided tools');
+  });
+
+  it('reports templates with unbalanced blocks', () => {
+    manager.addTemplate({ name: 'broken', description: 'test', template: '{{#if a}}open', variables: [] });
+
+    expect(manager.validateTemplate('broken', {}).valid).toBe(false);
+  });
+});
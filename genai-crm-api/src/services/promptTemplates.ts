@@ -1,3 +1,6 @@
+import Handlebars from 'handlebars';
+import { logger } from '../server';
+
 export interface PromptTemplate {
   name: string;
   description: string;
@@ -9,54 +12,156 @@ export interface PromptTemplate {
   }>;
 }
 
+// Templates use Handlebars syntax: {{path.to.value}}, {{#if}}/{{else}}, {{#unless}}, {{#each}}
+// (with @index, @key, @first, @last), {{#with}}, partials via {{> name}} and literal braces via \{{.
+// Output is a model prompt rather than HTML, so values are inserted without HTML escaping.
 export class PromptTemplateManager {
   private templates = new Map<string, PromptTemplate>();
+  private compiled = new Map<string, HandlebarsTemplateDelegate>();
+  private handlebars = Handlebars.create();
 
   constructor() {
+    this.registerHelpers();
+    this.registerPartials();
     this.initializeTemplates();
   }
 
+  private registerHelpers(): void {
+    // {{inc @index}} for 1-based numbering
+    this.handlebars.registerHelper('inc', (value: any) => Number(value) + 1);
+
+    // Objects and arrays as JSON, everything else as-is
+    this.handlebars.registerHelper('json', (value: any) =>
+      value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+    );
+
+    // {{truncate content 200}}
+    this.handlebars.registerHelper('truncate', (value: any, length: any) => {
+      const text = value == null ? '' : String(value);
+      const max = typeof length === 'number' ? length : 200;
+      return text.length > max ? `${text.slice(0, max)}...` : text;
+    });
+  }
+
+  private registerPartials(): void {
+    this.addPartial('interaction_history', `{{#if previousInteractions.length}}
+Recent Interaction History:
+{{#each previousInteractions}}
+{{inc @index}}. {{type}}: {{truncate content 200}}
+   Sentiment: {{#if sentiment}}{{sentiment}}{{else}}unknown{{/if}} | Date: {{created_at}}
+{{/each}}
+{{/if}}`);
+
+    this.addPartial('context_list', `{{#each this}}
+- {{@key}}: {{json this}}
+{{/each}}`);
+  }
+
   private initializeTemplates(): void {
+    // Query Pipeline Template (reply, classification and suggestions in one structured call)
+    this.addTemplate({
+      name: 'customer_query_response',
+      description: 'Answer a customer query with intent, sentiment and suggested replies as structured JSON',
+      template: `You are an expert customer service AI assistant. Your goal is to provide helpful, professional, and empathetic responses to customer inquiries.
+{{#if toolsEnabled}}
+
+You can use the provided tools to look up customer records, recent interactions, company SOPs and past conversations when the information below is not enough. Only call a tool when it will change your answer.
+{{/if}}
+
+Customer Query: "{{query}}"
+{{#with customer}}
+
+Customer Information:
+- Name: {{name}}
+- Email: {{email}}
+- Company: {{#if company}}{{company}}{{else}}N/A{{/if}}
+{{/with}}
+{{#if previousInteractions.length}}
+
+Recent Interaction History:
+{{#each previousInteractions}}
+{{inc @index}}. {{type}}: {{truncate content 100}}
+{{/each}}
+{{/if}}
+{{#with conversationSummary}}
+
+Earlier in this conversation ({{turns_summarized}} turns):
+- Customer intent: {{customer_intent}}
+- Topics: {{#each key_topics}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+- Status: {{resolution_status}}
+{{#if next_steps.length}}
+- Open next steps: {{#each next_steps}}{{this}}{{#unless @last}}; {{/unless}}{{/each}}
+{{/if}}
+{{/with}}
+{{#if conversationHistory.length}}
+
+Conversation History:
+{{#each conversationHistory}}
+{{role}}: {{content}}
+{{/each}}
+{{/if}}
+{{#if relevantSOPs.length}}
+
+Relevant Company SOPs and Procedures:
+{{#each relevantSOPs}}
+
+{{inc @index}}. {{title}}
+URL: {{url}}
+Content: {{truncate content 300}}
+{{/each}}
+
+Please reference these SOPs when relevant and provide the URL for further reading.
+{{/if}}
+
+Provide a helpful, professional response that:
+1. Addresses the customer's specific query
+2. Takes into account their history and context
+3. References relevant SOPs and procedures when applicable
+4. Maintains a friendly and empathetic tone
+5. Offers clear next steps when appropriate
+6. Includes SOP URLs when referencing procedures
+
+Also classify the customer's intent and sentiment, and draft three alternative replies.
+
+{{languageInstruction}}
+
+{{responseFormat}}`,
+      variables: ['query', 'customer', 'previousInteractions', 'conversationSummary', 'conversationHistory', 'relevantSOPs', 'toolsEnabled', 'languageInstruction', 'responseFormat']
+    });
+
     // Customer Service Response Template
     this.addTemplate({
       name: 'customer_service_response',
       description: 'Generate professional customer service responses',
       template: `You are an expert customer service representative. Your goal is to provide helpful, professional, and empathetic responses.
 
+{{#with customer}}
 Customer Information:
-{{#customer}}
 - Name: {{name}}
 - Email: {{email}}
-- Company: {{company}}
-- Customer Tier: {{metadata.tier}}
-{{/customer}}
+- Company: {{#if company}}{{company}}{{else}}N/A{{/if}}
+- Customer Tier: {{#if metadata.tier}}{{metadata.tier}}{{else}}standard{{/if}}
+{{/with}}
 
-{{#previousInteractions}}
-Recent Interaction History:
-{{#each this}}
-{{@index}}. {{type}}: {{content}}
-   Sentiment: {{sentiment}} | Date: {{created_at}}
-{{/each}}
-{{/previousInteractions}}
+{{> interaction_history}}
 
 Current Query: "{{query}}"
 
-{{#context}}
+{{#with context}}
 Additional Context:
-{{#each this}}
-- {{@key}}: {{this}}
-{{/each}}
-{{/context}}
+{{> context_list}}
+{{/with}}
 
 Instructions:
 1. Address the customer by name when appropriate
 2. Reference relevant history if available
 3. Provide clear, actionable solutions
-4. Maintain a {{tone}} tone
+4. Maintain a {{#if tone}}{{tone}}{{else}}friendly and professional{{/if}} tone
 5. Offer follow-up assistance
+6. Reply in {{language}}
 
 Response:`,
-      variables: ['customer', 'previousInteractions', 'query', 'context', 'tone']
+      variables: ['customer', 'previousInteractions', 'query', 'context', 'tone', 'language']
     });
 
     // Intent Classification Template
@@ -67,12 +172,14 @@ Response:`,
 
 Customer Query: "{{query}}"
 
-{{#customerHistory}}
+{{#with customerHistory}}
 Customer Background:
 - Previous interactions: {{interactionCount}}
 - Dominant sentiment: {{dominantSentiment}}
 - Account status: {{accountStatus}}
-{{/customerHistory}}
+{{/with}}
+
+The query may be written in English, Spanish, German or Portuguese. Always classify it with the English category name.
 
 Available Intent Categories:
 1. question - Seeking information or clarification
@@ -104,13 +211,15 @@ Classification: `,
 
 Text to analyze: "{{text}}"
 
-{{#context}}
+{{#with context}}
 Context:
 - Communication type: {{type}}
 - Customer tier: {{customerTier}}
+{{#if previousSentiment}}
 - Previous sentiment: {{previousSentiment}}
+{{/if}}
 - Interaction number: {{interactionNumber}}
-{{/context}}
+{{/with}}
 
 Consider:
 1. Explicit emotional words and phrases
@@ -119,6 +228,8 @@ Consider:
 4. Context and history
 5. Cultural communication patterns
 
+The text may be written in English, Spanish, German or Portuguese; judge it in its own language but always answer with the English category name.
+
 Sentiment Categories:
 - POSITIVE: Satisfied, happy, appreciative, excited
 - NEUTRAL: Factual, informational, routine inquiries
@@ -144,20 +255,22 @@ Customer Query: "{{query}}"
 Intent: {{intent}}
 Sentiment: {{sentiment}}
 
-{{#customer}}
+{{#with customer}}
 Customer Profile:
 - Name: {{name}}
-- Company: {{company}}
-- Tier: {{metadata.tier}}
+- Company: {{#if company}}{{company}}{{else}}N/A{{/if}}
+- Tier: {{#if metadata.tier}}{{metadata.tier}}{{else}}standard{{/if}}
+{{#if metadata.communication_style}}
 - Communication Style: {{metadata.communication_style}}
-{{/customer}}
+{{/if}}
+{{/with}}
 
-{{#context}}
+{{#with context}}
 Situation Context:
-{{#each this}}
-- {{@key}}: {{this}}
-{{/each}}
-{{/context}}
+{{> context_list}}
+{{/with}}
+
+Write every suggestion in {{language}}. Keep the JSON keys and "type" values in English.
 
 Generate three response approaches:
 
@@ -202,7 +315,7 @@ Format as JSON:
     }
   ]
 }`,
-      variables: ['query', 'intent', 'sentiment', 'customer', 'context']
+      variables: ['query', 'intent', 'sentiment', 'customer', 'context', 'language']
     });
 
     // Quality Assessment Template
@@ -214,6 +327,9 @@ Format as JSON:
 Original Query: "{{originalQuery}}"
 Customer Context: {{customerContext}}
 Generated Response: "{{response}}"
+Expected Response Language: {{language}}
+
+A response that is not written in the expected language should score low on relevance. Write "strengths" and "improvements" in English.
 
 Assessment Criteria:
 
@@ -254,7 +370,7 @@ Provide assessment as JSON:
   "improvements": ["...", "..."],
   "confidence": 0.87
 }`,
-      variables: ['originalQuery', 'customerContext', 'response']
+      variables: ['originalQuery', 'customerContext', 'response', 'language']
     });
 
     // Escalation Detection Template
@@ -267,15 +383,15 @@ Customer Query: "{{query}}"
 Customer Sentiment: {{sentiment}}
 Interaction History: {{interactionCount}} previous interactions
 
-{{#previousInteractions}}
+{{#if previousInteractions.length}}
 Recent Issues:
-{{#each this}}
-- {{type}}: {{content}} ({{sentiment}})
+{{#each previousInteractions}}
+- {{type}}: {{truncate content 200}}{{#if sentiment}} ({{sentiment}}){{/if}}
 {{/each}}
-{{/previousInteractions}}
+{{/if}}
 
-Escalation Indicators:
-1. Explicit escalation requests ("speak to manager", "this is unacceptable")
+Escalation Indicators (the customer may write in English, Spanish, German or Portuguese; apply them in any language):
+1. Explicit escalation requests ("speak to manager", "this is unacceptable", "quiero hablar con un supervisor", "ich möchte einen Vorgesetzten sprechen")
 2. High frustration/anger levels
 3. Repeated unresolved issues
 4. Complex technical problems
@@ -307,10 +423,82 @@ Provide analysis as JSON:
 }`,
       variables: ['query', 'sentiment', 'interactionCount', 'previousInteractions', 'customerTier', 'issueComplexity', 'responseTime', 'previousEscalations']
     });
+
+    // Conversation Summary Template (merges new turns into the running summary)
+    this.addTemplate({
+      name: 'conversation_summary',
+      description: 'Update the structured summary of a conversation with its latest turns',
+      template: `Keep a running summary of this customer service conversation.
+{{#if previousSummary}}
+
+Summary of turns 1-{{previousSummary.turns_summarized}}:
+- Customer intent: {{previousSummary.customer_intent}}
+- Key topics: {{json previousSummary.key_topics}}
+- Resolution status: {{previousSummary.resolution_status}}
+- Sentiment by turn: {{json previousSummary.sentiment_progression}}
+- Next steps: {{json previousSummary.next_steps}}
+{{/if}}
+
+New turns:
+{{#each turns}}
+{{number}}. {{role}}: {{truncate content 500}}
+{{/each}}
+
+Conversation status: {{status}}
+
+Update the summary with the new turns. Keep topics and next steps from the summary that still apply, drop next steps that were completed, and add the sentiment of each new customer turn using the turn numbers above. The resolution status is "resolved" only when the customer's issue was solved and "escalated" when it was handed to someone else.
+
+Respond with JSON only:
+{
+  "key_topics": ["refund", "damaged item"],
+  "customer_intent": "Get a refund for an order that arrived damaged",
+  "resolution_status": "pending",
+  "sentiment_progression": [{ "turn": 1, "sentiment": "negative" }],
+  "next_steps": ["Confirm the refund once the return is received"]
+}`,
+      variables: ['previousSummary', 'turns', 'status']
+    });
+
+    // Handoff Brief Template (what the next agent needs before picking a conversation up)
+    this.addTemplate({
+      name: 'handoff_brief',
+      description: 'Brief the agent receiving a handed-off conversation',
+      template: `A customer service conversation is being handed to {{target}}.
+Reason for the handoff: {{reason}}
+{{#if summary}}
+
+Summary so far:
+- Customer intent: {{summary.customer_intent}}
+- Key topics: {{json summary.key_topics}}
+- Resolution status: {{summary.resolution_status}}
+{{/if}}
+
+Recent turns:
+{{#each turns}}
+{{number}}. {{role}}: {{truncate content 500}}
+{{/each}}
+
+Write a handoff brief for the receiving agent. List the customer's open questions (asked but not yet answered) and the actions the customer was promised that have not been done yet, in the customer's words where possible. Leave a list empty rather than guessing.
+
+Respond with JSON only:
+{
+  "summary": "Customer wants a refund for a damaged blender; a return label was sent",
+  "open_questions": ["When will the refund reach my card?"],
+  "promised_actions": ["Email the return label", "Process the refund once the return arrives"]
+}`,
+      variables: ['target', 'reason', 'summary', 'turns']
+    });
   }
 
   addTemplate(template: PromptTemplate): void {
     this.templates.set(template.name, template);
+    this.compiled.delete(template.name);
+  }
+
+  addPartial(name: string, template: string): void {
+    this.handlebars.registerPartial(name, template);
+    // Partials are resolved at render time, but compiled templates may have inlined a previous version
+    this.compiled.clear();
   }
 
   getTemplate(name: string): PromptTemplate | undefined {
@@ -323,56 +511,49 @@ Provide analysis as JSON:
       throw new Error(`Template "${name}" not found`);
     }
 
-    return this.interpolateTemplate(template.template, variables);
-  }
-
-  private interpolateTemplate(template: string, variables: Record<string, any>): string {
-    // Simple template interpolation
-    let result = template;
-
-    // Handle {{variable}} replacements
-    result = result.replace(/\{\{(\w+)\}\}/g, (match, varName) => {
-      return variables[varName]?.toString() || '';
-    });
-
-    // Handle {{#if variable}} blocks
-    result = result.replace(/\{\{#if (\w+)\}\}([\s\S]*?)\{\{\/if\}\}/g, (match, varName, content) => {
-      return variables[varName] ? content : '';
-    });
+    const output = this.compile(template)(variables).replace(/\n{3,}/g, '\n\n');
 
-    // Handle {{#each variable}} blocks
-    result = result.replace(/\{\{#each (\w+)\}\}([\s\S]*?)\{\{\/each\}\}/g, (match, varName, content) => {
-      const array = variables[varName];
-      if (!Array.isArray(array)) return '';
-      
-      return array.map((item, index) => {
-        let itemContent = content;
-        itemContent = itemContent.replace(/\{\{@index\}\}/g, (index + 1).toString());
-        itemContent = itemContent.replace(/\{\{(\w+)\}\}/g, (match, prop) => {
-          return item[prop]?.toString() || '';
-        });
-        return itemContent;
-      }).join('');
-    });
+    // Usually a typo such as {{#each}} without a closing tag or a misspelled helper
+    if (output.includes('{{')) {
+      logger.warn('Rendered prompt template contains unrendered tags', { template: name });
+    }
 
-    // Handle nested object properties
-    result = result.replace(/\{\{(\w+)\.(\w+)\}\}/g, (match, objName, propName) => {
-      return variables[objName]?.[propName]?.toString() || '';
-    });
+    return output;
+  }
 
-    return result;
+  private compile(template: PromptTemplate): HandlebarsTemplateDelegate {
+    let compiled = this.compiled.get(template.name);
+    if (!compiled) {
+      compiled = this.handlebars.compile(template.template, { noEscape: true });
+      this.compiled.set(template.name, compiled);
+    }
+    return compiled;
   }
 
   listTemplates(): string[] {
     return Array.from(this.templates.keys());
   }
 
-  validateTemplate(name: string, variables: Record<string, any>): { valid: boolean; missingVariables: string[] } {
+  validateTemplate(
+    name: string,
+    variables: Record<string, any>
+  ): { valid: boolean; missingVariables: string[]; error?: string } {
     const template = this.getTemplate(name);
     if (!template) {
       return { valid: false, missingVariables: [] };
     }
 
+    try {
+      // Parsing catches unbalanced blocks; rendering catches unknown helpers and partials
+      this.handlebars.precompile(template.template, { noEscape: true });
+      const output = this.compile(template)(variables);
+      if (output.includes('{{')) {
+        return { valid: false, missingVariables: [], error: 'Rendered output contains unrendered tags' };
+      }
+    } catch (error: any) {
+      return { valid: false, missingVariables: [], error: error.message };
+    }
+
     const providedVars = new Set(Object.keys(variables));
     const requiredVars = new Set(template.variables);
     const missingVariables = Array.from(requiredVars).filter(v => !providedVars.has(v));
@@ -1,5 +1,7 @@
-import { AIService } from './ai';
-import PromptTemplateManager from './promptTemplates';
+import { AIService, AIRequestOwner } from './ai';
+import { promptTemplateRegistry } from './promptTemplateRegistry';
+import { LANGUAGE_NAMES, detectLanguage, isSupportedLanguage } from './language';
+import { escalationRuleService, RuleEvaluation, ESCALATION_LEVELS, ESCALATION_URGENCIES } from './escalationRules';
 import { logger } from '../server';
 
 export interface QualityMetrics {
@@ -21,36 +23,47 @@ export interface EscalationAnalysis {
   suggested_action: string;
   urgency: 'low' | 'medium' | 'high' | 'critical';
   risk_factors: string[];
+  // Whether escalation rules, the model, or both produced the verdict
+  decided_by?: 'rules' | 'model' | 'rules_and_model';
+  matched_rules?: string[];
 }
 
 export class QualityAssessmentService {
   private aiService: AIService;
-  private promptManager: PromptTemplateManager;
 
   constructor(aiService: AIService) {
     this.aiService = aiService;
-    this.promptManager = new PromptTemplateManager();
   }
 
   async assessResponseQuality(
     originalQuery: string,
     response: string,
-    customerContext: Record<string, any> = {}
+    customerContext: Record<string, any> = {},
+    owner: AIRequestOwner = {}
   ): Promise<QualityMetrics> {
+    const startTime = Date.now();
+
     try {
-      const prompt = this.promptManager.renderTemplate('response_quality_assessment', {
+      const prompt = await promptTemplateRegistry.render('response_quality_assessment', {
         originalQuery,
         response,
-        customerContext: JSON.stringify(customerContext, null, 2)
+        customerContext: JSON.stringify(customerContext, null, 2),
+        language: LANGUAGE_NAMES[
+          isSupportedLanguage(customerContext.language) ? customerContext.language : detectLanguage(originalQuery).language
+        ]
       });
 
-      const aiResponse = await this.aiService.processQuery(
-        prompt,
-        {},
-        'system-quality-assessment'
+      const completion = await this.aiService.completePrompt('quality', prompt.text);
+      await this.aiService.recordCompletion(
+        'quality',
+        originalQuery,
+        completion,
+        Date.now() - startTime,
+        { customerId: customerContext.customer?.id, ...owner },
+        { template: prompt.template }
       );
 
-      return this.parseQualityMetrics(aiResponse.response);
+      return this.parseQualityMetrics(completion.text);
 
     } catch (error) {
       logger.error('Quality assessment failed', { error });
@@ -58,6 +71,9 @@ export class QualityAssessmentService {
     }
   }
 
+  // Escalation rules are evaluated first. A matching short_circuit rule decides on its
+  // own; otherwise the model is asked and the higher of the two verdicts wins. With
+  // useModel false only the rules run, and no match means standard handling.
   async detectEscalationNeeds(
     query: string,
     customerContext: {
@@ -68,10 +84,25 @@ export class QualityAssessmentService {
       issueComplexity?: string;
       responseTime?: number;
       previousEscalations?: number;
-    }
+    },
+    owner: AIRequestOwner = {},
+    options: { useModel?: boolean } = {}
   ): Promise<EscalationAnalysis> {
+    const rules = await escalationRuleService.evaluate({ query, ...customerContext });
+
+    if (rules.short_circuit || (options.useModel === false && rules.escalation_level)) {
+      return this.ruleEscalationAnalysis(rules);
+    }
+
+    if (options.useModel === false) {
+      return { ...this.getDefaultEscalationAnalysis(), confidence: 1, decided_by: 'rules', matched_rules: [] };
+    }
+
+    const startTime = Date.now();
+    let analysis: EscalationAnalysis;
+
     try {
-      const prompt = this.promptManager.renderTemplate('escalation_detection', {
+      const prompt = await promptTemplateRegistry.render('escalation_detection', {
         query,
         sentiment: customerContext.sentiment || 'neutral',
         interactionCount: customerContext.interactionCount || 0,
@@ -82,18 +113,17 @@ export class QualityAssessmentService {
         previousEscalations: customerContext.previousEscalations || 0
       });
 
-      const aiResponse = await this.aiService.processQuery(
-        prompt,
-        {},
-        'system-escalation-detection'
-      );
+      const completion = await this.aiService.completePrompt('quality', prompt.text);
+      await this.aiService.recordCompletion('quality', query, completion, Date.now() - startTime, owner, { template: prompt.template });
 
-      return this.parseEscalationAnalysis(aiResponse.response);
+      analysis = this.parseEscalationAnalysis(completion.text);
 
     } catch (error) {
       logger.error('Escalation detection failed', { error });
-      return this.getDefaultEscalationAnalysis();
+      analysis = this.getDefaultEscalationAnalysis();
     }
+
+    return this.combineEscalationAnalysis(rules, analysis);
   }
 
   async scoreResponseRelevance(query: string, response: string): Promise<number> {
@@ -294,6 +324,39 @@ export class QualityAssessmentService {
     return this.getDefaultEscalationAnalysis();
   }
 
+  private ruleEscalationAnalysis(rules: RuleEvaluation): EscalationAnalysis {
+    return {
+      escalation_level: rules.escalation_level!,
+      confidence: 1,
+      reasoning: `Matched escalation rule${rules.matches.length === 1 ? '' : 's'}: ${rules.matches.map(m => m.rule_name).join(', ')}`,
+      suggested_action: rules.suggested_action || 'Escalate according to the matched rule',
+      urgency: rules.urgency!,
+      risk_factors: rules.matches.map(m => m.explanation),
+      decided_by: 'rules',
+      matched_rules: rules.matches.map(m => m.rule_name)
+    };
+  }
+
+  // Combine-mode rules can raise the model's verdict but never lower it
+  private combineEscalationAnalysis(rules: RuleEvaluation, model: EscalationAnalysis): EscalationAnalysis {
+    if (!rules.escalation_level || !rules.urgency) {
+      return { ...model, decided_by: 'model', matched_rules: [] };
+    }
+
+    const rulesRaiseLevel = ESCALATION_LEVELS.indexOf(rules.escalation_level) > ESCALATION_LEVELS.indexOf(model.escalation_level);
+    const rulesRaiseUrgency = ESCALATION_URGENCIES.indexOf(rules.urgency) > ESCALATION_URGENCIES.indexOf(model.urgency);
+
+    return {
+      ...model,
+      escalation_level: rulesRaiseLevel ? rules.escalation_level : model.escalation_level,
+      urgency: rulesRaiseUrgency ? rules.urgency : model.urgency,
+      suggested_action: rulesRaiseLevel && rules.suggested_action ? rules.suggested_action : model.suggested_action,
+      risk_factors: [...rules.matches.map(m => m.explanation), ...model.risk_factors],
+      decided_by: 'rules_and_model',
+      matched_rules: rules.matches.map(m => m.rule_name)
+    };
+  }
+
   private extractKeywords(text: string): string[] {
     const stopWords = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'he', 'in', 'is', 'it', 'its', 'of', 'on', 'that', 'the', 'to', 'was', 'will', 'with']);
     return text.split(/\W+/)
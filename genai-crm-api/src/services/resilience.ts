@@ -0,0 +1,329 @@
+import { logger } from '../server';
+import { metricsCollector } from './metricsCollector';
+import { LLMProvider, LLMRequest, LLMCompletion } from './llmProvider';
+import { envInt } from '../config';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  resetTimeoutMs: number;
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutive_failures: number;
+  failure_threshold: number;
+  opened_at: string | null;
+  next_attempt_at: string | null;
+  total_trips: number;
+}
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export class CircuitOpenError extends Error {
+  readonly retryAfterMs: number;
+
+  constructor(name: string, retryAfterMs: number) {
+    super(`Circuit breaker "${name}" is open`);
+    this.name = 'CircuitOpenError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class TimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`AI provider request timed out after ${timeoutMs}ms`);
+    this.name = 'TimeoutError';
+  }
+}
+
+const STATE_VALUES: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+export class CircuitBreaker {
+  readonly name: string;
+  private options: CircuitBreakerOptions;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private halfOpenProbeInFlight = false;
+  private totalTrips = 0;
+
+  constructor(name: string, options: CircuitBreakerOptions) {
+    this.name = name;
+    this.options = options;
+  }
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isBreakerFailure(error)) {
+        this.onFailure();
+      } else {
+        this.releaseProbe();
+      }
+      throw error;
+    }
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    // Report the transition to half-open as soon as the reset timeout has elapsed
+    const state = this.state === 'open' && this.resetTimeoutElapsed() ? 'half_open' : this.state;
+
+    return {
+      name: this.name,
+      state,
+      consecutive_failures: this.consecutiveFailures,
+      failure_threshold: this.options.failureThreshold,
+      opened_at: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      next_attempt_at: this.state === 'open' && this.openedAt
+        ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+        : null,
+      total_trips: this.totalTrips
+    };
+  }
+
+  private beforeCall(): void {
+    if (this.state === 'open') {
+      if (!this.resetTimeoutElapsed()) {
+        throw new CircuitOpenError(this.name, this.openedAt! + this.options.resetTimeoutMs - Date.now());
+      }
+      this.transition('half_open');
+    }
+
+    // Only one probe request is let through while half-open
+    if (this.state === 'half_open') {
+      if (this.halfOpenProbeInFlight) {
+        throw new CircuitOpenError(this.name, this.options.resetTimeoutMs);
+      }
+      this.halfOpenProbeInFlight = true;
+    }
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.releaseProbe();
+    if (this.state !== 'closed') {
+      this.openedAt = null;
+      this.transition('closed');
+    }
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures++;
+    this.releaseProbe();
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.totalTrips++;
+      this.transition('open');
+    }
+  }
+
+  private releaseProbe(): void {
+    this.halfOpenProbeInFlight = false;
+  }
+
+  private resetTimeoutElapsed(): boolean {
+    return !!this.openedAt && Date.now() - this.openedAt >= this.options.resetTimeoutMs;
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+
+    const previous = this.state;
+    this.state = state;
+
+    const log = state === 'open' ? logger.warn.bind(logger) : logger.info.bind(logger);
+    log('Circuit breaker state changed', {
+      breaker: this.name,
+      from: previous,
+      to: state,
+      consecutive_failures: this.consecutiveFailures
+    });
+
+    metricsCollector.recordMetric('ai_circuit_breaker_state', STATE_VALUES[state], {
+      breaker: this.name,
+      state,
+      previous_state: previous
+    }, 'resilience');
+  }
+}
+
+// Rate limits and overloads are worth retrying; other client errors are not
+export function isRetryableError(error: any): boolean {
+  const status = error?.status;
+  return status === 429 || status === 503 || status === 529;
+}
+
+// Errors that indicate the provider is unhealthy. Client aborts and bad requests don't count.
+function isBreakerFailure(error: any): boolean {
+  if (error instanceof CircuitOpenError || error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+    return false;
+  }
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  const status = error?.status;
+  if (typeof status !== 'number') {
+    return true; // connection failures
+  }
+  return status === 429 || status >= 500;
+}
+
+function getRetryDelay(error: any, attempt: number, options: RetryOptions): number {
+  const retryAfter = parseFloat(error?.headers?.['retry-after']);
+  if (!isNaN(retryAfter)) {
+    return Math.min(retryAfter * 1000, options.maxDelayMs);
+  }
+
+  const exponential = options.baseDelayMs * Math.pow(2, attempt);
+  const jitter = Math.random() * options.baseDelayMs;
+  return Math.min(exponential + jitter, options.maxDelayMs);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Decorates a provider with per-request timeouts, backoff retries and a shared circuit breaker
+export class ResilientLLMProvider implements LLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private breaker: CircuitBreaker;
+  private retryOptions: RetryOptions;
+
+  constructor(inner: LLMProvider, breaker: CircuitBreaker, retryOptions: RetryOptions) {
+    this.name = inner.name;
+    this.inner = inner;
+    this.breaker = breaker;
+    this.retryOptions = retryOptions;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMCompletion> {
+    return this.withRetries(request, () => true, (signal) =>
+      this.inner.complete({ ...request, signal })
+    );
+  }
+
+  async stream(request: LLMRequest, onToken: (text: string) => void): Promise<LLMCompletion> {
+    let emitted = false;
+
+    // Once text has reached the caller a retry would duplicate it, so only retry before the first token.
+    // The timeout is reset on every token, so long answers are fine as long as the model keeps producing.
+    return this.withRetries(request, () => !emitted, (signal, resetTimeout) =>
+      this.inner.stream({ ...request, signal }, (text) => {
+        emitted = true;
+        resetTimeout();
+        onToken(text);
+      })
+    );
+  }
+
+  private async withRetries(
+    request: LLMRequest,
+    canRetry: () => boolean,
+    call: (signal: AbortSignal, resetTimeout: () => void) => Promise<LLMCompletion>
+  ): Promise<LLMCompletion> {
+    let attempt = 0;
+
+    while (true) {
+      try {
+        return await this.breaker.execute(() => this.withTimeout(request, call));
+      } catch (error: any) {
+        const shouldRetry = attempt < this.retryOptions.maxRetries &&
+          isRetryableError(error) &&
+          canRetry() &&
+          !request.signal?.aborted;
+
+        metricsCollector.recordMetric('ai_provider_error', 1, {
+          provider: this.name,
+          use_case: request.useCase,
+          status: error?.status,
+          error_type: error?.name,
+          retried: shouldRetry
+        }, 'resilience');
+
+        if (!shouldRetry) {
+          throw error;
+        }
+
+        const delay = getRetryDelay(error, attempt, this.retryOptions);
+        attempt++;
+
+        logger.warn('Retrying AI provider request', {
+          provider: this.name,
+          use_case: request.useCase,
+          status: error?.status,
+          attempt,
+          delay_ms: Math.round(delay)
+        });
+
+        await sleep(delay);
+      }
+    }
+  }
+
+  private async withTimeout(
+    request: LLMRequest,
+    call: (signal: AbortSignal, resetTimeout: () => void) => Promise<LLMCompletion>
+  ): Promise<LLMCompletion> {
+    const timeoutMs = request.timeoutMs;
+    const controller = new AbortController();
+    let timedOut = false;
+    let timer: NodeJS.Timeout | undefined;
+
+    const resetTimeout = () => {
+      if (!timeoutMs) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, timeoutMs);
+    };
+
+    // Propagate cancellation from the caller
+    const onCallerAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    }
+    request.signal?.addEventListener('abort', onCallerAbort);
+
+    resetTimeout();
+
+    try {
+      return await call(controller.signal, resetTimeout);
+    } catch (error) {
+      if (timedOut) {
+        throw new TimeoutError(timeoutMs!);
+      }
+      throw error;
+    } finally {
+      if (timer) clearTimeout(timer);
+      request.signal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+}
+
+// One breaker for all AI calls: the provider is shared across routes, so its health is too
+export const llmCircuitBreaker = new CircuitBreaker('llm_provider', {
+  failureThreshold: envInt('AI_CIRCUIT_FAILURE_THRESHOLD', 5),
+  resetTimeoutMs: envInt('AI_CIRCUIT_RESET_MS', 30000)
+});
+
+export function getRetryOptions(): RetryOptions {
+  return {
+    maxRetries: envInt('AI_MAX_RETRIES', 2),
+    baseDelayMs: envInt('AI_RETRY_BASE_DELAY_MS', 500),
+    maxDelayMs: envInt('AI_RETRY_MAX_DELAY_MS', 8000)
+  };
+}
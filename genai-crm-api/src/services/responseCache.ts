@@ -0,0 +1,260 @@
+import Redis from 'ioredis';
+import { logger } from '../server';
+import { metricsCollector } from './metricsCollector';
+import { envInt } from '../config';
+
+export interface CacheSetOptions {
+  ttlMs: number;
+  // Tags allow related entries to be invalidated together, e.g. `customer:<id>`
+  tags?: string[];
+}
+
+export interface ResponseCacheStats {
+  backend: string;
+  hits: number;
+  misses: number;
+  hit_rate: number;
+  entries?: number;
+  bytes?: number;
+  max_entries?: number;
+  max_bytes?: number;
+}
+
+export interface ResponseCache<T = any> {
+  readonly backend: string;
+  get(key: string): Promise<T | null>;
+  set(key: string, value: T, options: CacheSetOptions): Promise<void>;
+  invalidateTag(tag: string): Promise<number>;
+  clear(): Promise<void>;
+  getStats(): Promise<ResponseCacheStats>;
+}
+
+interface LRUEntry<T> {
+  value: T;
+  bytes: number;
+  expiresAt: number;
+  tags: string[];
+}
+
+abstract class InstrumentedCache<T> implements ResponseCache<T> {
+  abstract readonly backend: string;
+  protected hits = 0;
+  protected misses = 0;
+
+  abstract get(key: string): Promise<T | null>;
+  abstract set(key: string, value: T, options: CacheSetOptions): Promise<void>;
+  abstract invalidateTag(tag: string): Promise<number>;
+  abstract clear(): Promise<void>;
+  abstract getStats(): Promise<ResponseCacheStats>;
+
+  protected recordLookup(hit: boolean): void {
+    if (hit) this.hits++;
+    else this.misses++;
+
+    metricsCollector.recordMetric(hit ? 'ai_cache_hit' : 'ai_cache_miss', 1, { backend: this.backend }, 'cache');
+  }
+
+  protected baseStats(): ResponseCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      backend: this.backend,
+      hits: this.hits,
+      misses: this.misses,
+      hit_rate: lookups > 0 ? Math.round((this.hits / lookups) * 10000) / 100 : 0
+    };
+  }
+}
+
+// In-process cache bounded by entry count and approximate serialized size.
+// Map iteration order doubles as recency order: entries are re-inserted on read.
+export class LRUResponseCache<T = any> extends InstrumentedCache<T> {
+  readonly backend = 'memory';
+  private entries = new Map<string, LRUEntry<T>>();
+  private tagIndex = new Map<string, Set<string>>();
+  private totalBytes = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(maxEntries: number, maxBytes: number) {
+    super();
+    this.maxEntries = maxEntries;
+    this.maxBytes = maxBytes;
+  }
+
+  async get(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) this.remove(key);
+      this.recordLookup(false);
+      return null;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.recordLookup(true);
+    return entry.value;
+  }
+
+  async set(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    const bytes = Buffer.byteLength(JSON.stringify(value));
+    if (bytes > this.maxBytes) {
+      return; // would evict everything else and still not fit
+    }
+
+    this.remove(key);
+
+    const tags = options.tags || [];
+    this.entries.set(key, { value, bytes, expiresAt: Date.now() + options.ttlMs, tags });
+    this.totalBytes += bytes;
+    tags.forEach(tag => {
+      if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+      this.tagIndex.get(tag)!.add(key);
+    });
+
+    this.evict();
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const keys = Array.from(this.tagIndex.get(tag) || []);
+    keys.forEach(key => this.remove(key));
+    this.tagIndex.delete(tag);
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+    this.tagIndex.clear();
+    this.totalBytes = 0;
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    return {
+      ...this.baseStats(),
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      max_entries: this.maxEntries,
+      max_bytes: this.maxBytes
+    };
+  }
+
+  private evict(): void {
+    // Least recently used entries come first in iteration order
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.remove(key);
+    }
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+
+    this.entries.delete(key);
+    this.totalBytes -= entry.bytes;
+    entry.tags.forEach(tag => {
+      const keys = this.tagIndex.get(tag);
+      keys?.delete(key);
+      if (keys && keys.size === 0) this.tagIndex.delete(tag);
+    });
+  }
+}
+
+// Shared cache for multiple API instances. Any Redis-protocol server works (Redis, Valkey, KeyDB...).
+// Redis errors are logged and treated as misses so the cache never takes queries down.
+export class RedisResponseCache<T = any> extends InstrumentedCache<T> {
+  readonly backend = 'redis';
+  private client: Redis;
+  private prefix: string;
+
+  constructor(url: string, prefix = 'ai:cache:') {
+    super();
+    this.prefix = prefix;
+    this.client = new Redis(url, {
+      maxRetriesPerRequest: 1,
+      enableOfflineQueue: false,
+      lazyConnect: false
+    });
+    this.client.on('error', (error) => logger.warn('Redis response cache error', { error: error.message }));
+  }
+
+  async get(key: string): Promise<T | null> {
+    try {
+      const raw = await this.client.get(this.prefix + key);
+      this.recordLookup(raw !== null);
+      return raw !== null ? JSON.parse(raw) : null;
+    } catch (error) {
+      logger.warn('Redis cache read failed', { error });
+      this.recordLookup(false);
+      return null;
+    }
+  }
+
+  async set(key: string, value: T, options: CacheSetOptions): Promise<void> {
+    try {
+      const fullKey = this.prefix + key;
+      const pipeline = this.client.multi().set(fullKey, JSON.stringify(value), 'PX', options.ttlMs);
+
+      (options.tags || []).forEach(tag => {
+        const tagKey = this.tagKey(tag);
+        pipeline.sadd(tagKey, fullKey).pexpire(tagKey, options.ttlMs);
+      });
+
+      await pipeline.exec();
+    } catch (error) {
+      logger.warn('Redis cache write failed', { error });
+    }
+  }
+
+  async invalidateTag(tag: string): Promise<number> {
+    const tagKey = this.tagKey(tag);
+    const keys = await this.client.smembers(tagKey);
+
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+    await this.client.del(tagKey);
+
+    return keys.length;
+  }
+
+  async clear(): Promise<void> {
+    let cursor = '0';
+    do {
+      const [next, keys] = await this.client.scan(cursor, 'MATCH', `${this.prefix}*`, 'COUNT', 200);
+      if (keys.length > 0) {
+        await this.client.del(...keys);
+      }
+      cursor = next;
+    } while (cursor !== '0');
+  }
+
+  async getStats(): Promise<ResponseCacheStats> {
+    return this.baseStats();
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.prefix}tag:${tag}`;
+  }
+}
+
+export function createResponseCache<T = any>(): ResponseCache<T> {
+  const redisUrl = process.env.AI_CACHE_REDIS_URL || process.env.REDIS_URL;
+
+  if (redisUrl) {
+    logger.info('Using Redis for AI response cache');
+    return new RedisResponseCache<T>(redisUrl);
+  }
+
+  return new LRUResponseCache<T>(
+    envInt('AI_CACHE_MAX_ENTRIES', 500),
+    envInt('AI_CACHE_MAX_BYTES', 10 * 1024 * 1024)
+  );
+}
+
+export const AI_CACHE_TTL_MS = envInt('AI_CACHE_TTL_MS', 5 * 60 * 1000);
+
+// Shared by every AIService instance so invalidation reaches all cached responses
+export const aiResponseCache = createResponseCache();
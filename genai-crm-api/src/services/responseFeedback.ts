@@ -0,0 +1,336 @@
+import { supabase, logger } from '../server';
+import { SOPSource } from './ai';
+
+export type FeedbackRating = 'accurate' | 'inaccurate';
+// 'api' for responses stored in ai_responses, 'confluence_assistant' for answers the
+// dashboard generated itself
+export type FeedbackSource = 'api' | 'confluence_assistant';
+
+export interface ResponseFeedback {
+  id: string;
+  response_id?: string;
+  agent_id?: string;
+  rating: FeedbackRating;
+  reason?: string;
+  corrected_response?: string;
+  sop_sources: SOPSource[];
+  wrong_sop_urls: string[];
+  query?: string;
+  response?: string;
+  source: FeedbackSource;
+  ticket_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ResponseFeedbackInput {
+  // Either a stored response, or the answer itself with the SOPs it cited
+  response_id?: string;
+  rating: FeedbackRating;
+  reason?: string;
+  corrected_response?: string;
+  wrong_sop_urls?: string[];
+  sop_sources?: SOPSource[];
+  query?: string;
+  response?: string;
+  ticket_id?: string;
+}
+
+export interface FeedbackFilters {
+  rating?: FeedbackRating;
+  sopUrl?: string;
+  agentId?: string;
+  since?: string;
+  limit?: number;
+}
+
+export interface FeedbackSummary {
+  rated: number;
+  accurate: number;
+  inaccurate: number;
+  accuracy_rate: number | null;
+  with_reason: number;
+  with_correction: number;
+  wrong_sop_reports: number;
+  by_source: Record<FeedbackSource, number>;
+}
+
+export interface SOPAccuracy {
+  url: string;
+  title: string;
+  // Rated answers that count for this SOP (see getSOPAccuracy)
+  rated: number;
+  accurate: number;
+  inaccurate: number;
+  // Times an agent named this SOP as the wrong one
+  flagged_wrong: number;
+  accuracy_rate: number;
+  last_feedback_at: string;
+}
+
+export class FeedbackError extends Error {
+  readonly code: 'not_found' | 'invalid';
+
+  constructor(code: 'not_found' | 'invalid', message: string) {
+    super(message);
+    this.name = 'FeedbackError';
+    this.code = code;
+  }
+}
+
+export class ResponseFeedbackService {
+  // Records an agent's rating of an answer. Rating a stored response again replaces
+  // the agent's earlier feedback, and the rating is copied onto the response's
+  // metadata.agent_feedback where analytics, experiments and calibration read it.
+  async submitFeedback(input: ResponseFeedbackInput, agentId: string): Promise<ResponseFeedback> {
+    let record: Record<string, any>;
+
+    if (input.response_id) {
+      const { data: stored, error } = await supabase
+        .from('ai_responses')
+        .select('id, query, response, metadata')
+        .eq('id', input.response_id)
+        .maybeSingle();
+
+      if (error) {
+        throw error;
+      }
+
+      if (!stored) {
+        throw new FeedbackError('not_found', 'AI response not found');
+      }
+
+      record = {
+        response_id: stored.id,
+        query: stored.query,
+        response: stored.response,
+        // The sources recorded when the answer was generated, not what the client says
+        sop_sources: stored.metadata?.sop_sources || [],
+        source: 'api'
+      };
+    } else {
+      if (!input.response) {
+        throw new FeedbackError('invalid', 'Feedback needs a response_id or the response that was rated');
+      }
+
+      record = {
+        response_id: null,
+        query: input.query,
+        response: input.response,
+        sop_sources: (input.sop_sources || []).map(({ id, title, url, version }) => ({ id, title, url, version })),
+        source: 'confluence_assistant'
+      };
+    }
+
+    const wrongSopUrls = Array.from(new Set(input.wrong_sop_urls || []));
+    if (wrongSopUrls.length > 0) {
+      if (input.rating !== 'inaccurate') {
+        throw new FeedbackError('invalid', 'Only inaccurate answers can name a wrong SOP');
+      }
+
+      const cited = new Set((record.sop_sources as SOPSource[]).map(sop => sop.url));
+      const unknown = wrongSopUrls.filter(url => !cited.has(url));
+      if (unknown.length > 0) {
+        throw new FeedbackError('invalid', `Not among the answer's SOP sources: ${unknown.join(', ')}`);
+      }
+    }
+
+    const row = {
+      ...record,
+      agent_id: agentId,
+      rating: input.rating,
+      reason: input.reason || null,
+      corrected_response: input.corrected_response || null,
+      wrong_sop_urls: wrongSopUrls,
+      ticket_id: input.ticket_id || null
+    };
+
+    const { data, error } = record.response_id
+      ? await supabase
+        .from('ai_response_feedback')
+        .upsert(row, { onConflict: 'response_id,agent_id' })
+        .select()
+        .single()
+      : await supabase
+        .from('ai_response_feedback')
+        .insert(row)
+        .select()
+        .single();
+
+    if (error) {
+      throw error;
+    }
+
+    if (data.response_id) {
+      await this.recordFeedbackOnResponse(data);
+    }
+
+    logger.info('AI response feedback recorded', {
+      feedback_id: data.id,
+      response_id: data.response_id,
+      rating: data.rating,
+      source: data.source,
+      wrong_sops: wrongSopUrls.length
+    });
+
+    return data;
+  }
+
+  async listFeedback(filters: FeedbackFilters = {}): Promise<ResponseFeedback[]> {
+    let query = supabase
+      .from('ai_response_feedback')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(filters.limit || 100);
+
+    if (filters.rating) {
+      query = query.eq('rating', filters.rating);
+    }
+
+    if (filters.sopUrl) {
+      query = query.contains('sop_sources', [{ url: filters.sopUrl }]);
+    }
+
+    if (filters.agentId) {
+      query = query.eq('agent_id', filters.agentId);
+    }
+
+    if (filters.since) {
+      query = query.gte('created_at', filters.since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getSummary(startDate: string, endDate: string, agentId?: string): Promise<FeedbackSummary> {
+    const feedback = await this.fetchWindow(startDate, endDate, agentId);
+    const accurate = feedback.filter(f => f.rating === 'accurate').length;
+
+    return {
+      rated: feedback.length,
+      accurate,
+      inaccurate: feedback.length - accurate,
+      accuracy_rate: feedback.length > 0 ? Math.round((accurate / feedback.length) * 10000) / 100 : null,
+      with_reason: feedback.filter(f => f.reason).length,
+      with_correction: feedback.filter(f => f.corrected_response).length,
+      wrong_sop_reports: feedback.filter(f => f.wrong_sop_urls?.length > 0).length,
+      by_source: {
+        api: feedback.filter(f => f.source === 'api').length,
+        confluence_assistant: feedback.filter(f => f.source === 'confluence_assistant').length
+      }
+    };
+  }
+
+  // Accuracy of the answers each SOP was cited in, worst first. An inaccurate answer
+  // counts against every SOP it cited, unless the agent named the wrong ones; then it
+  // only counts against those.
+  async getSOPAccuracy(startDate: string, endDate: string, minRatings: number = 1): Promise<SOPAccuracy[]> {
+    const feedback = await this.fetchWindow(startDate, endDate);
+    const bySop = new Map<string, SOPAccuracy>();
+
+    for (const item of feedback) {
+      const wrong = new Set(item.wrong_sop_urls || []);
+
+      for (const sop of item.sop_sources || []) {
+        if (!sop?.url) {
+          continue;
+        }
+
+        if (item.rating === 'inaccurate' && wrong.size > 0 && !wrong.has(sop.url)) {
+          continue;
+        }
+
+        const stats = bySop.get(sop.url) || {
+          url: sop.url,
+          title: sop.title,
+          rated: 0,
+          accurate: 0,
+          inaccurate: 0,
+          flagged_wrong: 0,
+          accuracy_rate: 0,
+          last_feedback_at: item.created_at
+        };
+
+        stats.rated++;
+        if (item.rating === 'accurate') stats.accurate++;
+        else stats.inaccurate++;
+        if (wrong.has(sop.url)) stats.flagged_wrong++;
+        if (item.created_at > stats.last_feedback_at) {
+          stats.last_feedback_at = item.created_at;
+          // Titles change; keep the one the latest answer cited
+          stats.title = sop.title;
+        }
+
+        bySop.set(sop.url, stats);
+      }
+    }
+
+    return Array.from(bySop.values())
+      .filter(stats => stats.rated >= minRatings)
+      .map(stats => ({ ...stats, accuracy_rate: Math.round((stats.accurate / stats.rated) * 10000) / 100 }))
+      .sort((a, b) => a.accuracy_rate - b.accuracy_rate || b.rated - a.rated);
+  }
+
+  private async fetchWindow(startDate: string, endDate: string, agentId?: string): Promise<ResponseFeedback[]> {
+    let query = supabase
+      .from('ai_response_feedback')
+      .select('id, response_id, agent_id, rating, reason, corrected_response, sop_sources, wrong_sop_urls, source, created_at')
+      .gte('created_at', startDate)
+      .lte('created_at', endDate);
+
+    if (agentId) {
+      query = query.eq('agent_id', agentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []) as ResponseFeedback[];
+  }
+
+  private async recordFeedbackOnResponse(feedback: ResponseFeedback): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('ai_responses')
+        .select('metadata')
+        .eq('id', feedback.response_id)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      await supabase
+        .from('ai_responses')
+        .update({
+          metadata: {
+            ...(data?.metadata || {}),
+            agent_feedback: {
+              feedback_id: feedback.id,
+              rating: feedback.rating,
+              agent_id: feedback.agent_id,
+              has_correction: !!feedback.corrected_response,
+              wrong_sop_urls: feedback.wrong_sop_urls,
+              rated_at: feedback.updated_at
+            }
+          }
+        })
+        .eq('id', feedback.response_id);
+    } catch (error) {
+      logger.error('Failed to record feedback on AI response', { error, feedback_id: feedback.id, response_id: feedback.response_id });
+    }
+  }
+}
+
+export const responseFeedbackService = new ResponseFeedbackService();
+
+export default ResponseFeedbackService;
@@ -0,0 +1,495 @@
+import { supabase, logger } from '../server';
+import { QualityMetrics, EscalationAnalysis } from './qualityAssessment';
+import { envFloat } from '../config';
+
+export type ReviewStatus = 'pending' | 'in_review' | 'approved' | 'edited' | 'rejected';
+export type ReviewReason = 'low_quality' | 'escalation';
+export type ReviewPriority = 'low' | 'medium' | 'high' | 'critical';
+export type ReviewDecision = 'approve' | 'edit' | 'reject';
+export type SLAStatus = 'on_track' | 'due_soon' | 'breached' | 'met' | 'missed';
+
+export interface ReviewItem {
+  id: string;
+  response_id: string;
+  customer_id?: string;
+  agent_id?: string;
+  query: string;
+  original_response: string;
+  reasons: ReviewReason[];
+  quality_score?: number;
+  escalation_level?: EscalationAnalysis['escalation_level'];
+  priority: ReviewPriority;
+  status: ReviewStatus;
+  assigned_to?: string;
+  assigned_at?: string;
+  due_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  corrected_response?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  item_id: string;
+  author_id?: string;
+  body: string;
+  created_at: string;
+}
+
+// Items as returned by the API, with the SLA timer worked out
+export interface ReviewItemView extends ReviewItem {
+  sla_status: SLAStatus;
+  // Negative once the item is overdue; null when it has been reviewed
+  time_remaining_ms: number | null;
+}
+
+export interface ReviewItemDetail extends ReviewItemView {
+  comments: ReviewComment[];
+}
+
+export interface ReviewQueueFilters {
+  status?: ReviewStatus[];
+  assignedTo?: string;
+  unassigned?: boolean;
+  reason?: ReviewReason;
+  limit?: number;
+}
+
+export interface ReviewQueueStats {
+  pending: number;
+  in_review: number;
+  breached: number;
+  due_soon: number;
+  reviewed_last_7_days: number;
+}
+
+// The response being flagged, as stored in ai_responses
+export interface ReviewableResponse {
+  id: string;
+  query: string;
+  response: string;
+  userId?: string;
+  customerId?: string;
+}
+
+export interface ReviewSignals {
+  quality?: QualityMetrics;
+  escalation?: EscalationAnalysis;
+}
+
+export interface ReviewCorrection {
+  item_id: string;
+  response_id: string;
+  query: string;
+  original_response: string;
+  corrected_response: string;
+  reviewed_by?: string;
+  reviewed_at: string;
+}
+
+export class ReviewQueueError extends Error {
+  readonly code: 'not_found' | 'conflict' | 'invalid';
+
+  constructor(code: 'not_found' | 'conflict' | 'invalid', message: string) {
+    super(message);
+    this.name = 'ReviewQueueError';
+    this.code = code;
+  }
+}
+
+// Responses scoring below this overall quality score (0-10) are queued for review
+export const REVIEW_QUALITY_THRESHOLD = envFloat('AI_REVIEW_QUALITY_THRESHOLD', 6);
+
+// Time allowed to review an item, by priority
+const SLA_MINUTES: Record<ReviewPriority, number> = {
+  critical: envFloat('AI_REVIEW_SLA_CRITICAL_MINUTES', 60),
+  high: envFloat('AI_REVIEW_SLA_HIGH_MINUTES', 4 * 60),
+  medium: envFloat('AI_REVIEW_SLA_MEDIUM_MINUTES', 24 * 60),
+  low: envFloat('AI_REVIEW_SLA_LOW_MINUTES', 72 * 60)
+};
+
+// Open items are "due soon" once this share of their SLA has been used
+const DUE_SOON_FRACTION = 0.75;
+
+const PRIORITY_RANK: ReviewPriority[] = ['low', 'medium', 'high', 'critical'];
+const OPEN_STATUSES: ReviewStatus[] = ['pending', 'in_review'];
+const DECISION_STATUS: Record<ReviewDecision, ReviewStatus> = {
+  approve: 'approved',
+  edit: 'edited',
+  reject: 'rejected'
+};
+
+export class ReviewQueueService {
+  // Queues a response when its quality score is under the threshold or escalation is
+  // immediate/recommended. Returns the queue item, or null when no review is needed.
+  // A response that is flagged again (e.g. quality first, escalation later) updates
+  // the existing item instead of adding another one.
+  async flagResponse(response: ReviewableResponse, signals: ReviewSignals): Promise<ReviewItem | null> {
+    const reasons: ReviewReason[] = [];
+    let priority: ReviewPriority = 'low';
+
+    if (signals.quality && signals.quality.overall_score < REVIEW_QUALITY_THRESHOLD) {
+      reasons.push('low_quality');
+      priority = signals.quality.overall_score < REVIEW_QUALITY_THRESHOLD / 2 ? 'high' : 'medium';
+    }
+
+    const escalationLevel = signals.escalation?.escalation_level;
+    if (escalationLevel === 'immediate' || escalationLevel === 'recommended') {
+      reasons.push('escalation');
+      priority = maxPriority(priority, escalationLevel === 'immediate' ? 'critical' : 'high');
+    }
+
+    if (reasons.length === 0) {
+      return null;
+    }
+
+    const existing = await this.findByResponse(response.id);
+    if (existing) {
+      return this.mergeFlags(existing, reasons, priority, signals);
+    }
+
+    const { data, error } = await supabase
+      .from('ai_review_items')
+      .insert({
+        response_id: response.id,
+        customer_id: response.customerId,
+        agent_id: response.userId,
+        query: response.query,
+        original_response: response.response,
+        reasons,
+        quality_score: signals.quality?.overall_score,
+        escalation_level: escalationLevel,
+        priority,
+        status: 'pending',
+        due_at: dueAt(new Date(), priority)
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Flagged concurrently by the quality and escalation checks; fold into the other insert
+      if (error.code === '23505') {
+        const concurrent = await this.findByResponse(response.id);
+        if (concurrent) return this.mergeFlags(concurrent, reasons, priority, signals);
+      }
+      throw error;
+    }
+
+    logger.info('AI response queued for review', {
+      item_id: data.id,
+      response_id: response.id,
+      reasons,
+      priority
+    });
+    return data;
+  }
+
+  async listItems(filters: ReviewQueueFilters = {}): Promise<ReviewItemView[]> {
+    let query = supabase
+      .from('ai_review_items')
+      .select('*')
+      .in('status', filters.status && filters.status.length > 0 ? filters.status : OPEN_STATUSES)
+      .order('due_at', { ascending: true })
+      .limit(filters.limit || 100);
+
+    if (filters.assignedTo) {
+      query = query.eq('assigned_to', filters.assignedTo);
+    } else if (filters.unassigned) {
+      query = query.is('assigned_to', null);
+    }
+
+    if (filters.reason) {
+      query = query.contains('reasons', [filters.reason]);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    const now = Date.now();
+    return (data || []).map(item => withSLA(item, now));
+  }
+
+  async getItem(id: string): Promise<ReviewItemDetail> {
+    const item = await this.fetchItem(id);
+
+    const { data: comments, error } = await supabase
+      .from('ai_review_comments')
+      .select('*')
+      .eq('item_id', id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw error;
+    }
+
+    return { ...withSLA(item, Date.now()), comments: comments || [] };
+  }
+
+  async getStats(): Promise<ReviewQueueStats> {
+    const since = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+
+    const [open, reviewed] = await Promise.all([
+      supabase.from('ai_review_items').select('status, priority, due_at, created_at').in('status', OPEN_STATUSES),
+      supabase
+        .from('ai_review_items')
+        .select('id', { count: 'exact', head: true })
+        .not('status', 'in', `(${OPEN_STATUSES.join(',')})`)
+        .gte('reviewed_at', since)
+    ]);
+
+    if (open.error) throw open.error;
+    if (reviewed.error) throw reviewed.error;
+
+    const now = Date.now();
+    const items = (open.data || []).map(item => withSLA(item as ReviewItem, now));
+
+    return {
+      pending: items.filter(item => item.status === 'pending').length,
+      in_review: items.filter(item => item.status === 'in_review').length,
+      breached: items.filter(item => item.sla_status === 'breached').length,
+      due_soon: items.filter(item => item.sla_status === 'due_soon').length,
+      reviewed_last_7_days: reviewed.count || 0
+    };
+  }
+
+  // Assigns an open item to a reviewer (themselves when no assignee is given)
+  async assignItem(id: string, assigneeId: string): Promise<ReviewItem> {
+    const item = await this.fetchItem(id);
+    this.assertOpen(item);
+
+    return this.updateItem(id, {
+      assigned_to: assigneeId,
+      assigned_at: new Date().toISOString(),
+      status: 'in_review'
+    });
+  }
+
+  async unassignItem(id: string): Promise<ReviewItem> {
+    const item = await this.fetchItem(id);
+    this.assertOpen(item);
+
+    return this.updateItem(id, { assigned_to: null, assigned_at: null, status: 'pending' });
+  }
+
+  // Closes an item. Edits store the reviewer's answer as the corrected response; a
+  // comment is required when rejecting so the agent knows why.
+  async resolveItem(
+    id: string,
+    decision: ReviewDecision,
+    reviewerId: string,
+    details: { correctedResponse?: string; comment?: string } = {}
+  ): Promise<ReviewItem> {
+    const item = await this.fetchItem(id);
+    this.assertOpen(item);
+
+    const correctedResponse = details.correctedResponse?.trim();
+    if (decision === 'edit' && !correctedResponse) {
+      throw new ReviewQueueError('invalid', 'A corrected response is required to edit an item');
+    }
+    if (decision === 'reject' && !details.comment?.trim()) {
+      throw new ReviewQueueError('invalid', 'A comment is required to reject an item');
+    }
+
+    const reviewedAt = new Date().toISOString();
+    const updated = await this.updateItem(id, {
+      status: DECISION_STATUS[decision],
+      reviewed_by: reviewerId,
+      reviewed_at: reviewedAt,
+      assigned_to: item.assigned_to || reviewerId,
+      corrected_response: decision === 'edit' ? correctedResponse : null
+    });
+
+    if (details.comment?.trim()) {
+      await this.addComment(id, reviewerId, details.comment);
+    }
+
+    await this.recordReviewOnResponse(updated);
+
+    logger.info('AI review item resolved', { item_id: id, decision, reviewer_id: reviewerId });
+    return updated;
+  }
+
+  async addComment(itemId: string, authorId: string, body: string): Promise<ReviewComment> {
+    await this.fetchItem(itemId);
+
+    const { data, error } = await supabase
+      .from('ai_review_comments')
+      .insert({ item_id: itemId, author_id: authorId, body: body.trim() })
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Reviewer rewrites, newest first; usable as reference answers for offline evaluation
+  async listCorrections(since?: string, limit: number = 500): Promise<ReviewCorrection[]> {
+    let query = supabase
+      .from('ai_review_items')
+      .select('id, response_id, query, original_response, corrected_response, reviewed_by, reviewed_at')
+      .eq('status', 'edited')
+      .order('reviewed_at', { ascending: false })
+      .limit(limit);
+
+    if (since) {
+      query = query.gte('reviewed_at', since);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return (data || []).map(({ id, ...rest }) => ({ item_id: id, ...rest }));
+  }
+
+  private async findByResponse(responseId: string): Promise<ReviewItem | null> {
+    const { data, error } = await supabase
+      .from('ai_review_items')
+      .select('*')
+      .eq('response_id', responseId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  private async fetchItem(id: string): Promise<ReviewItem> {
+    const { data, error } = await supabase
+      .from('ai_review_items')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!data) {
+      throw new ReviewQueueError('not_found', 'Review item not found');
+    }
+
+    return data;
+  }
+
+  // Adds new reasons to an open item and tightens its SLA if the priority went up.
+  // Reviewed items are left alone: the decision already covers the response.
+  private async mergeFlags(
+    item: ReviewItem,
+    reasons: ReviewReason[],
+    priority: ReviewPriority,
+    signals: ReviewSignals
+  ): Promise<ReviewItem> {
+    if (!OPEN_STATUSES.includes(item.status)) {
+      return item;
+    }
+
+    const mergedPriority = maxPriority(item.priority, priority);
+    const updates: Record<string, any> = {
+      reasons: Array.from(new Set([...item.reasons, ...reasons])),
+      priority: mergedPriority
+    };
+
+    if (signals.quality) updates.quality_score = signals.quality.overall_score;
+    if (signals.escalation) updates.escalation_level = signals.escalation.escalation_level;
+    if (mergedPriority !== item.priority) {
+      const tightened = dueAt(new Date(item.created_at), mergedPriority);
+      if (tightened < item.due_at) updates.due_at = tightened;
+    }
+
+    return this.updateItem(item.id, updates);
+  }
+
+  private async updateItem(id: string, updates: Record<string, any>): Promise<ReviewItem> {
+    const { data, error } = await supabase
+      .from('ai_review_items')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw error;
+    }
+
+    return data;
+  }
+
+  // Keeps the outcome next to the response so analytics and evaluation can read it
+  private async recordReviewOnResponse(item: ReviewItem): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('ai_responses')
+        .select('metadata')
+        .eq('id', item.response_id)
+        .single();
+
+      if (error) {
+        throw error;
+      }
+
+      await supabase
+        .from('ai_responses')
+        .update({
+          metadata: {
+            ...(data?.metadata || {}),
+            review: {
+              item_id: item.id,
+              status: item.status,
+              reviewed_by: item.reviewed_by,
+              reviewed_at: item.reviewed_at,
+              corrected_response: item.corrected_response || undefined
+            }
+          }
+        })
+        .eq('id', item.response_id);
+    } catch (error) {
+      logger.error('Failed to record review on AI response', { error, item_id: item.id, response_id: item.response_id });
+    }
+  }
+
+  private assertOpen(item: ReviewItem): void {
+    if (!OPEN_STATUSES.includes(item.status)) {
+      throw new ReviewQueueError('conflict', `Review item is already ${item.status}`);
+    }
+  }
+}
+
+const maxPriority = (a: ReviewPriority, b: ReviewPriority): ReviewPriority =>
+  PRIORITY_RANK.indexOf(a) >= PRIORITY_RANK.indexOf(b) ? a : b;
+
+const dueAt = (from: Date, priority: ReviewPriority): string =>
+  new Date(from.getTime() + SLA_MINUTES[priority] * 60 * 1000).toISOString();
+
+function withSLA(item: ReviewItem, now: number): ReviewItemView {
+  const due = new Date(item.due_at).getTime();
+
+  if (!OPEN_STATUSES.includes(item.status)) {
+    const reviewed = item.reviewed_at ? new Date(item.reviewed_at).getTime() : now;
+    return { ...item, sla_status: reviewed <= due ? 'met' : 'missed', time_remaining_ms: null };
+  }
+
+  const remaining = due - now;
+  const window = due - new Date(item.created_at).getTime();
+  const slaStatus: SLAStatus = remaining < 0
+    ? 'breached'
+    : remaining < window * (1 - DUE_SOON_FRACTION) ? 'due_soon' : 'on_track';
+
+  return { ...item, sla_status: slaStatus, time_remaining_ms: remaining };
+}
+
+export const reviewQueueService = new ReviewQueueService();
+
+export default ReviewQueueService;
@@ -0,0 +1,217 @@
+export interface SampleSummary {
+  n: number;
+  mean: number;
+  // Sample standard deviation (n - 1); 0 with fewer than two values
+  std_dev: number;
+}
+
+export interface SignificanceTest {
+  test: 'welch_t' | 'two_proportion_z';
+  statistic: number;
+  p_value: number;
+  degrees_of_freedom?: number;
+}
+
+export function summarize(values: number[]): SampleSummary {
+  const n = values.length;
+  if (n === 0) {
+    return { n: 0, mean: 0, std_dev: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const variance = n > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1) : 0;
+
+  return { n, mean, std_dev: Math.sqrt(variance) };
+}
+
+// Two-sided Welch's t-test for a difference in means without assuming equal variances.
+// Null when either sample has fewer than two values or both have no variance.
+export function welchTTest(a: number[], b: number[]): SignificanceTest | null {
+  const sa = summarize(a);
+  const sb = summarize(b);
+  if (sa.n < 2 || sb.n < 2) {
+    return null;
+  }
+
+  const va = (sa.std_dev ** 2) / sa.n;
+  const vb = (sb.std_dev ** 2) / sb.n;
+  if (va + vb === 0) {
+    return null;
+  }
+
+  const t = (sb.mean - sa.mean) / Math.sqrt(va + vb);
+  const df = (va + vb) ** 2 / ((va ** 2) / (sa.n - 1) + (vb ** 2) / (sb.n - 1));
+
+  return {
+    test: 'welch_t',
+    statistic: t,
+    p_value: 2 * (1 - studentTCdf(Math.abs(t), df)),
+    degrees_of_freedom: df
+  };
+}
+
+// Two-sided z-test for a difference between two proportions, using the pooled proportion
+export function twoProportionZTest(successesA: number, totalA: number, successesB: number, totalB: number): SignificanceTest | null {
+  if (totalA === 0 || totalB === 0) {
+    return null;
+  }
+
+  const pooled = (successesA + successesB) / (totalA + totalB);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (standardError === 0) {
+    return null;
+  }
+
+  const z = (successesB / totalB - successesA / totalA) / standardError;
+
+  return {
+    test: 'two_proportion_z',
+    statistic: z,
+    p_value: 2 * (1 - normalCdf(Math.abs(z)))
+  };
+}
+
+export function normalCdf(z: number): number {
+  return 0.5 * (1 + erf(z / Math.SQRT2));
+}
+
+// Abramowitz & Stegun 7.1.26, accurate to about 1.5e-7
+function erf(x: number): number {
+  const sign = x < 0 ? -1 : 1;
+  const ax = Math.abs(x);
+  const t = 1 / (1 + 0.3275911 * ax);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  return sign * (1 - poly * Math.exp(-ax * ax));
+}
+
+export function studentTCdf(t: number, df: number): number {
+  const x = df / (df + t * t);
+  const tail = 0.5 * regularizedIncompleteBeta(x, df / 2, 0.5);
+  return t >= 0 ? 1 - tail : tail;
+}
+
+// I_x(a, b) via its continued fraction (Numerical Recipes, betacf)
+function regularizedIncompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+
+  // The continued fraction converges quickly only on this side of the mean
+  if (x > (a + 1) / (a + b + 2)) {
+    return 1 - regularizedIncompleteBeta(1 - x, b, a);
+  }
+
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let result = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+
+    let numerator = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    result *= d * c;
+
+    numerator = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + numerator * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + numerator / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    result *= delta;
+
+    if (Math.abs(delta - 1) < 1e-10) break;
+  }
+
+  return front * result / a;
+}
+
+// Lanczos approximation
+function logGamma(z: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941677, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5
+  ];
+
+  const x = z;
+  let y = z;
+  let tmp = x + 5.5;
+  tmp -= (x + 0.5) * Math.log(tmp);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+
+  return -tmp + Math.log(2.5066282746310005 * series / x);
+}
+
+export interface CalibrationPoint {
+  // Mean predicted confidence of a pooled block
+  x: number;
+  // Observed success rate of the same block
+  y: number;
+}
+
+// Isotonic (non-decreasing) regression of binary outcomes on predictions, fitted with
+// pool adjacent violators. Returns one point per pooled block, ordered by x.
+export function isotonicRegression(samples: Array<{ prediction: number; outcome: number }>): CalibrationPoint[] {
+  // Equal predictions always share a block, whatever order their outcomes came in
+  const ties = new Map<number, { sumX: number; sumY: number; weight: number }>();
+  for (const sample of samples) {
+    const tie = ties.get(sample.prediction) || { sumX: 0, sumY: 0, weight: 0 };
+    tie.sumX += sample.prediction;
+    tie.sumY += sample.outcome;
+    tie.weight += 1;
+    ties.set(sample.prediction, tie);
+  }
+
+  const blocks: Array<{ sumX: number; sumY: number; weight: number }> = [];
+  for (const [, tie] of Array.from(ties.entries()).sort((a, b) => a[0] - b[0])) {
+    blocks.push({ ...tie });
+
+    // Merge backwards while the newest block's mean is below its predecessor's
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sumY / previous.weight <= last.sumY / last.weight) {
+        break;
+      }
+      previous.sumX += last.sumX;
+      previous.sumY += last.sumY;
+      previous.weight += last.weight;
+      blocks.pop();
+    }
+  }
+
+  return blocks.map(block => ({ x: block.sumX / block.weight, y: block.sumY / block.weight }));
+}
+
+// Piecewise-linear interpolation through points ordered by x, flat beyond either end
+export function interpolate(points: CalibrationPoint[], x: number): number {
+  if (points.length === 0) {
+    return x;
+  }
+  if (x <= points[0].x) {
+    return points[0].y;
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const right = points[i];
+    if (x <= right.x) {
+      const left = points[i - 1];
+      const span = right.x - left.x;
+      return span === 0 ? right.y : left.y + (right.y - left.y) * (x - left.x) / span;
+    }
+  }
+
+  return points[points.length - 1].y;
+}
@@ -0,0 +1,36 @@
+import { INTENTS, needsEscalationCheck, parseStructuredQueryResponse } from './structuredResponse';
+
+describe('needsEscalationCheck', () => {
+  it('checks complaints whatever their sentiment', () => {
+    expect(needsEscalationCheck({ intent: 'complaint', sentiment: 'neutral' })).toBe(true);
+  });
+
+  it('checks negative messages with any intent', () => {
+    for (const intent of INTENTS) {
+      expect(needsEscalationCheck({ intent, sentiment: 'negative' })).toBe(true);
+    }
+  });
+
+  it('skips other intents that are not negative', () => {
+    for (const intent of INTENTS.filter(intent => intent !== 'complaint')) {
+      expect(needsEscalationCheck({ intent, sentiment: 'neutral' })).toBe(false);
+      expect(needsEscalationCheck({ intent, sentiment: 'positive' })).toBe(false);
+    }
+  });
+
+  it('fires for a complaint the model produced', () => {
+    const parsed = parseStructuredQueryResponse(JSON.stringify({
+      response: 'I am sorry about the delay.',
+      intent: 'complaint',
+      sentiment: 'neutral',
+      suggestions: [
+        { type: 'direct', text: 'a', confidence: 0.8 },
+        { type: 'detailed', text: 'b', confidence: 0.8 },
+        { type: 'empathetic', text: 'c', confidence: 0.8 }
+      ]
+    }));
+
+    expect(parsed).not.toBeNull();
+    expect(needsEscalationCheck(parsed!)).toBe(true);
+  });
+});
@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { toEnglishLabel } from './language';
+
+export const INTENTS = ['question', 'complaint', 'request', 'compliment', 'technical_support', 'billing', 'general'] as const;
+export const SENTIMENTS = ['positive', 'neutral', 'negative'] as const;
+
+const suggestionSchema = z.object({
+  type: z.enum(['direct', 'detailed', 'empathetic']),
+  text: z.string().min(1),
+  confidence: z.number().min(0).max(1).catch(0.7)
+});
+
+// Shape the model is asked to produce for a customer query. Labels translated into the
+// customer's language are mapped back to English; unknown ones degrade to the neutral defaults.
+export const structuredQueryResponseSchema = z.object({
+  response: z.string().min(1),
+  intent: z.preprocess(
+    value => typeof value === 'string' ? toEnglishLabel(value) : value,
+    z.enum(INTENTS).catch('general')
+  ),
+  sentiment: z.preprocess(
+    value => typeof value === 'string' ? toEnglishLabel(value) : value,
+    z.enum(SENTIMENTS).catch('neutral')
+  ),
+  suggestions: z.array(suggestionSchema).length(3)
+});
+
+// Complaints and negative messages are the ones worth asking the model whether the
+// customer needs escalating; explicit requests for a manager are caught by the escalation rules
+const ESCALATION_CHECK_INTENTS: ReadonlyArray<typeof INTENTS[number]> = ['complaint'];
+
+export function needsEscalationCheck(response: { intent?: string; sentiment?: string }): boolean {
+  return response.sentiment === 'negative'
+    || ESCALATION_CHECK_INTENTS.some(intent => intent === response.intent);
+}
+
+export interface StructuredQueryResponse {
+  response: string;
+  intent: typeof INTENTS[number];
+  sentiment: typeof SENTIMENTS[number];
+  suggestions: Array<{ type: 'direct' | 'detailed' | 'empathetic'; text: string; confidence: number }>;
+}
+
+export const STRUCTURED_RESPONSE_INSTRUCTIONS = `Reply with a single JSON object and nothing else, using exactly this shape (keep "response" as the first key):
+{
+  "response": "<your reply to the customer>",
+  "intent": "<one of: ${INTENTS.join(', ')}>",
+  "sentiment": "<customer sentiment, one of: ${SENTIMENTS.join(', ')}>",
+  "suggestions": [
+    {"type": "direct", "text": "<brief, to-the-point alternative reply>", "confidence": 0.85},
+    {"type": "detailed", "text": "<comprehensive, step-by-step alternative reply>", "confidence": 0.8},
+    {"type": "empathetic", "text": "<warm, relationship-focused alternative reply>", "confidence": 0.8}
+  ]
+}`;
+
+export function parseStructuredQueryResponse(text: string): StructuredQueryResponse | null {
+  const json = extractJSONObject(text);
+  if (!json) {
+    return null;
+  }
+
+  try {
+    const result = structuredQueryResponseSchema.safeParse(JSON.parse(json));
+    return result.success ? result.data as StructuredQueryResponse : null;
+  } catch {
+    return null;
+  }
+}
+
+// Strips code fences or stray prose around the first top-level JSON object
+function extractJSONObject(text: string): string | null {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start !== -1 && end > start ? text.slice(start, end + 1) : null;
+}
+
+// Incrementally decodes the string value of one top-level key while JSON text is
+// still streaming in, so the reply can be shown before the full object has arrived.
+export class JSONStringFieldExtractor {
+  private key: string;
+  private buffer = '';
+  private position = 0;
+  private state: 'searching' | 'in_value' | 'done' = 'searching';
+  private escape = '';
+
+  constructor(key: string) {
+    this.key = key;
+  }
+
+  // Returns the newly decoded characters of the field value
+  push(chunk: string): string {
+    this.buffer += chunk;
+
+    if (this.state === 'searching') {
+      const match = new RegExp(`"${this.key}"\\s*:\\s*"`).exec(this.buffer);
+      if (!match) {
+        return '';
+      }
+      this.state = 'in_value';
+      this.position = match.index + match[0].length;
+    }
+
+    if (this.state !== 'in_value') {
+      return '';
+    }
+
+    let output = '';
+    while (this.position < this.buffer.length) {
+      const char = this.buffer[this.position];
+
+      if (this.escape) {
+        this.escape += char;
+        const decoded = this.decodeEscape(this.escape);
+        if (decoded === null) {
+          this.position++;
+          continue; // incomplete \uXXXX sequence
+        }
+        output += decoded;
+        this.escape = '';
+      } else if (char === '\\') {
+        this.escape = char;
+      } else if (char === '"') {
+        this.state = 'done';
+        this.position++;
+        break;
+      } else {
+        output += char;
+      }
+
+      this.position++;
+    }
+
+    return output;
+  }
+
+  get isComplete(): boolean {
+    return this.state === 'done';
+  }
+
+  private decodeEscape(sequence: string): string | null {
+    if (sequence.length < 2) return null;
+
+    switch (sequence[1]) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case 'b': return '\b';
+      case 'f': return '\f';
+      case 'u':
+        if (sequence.length < 6) return null;
+        return String.fromCharCode(parseInt(sequence.slice(2, 6), 16));
+      default:
+        return sequence[1]; // \" \\ \/
+    }
+  }
+}
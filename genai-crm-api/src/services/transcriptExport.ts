@@ -0,0 +1,391 @@
+import { Writable } from 'stream';
+import { supabase, logger } from '../server';
+import { conversationMemory, ConversationContext, ConversationOwnershipPeriod, ConversationTurn } from './conversationMemory';
+import { redactPII, redactPIIDeep } from './piiRedaction';
+import { renderPdf, PdfBlock } from './pdfDocument';
+import { ZipStream } from './zipStream';
+import { envInt } from '../config';
+
+export type TranscriptFormat = 'txt' | 'html' | 'pdf' | 'jsonl';
+
+export const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['txt', 'html', 'pdf', 'jsonl'];
+
+export interface TranscriptOptions {
+  // Mask card numbers, SSNs, emails and phone numbers in turns and the summary
+  redact?: boolean;
+  // Label turns with the customer's and agents' names instead of "Customer" and "Agent"
+  displayNames?: boolean;
+}
+
+export interface TranscriptTurn extends ConversationTurn {
+  speaker: string;
+  // Moved to conversation_archives when the conversation grew past the turn limit
+  archived: boolean;
+}
+
+export interface Transcript {
+  conversation_id: string;
+  customer_id: string;
+  customer_name: string;
+  agent_id: string | null;
+  agent_name: string;
+  status: ConversationContext['status'];
+  summary?: string;
+  created_at: string;
+  updated_at: string;
+  turns: TranscriptTurn[];
+}
+
+export interface RenderedTranscript {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface BulkExportFilter {
+  from: string;
+  to: string;
+  agentId?: string;
+}
+
+export class TranscriptExportError extends Error {
+  readonly code: 'not_found' | 'invalid';
+
+  constructor(code: 'not_found' | 'invalid', message: string) {
+    super(message);
+    this.name = 'TranscriptExportError';
+    this.code = code;
+  }
+}
+
+// Conversations one bulk export may include; narrower ranges are needed beyond this
+const TRANSCRIPT_BULK_EXPORT_MAX = envInt('TRANSCRIPT_BULK_EXPORT_MAX', 500);
+
+const CONTENT_TYPES: Record<TranscriptFormat, string> = {
+  txt: 'text/plain; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  pdf: 'application/pdf',
+  jsonl: 'application/x-ndjson; charset=utf-8'
+};
+
+// Names looked up once per export and shared across its conversations
+interface NameCache {
+  customers: Map<string, string | null>;
+  agents: Map<string, string | null>;
+}
+
+export class TranscriptExportService {
+  async exportConversation(
+    conversationId: string,
+    format: TranscriptFormat,
+    options: TranscriptOptions = {}
+  ): Promise<RenderedTranscript> {
+    const transcript = await this.getTranscript(conversationId, options, this.emptyNameCache());
+    return this.render(transcript, format);
+  }
+
+  // Closed conversations started in the range, optionally for one agent. Checked before
+  // the response starts streaming so an oversized range can still get an error status.
+  async findConversationsForExport(filter: BulkExportFilter): Promise<string[]> {
+    let query = supabase
+      .from('conversation_contexts')
+      .select('conversation_id')
+      .neq('status', 'active')
+      .gte('created_at', filter.from)
+      .lte('created_at', filter.to)
+      .order('created_at', { ascending: true })
+      .limit(TRANSCRIPT_BULK_EXPORT_MAX + 1);
+
+    if (filter.agentId) {
+      query = query.eq('agent_id', filter.agentId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    if ((data || []).length > TRANSCRIPT_BULK_EXPORT_MAX) {
+      throw new TranscriptExportError(
+        'invalid',
+        `More than ${TRANSCRIPT_BULK_EXPORT_MAX} conversations match; narrow the date range or pick an agent`
+      );
+    }
+
+    return (data || []).map(row => row.conversation_id);
+  }
+
+  // Streams a ZIP with one transcript per conversation. A conversation that fails to
+  // load is skipped and listed in errors.txt rather than aborting the download.
+  async writeBulkExport(
+    conversationIds: string[],
+    format: TranscriptFormat,
+    options: TranscriptOptions,
+    output: Writable
+  ): Promise<{ exported: number; failed: number }> {
+    const zip = new ZipStream(output);
+    const names = this.emptyNameCache();
+    const failures: string[] = [];
+
+    for (const conversationId of conversationIds) {
+      try {
+        const transcript = await this.getTranscript(conversationId, options, names);
+        const rendered = await this.render(transcript, format);
+        await zip.addFile(rendered.filename, rendered.content, new Date(transcript.updated_at));
+      } catch (error) {
+        if (output.destroyed) {
+          throw error;
+        }
+        logger.warn('Skipping conversation in bulk transcript export', { error, conversation_id: conversationId });
+        failures.push(`${conversationId}: ${error instanceof Error ? error.message : 'export failed'}`);
+      }
+    }
+
+    if (failures.length > 0) {
+      await zip.addFile('errors.txt', Buffer.from(failures.join('\n') + '\n', 'utf8'));
+    }
+
+    await zip.finish();
+
+    return { exported: conversationIds.length - failures.length, failed: failures.length };
+  }
+
+  // Live and archived turns merged in time order, with speakers resolved
+  private async getTranscript(conversationId: string, options: TranscriptOptions, names: NameCache): Promise<Transcript> {
+    const { data: context, error } = await supabase
+      .from('conversation_contexts')
+      .select('conversation_id, customer_id, agent_id, status, summary, turns, created_at, updated_at')
+      .eq('conversation_id', conversationId)
+      .maybeSingle();
+
+    if (error) {
+      throw error;
+    }
+
+    if (!context) {
+      throw new TranscriptExportError('not_found', 'Conversation not found');
+    }
+
+    const { data: archives, error: archiveError } = await supabase
+      .from('conversation_archives')
+      .select('archived_turns, archived_at')
+      .eq('conversation_id', conversationId)
+      .order('archived_at', { ascending: true });
+
+    if (archiveError) {
+      throw archiveError;
+    }
+
+    const turns = new Map<string, ConversationTurn & { archived: boolean }>();
+    for (const turn of (archives || []).flatMap(archive => archive.archived_turns || [])) {
+      turns.set(turn.id, { ...turn, archived: true });
+    }
+    for (const turn of context.turns || []) {
+      turns.set(turn.id, { ...turn, archived: false });
+    }
+    const ordered = Array.from(turns.values())
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // Assistant turns are credited to whoever owned the conversation at the time
+    const ownership = options.displayNames
+      ? await conversationMemory.getOwnershipHistory(conversationId)
+      : [];
+    const agentIds = Array.from(new Set(
+      [context.agent_id, ...ownership.map(period => period.agent_id)].filter((id): id is string => !!id)
+    ));
+
+    if (options.displayNames) {
+      await this.loadNames(names, [context.customer_id], agentIds);
+    }
+
+    const customerName = (options.displayNames && names.customers.get(context.customer_id)) || 'Customer';
+    const agentName = (agentId: string | null | undefined): string =>
+      (options.displayNames && agentId && names.agents.get(agentId)) || 'Agent';
+
+    return {
+      conversation_id: context.conversation_id,
+      customer_id: context.customer_id,
+      customer_name: customerName,
+      agent_id: context.agent_id,
+      agent_name: agentName(context.agent_id),
+      status: context.status,
+      summary: context.summary && options.redact ? redactPII(context.summary, undefined, 'export') : context.summary || undefined,
+      created_at: context.created_at,
+      updated_at: context.updated_at,
+      turns: ordered.map(turn => ({
+        ...turn,
+        content: options.redact ? redactPII(turn.content || '', undefined, 'export') : turn.content || '',
+        metadata: options.redact && turn.metadata ? redactPIIDeep(turn.metadata, undefined, 'export') : turn.metadata,
+        speaker: turn.role === 'user'
+          ? customerName
+          : turn.role === 'assistant'
+            ? agentName(this.ownerAt(ownership, turn.timestamp) ?? context.agent_id)
+            : 'System'
+      }))
+    };
+  }
+
+  async render(transcript: Transcript, format: TranscriptFormat): Promise<RenderedTranscript> {
+    const content = format === 'txt' ? Buffer.from(this.renderText(transcript), 'utf8')
+      : format === 'html' ? Buffer.from(this.renderHtml(transcript), 'utf8')
+        : format === 'pdf' ? await renderPdf(this.pdfBlocks(transcript), `Conversation ${transcript.conversation_id}`)
+          : Buffer.from(this.renderJsonl(transcript), 'utf8');
+
+    return {
+      filename: `${transcript.conversation_id}.${format}`,
+      contentType: CONTENT_TYPES[format],
+      content
+    };
+  }
+
+  private headerFields(transcript: Transcript): Array<[string, string]> {
+    const fields: Array<[string, string]> = [
+      ['Conversation', transcript.conversation_id],
+      ['Customer', transcript.customer_name === 'Customer'
+        ? transcript.customer_id
+        : `${transcript.customer_name} (${transcript.customer_id})`],
+      ['Agent', transcript.agent_name === 'Agent' ? transcript.agent_id || 'Unassigned' : transcript.agent_name],
+      ['Status', transcript.status],
+      ['Started', transcript.created_at],
+      ['Last updated', transcript.updated_at]
+    ];
+    if (transcript.summary) {
+      fields.push(['Summary', transcript.summary]);
+    }
+    return fields;
+  }
+
+  private renderText(transcript: Transcript): string {
+    const header = this.headerFields(transcript).map(([label, value]) => `${label}: ${value}`);
+    const turns = transcript.turns.map(turn => `[${turn.timestamp}] ${turn.speaker}: ${turn.content}`);
+    return [...header, '', ...turns, ''].join('\n');
+  }
+
+  private renderHtml(transcript: Transcript): string {
+    const header = this.headerFields(transcript)
+      .map(([label, value]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`)
+      .join('\n');
+    const turns = transcript.turns
+      .map(turn => `<li class="turn ${turn.role}"><div class="meta"><strong>${escapeHtml(turn.speaker)}</strong> ` +
+        `<time datetime="${escapeHtml(turn.timestamp)}">${escapeHtml(turn.timestamp)}</time></div>` +
+        `<div class="content">${escapeHtml(turn.content)}</div></li>`)
+      .join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Conversation ${escapeHtml(transcript.conversation_id)}</title>
+<style>
+body { font-family: -apple-system, Helvetica, Arial, sans-serif; max-width: 48rem; margin: 2rem auto; color: #111827; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+dd { margin: 0; white-space: pre-wrap; }
+ol { list-style: none; padding: 0; }
+.turn { border-left: 3px solid #d1d5db; padding: 0.5rem 1rem; margin: 0.75rem 0; }
+.turn.user { border-color: #2563eb; }
+.turn.assistant { border-color: #16a34a; }
+.turn.system { border-color: #9ca3af; color: #4b5563; font-style: italic; }
+.meta { font-size: 0.85rem; color: #6b7280; }
+.content { white-space: pre-wrap; margin-top: 0.25rem; }
+</style>
+</head>
+<body>
+<h1>Conversation transcript</h1>
+<dl>
+${header}
+</dl>
+<ol>
+${turns}
+</ol>
+</body>
+</html>
+`;
+  }
+
+  private pdfBlocks(transcript: Transcript): PdfBlock[] {
+    return [
+      { text: 'Conversation transcript', bold: true, size: 16 },
+      ...this.headerFields(transcript).map(([label, value], index) => ({
+        text: `${label}: ${value}`,
+        spaceBefore: index === 0 ? 8 : 0
+      })),
+      ...transcript.turns.flatMap(turn => [
+        { text: `${turn.speaker} - ${turn.timestamp}`, bold: true, size: 9, spaceBefore: 10 },
+        { text: turn.content, indent: 12 }
+      ])
+    ];
+  }
+
+  // One turn per line
+  private renderJsonl(transcript: Transcript): string {
+    return transcript.turns
+      .map((turn, index) => JSON.stringify({
+        conversation_id: transcript.conversation_id,
+        index,
+        turn_id: turn.id,
+        role: turn.role,
+        speaker: turn.speaker,
+        timestamp: turn.timestamp,
+        archived: turn.archived,
+        content: turn.content,
+        metadata: turn.metadata
+      }) + '\n')
+      .join('');
+  }
+
+  private ownerAt(ownership: ConversationOwnershipPeriod[], timestamp: string): string | null | undefined {
+    const time = new Date(timestamp).getTime();
+    return ownership.find(period =>
+      new Date(period.started_at).getTime() <= time &&
+      (!period.ended_at || new Date(period.ended_at).getTime() > time)
+    )?.agent_id;
+  }
+
+  // Names that can't be looked up fall back to "Customer" and "Agent"
+  private async loadNames(names: NameCache, customerIds: string[], agentIds: string[]): Promise<void> {
+    const missingCustomers = customerIds.filter(id => !names.customers.has(id));
+    const missingAgents = agentIds.filter(id => !names.agents.has(id));
+
+    if (missingCustomers.length > 0) {
+      missingCustomers.forEach(id => names.customers.set(id, null));
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name')
+        .in('id', missingCustomers);
+
+      if (error) {
+        logger.warn('Failed to load customer names for transcript export', { error });
+      }
+      (data || []).forEach(row => names.customers.set(row.id, row.name || null));
+    }
+
+    if (missingAgents.length > 0) {
+      missingAgents.forEach(id => names.agents.set(id, null));
+      const { data, error } = await supabase.rpc('agent_display_names', { agent_ids: missingAgents });
+
+      if (error) {
+        logger.warn('Failed to load agent names for transcript export', { error });
+      }
+      ((data as Array<{ id: string; name: string | null }>) || []).forEach(row => names.agents.set(row.id, row.name));
+    }
+  }
+
+  private emptyNameCache(): NameCache {
+    return { customers: new Map(), agents: new Map() };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export const transcriptExport = new TranscriptExportService();
+
+export default TranscriptExportService;
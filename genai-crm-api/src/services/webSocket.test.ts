@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import http from 'http';
+import net, { AddressInfo } from 'net';
+import { acceptWebSocket, WebSocketConnection } from './webSocket';
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_BINARY = 0x2;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+
+// A masked client frame, written by hand so tests can send what a browser never would
+function frame(opcode: number, payload: Buffer, fin: boolean = true): Buffer {
+  const mask = crypto.randomBytes(4);
+  const masked = Buffer.from(payload.map((byte, i) => byte ^ mask[i % 4]));
+  const first = (fin ? 0x80 : 0) | opcode;
+
+  let header: Buffer;
+  if (payload.length < 126) {
+    header = Buffer.from([first, 0x80 | payload.length]);
+  } else if (payload.length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = first;
+    header[1] = 0x80 | 126;
+    header.writeUInt16BE(payload.length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = first;
+    header[1] = 0x80 | 127;
+    header.writeBigUInt64BE(BigInt(payload.length), 2);
+  }
+
+  return Buffer.concat([header, mask, masked]);
+}
+
+interface RawClient {
+  socket: net.Socket;
+  // Text of every frame the server sent
+  messages: string[];
+  // Status code of the server's close frame; null if the socket closed without one
+  closeCode: Promise<number | null>;
+}
+
+describe('acceptWebSocket', () => {
+  let server: http.Server;
+  let connections: WebSocketConnection[];
+  let received: string[];
+  let sockets: net.Socket[];
+
+  beforeEach(async () => {
+    connections = [];
+    sockets = [];
+    received = [];
+    server = http.createServer();
+    server.on('upgrade', (req, socket, head) => {
+      acceptWebSocket(req, socket, head, connection => {
+        connections.push(connection);
+        connection.on('message', (message: string) => {
+          received.push(message);
+          connection.send(`echo:${message}`);
+        });
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(async () => {
+    sockets.forEach(socket => socket.destroy());
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  async function connect(): Promise<RawClient> {
+    const { port } = server.address() as AddressInfo;
+    const socket = net.connect(port, '127.0.0.1');
+    sockets.push(socket);
+    const key = crypto.randomBytes(16).toString('base64');
+
+    socket.write([
+      'GET / HTTP/1.1',
+      `Host: 127.0.0.1:${port}`,
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Key: ${key}`,
+      'Sec-WebSocket-Version: 13',
+      '',
+      ''
+    ].join('\r\n'));
+
+    const messages: string[] = [];
+    let buffer = Buffer.alloc(0);
+    let upgraded = false;
+    let resolveClose: (code: number | null) => void;
+    const closeCode = new Promise<number | null>(resolve => { resolveClose = resolve; });
+
+    await new Promise<void>((resolve, reject) => {
+      socket.on('error', reject);
+      socket.on('close', () => resolveClose(null));
+      socket.on('data', chunk => {
+        buffer = Buffer.concat([buffer, chunk]);
+
+        if (!upgraded) {
+          const end = buffer.indexOf('\r\n\r\n');
+          if (end === -1) return;
+          if (!buffer.subarray(0, end).toString().startsWith('HTTP/1.1 101')) {
+            reject(new Error('Handshake refused'));
+            return;
+          }
+          upgraded = true;
+          buffer = buffer.subarray(end + 4);
+          resolve();
+        }
+
+        // Server frames are unmasked and short in these tests
+        while (buffer.length >= 2 && buffer.length >= 2 + (buffer[1] & 0x7f)) {
+          const opcode = buffer[0] & 0x0f;
+          const payload = buffer.subarray(2, 2 + (buffer[1] & 0x7f));
+          buffer = buffer.subarray(2 + payload.length);
+          if (opcode === OPCODE_TEXT) messages.push(payload.toString('utf8'));
+          if (opcode === OPCODE_CLOSE) resolveClose(payload.length >= 2 ? payload.readUInt16BE(0) : null);
+        }
+      });
+    });
+
+    return { socket, messages, closeCode };
+  }
+
+  it('refuses requests that are not WebSocket upgrades', async () => {
+    const { port } = server.address() as AddressInfo;
+    const socket = net.connect(port, '127.0.0.1');
+    sockets.push(socket);
+    socket.write('GET / HTTP/1.1\r\nHost: localhost\r\nUpgrade: websocket\r\nConnection: Upgrade\r\n\r\n');
+
+    const response = await new Promise<string>(resolve => socket.once('data', chunk => resolve(chunk.toString())));
+
+    expect(response).toMatch(/^HTTP\/1.1 400/);
+    expect(connections).toHaveLength(0);
+  });
+
+  it('delivers text messages and sends replies', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_TEXT, Buffer.from('{"type":"auth"}')));
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['{"type":"auth"}']);
+    expect(client.messages).toEqual(['echo:{"type":"auth"}']);
+  });
+
+  it('reassembles fragmented text, with a control frame in between', async () => {
+    const client = await connect();
+    client.socket.write(Buffer.concat([
+      frame(OPCODE_TEXT, Buffer.from('héllo '), false),
+      frame(OPCODE_PING, Buffer.from('ping')),
+      frame(OPCODE_CONTINUATION, Buffer.from('wörld'))
+    ]));
+
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received).toEqual(['héllo wörld']);
+  });
+
+  it('closes with 1007 on text that is not valid UTF-8', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_TEXT, Buffer.from([0x68, 0xc3, 0x28])));
+
+    expect(await client.closeCode).toBe(1007);
+    expect(received).toHaveLength(0);
+  });
+
+  it('closes with 1007 when UTF-8 is split invalidly across fragments', async () => {
+    const client = await connect();
+    client.socket.write(Buffer.concat([
+      frame(OPCODE_TEXT, Buffer.from([0xe2, 0x82]), false),
+      frame(OPCODE_CONTINUATION, Buffer.from([0x41]))
+    ]));
+
+    expect(await client.closeCode).toBe(1007);
+  });
+
+  it('closes with 1002 on a control frame longer than 125 bytes', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_PING, Buffer.alloc(126, 0x61)));
+
+    expect(await client.closeCode).toBe(1002);
+  });
+
+  it('closes with 1002 on a fragmented control frame', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_PING, Buffer.from('a'), false));
+
+    expect(await client.closeCode).toBe(1002);
+  });
+
+  it('closes with 1002 on a continuation frame with nothing to continue', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_CONTINUATION, Buffer.from('a')));
+
+    expect(await client.closeCode).toBe(1002);
+  });
+
+  it('closes with 1003 on binary messages', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_BINARY, Buffer.from([1, 2, 3])));
+
+    expect(await client.closeCode).toBe(1003);
+  });
+
+  it('closes with 1009 on messages over the size limit', async () => {
+    const client = await connect();
+    client.socket.write(frame(OPCODE_TEXT, Buffer.alloc(64 * 1024 + 1, 0x61)));
+
+    expect(await client.closeCode).toBe(1009);
+    expect(received).toHaveLength(0);
+  });
+
+  it('reports the close once when the client goes away', async () => {
+    const client = await connect();
+    const closes: number[] = [];
+    connections[0].on('close', (code: number) => closes.push(code));
+
+    client.socket.destroy();
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(closes).toHaveLength(1);
+    expect(connections[0].isOpen).toBe(false);
+  });
+});
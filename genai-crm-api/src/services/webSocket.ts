@@ -0,0 +1,101 @@
+import { EventEmitter } from 'events';
+import { IncomingMessage } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+
+// Server side of the live-update WebSocket. ws handles the protocol (handshake, framing,
+// UTF-8 validation, control frames); this adds what every API connection needs: text
+// messages only, a size limit and a heartbeat. Compression isn't negotiated.
+
+export const CLOSE_NORMAL = 1000;
+export const CLOSE_UNSUPPORTED_DATA = 1003;
+export const CLOSE_POLICY_VIOLATION = 1008;
+
+// Largest message accepted from the client, fragments combined
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// How often connections are pinged; one missed pong ends them
+const HEARTBEAT_MS = 30000;
+
+const server = new WebSocketServer({
+  noServer: true,
+  clientTracking: false,
+  maxPayload: MAX_MESSAGE_BYTES,
+  perMessageDeflate: false
+});
+
+// Emits 'message' (string) for each text message and 'close' (code) once, however the
+// connection ended
+export class WebSocketConnection extends EventEmitter {
+  private closed = false;
+  private awaitingPong = false;
+  private heartbeat: NodeJS.Timeout;
+
+  constructor(private socket: WebSocket, heartbeatMs: number = HEARTBEAT_MS) {
+    super();
+
+    socket.on('message', (data: RawData, isBinary: boolean) => {
+      if (isBinary) {
+        this.close(CLOSE_UNSUPPORTED_DATA, 'Binary messages are not supported');
+        return;
+      }
+      this.emit('message', data.toString());
+    });
+    socket.on('pong', () => {
+      this.awaitingPong = false;
+    });
+    // ws closes the connection itself after a protocol error, with the matching code
+    socket.on('error', () => undefined);
+    socket.on('close', (code: number) => this.terminate(code));
+
+    this.heartbeat = setInterval(() => {
+      if (this.awaitingPong) {
+        socket.terminate();
+        return;
+      }
+      this.awaitingPong = true;
+      socket.ping();
+    }, heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  send(message: string): void {
+    if (!this.closed && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  // Starts the closing handshake; ws drops the socket if the client never answers
+  close(code: number = CLOSE_NORMAL, reason: string = ''): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.socket.close(code, reason);
+    this.terminate(code);
+  }
+
+  private terminate(code: number): void {
+    if (this.closed) {
+      return;
+    }
+
+    this.closed = true;
+    clearInterval(this.heartbeat);
+    this.emit('close', code);
+  }
+}
+
+// Completes the handshake for an HTTP upgrade request. Requests that aren't valid
+// WebSocket upgrades are answered with 400 and never reach onConnection.
+export function acceptWebSocket(
+  req: IncomingMessage,
+  socket: Duplex,
+  head: Buffer,
+  onConnection: (connection: WebSocketConnection) => void
+): void {
+  server.handleUpgrade(req, socket, head, ws => onConnection(new WebSocketConnection(ws)));
+}
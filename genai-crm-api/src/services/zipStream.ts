@@ -0,0 +1,64 @@
+import archiver, { Archiver } from 'archiver';
+import { Writable } from 'stream';
+
+// Writes a ZIP archive to a stream one file at a time. archiver does the encoding; each
+// addFile waits until archiver has taken the entry, so a slow client holds back the
+// export instead of queueing every transcript in memory.
+export class ZipStream {
+  private archive: Archiver;
+  private failure: Error | null = null;
+  private finished = false;
+  private pending = new Set<(error: Error) => void>();
+
+  constructor(output: Writable) {
+    this.archive = archiver('zip', { zlib: { level: 6 } });
+    this.archive.on('error', error => this.fail(error));
+    // A client that disconnects mid-download closes the stream without draining it
+    output.once('close', () => this.fail(new Error('ZIP output stream was closed')));
+    this.archive.pipe(output, { end: false });
+  }
+
+  async addFile(name: string, data: Buffer, modified: Date = new Date()): Promise<void> {
+    const added = this.waitFor('entry');
+    this.archive.append(data, { name, date: modified });
+    await added;
+  }
+
+  // Writes the central directory; the caller ends the output stream
+  async finish(): Promise<void> {
+    const ended = this.waitFor('end');
+    await Promise.all([this.archive.finalize(), ended]);
+    this.finished = true;
+  }
+
+  private waitFor(event: 'entry' | 'end'): Promise<void> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      const onFailure = (error: Error) => {
+        this.archive.off(event, onEvent);
+        reject(error);
+      };
+      const onEvent = () => {
+        this.pending.delete(onFailure);
+        resolve();
+      };
+      this.archive.once(event, onEvent);
+      this.pending.add(onFailure);
+    });
+  }
+
+  private fail(error: Error): void {
+    if (this.failure || this.finished) {
+      return;
+    }
+    this.failure = error;
+    this.archive.abort();
+    for (const reject of this.pending) {
+      reject(error);
+    }
+    this.pending.clear();
+  }
+}
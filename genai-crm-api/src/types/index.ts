@@ -4,6 +4,7 @@ export interface Customer {
   email: string;
   phone?: string;
   company?: string;
+  metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
@@ -61,6 +62,8 @@ export interface AIQueryRequest {
   query: string;
   context?: Record<string, any>;
   customer_id?: string;
+  conversation_id?: string;
+  quality_assessment?: 'none' | 'async' | 'sync';
 }
 
 export interface CustomerCreateRequest {
@@ -0,0 +1,10 @@
+-- Token usage and cost accounting for AI calls
+
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS input_tokens INTEGER DEFAULT 0 CHECK (input_tokens >= 0);
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS output_tokens INTEGER DEFAULT 0 CHECK (output_tokens >= 0);
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS cost_usd DECIMAL(12,6) DEFAULT 0 CHECK (cost_usd >= 0);
+
+-- Indexes for cost breakdowns
+CREATE INDEX IF NOT EXISTS idx_ai_responses_model_version ON ai_responses(model_version);
+CREATE INDEX IF NOT EXISTS idx_ai_responses_customer_date ON ai_responses(customer_id, created_at DESC) WHERE customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ai_responses_use_case ON ai_responses((metadata ->> 'use_case'));
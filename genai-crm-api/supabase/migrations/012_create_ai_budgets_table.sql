@@ -0,0 +1,49 @@
+-- Monthly AI token/cost budgets per organization and per agent
+
+-- Track which organization each AI call belongs to
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS organization_id VARCHAR(100);
+CREATE INDEX IF NOT EXISTS idx_ai_responses_org_date ON ai_responses(organization_id, created_at DESC) WHERE organization_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS ai_budgets (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    scope_type VARCHAR(20) NOT NULL CHECK (scope_type IN ('organization', 'agent')),
+    scope_id VARCHAR(100) NOT NULL,
+    monthly_token_limit BIGINT CHECK (monthly_token_limit IS NULL OR monthly_token_limit >= 0),
+    monthly_cost_limit_usd DECIMAL(12,2) CHECK (monthly_cost_limit_usd IS NULL OR monthly_cost_limit_usd >= 0),
+    soft_limit_percentage INTEGER DEFAULT 80 CHECK (soft_limit_percentage > 0 AND soft_limit_percentage <= 100),
+    enabled BOOLEAN DEFAULT true,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_budget_scope UNIQUE (scope_type, scope_id)
+);
+
+-- Create updated_at trigger for ai_budgets
+CREATE TRIGGER update_ai_budgets_updated_at
+    BEFORE UPDATE ON ai_budgets
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE ai_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Agents can see their own budget, admins can see everything
+CREATE POLICY "Allow users to read their ai_budgets"
+    ON ai_budgets FOR SELECT
+    TO authenticated
+    USING (
+        (scope_type = 'agent' AND scope_id = auth.uid()::text) OR
+        (auth.jwt() ->> 'role')::text = 'admin'
+    );
+
+-- Only admins can manage budgets
+CREATE POLICY "Allow admins to manage ai_budgets"
+    ON ai_budgets FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Create indexes for performance
+CREATE INDEX idx_ai_budgets_scope ON ai_budgets(scope_type, scope_id) WHERE enabled = true;
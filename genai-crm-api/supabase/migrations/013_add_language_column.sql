@@ -0,0 +1,6 @@
+-- Detected customer language (ISO 639-1) for multilingual query handling
+
+ALTER TABLE ai_responses ADD COLUMN IF NOT EXISTS language VARCHAR(5) CHECK (language IN ('en', 'es', 'de', 'pt'));
+
+-- Index for per-language reporting
+CREATE INDEX IF NOT EXISTS idx_ai_responses_language ON ai_responses(language) WHERE language IS NOT NULL;
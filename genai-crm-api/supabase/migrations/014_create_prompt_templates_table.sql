@@ -0,0 +1,49 @@
+-- Versioned prompt templates, editable without a deploy. Templates not stored here
+-- fall back to the built-in versions in PromptTemplateManager.
+
+CREATE TABLE IF NOT EXISTS prompt_templates (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    version INTEGER NOT NULL CHECK (version > 0),
+    description TEXT,
+    template TEXT NOT NULL,
+    variables JSONB DEFAULT '[]',
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'archived')),
+    change_note TEXT,
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    published_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_prompt_template_version UNIQUE (name, version)
+);
+
+-- At most one published version per template
+CREATE UNIQUE INDEX IF NOT EXISTS idx_prompt_templates_published
+    ON prompt_templates(name) WHERE status = 'published';
+
+-- Create updated_at trigger for prompt_templates
+CREATE TRIGGER update_prompt_templates_updated_at
+    BEFORE UPDATE ON prompt_templates
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can read and manage templates; the API reads them with the service role
+CREATE POLICY "Allow admins to manage prompt_templates"
+    ON prompt_templates FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Create indexes for performance
+CREATE INDEX idx_prompt_templates_name_version ON prompt_templates(name, version DESC);
+
+-- Trace responses back to the template version that produced them
+CREATE INDEX IF NOT EXISTS idx_ai_responses_template
+    ON ai_responses((metadata -> 'template' ->> 'name'), ((metadata -> 'template' ->> 'version')::int))
+    WHERE metadata ? 'template';
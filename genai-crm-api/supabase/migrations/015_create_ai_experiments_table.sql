@@ -0,0 +1,48 @@
+-- A/B experiments comparing prompt template versions and models on live query traffic
+
+CREATE TABLE IF NOT EXISTS ai_experiments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'paused', 'completed')),
+    assignment_unit VARCHAR(20) NOT NULL DEFAULT 'agent' CHECK (assignment_unit IN ('agent', 'conversation')),
+    -- [{ "key": "control", "weight": 50 }, { "key": "v2", "weight": 50, "template_version": 2, "model": "..." }]
+    variants JSONB NOT NULL,
+    primary_metric VARCHAR(30) NOT NULL DEFAULT 'quality_score'
+        CHECK (primary_metric IN ('quality_score', 'confidence', 'feedback_accuracy', 'cost_per_query')),
+    traffic_percentage INTEGER NOT NULL DEFAULT 100 CHECK (traffic_percentage > 0 AND traffic_percentage <= 100),
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_experiment_name UNIQUE (name),
+    CONSTRAINT variants_is_array CHECK (jsonb_typeof(variants) = 'array' AND jsonb_array_length(variants) >= 2)
+);
+
+-- Experiments change the same query pipeline, so only one can run at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_experiments_running
+    ON ai_experiments(status) WHERE status = 'running';
+
+-- Create updated_at trigger for ai_experiments
+CREATE TRIGGER update_ai_experiments_updated_at
+    BEFORE UPDATE ON ai_experiments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE ai_experiments ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can manage experiments
+CREATE POLICY "Allow admins to manage ai_experiments"
+    ON ai_experiments FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Per-variant results are read from the experiment recorded on each response
+CREATE INDEX IF NOT EXISTS idx_ai_responses_experiment
+    ON ai_responses((metadata -> 'experiment' ->> 'id'), created_at DESC)
+    WHERE metadata ? 'experiment';
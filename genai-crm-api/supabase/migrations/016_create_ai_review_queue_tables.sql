@@ -0,0 +1,83 @@
+-- Human review queue for AI responses that scored low on quality or need escalation
+
+CREATE TABLE IF NOT EXISTS ai_review_items (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    response_id UUID NOT NULL REFERENCES ai_responses(id) ON DELETE CASCADE,
+    customer_id UUID REFERENCES customers(id) ON DELETE SET NULL,
+    -- Agent the AI response was generated for
+    agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- Snapshot of the exchange so corrections stay paired with what was reviewed
+    query TEXT NOT NULL,
+    original_response TEXT NOT NULL,
+    reasons TEXT[] NOT NULL,
+    quality_score DECIMAL(4,2),
+    escalation_level VARCHAR(20) CHECK (escalation_level IN ('immediate', 'recommended', 'monitor', 'standard')),
+    priority VARCHAR(20) NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'critical')),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'in_review', 'approved', 'edited', 'rejected')),
+    assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    assigned_at TIMESTAMP WITH TIME ZONE,
+    due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    reviewed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+    -- Reviewer's rewrite of the answer, kept as a reference answer for evaluation
+    corrected_response TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_review_response UNIQUE (response_id),
+    CONSTRAINT reasons_not_empty CHECK (array_length(reasons, 1) > 0),
+    CONSTRAINT reasons_known CHECK (reasons <@ ARRAY['low_quality', 'escalation']::TEXT[]),
+    CONSTRAINT edited_has_correction CHECK (status <> 'edited' OR corrected_response IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS ai_review_comments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    item_id UUID NOT NULL REFERENCES ai_review_items(id) ON DELETE CASCADE,
+    author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    body TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT comment_not_empty CHECK (LENGTH(TRIM(body)) > 0),
+    CONSTRAINT comment_max_length CHECK (LENGTH(body) <= 5000)
+);
+
+-- Create updated_at trigger for ai_review_items
+CREATE TRIGGER update_ai_review_items_updated_at
+    BEFORE UPDATE ON ai_review_items
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE ai_review_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_review_comments ENABLE ROW LEVEL SECURITY;
+
+-- Supervisors and admins work the queue
+CREATE POLICY "Allow reviewers to manage ai_review_items"
+    ON ai_review_items FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'))
+    WITH CHECK ((auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'));
+
+CREATE POLICY "Allow reviewers to manage ai_review_comments"
+    ON ai_review_comments FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'))
+    WITH CHECK ((auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'));
+
+-- Agents can see reviews of their own responses
+CREATE POLICY "Allow agents to read reviews of their responses"
+    ON ai_review_items FOR SELECT
+    TO authenticated
+    USING (agent_id = auth.uid());
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_review_items_open
+    ON ai_review_items(due_at) WHERE status IN ('pending', 'in_review');
+CREATE INDEX IF NOT EXISTS idx_ai_review_items_assigned
+    ON ai_review_items(assigned_to, status) WHERE assigned_to IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_ai_review_items_corrections
+    ON ai_review_items(reviewed_at DESC) WHERE status = 'edited';
+CREATE INDEX IF NOT EXISTS idx_ai_review_comments_item ON ai_review_comments(item_id, created_at);
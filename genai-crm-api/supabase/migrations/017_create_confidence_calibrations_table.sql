@@ -0,0 +1,41 @@
+-- Calibration curves mapping heuristic AI confidence scores to observed accuracy
+
+CREATE TABLE IF NOT EXISTS ai_confidence_calibrations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Segment the curve was fitted on; '*' matches any model or intent
+    model VARCHAR(100) NOT NULL DEFAULT '*',
+    intent VARCHAR(50) NOT NULL DEFAULT '*',
+    method VARCHAR(20) NOT NULL DEFAULT 'isotonic' CHECK (method IN ('isotonic')),
+    -- [{ "x": 0.72, "y": 0.61 }, ...] ordered by x, interpolated linearly between points
+    points JSONB NOT NULL,
+    sample_count INTEGER NOT NULL CHECK (sample_count > 0),
+    positive_rate DECIMAL(5,4) NOT NULL,
+    -- Expected calibration error and Brier score on the fitting sample, before and after
+    ece_before DECIMAL(5,4) NOT NULL,
+    ece_after DECIMAL(5,4) NOT NULL,
+    brier_before DECIMAL(5,4) NOT NULL,
+    brier_after DECIMAL(5,4) NOT NULL,
+    window_start TIMESTAMP WITH TIME ZONE NOT NULL,
+    window_end TIMESTAMP WITH TIME ZONE NOT NULL,
+    fitted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    fitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_calibration_segment UNIQUE (model, intent),
+    CONSTRAINT points_is_array CHECK (jsonb_typeof(points) = 'array' AND jsonb_array_length(points) > 0)
+);
+
+-- Enable Row Level Security
+ALTER TABLE ai_confidence_calibrations ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can fit calibration curves
+CREATE POLICY "Allow admins to manage ai_confidence_calibrations"
+    ON ai_confidence_calibrations FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Resolution outcomes join responses to the conversation they were part of
+CREATE INDEX IF NOT EXISTS idx_ai_responses_conversation
+    ON ai_responses((metadata ->> 'conversation_id'))
+    WHERE metadata ? 'conversation_id';
@@ -0,0 +1,58 @@
+-- Agent feedback on AI answers, and the SOPs each answer was based on
+
+CREATE TABLE IF NOT EXISTS ai_response_feedback (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Null for answers generated outside the API (the dashboard's Confluence assistant)
+    response_id UUID REFERENCES ai_responses(id) ON DELETE CASCADE,
+    agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    rating VARCHAR(20) NOT NULL CHECK (rating IN ('accurate', 'inaccurate')),
+    reason TEXT,
+    -- The answer the agent would have given instead
+    corrected_response TEXT,
+    -- [{ "id": "123", "title": "Refund Policy", "url": "https://...", "version": 4 }]
+    sop_sources JSONB NOT NULL DEFAULT '[]',
+    -- URLs of the SOPs in sop_sources the agent marked as wrong or outdated
+    wrong_sop_urls TEXT[] NOT NULL DEFAULT '{}',
+    -- Snapshot of the exchange, so feedback on answers without a stored response stays readable
+    query TEXT,
+    response TEXT,
+    source VARCHAR(30) NOT NULL DEFAULT 'api' CHECK (source IN ('api', 'confluence_assistant')),
+    ticket_id VARCHAR(100),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    -- An agent rates a stored response once; rating it again updates their feedback
+    CONSTRAINT unique_feedback_per_agent UNIQUE (response_id, agent_id),
+    CONSTRAINT feedback_has_target CHECK (response_id IS NOT NULL OR response IS NOT NULL),
+    CONSTRAINT sop_sources_is_array CHECK (jsonb_typeof(sop_sources) = 'array'),
+    CONSTRAINT reason_max_length CHECK (LENGTH(reason) <= 2000),
+    CONSTRAINT corrected_response_max_length CHECK (LENGTH(corrected_response) <= 10000)
+);
+
+-- Create updated_at trigger for ai_response_feedback
+CREATE TRIGGER update_ai_response_feedback_updated_at
+    BEFORE UPDATE ON ai_response_feedback
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE ai_response_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Agents manage their own feedback
+CREATE POLICY "Allow agents to manage their feedback"
+    ON ai_response_feedback FOR ALL
+    TO authenticated
+    USING (agent_id = auth.uid())
+    WITH CHECK (agent_id = auth.uid());
+
+-- Supervisors and admins read all feedback to track answer and SOP accuracy
+CREATE POLICY "Allow supervisors to read ai_response_feedback"
+    ON ai_response_feedback FOR SELECT
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'));
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_response_feedback_created ON ai_response_feedback(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_response_feedback_agent ON ai_response_feedback(agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ai_response_feedback_sops ON ai_response_feedback USING GIN (sop_sources jsonb_path_ops);
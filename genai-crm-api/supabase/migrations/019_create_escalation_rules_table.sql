@@ -0,0 +1,73 @@
+-- Declarative escalation rules evaluated before (or instead of) model-based escalation detection
+
+CREATE TABLE IF NOT EXISTS escalation_rules (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    description TEXT,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    -- Rules are evaluated in ascending priority order
+    priority INTEGER NOT NULL DEFAULT 100,
+    -- [{ "field": "customerTier", "operator": "in", "value": ["platinum", "enterprise"] }, ...]
+    conditions JSONB NOT NULL,
+    match VARCHAR(10) NOT NULL DEFAULT 'all' CHECK (match IN ('all', 'any')),
+    escalation_level VARCHAR(20) NOT NULL CHECK (escalation_level IN ('immediate', 'recommended', 'monitor', 'standard')),
+    urgency VARCHAR(20) CHECK (urgency IN ('low', 'medium', 'high', 'critical')),
+    -- short_circuit: the rule's verdict is final and the model is not asked
+    -- combine: the model is still asked and the higher of the two levels wins
+    mode VARCHAR(20) NOT NULL DEFAULT 'combine' CHECK (mode IN ('short_circuit', 'combine')),
+    suggested_action TEXT,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_escalation_rule_name UNIQUE (name),
+    CONSTRAINT conditions_is_array CHECK (jsonb_typeof(conditions) = 'array' AND jsonb_array_length(conditions) > 0)
+);
+
+-- Create updated_at trigger for escalation_rules
+CREATE TRIGGER update_escalation_rules_updated_at
+    BEFORE UPDATE ON escalation_rules
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE escalation_rules ENABLE ROW LEVEL SECURITY;
+
+-- Only admins can manage escalation rules
+CREATE POLICY "Allow admins to manage escalation_rules"
+    ON escalation_rules FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_escalation_rules_enabled ON escalation_rules(priority) WHERE enabled;
+
+-- Starting rules for the clear-cut cases
+INSERT INTO escalation_rules (name, description, priority, conditions, match, escalation_level, urgency, mode, suggested_action) VALUES
+    (
+        'Legal threat',
+        'The customer mentions lawyers or legal action',
+        10,
+        '[{"field": "query", "operator": "contains_any", "value": ["lawyer", "attorney", "legal action", "lawsuit", "sue you"]}]',
+        'all', 'immediate', 'critical', 'short_circuit',
+        'Escalate to a supervisor and the legal team before replying'
+    ),
+    (
+        'Repeatedly escalated premium customer',
+        'Platinum or enterprise customer with three or more prior escalations who is unhappy again',
+        20,
+        '[{"field": "customerTier", "operator": "in", "value": ["platinum", "enterprise"]}, {"field": "previousEscalations", "operator": "gte", "value": 3}, {"field": "sentiment", "operator": "eq", "value": "negative"}]',
+        'all', 'immediate', 'high', 'short_circuit',
+        'Hand over to the account manager or a senior agent'
+    ),
+    (
+        'Unhappy cancellation',
+        'A negative message that mentions cancelling',
+        30,
+        '[{"field": "query", "operator": "contains_any", "value": ["cancel", "cancellation", "close my account", "terminate"]}, {"field": "sentiment", "operator": "eq", "value": "negative"}]',
+        'all', 'recommended', 'high', 'combine',
+        'Involve the retention team'
+    )
+ON CONFLICT (name) DO NOTHING;
@@ -0,0 +1,15 @@
+-- Structured conversation summaries, updated every few turns and when a conversation closes.
+-- They cover turns that have since been moved to conversation_archives, so prompts keep
+-- the context of long conversations.
+
+-- { "key_topics": [...], "customer_intent": "...", "resolution_status": "pending",
+--   "sentiment_progression": [{ "turn": 3, "sentiment": "negative" }], "next_steps": [...],
+--   "turns_summarized": 20, "last_turn_id": "turn_...", "generated_by": "model", "generated_at": "..." }
+ALTER TABLE conversation_contexts ADD COLUMN IF NOT EXISTS structured_summary JSONB;
+
+ALTER TABLE conversation_contexts ADD CONSTRAINT structured_summary_is_object
+    CHECK (structured_summary IS NULL OR jsonb_typeof(structured_summary) = 'object');
+
+-- Find conversations by what they were about
+CREATE INDEX IF NOT EXISTS idx_conversation_contexts_summary_topics
+    ON conversation_contexts USING GIN ((structured_summary -> 'key_topics'));
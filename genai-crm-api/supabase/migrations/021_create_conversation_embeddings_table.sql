@@ -0,0 +1,108 @@
+-- Embedding index over conversation turns (live and archived) and conversation summaries,
+-- for semantic conversation search
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS conversation_embeddings (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id VARCHAR(100) NOT NULL REFERENCES conversation_contexts(conversation_id) ON DELETE CASCADE,
+    customer_id UUID NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+    -- The turn id, or 'summary' for the conversation's structured summary
+    item_key VARCHAR(100) NOT NULL,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('turn', 'summary')),
+    role VARCHAR(20) CHECK (role IN ('user', 'assistant', 'system')),
+    content TEXT NOT NULL,
+    content_tsv TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED,
+    -- Dimensions depend on the embedding model, so the column is untyped and only vectors
+    -- from the same model are compared
+    embedding VECTOR NOT NULL,
+    model VARCHAR(100) NOT NULL,
+    -- True once the turn has been moved to conversation_archives
+    archived BOOLEAN NOT NULL DEFAULT false,
+    turn_timestamp TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_conversation_embedding UNIQUE (conversation_id, item_key, model)
+);
+
+-- Create updated_at trigger for conversation_embeddings
+CREATE TRIGGER update_conversation_embeddings_updated_at
+    BEFORE UPDATE ON conversation_embeddings
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE conversation_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- Same visibility as the conversation itself
+CREATE POLICY "Allow users to read their conversation embeddings"
+    ON conversation_embeddings FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM conversation_contexts cc
+            WHERE cc.conversation_id = conversation_embeddings.conversation_id
+            AND (cc.agent_id = auth.uid() OR (auth.jwt() ->> 'role')::text = 'admin')
+        )
+    );
+
+CREATE POLICY "Allow users to index their conversations"
+    ON conversation_embeddings FOR ALL
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM conversation_contexts cc
+            WHERE cc.conversation_id = conversation_embeddings.conversation_id
+            AND (cc.agent_id = auth.uid() OR (auth.jwt() ->> 'role')::text = 'admin')
+        )
+    )
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM conversation_contexts cc
+            WHERE cc.conversation_id = conversation_embeddings.conversation_id
+            AND (cc.agent_id = auth.uid() OR (auth.jwt() ->> 'role')::text = 'admin')
+        )
+    );
+
+-- Create indexes for performance
+-- Searches are scoped to one customer, so candidates are narrowed by customer and model
+-- before distances are computed
+CREATE INDEX IF NOT EXISTS idx_conversation_embeddings_customer ON conversation_embeddings(customer_id, model);
+CREATE INDEX IF NOT EXISTS idx_conversation_embeddings_tsv ON conversation_embeddings USING GIN (content_tsv);
+
+-- Nearest items to a query embedding for one customer, by cosine similarity
+CREATE OR REPLACE FUNCTION match_conversation_embeddings(
+    query_embedding VECTOR,
+    match_customer_id UUID,
+    match_model TEXT,
+    match_count INTEGER DEFAULT 50
+)
+RETURNS TABLE (
+    conversation_id VARCHAR,
+    item_key VARCHAR,
+    source VARCHAR,
+    role VARCHAR,
+    content TEXT,
+    archived BOOLEAN,
+    turn_timestamp TIMESTAMP WITH TIME ZONE,
+    similarity DOUBLE PRECISION
+)
+LANGUAGE sql STABLE
+AS $$
+    SELECT
+        e.conversation_id,
+        e.item_key,
+        e.source,
+        e.role,
+        e.content,
+        e.archived,
+        e.turn_timestamp,
+        1 - (e.embedding <=> query_embedding) AS similarity
+    FROM conversation_embeddings e
+    WHERE e.customer_id = match_customer_id
+      AND e.model = match_model
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count;
+$$;
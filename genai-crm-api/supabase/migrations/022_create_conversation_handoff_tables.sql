@@ -0,0 +1,136 @@
+-- Conversation handoffs between agents and teams, ownership history and agent notifications
+
+-- A conversation handed to a team has no agent until someone on the team accepts it.
+-- Agents belong to the team named in their user metadata (user_metadata.team).
+ALTER TABLE conversation_contexts ADD COLUMN IF NOT EXISTS team VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_contexts_team ON conversation_contexts(team, status) WHERE agent_id IS NULL;
+
+CREATE TABLE IF NOT EXISTS conversation_handoffs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id VARCHAR(100) NOT NULL REFERENCES conversation_contexts(conversation_id) ON DELETE CASCADE,
+    from_agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    to_agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    to_team VARCHAR(50),
+    reason TEXT NOT NULL,
+    -- { "summary": "...", "open_questions": [...], "promised_actions": [...], "customer_intent": "...",
+    --   "resolution_status": "pending", "recent_sentiment": "negative", "generated_by": "model" }
+    brief JSONB NOT NULL,
+    initiated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- Set when the receiving agent (or, for a team, whoever picks it up) accepts
+    accepted_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    accepted_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT handoff_has_target CHECK (to_agent_id IS NOT NULL OR to_team IS NOT NULL),
+    CONSTRAINT handoff_reason_length CHECK (LENGTH(TRIM(reason)) > 0 AND LENGTH(reason) <= 2000)
+);
+
+-- Who owned each conversation when. Work is attributed to the owner of the period it
+-- happened in; end_reason is 'handoff' or the status the conversation was closed with.
+CREATE TABLE IF NOT EXISTS conversation_ownership (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id VARCHAR(100) NOT NULL REFERENCES conversation_contexts(conversation_id) ON DELETE CASCADE,
+    agent_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    team VARCHAR(50),
+    -- The handoff that started this period; null for the conversation's first owner
+    handoff_id UUID REFERENCES conversation_handoffs(id) ON DELETE SET NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ended_at TIMESTAMP WITH TIME ZONE,
+    end_reason VARCHAR(20) CHECK (end_reason IN ('handoff', 'accepted', 'resolved', 'escalated', 'closed')),
+
+    -- Constraints
+    CONSTRAINT ownership_period_order CHECK (ended_at IS NULL OR ended_at >= started_at),
+    CONSTRAINT ownership_end_reason CHECK ((ended_at IS NULL) = (end_reason IS NULL))
+);
+
+-- One open ownership period per conversation
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_ownership_open
+    ON conversation_ownership(conversation_id) WHERE ended_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS agent_notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- An agent, or every agent on a team
+    recipient_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    recipient_team VARCHAR(50),
+    type VARCHAR(30) NOT NULL CHECK (type IN ('handoff')),
+    title VARCHAR(200) NOT NULL,
+    body TEXT,
+    data JSONB NOT NULL DEFAULT '{}',
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT notification_has_recipient CHECK (recipient_id IS NOT NULL OR recipient_team IS NOT NULL)
+);
+
+-- Backfill the current owner of existing conversations
+INSERT INTO conversation_ownership (conversation_id, agent_id, started_at, ended_at, end_reason)
+SELECT
+    cc.conversation_id,
+    cc.agent_id,
+    cc.created_at,
+    CASE WHEN cc.status <> 'active' THEN GREATEST(cc.updated_at, cc.created_at) END,
+    CASE WHEN cc.status <> 'active' THEN cc.status END
+FROM conversation_contexts cc
+WHERE NOT EXISTS (
+    SELECT 1 FROM conversation_ownership co WHERE co.conversation_id = cc.conversation_id
+);
+
+-- Per-agent attribution: conversations owned, handoffs in and out, and how their
+-- ownership periods ended
+CREATE OR REPLACE VIEW agent_conversation_attribution AS
+SELECT
+    co.agent_id,
+    COUNT(DISTINCT co.conversation_id) AS conversations,
+    COUNT(*) FILTER (WHERE co.handoff_id IS NOT NULL) AS handoffs_received,
+    COUNT(*) FILTER (WHERE co.end_reason = 'handoff') AS handoffs_given,
+    COUNT(*) FILTER (WHERE co.end_reason = 'resolved') AS resolved,
+    COUNT(*) FILTER (WHERE co.end_reason = 'escalated') AS escalated,
+    COUNT(*) FILTER (WHERE co.ended_at IS NULL) AS active,
+    ROUND(SUM(EXTRACT(EPOCH FROM (COALESCE(co.ended_at, NOW()) - co.started_at))) / 60.0, 1) AS ownership_minutes
+FROM conversation_ownership co
+WHERE co.agent_id IS NOT NULL
+GROUP BY co.agent_id;
+
+-- Enable Row Level Security
+ALTER TABLE conversation_handoffs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE conversation_ownership ENABLE ROW LEVEL SECURITY;
+ALTER TABLE agent_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Agents see the handoffs they gave or received; supervisors and admins see all
+CREATE POLICY "Allow agents to read their handoffs"
+    ON conversation_handoffs FOR SELECT
+    TO authenticated
+    USING (
+        from_agent_id = auth.uid() OR
+        to_agent_id = auth.uid() OR
+        to_team = (auth.jwt() -> 'user_metadata' ->> 'team') OR
+        (auth.jwt() ->> 'role')::text IN ('admin', 'supervisor')
+    );
+
+CREATE POLICY "Allow supervisors to read conversation_ownership"
+    ON conversation_ownership FOR SELECT
+    TO authenticated
+    USING (agent_id = auth.uid() OR (auth.jwt() ->> 'role')::text IN ('admin', 'supervisor'));
+
+-- Agents read and mark their own and their team's notifications
+CREATE POLICY "Allow agents to manage their notifications"
+    ON agent_notifications FOR ALL
+    TO authenticated
+    USING (
+        recipient_id = auth.uid() OR
+        recipient_team = (auth.jwt() -> 'user_metadata' ->> 'team')
+    );
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_conversation_handoffs_conversation ON conversation_handoffs(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_conversation_handoffs_to_agent ON conversation_handoffs(to_agent_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_conversation_ownership_conversation ON conversation_ownership(conversation_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_conversation_ownership_agent ON conversation_ownership(agent_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_notifications_recipient ON agent_notifications(recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_agent_notifications_team ON agent_notifications(recipient_team, created_at DESC) WHERE recipient_team IS NOT NULL;
+
+-- Enable real-time so the dashboard hears about handoffs as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE agent_notifications;
@@ -0,0 +1,21 @@
+-- Display names of agents for transcript exports. Agents live in auth.users, which the
+-- API's anon key can't read, so this exposes only the id and the name from user metadata
+-- (null when unset; the export falls back to "Agent").
+CREATE OR REPLACE FUNCTION agent_display_names(agent_ids UUID[])
+RETURNS TABLE (
+    id UUID,
+    name TEXT
+)
+LANGUAGE sql STABLE
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+    SELECT
+        u.id,
+        NULLIF(u.raw_user_meta_data ->> 'name', '') AS name
+    FROM auth.users u
+    WHERE u.id = ANY(agent_ids);
+$$;
+
+REVOKE ALL ON FUNCTION agent_display_names(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION agent_display_names(UUID[]) TO authenticated, anon;
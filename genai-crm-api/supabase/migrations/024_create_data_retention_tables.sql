@@ -0,0 +1,361 @@
+-- Retention policies per organization, the scheduled purge they drive, and GDPR erasure
+-- of a customer with an auditable receipt
+
+-- Conversations belong to the organization of the agent who started them; retention
+-- policies are applied per organization
+ALTER TABLE conversation_contexts ADD COLUMN IF NOT EXISTS organization_id VARCHAR(100);
+-- Set when retention removed the turns and only the summary was kept
+ALTER TABLE conversation_contexts ADD COLUMN IF NOT EXISTS turns_purged_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_conversation_contexts_org_created
+    ON conversation_contexts(organization_id, created_at) WHERE status <> 'active';
+
+CREATE TABLE IF NOT EXISTS retention_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- '*' is the default for organizations without a policy of their own, and for data
+    -- with no organization
+    organization_id VARCHAR(100) NOT NULL,
+    -- Days after a closed conversation started before its turns are deleted; null keeps them
+    turn_retention_days INTEGER CHECK (turn_retention_days IS NULL OR turn_retention_days > 0),
+    -- Whether the summary outlives the turns; when false the whole conversation is deleted
+    keep_summaries BOOLEAN NOT NULL DEFAULT true,
+    -- Days before the query and response text of AI logs is scrubbed; usage and cost stay
+    ai_log_retention_days INTEGER CHECK (ai_log_retention_days IS NULL OR ai_log_retention_days > 0),
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_retention_policy_org UNIQUE (organization_id)
+);
+
+CREATE TABLE IF NOT EXISTS retention_purge_runs (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- Null when the scheduler started the run
+    triggered_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+    -- { "<organization_id>": { "conversations_trimmed": 3, "conversations_deleted": 0, ... } }
+    results JSONB NOT NULL DEFAULT '{}',
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Proof that a customer's data was erased. Holds the customer id only: the person's
+-- details are what was erased.
+CREATE TABLE IF NOT EXISTS data_erasure_receipts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    customer_id UUID NOT NULL,
+    mode VARCHAR(20) NOT NULL CHECK (mode IN ('delete', 'anonymize')),
+    reason TEXT NOT NULL,
+    -- The data subject's request, e.g. a ticket number
+    request_reference VARCHAR(200),
+    requested_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    -- Rows deleted or anonymized per table
+    affected JSONB NOT NULL,
+    -- SHA-256 over the receipt's contents, so later edits are detectable
+    receipt_hash VARCHAR(64) NOT NULL,
+    completed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT erasure_reason_length CHECK (LENGTH(TRIM(reason)) > 0 AND LENGTH(reason) <= 2000)
+);
+
+-- Create updated_at trigger for retention_policies
+CREATE TRIGGER update_retention_policies_updated_at
+    BEFORE UPDATE ON retention_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Keep everything until an admin configures retention
+INSERT INTO retention_policies (organization_id, turn_retention_days, keep_summaries, ai_log_retention_days)
+VALUES ('*', NULL, true, NULL)
+ON CONFLICT (organization_id) DO NOTHING;
+
+-- Applies one policy. The default policy ('*') covers rows with no organization or
+-- whose organization has no policy of its own (p_excluded_orgs).
+CREATE OR REPLACE FUNCTION apply_retention_policy(
+    p_organization_id TEXT,
+    p_excluded_orgs TEXT[],
+    p_turn_retention_days INTEGER,
+    p_keep_summaries BOOLEAN,
+    p_ai_log_retention_days INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    is_default BOOLEAN := p_organization_id = '*';
+    expired_ids TEXT[];
+    expired_responses UUID[];
+    trimmed INTEGER := 0;
+    deleted INTEGER := 0;
+    archives_deleted INTEGER := 0;
+    embeddings_deleted INTEGER := 0;
+    responses_scrubbed INTEGER := 0;
+BEGIN
+    IF p_turn_retention_days IS NOT NULL THEN
+        SELECT COALESCE(array_agg(cc.conversation_id), '{}') INTO expired_ids
+        FROM conversation_contexts cc
+        WHERE cc.status <> 'active'
+          AND cc.created_at < NOW() - make_interval(days => p_turn_retention_days)
+          AND (p_keep_summaries = false OR cc.turns_purged_at IS NULL)
+          AND CASE WHEN is_default
+                THEN cc.organization_id IS NULL OR NOT (cc.organization_id = ANY(p_excluded_orgs))
+                ELSE cc.organization_id = p_organization_id
+              END;
+
+        DELETE FROM conversation_archives WHERE conversation_id = ANY(expired_ids);
+        GET DIAGNOSTICS archives_deleted = ROW_COUNT;
+
+        IF p_keep_summaries THEN
+            DELETE FROM conversation_embeddings
+            WHERE conversation_id = ANY(expired_ids) AND source = 'turn';
+            GET DIAGNOSTICS embeddings_deleted = ROW_COUNT;
+
+            UPDATE conversation_contexts
+            SET turns = '[]', turns_purged_at = NOW()
+            WHERE conversation_id = ANY(expired_ids);
+            GET DIAGNOSTICS trimmed = ROW_COUNT;
+        ELSE
+            -- Embeddings, handoffs and ownership history go with the conversation
+            DELETE FROM conversation_contexts WHERE conversation_id = ANY(expired_ids);
+            GET DIAGNOSTICS deleted = ROW_COUNT;
+        END IF;
+    END IF;
+
+    IF p_ai_log_retention_days IS NOT NULL THEN
+        SELECT COALESCE(array_agg(ar.id), '{}') INTO expired_responses
+        FROM ai_responses ar
+        WHERE ar.created_at < NOW() - make_interval(days => p_ai_log_retention_days)
+          AND ar.query <> '[purged]'
+          AND CASE WHEN is_default
+                THEN ar.organization_id IS NULL OR NOT (ar.organization_id = ANY(p_excluded_orgs))
+                ELSE ar.organization_id = p_organization_id
+              END;
+
+        UPDATE ai_responses
+        SET query = '[purged]', response = '[purged]', context = '{}'
+        WHERE id = ANY(expired_responses);
+        GET DIAGNOSTICS responses_scrubbed = ROW_COUNT;
+
+        -- Snapshots of the same exchanges
+        UPDATE ai_review_items
+        SET query = '[purged]', original_response = '[purged]', corrected_response = NULL
+        WHERE response_id = ANY(expired_responses);
+
+        UPDATE ai_response_feedback
+        SET query = NULL, response = NULL, corrected_response = NULL, reason = NULL
+        WHERE response_id = ANY(expired_responses);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'conversations_trimmed', trimmed,
+        'conversations_deleted', deleted,
+        'archives_deleted', archives_deleted,
+        'embeddings_deleted', embeddings_deleted,
+        'ai_responses_scrubbed', responses_scrubbed
+    );
+END;
+$$;
+
+-- Which tools an AI response called, without the inputs and outputs, which hold
+-- customer records
+CREATE OR REPLACE FUNCTION strip_tool_call_details(p_calls JSONB)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT CASE WHEN jsonb_typeof(p_calls) = 'array'
+        THEN COALESCE((
+            SELECT jsonb_agg(
+                jsonb_build_object('id', c -> 'id', 'name', c -> 'name', 'duration_ms', c -> 'duration_ms')
+                ORDER BY n
+            )
+            FROM jsonb_array_elements(p_calls) WITH ORDINALITY AS e(c, n)
+        ), '[]')
+        ELSE p_calls
+    END;
+$$;
+
+-- Strips the tool calls of the turns that recorded one of the AI responses
+CREATE OR REPLACE FUNCTION strip_turn_tool_calls(p_turns JSONB, p_response_ids UUID[])
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE
+SET search_path = public
+AS $$
+    SELECT COALESCE(jsonb_agg(
+        CASE WHEN t -> 'metadata' ->> 'ai_response_id' = ANY(p_response_ids::text[]) AND t -> 'metadata' ? 'tool_calls'
+            THEN jsonb_set(t, '{metadata,tool_calls}', strip_tool_call_details(t -> 'metadata' -> 'tool_calls'))
+            ELSE t
+        END
+        ORDER BY n
+    ), '[]')
+    FROM jsonb_array_elements(p_turns) WITH ORDINALITY AS e(t, n);
+$$;
+
+-- Erases a customer in one transaction. 'delete' removes the customer and everything
+-- about them; 'anonymize' keeps the customer and interaction rows, stripped of personal
+-- data, so aggregate analytics still add up. Conversations are deleted in both modes,
+-- since free text can't be reliably anonymized, and AI logs are always scrubbed rather
+-- than deleted so usage and cost accounting stay intact.
+CREATE OR REPLACE FUNCTION erase_customer_data(p_customer_id UUID, p_mode TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    response_ids UUID[];
+    -- Containment patterns matching a turn that recorded one of the customer's AI responses
+    response_turns JSONB[];
+    counts JSONB := '{}';
+    affected INTEGER;
+BEGIN
+    IF p_mode NOT IN ('delete', 'anonymize') THEN
+        RAISE EXCEPTION 'Unknown erasure mode: %', p_mode;
+    END IF;
+
+    SELECT COALESCE(array_agg(id), '{}') INTO response_ids
+    FROM ai_responses WHERE customer_id = p_customer_id;
+
+    SELECT COALESCE(array_agg(jsonb_build_array(jsonb_build_object('metadata', jsonb_build_object('ai_response_id', id::text)))), '{}')
+    INTO response_turns
+    FROM unnest(response_ids) AS id;
+
+    DELETE FROM conversation_embeddings WHERE customer_id = p_customer_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('conversation_embeddings', affected);
+
+    DELETE FROM conversation_archives
+    WHERE conversation_id IN (SELECT conversation_id FROM conversation_contexts WHERE customer_id = p_customer_id);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('conversation_archives', affected);
+
+    DELETE FROM agent_notifications WHERE data ->> 'customer_id' = p_customer_id::text;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('agent_notifications', affected);
+
+    DELETE FROM conversation_contexts WHERE customer_id = p_customer_id;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('conversation_contexts', affected);
+
+    -- The customer's AI responses can be recorded in another customer's conversation; the
+    -- tool calls on those turns hold the customer's contact details
+    UPDATE conversation_contexts
+    SET turns = strip_turn_tool_calls(turns, response_ids)
+    WHERE turns @> ANY(response_turns);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('conversation_contexts_scrubbed', affected);
+
+    UPDATE conversation_archives
+    SET archived_turns = strip_turn_tool_calls(archived_turns, response_ids)
+    WHERE archived_turns @> ANY(response_turns);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('conversation_archives_scrubbed', affected);
+
+    -- Reviewers' comments quote the exchange
+    DELETE FROM ai_review_comments
+    WHERE item_id IN (
+        SELECT id FROM ai_review_items
+        WHERE customer_id = p_customer_id OR response_id = ANY(response_ids)
+    );
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('ai_review_comments', affected);
+
+    UPDATE ai_review_items
+    SET query = '[erased]', original_response = '[erased]', corrected_response = NULL, customer_id = NULL
+    WHERE customer_id = p_customer_id OR response_id = ANY(response_ids);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('ai_review_items', affected);
+
+    UPDATE ai_response_feedback
+    SET query = NULL, response = NULL, corrected_response = NULL, reason = NULL
+    WHERE response_id = ANY(response_ids);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('ai_response_feedback', affected);
+
+    UPDATE ai_responses
+    SET query = '[erased]', response = '[erased]', context = '{}', customer_id = NULL, interaction_id = NULL,
+        metadata = CASE WHEN metadata ? 'tool_calls'
+            THEN jsonb_set(metadata, '{tool_calls}', strip_tool_call_details(metadata -> 'tool_calls'))
+            ELSE metadata
+        END
+    WHERE id = ANY(response_ids);
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('ai_responses', affected);
+
+    UPDATE analytics
+    SET dimensions = dimensions - 'customer_id'
+    WHERE dimensions ->> 'customer_id' = p_customer_id::text;
+    GET DIAGNOSTICS affected = ROW_COUNT;
+    counts := counts || jsonb_build_object('analytics', affected);
+
+    IF p_mode = 'delete' THEN
+        DELETE FROM interactions WHERE customer_id = p_customer_id;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        counts := counts || jsonb_build_object('interactions', affected);
+
+        DELETE FROM customers WHERE id = p_customer_id;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        counts := counts || jsonb_build_object('customers', affected);
+    ELSE
+        UPDATE interactions
+        SET content = '[erased]', ai_suggestions = '[]', metadata = '{}'
+        WHERE customer_id = p_customer_id;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        counts := counts || jsonb_build_object('interactions', affected);
+
+        UPDATE customers
+        SET name = 'Erased customer',
+            email = 'erased-' || p_customer_id::text || '@erased.invalid',
+            phone = NULL,
+            company = NULL,
+            metadata = jsonb_build_object('erased_at', NOW())
+        WHERE id = p_customer_id;
+        GET DIAGNOSTICS affected = ROW_COUNT;
+        counts := counts || jsonb_build_object('customers', affected);
+    END IF;
+
+    RETURN counts;
+END;
+$$;
+
+-- Both functions bypass row level security, so only the API's service role may call
+-- them; the admin-only /privacy routes are the way in
+REVOKE ALL ON FUNCTION apply_retention_policy(TEXT, TEXT[], INTEGER, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION erase_customer_data(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_retention_policy(TEXT, TEXT[], INTEGER, BOOLEAN, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION erase_customer_data(UUID, TEXT) TO service_role;
+
+-- Enable Row Level Security
+ALTER TABLE retention_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE retention_purge_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE data_erasure_receipts ENABLE ROW LEVEL SECURITY;
+
+-- Only admins manage retention and see erasure receipts
+CREATE POLICY "Allow admins to manage retention_policies"
+    ON retention_policies FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
+
+CREATE POLICY "Allow admins to read retention_purge_runs"
+    ON retention_purge_runs FOR SELECT
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Receipts are never updated or deleted through the API
+CREATE POLICY "Allow admins to read data_erasure_receipts"
+    ON data_erasure_receipts FOR SELECT
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin');
+
+-- Create indexes for performance
+CREATE INDEX IF NOT EXISTS idx_ai_responses_created ON ai_responses(created_at);
+CREATE INDEX IF NOT EXISTS idx_retention_purge_runs_started ON retention_purge_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_data_erasure_receipts_customer ON data_erasure_receipts(customer_id, created_at DESC);
@@ -0,0 +1,6 @@
+-- Supervisors' whispers to agents on live conversations are kept as notifications, so an
+-- agent who wasn't connected when one was sent still sees it
+
+ALTER TABLE agent_notifications DROP CONSTRAINT IF EXISTS agent_notifications_type_check;
+ALTER TABLE agent_notifications
+    ADD CONSTRAINT agent_notifications_type_check CHECK (type IN ('handoff', 'whisper'));
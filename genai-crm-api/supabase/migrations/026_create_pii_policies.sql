@@ -0,0 +1,39 @@
+-- Which personal data each organization keeps away from the model, and whether it is
+-- tokenized (restored in the agent's response) or redacted for good
+
+CREATE TABLE IF NOT EXISTS pii_policies (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- '*' is the default for organizations without a policy of their own
+    organization_id VARCHAR(100) NOT NULL,
+    enabled BOOLEAN NOT NULL DEFAULT true,
+    mode VARCHAR(20) NOT NULL DEFAULT 'tokenize' CHECK (mode IN ('tokenize', 'redact')),
+    -- Detector types to run, e.g. {email,phone,iban}; null runs all of them
+    detectors TEXT[],
+    updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_pii_policy_org UNIQUE (organization_id)
+);
+
+-- Create updated_at trigger for pii_policies
+CREATE TRIGGER update_pii_policies_updated_at
+    BEFORE UPDATE ON pii_policies
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security
+ALTER TABLE pii_policies ENABLE ROW LEVEL SECURITY;
+
+-- Every request applies a policy, but only admins change them
+CREATE POLICY "Allow authenticated users to read pii_policies"
+    ON pii_policies FOR SELECT
+    TO authenticated
+    USING (true);
+
+CREATE POLICY "Allow admins to manage pii_policies"
+    ON pii_policies FOR ALL
+    TO authenticated
+    USING ((auth.jwt() ->> 'role')::text = 'admin')
+    WITH CHECK ((auth.jwt() ->> 'role')::text = 'admin');
@@ -0,0 +1,39 @@
+-- Token and cost totals for one budget scope, summed in the database. Selecting the rows
+-- through PostgREST is capped at its row limit, so busy organizations were undercounted.
+CREATE OR REPLACE FUNCTION get_ai_usage(
+    p_scope_type TEXT,
+    p_scope_id TEXT,
+    p_since TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (
+    tokens BIGINT,
+    cost_usd NUMERIC
+)
+LANGUAGE plpgsql STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    -- Separate queries so each uses idx_ai_responses_user_date or idx_ai_responses_org_date
+    IF p_scope_type = 'agent' THEN
+        RETURN QUERY
+        SELECT
+            COALESCE(SUM(COALESCE(ar.input_tokens, 0) + COALESCE(ar.output_tokens, 0)), 0)::BIGINT,
+            COALESCE(SUM(COALESCE(ar.cost_usd, 0)), 0)::NUMERIC
+        FROM ai_responses ar
+        WHERE ar.user_id = p_scope_id::uuid AND ar.created_at >= p_since;
+    ELSE
+        RETURN QUERY
+        SELECT
+            COALESCE(SUM(COALESCE(ar.input_tokens, 0) + COALESCE(ar.output_tokens, 0)), 0)::BIGINT,
+            COALESCE(SUM(COALESCE(ar.cost_usd, 0)), 0)::NUMERIC
+        FROM ai_responses ar
+        WHERE ar.organization_id = p_scope_id AND ar.created_at >= p_since;
+    END IF;
+END;
+$$;
+
+-- Any organization's or agent's spend can be read with it, so only the API's service
+-- role may call it
+REVOKE ALL ON FUNCTION get_ai_usage(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_ai_usage(TEXT, TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -18,6 +18,9 @@ import Customers from '@/pages/Customers'
 import CustomerDetail from '@/pages/CustomerDetail'
 import Analytics from '@/pages/Analytics'
 import AIAssistant from '@/pages/AIAssistant'
+import ReviewQueue from '@/pages/ReviewQueue'
+import LiveConversations from '@/pages/LiveConversations'
+import SOPAccuracy from '@/pages/SOPAccuracy'
 import Reports from '@/pages/Reports'
 import Settings from '@/pages/Settings'
 import SimpleRepositorySettings from '@/components/repository/SimpleRepositorySettings'
@@ -83,6 +86,9 @@ function App() {
                     <Route path="customers/:id" element={<CustomerDetail />} />
                     <Route path="analytics" element={<Analytics />} />
                     <Route path="ai-chat" element={<AIAssistant />} />
+                    <Route path="reviews" element={<ReviewQueue />} />
+                    <Route path="live" element={<LiveConversations />} />
+                    <Route path="sops" element={<SOPAccuracy />} />
                     <Route path="reports" element={<Reports />} />
                     <Route path="settings" element={<Settings />} />
                     <Route path="repositories" element={<SimpleRepositorySettings />} />
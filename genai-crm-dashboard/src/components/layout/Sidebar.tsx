@@ -10,6 +10,8 @@ import {
   X,
   Home,
   Database,
+  ClipboardCheck,
+  Radio,
 } from 'lucide-react'
 
 interface SidebarProps {
@@ -35,6 +37,16 @@ const navigation: NavItem[] = [
     icon: MessageSquare,
     badge: 'New'
   },
+  {
+    name: 'Review Queue',
+    href: '/reviews',
+    icon: ClipboardCheck,
+  },
+  {
+    name: 'Live Conversations',
+    href: '/live',
+    icon: Radio,
+  },
   {
     name: 'Analytics',
     href: '/analytics',
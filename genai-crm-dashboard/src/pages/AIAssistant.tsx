@@ -26,6 +26,8 @@ import { FloatingLabelInput } from '@/components/ui/FloatingLabelInput'
 import { FloatingLabelTextarea } from '@/components/ui/FloatingLabelTextarea'
 import { ConfluenceMCPManager } from '@/services/confluence'
 import type { EnhancedAIResponse, CustomerQuery } from '@/services/confluence'
+import { api } from '@/services/api'
+import type { FeedbackRating } from '@/types'
 import toast from 'react-hot-toast'
 
 interface QueryForm {
@@ -36,6 +38,14 @@ interface QueryForm {
   priority: 'low' | 'medium' | 'high' | 'urgent'
 }
 
+interface FeedbackDraft {
+  reason: string
+  correctedResponse: string
+  wrongSopUrls: string[]
+}
+
+const emptyFeedbackDraft: FeedbackDraft = { reason: '', correctedResponse: '', wrongSopUrls: [] }
+
 interface ConfluenceStats {
   total: number
   byCategory: Record<string, number>
@@ -76,7 +86,11 @@ const initializeConfluenceManager = async () => {
 export default function AIAssistant() {
   const [aiResponse, setAIResponse] = useState<EnhancedAIResponse | null>(null)
   const [isLoading, setIsLoading] = useState(false)
-  const [feedback, setFeedback] = useState<'accurate' | 'inaccurate' | null>(null)
+  const [feedback, setFeedback] = useState<FeedbackRating | null>(null)
+  const [lastQuery, setLastQuery] = useState<CustomerQuery | null>(null)
+  const [showFeedbackForm, setShowFeedbackForm] = useState(false)
+  const [feedbackDraft, setFeedbackDraft] = useState<FeedbackDraft>(emptyFeedbackDraft)
+  const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false)
   const [confluenceStats, setConfluenceStats] = useState<ConfluenceStats | null>(null)
   const [isConfluenceReady, setIsConfluenceReady] = useState(false)
   const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error'>('idle')
@@ -140,6 +154,9 @@ export default function AIAssistant() {
 
     setIsLoading(true)
     setAIResponse(null)
+    setFeedback(null)
+    setShowFeedbackForm(false)
+    setFeedbackDraft(emptyFeedbackDraft)
     
     try {
       const query: CustomerQuery = {
@@ -154,6 +171,7 @@ export default function AIAssistant() {
       const response = await confluenceManager.processCustomerQuery(query)
       
       setAIResponse(response)
+      setLastQuery(query)
       toast.success(`AI response generated with ${response.totalSOPsConsulted} SOPs consulted`)
     } catch (error) {
       console.error('❌ Error processing query:', error)
@@ -188,9 +206,51 @@ export default function AIAssistant() {
     })
   }
 
-  const handleFeedback = (type: 'accurate' | 'inaccurate') => {
-    setFeedback(type)
-    toast.success(`Feedback recorded: ${type}`)
+  // Thumbs up is recorded straight away; thumbs down asks what was wrong first
+  const handleFeedback = (type: FeedbackRating) => {
+    if (type === 'inaccurate') {
+      setShowFeedbackForm(true)
+      return
+    }
+
+    setShowFeedbackForm(false)
+    submitFeedback('accurate', emptyFeedbackDraft)
+  }
+
+  const submitFeedback = async (rating: FeedbackRating, draft: FeedbackDraft) => {
+    if (!aiResponse) return
+
+    setIsSubmittingFeedback(true)
+    try {
+      await api.submitFeedback({
+        rating,
+        reason: draft.reason.trim() || undefined,
+        corrected_response: draft.correctedResponse.trim() || undefined,
+        wrong_sop_urls: draft.wrongSopUrls,
+        sop_sources: aiResponse.sopSources.map(({ title, url, version }) => ({ title, url, version })),
+        query: lastQuery ? [lastQuery.voc, lastQuery.agentHelpText].filter(Boolean).join('\n\n') : undefined,
+        response: aiResponse.suggestedResponse,
+        ticket_id: lastQuery?.ticketId,
+      })
+
+      setFeedback(rating)
+      setShowFeedbackForm(false)
+      toast.success(`Feedback recorded: ${rating}`)
+    } catch (error) {
+      console.error('❌ Error recording feedback:', error)
+      toast.error('Failed to record feedback. Please try again.')
+    } finally {
+      setIsSubmittingFeedback(false)
+    }
+  }
+
+  const toggleWrongSop = (url: string) => {
+    setFeedbackDraft(draft => ({
+      ...draft,
+      wrongSopUrls: draft.wrongSopUrls.includes(url)
+        ? draft.wrongSopUrls.filter(u => u !== url)
+        : [...draft.wrongSopUrls, url],
+    }))
   }
 
   const getStatusIcon = () => {
@@ -485,6 +545,7 @@ export default function AIAssistant() {
               <div className="flex items-center space-x-1">
                 <button
                   onClick={() => handleFeedback('accurate')}
+                  disabled={isSubmittingFeedback}
                   className={`p-2 rounded-lg transition-colors ${
                     feedback === 'accurate'
                       ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400'
@@ -495,6 +556,7 @@ export default function AIAssistant() {
                 </button>
                 <button
                   onClick={() => handleFeedback('inaccurate')}
+                  disabled={isSubmittingFeedback}
                   className={`p-2 rounded-lg transition-colors ${
                     feedback === 'inaccurate'
                       ? 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'
@@ -507,6 +569,65 @@ export default function AIAssistant() {
             </div>
           </div>
 
+          {/* Inaccurate answer details */}
+          {showFeedbackForm && (
+            <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800 space-y-4">
+              <h4 className="font-medium text-gray-900 dark:text-white">What was wrong with this answer?</h4>
+
+              <textarea
+                value={feedbackDraft.reason}
+                onChange={(e) => setFeedbackDraft(draft => ({ ...draft, reason: e.target.value }))}
+                rows={2}
+                maxLength={2000}
+                placeholder="Reason (optional)"
+                className="w-full p-3 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+
+              <textarea
+                value={feedbackDraft.correctedResponse}
+                onChange={(e) => setFeedbackDraft(draft => ({ ...draft, correctedResponse: e.target.value }))}
+                rows={4}
+                maxLength={10000}
+                placeholder="Corrected answer (optional)"
+                className="w-full p-3 text-sm rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+
+              {aiResponse.sopSources.length > 0 && (
+                <div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">Which SOP was wrong or outdated?</p>
+                  <div className="space-y-1">
+                    {aiResponse.sopSources.map((source) => (
+                      <label key={source.url} className="flex items-center space-x-2 text-sm text-gray-800 dark:text-gray-200">
+                        <input
+                          type="checkbox"
+                          checked={feedbackDraft.wrongSopUrls.includes(source.url)}
+                          onChange={() => toggleWrongSop(source.url)}
+                        />
+                        <span>{source.title}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={() => setShowFeedbackForm(false)}
+                  className="btn-sm btn-outline"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => submitFeedback('inaccurate', feedbackDraft)}
+                  disabled={isSubmittingFeedback}
+                  className="btn-sm btn-primary"
+                >
+                  {isSubmittingFeedback ? 'Sending...' : 'Send feedback'}
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             {/* Process Steps */}
             <div>
@@ -13,12 +13,20 @@ import { api } from '@/services/api'
 import { ConversationTurn, ConfluencePage } from '@/types'
 import SOPBrowser from '@/components/sop/SOPBrowser'
 
+const LANGUAGE_LABELS: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  pt: 'Portuguese',
+}
+
 interface Message extends ConversationTurn {
   suggestions?: Array<{
     type: 'direct' | 'detailed' | 'empathetic'
     text: string
     confidence: number
   }>
+  streaming?: boolean
 }
 
 export default function AIChat() {
@@ -29,6 +37,7 @@ export default function AIChat() {
   const [showSOPBrowser, setShowSOPBrowser] = useState(false)
   const [sopSuggestions, setSOPSuggestions] = useState<ConfluencePage[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
+  const streamControllerRef = useRef<AbortController | null>(null)
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' })
@@ -38,6 +47,15 @@ export default function AIChat() {
     scrollToBottom()
   }, [messages])
 
+  // Cancel any in-flight stream when leaving the page
+  useEffect(() => {
+    return () => streamControllerRef.current?.abort()
+  }, [])
+
+  const updateMessage = (messageId: string, update: (message: Message) => Message) => {
+    setMessages(prev => prev.map(message => (message.id === messageId ? update(message) : message)))
+  }
+
   // Get customers for selection
   const { data: customersData } = useQuery({
     queryKey: ['customers'],
@@ -53,41 +71,60 @@ export default function AIChat() {
     },
   })
 
-  // Send message mutation
+  // Send message mutation - the answer is streamed token by token into the assistant message
   const sendMessageMutation = useMutation({
-    mutationFn: ({ query, customerId }: { query: string; customerId?: string }) =>
-      api.processAIQuery({ query, customer_id: customerId }),
-    onSuccess: (data, variables) => {
-      // Add user message
+    mutationFn: ({ query, customerId, messageId }: { query: string; customerId?: string; messageId: string }) => {
+      streamControllerRef.current?.abort()
+      const controller = new AbortController()
+      streamControllerRef.current = controller
+
+      return api.streamAIQuery(
+        { query, customer_id: customerId },
+        {
+          signal: controller.signal,
+          onToken: (text) => updateMessage(messageId, message => ({ ...message, content: message.content + text })),
+        }
+      )
+    },
+    onMutate: ({ query, messageId }) => {
       const userMessage: Message = {
         id: Date.now().toString(),
         role: 'user',
-        content: variables.query,
+        content: query,
         timestamp: new Date().toISOString(),
       }
 
-      // Add AI response
+      // Placeholder that fills in as tokens arrive
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: messageId,
         role: 'assistant',
-        content: data.data?.response || 'No response',
+        content: '',
         timestamp: new Date().toISOString(),
-        suggestions: data.data?.suggestions,
-        metadata: {
-          confidence_score: data.data?.confidence_score,
-          processing_time_ms: data.data?.processing_time_ms,
-          intent: data.data?.intent,
-          sentiment: data.data?.sentiment,
-        },
+        streaming: true,
       }
 
       setMessages(prev => [...prev, userMessage, aiMessage])
       setInputValue('')
+    },
+    onSuccess: (data, variables) => {
+      updateMessage(variables.messageId, message => ({
+        ...message,
+        content: data.response || 'No response',
+        streaming: false,
+        suggestions: data.suggestions,
+        metadata: {
+          confidence_score: data.confidence_score,
+          processing_time_ms: data.processing_time_ms,
+          intent: data.intent,
+          sentiment: data.sentiment,
+          language: data.language,
+        },
+      }))
 
       // Add conversation turn if we have a conversation ID
       if (conversationId) {
-        api.addConversationTurn(conversationId, 'user', variables.query)
-        api.addConversationTurn(conversationId, 'assistant', data.data?.response || '')
+        api.addConversationTurn(conversationId, 'user', variables.query, { language: data.language })
+        api.addConversationTurn(conversationId, 'assistant', data.response || '', { language: data.language })
       }
 
       // Get SOP suggestions
@@ -95,6 +132,14 @@ export default function AIChat() {
         getSopSuggestions(variables.query)
       }
     },
+    onError: (error: Error, variables) => {
+      const aborted = error.name === 'AbortError'
+      updateMessage(variables.messageId, message => ({
+        ...message,
+        streaming: false,
+        content: aborted ? message.content : message.content || `Sorry, something went wrong: ${error.message}`,
+      }))
+    },
   })
 
   // Get SOP suggestions mutation
@@ -124,6 +169,7 @@ export default function AIChat() {
     sendMessageMutation.mutate({
       query: inputValue.trim(),
       customerId: selectedCustomer || undefined,
+      messageId: `${Date.now()}_assistant`,
     })
   }
 
@@ -132,6 +178,7 @@ export default function AIChat() {
   }
 
   const clearConversation = () => {
+    streamControllerRef.current?.abort()
     setMessages([])
     setConversationId(null)
     setSelectedCustomer(null)
@@ -254,13 +301,24 @@ export default function AIChat() {
                             : 'bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700'
                         }`}
                       >
-                        <p className="text-sm">{message.content}</p>
+                        {message.streaming && !message.content ? (
+                          <div className="loading-spinner" />
+                        ) : (
+                          <p className="text-sm whitespace-pre-wrap">
+                            {message.content}
+                            {message.streaming && (
+                              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse" />
+                            )}
+                          </p>
+                        )}
                         
                         {message.metadata && (
                           <div className="mt-2 text-xs opacity-75">
                             Confidence: {Math.round((message.metadata.confidence_score || 0) * 100)}%
                             {message.metadata.intent && ` • Intent: ${message.metadata.intent}`}
                             {message.metadata.sentiment && ` • Sentiment: ${message.metadata.sentiment}`}
+                            {message.metadata.language &&
+                              ` • Language: ${LANGUAGE_LABELS[message.metadata.language] || message.metadata.language}`}
                           </div>
                         )}
                       </div>
@@ -0,0 +1,272 @@
+import { useEffect, useRef, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Activity, Bot, Lightbulb, MessageSquare, Radio, Send, User as UserIcon } from 'lucide-react'
+import toast from 'react-hot-toast'
+import { api } from '@/services/api'
+import type { ApiResponse, ConversationEvent, ConversationTurn, LiveConversation, LiveMessage, Sentiment } from '@/types'
+
+const SENTIMENT_CLASSES: Record<Sentiment, string> = {
+  positive: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  neutral: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  negative: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+}
+
+const STATUS_CLASSES: Record<LiveConversation['status'], string> = {
+  active: 'text-green-600 dark:text-green-400',
+  escalated: 'text-orange-600 dark:text-orange-400',
+  resolved: 'text-blue-600 dark:text-blue-400',
+  closed: 'text-gray-500 dark:text-gray-400',
+}
+
+const SENTIMENTS: Sentiment[] = ['positive', 'neutral', 'negative']
+
+// Events of the selected conversation after its turns were loaded
+type FeedItem =
+  | { kind: 'turn'; turn: ConversationTurn }
+  | { kind: 'suggestion'; event: Extract<ConversationEvent, { type: 'suggestion' }> }
+  | { kind: 'whisper'; event: Extract<ConversationEvent, { type: 'whisper' }> }
+
+// Applies a conversation event to the list; returns null when the list needs reloading
+function applyEvent(conversations: LiveConversation[], event: ConversationEvent): LiveConversation[] | null {
+  if (event.type === 'started') {
+    return conversations.some(c => c.conversation_id === event.conversation_id) ? conversations : null
+  }
+
+  return conversations.map(conversation => {
+    if (conversation.conversation_id !== event.conversation_id) return conversation
+
+    switch (event.type) {
+      case 'turn': {
+        const sentiment = event.turn.metadata?.sentiment
+        return {
+          ...conversation,
+          turn_count: conversation.turn_count + 1,
+          last_turn: event.turn,
+          latest_sentiment: SENTIMENTS.includes(sentiment) ? sentiment : conversation.latest_sentiment,
+          updated_at: event.at,
+        }
+      }
+      case 'status':
+        return { ...conversation, status: event.status, updated_at: event.at }
+      case 'assigned':
+        return { ...conversation, agent_id: event.agent_id, team: event.team, updated_at: event.at }
+      default:
+        return conversation
+    }
+  })
+}
+
+export default function LiveConversations() {
+  const queryClient = useQueryClient()
+  const [connected, setConnected] = useState(false)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [feed, setFeed] = useState<FeedItem[]>([])
+  const [whisper, setWhisper] = useState('')
+
+  const { data: listData, isLoading } = useQuery({
+    queryKey: ['live-conversations'],
+    queryFn: () => api.getLiveConversations(),
+  })
+
+  const { data: detailData } = useQuery({
+    queryKey: ['conversation', selectedId],
+    queryFn: () => api.getConversation(selectedId!),
+    enabled: !!selectedId,
+  })
+
+  const conversations = listData?.data || []
+  const selected = conversations.find(c => c.conversation_id === selectedId)
+
+  // Live events start from the turns loaded for the selected conversation
+  useEffect(() => {
+    setFeed((detailData?.data?.turns || []).map(turn => ({ kind: 'turn' as const, turn })))
+  }, [detailData])
+
+  // The socket handler outlives renders, so it reads the selection through a ref
+  const selectedRef = useRef(selectedId)
+  useEffect(() => {
+    selectedRef.current = selectedId
+  }, [selectedId])
+
+  useEffect(() => {
+    const handleMessage = (message: LiveMessage) => {
+      if (message.type === 'error') {
+        toast.error(message.message)
+        return
+      }
+      if (!('at' in message)) return
+
+      const current = queryClient.getQueryData<ApiResponse<LiveConversation[]>>(['live-conversations'])
+      if (current?.data) {
+        const next = applyEvent(current.data, message)
+        if (next) {
+          queryClient.setQueryData(['live-conversations'], { ...current, data: next })
+        } else {
+          queryClient.invalidateQueries(['live-conversations'])
+        }
+      }
+
+      if (message.conversation_id !== selectedRef.current) return
+
+      if (message.type === 'turn') {
+        setFeed(items => items.some(item => item.kind === 'turn' && item.turn.id === message.turn.id)
+          ? items
+          : [...items, { kind: 'turn', turn: message.turn }])
+      } else if (message.type === 'suggestion') {
+        setFeed(items => [...items, { kind: 'suggestion', event: message }])
+      } else if (message.type === 'whisper') {
+        setFeed(items => [...items, { kind: 'whisper', event: message }])
+      }
+    }
+
+    return api.openLiveUpdates({ all: true }, handleMessage, setConnected)
+  }, [queryClient])
+
+  const whisperMutation = useMutation({
+    mutationFn: ({ id, text }: { id: string; text: string }) => api.whisperToAgent(id, text),
+    onSuccess: () => {
+      setWhisper('')
+      toast.success('Sent to the agent')
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
+            Live Conversations
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Active conversations across all agents, updated as they happen.
+          </p>
+        </div>
+        <span className={`inline-flex items-center text-sm font-medium ${connected ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+          <Radio className="w-4 h-4 mr-1" />
+          {connected ? 'Live' : 'Connecting...'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Conversation List */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          {isLoading ? (
+            <div className="p-4 space-y-3 animate-pulse">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+              ))}
+            </div>
+          ) : conversations.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              <Activity className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+              No active conversations.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {conversations.map(conversation => (
+                <li key={conversation.conversation_id}>
+                  <button
+                    onClick={() => setSelectedId(conversation.conversation_id)}
+                    className={`w-full text-left p-4 transition-colors ${
+                      selectedId === conversation.conversation_id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className={`text-xs font-medium ${STATUS_CLASSES[conversation.status]}`}>
+                        {conversation.status}
+                      </span>
+                      {conversation.latest_sentiment && (
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SENTIMENT_CLASSES[conversation.latest_sentiment]}`}>
+                          {conversation.latest_sentiment}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-sm text-gray-900 dark:text-white line-clamp-2">
+                      {conversation.last_turn?.content || 'No messages yet'}
+                    </p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {conversation.agent_id ? `Agent ${conversation.agent_id.slice(0, 8)}` : `Queued for ${conversation.team || 'a team'}`}
+                      {` · ${conversation.turn_count} turns · ${new Date(conversation.updated_at).toLocaleTimeString()}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Conversation Detail */}
+        <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+          {!selected ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+              Select a conversation to follow it.
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="text-sm text-gray-500 dark:text-gray-400">
+                Customer {selected.customer_id.slice(0, 8)} · started {new Date(selected.created_at).toLocaleString()}
+              </div>
+
+              <ul className="space-y-3 max-h-[28rem] overflow-y-auto">
+                {feed.map((item, index) => {
+                  if (item.kind === 'turn') {
+                    const Icon = item.turn.role === 'user' ? UserIcon : item.turn.role === 'assistant' ? Bot : MessageSquare
+                    return (
+                      <li key={item.turn.id} className="flex text-sm">
+                        <Icon className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0 text-gray-400" />
+                        <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{item.turn.content}</p>
+                      </li>
+                    )
+                  }
+                  if (item.kind === 'suggestion') {
+                    return (
+                      <li key={`suggestion-${index}`} className="text-sm bg-purple-50 dark:bg-purple-900/20 rounded-lg p-3">
+                        <p className="font-medium text-purple-700 dark:text-purple-300 flex items-center mb-1">
+                          <Lightbulb className="w-4 h-4 mr-1" />
+                          AI suggestions
+                        </p>
+                        <ul className="space-y-1 text-gray-700 dark:text-gray-300">
+                          {item.event.suggestions.map(suggestion => (
+                            <li key={suggestion.type}>{suggestion.text}</li>
+                          ))}
+                        </ul>
+                      </li>
+                    )
+                  }
+                  return (
+                    <li key={`whisper-${index}`} className="text-sm bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-3">
+                      <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{item.event.text}</p>
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Whisper · {new Date(item.event.at).toLocaleTimeString()}
+                      </p>
+                    </li>
+                  )
+                })}
+              </ul>
+
+              <div className="flex space-x-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <input
+                  value={whisper}
+                  onChange={(e) => setWhisper(e.target.value)}
+                  placeholder="Whisper a suggestion to the agent"
+                  disabled={selected.status !== 'active'}
+                  className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent disabled:opacity-50"
+                />
+                <button
+                  onClick={() => whisperMutation.mutate({ id: selected.conversation_id, text: whisper.trim() })}
+                  disabled={!whisper.trim() || selected.status !== 'active' || whisperMutation.isLoading}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Send className="w-4 h-4 mr-1" />
+                  Send
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,324 @@
+import { useEffect, useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import {
+  AlertTriangle,
+  CheckCircle,
+  ClipboardCheck,
+  Clock,
+  Edit3,
+  MessageCircle,
+  UserCheck,
+  XCircle,
+} from 'lucide-react'
+import toast from 'react-hot-toast'
+import { api } from '@/services/api'
+import { StatsCard } from '@/components/ui/StatsCard'
+import type { ReviewDecision, ReviewItem } from '@/types'
+
+type QueueFilter = 'all' | 'me' | 'none'
+
+const FILTERS: Array<{ key: QueueFilter; label: string }> = [
+  { key: 'all', label: 'All open' },
+  { key: 'me', label: 'Assigned to me' },
+  { key: 'none', label: 'Unassigned' },
+]
+
+const PRIORITY_CLASSES: Record<ReviewItem['priority'], string> = {
+  critical: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  high: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  medium: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300',
+  low: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+}
+
+const SLA_CLASSES: Record<ReviewItem['sla_status'], string> = {
+  on_track: 'text-green-600 dark:text-green-400',
+  due_soon: 'text-yellow-600 dark:text-yellow-400',
+  breached: 'text-red-600 dark:text-red-400',
+  met: 'text-green-600 dark:text-green-400',
+  missed: 'text-red-600 dark:text-red-400',
+}
+
+const REASON_LABELS: Record<string, string> = {
+  low_quality: 'Low quality',
+  escalation: 'Escalation',
+}
+
+// "2h 15m left" / "35m overdue"
+function formatRemaining(ms: number | null): string {
+  if (ms === null) return 'Reviewed'
+  const minutes = Math.round(Math.abs(ms) / 60000)
+  const text = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`
+  return ms < 0 ? `${text} overdue` : `${text} left`
+}
+
+export default function ReviewQueue() {
+  const queryClient = useQueryClient()
+  const [filter, setFilter] = useState<QueueFilter>('all')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [correctedResponse, setCorrectedResponse] = useState('')
+  const [comment, setComment] = useState('')
+
+  const { data: statsData } = useQuery({
+    queryKey: ['review-stats'],
+    queryFn: () => api.getReviewStats(),
+    refetchInterval: 60000,
+  })
+
+  const { data: itemsData, isLoading } = useQuery({
+    queryKey: ['review-items', filter],
+    queryFn: () => api.getReviewItems({ assignedTo: filter === 'all' ? undefined : filter }),
+    refetchInterval: 60000, // Keep SLA timers current
+  })
+
+  const { data: detailData } = useQuery({
+    queryKey: ['review-item', selectedId],
+    queryFn: () => api.getReviewItem(selectedId!),
+    enabled: !!selectedId,
+  })
+
+  const items = itemsData?.data || []
+  const stats = statsData?.data
+  const selected = detailData?.data
+
+  // Start each edit from the AI's answer
+  useEffect(() => {
+    setCorrectedResponse(selected?.corrected_response || selected?.original_response || '')
+    setComment('')
+  }, [selected?.id])
+
+  const refreshQueue = () => {
+    queryClient.invalidateQueries(['review-items'])
+    queryClient.invalidateQueries(['review-stats'])
+    queryClient.invalidateQueries(['review-item', selectedId])
+  }
+
+  const assignMutation = useMutation({
+    mutationFn: (id: string) => api.assignReviewItem(id),
+    onSuccess: () => {
+      toast.success('Assigned to you')
+      refreshQueue()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const resolveMutation = useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: ReviewDecision }) =>
+      api.resolveReviewItem(id, decision, {
+        correctedResponse: decision === 'edit' ? correctedResponse : undefined,
+        comment: comment.trim() || undefined,
+      }),
+    onSuccess: (response) => {
+      toast.success(response.message || 'Review saved')
+      setSelectedId(null)
+      refreshQueue()
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const commentMutation = useMutation({
+    mutationFn: ({ id, body }: { id: string; body: string }) => api.addReviewComment(id, body),
+    onSuccess: () => {
+      setComment('')
+      queryClient.invalidateQueries(['review-item', selectedId])
+    },
+    onError: (error: Error) => toast.error(error.message),
+  })
+
+  const edited = !!selected && correctedResponse.trim() !== selected.original_response.trim()
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
+          Review Queue
+        </h1>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+          AI responses with low quality scores or escalation flags, waiting for a human check.
+        </p>
+      </div>
+
+      {/* Queue Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatsCard title="Pending" value={String(stats?.pending ?? '-')} change="Not yet picked up" icon={ClipboardCheck} color="blue" />
+        <StatsCard title="In Review" value={String(stats?.in_review ?? '-')} change="Assigned to a reviewer" icon={UserCheck} color="purple" />
+        <StatsCard title="Due Soon" value={String(stats?.due_soon ?? '-')} change="Under 25% of SLA left" icon={Clock} color="orange" />
+        <StatsCard title="SLA Breached" value={String(stats?.breached ?? '-')} change={`${stats?.reviewed_last_7_days ?? 0} reviewed in 7 days`} icon={AlertTriangle} color="red" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Item List */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          <div className="flex space-x-2 p-4 border-b border-gray-200 dark:border-gray-700">
+            {FILTERS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setFilter(option.key)}
+                className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                  filter === option.key
+                    ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                    : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {isLoading ? (
+            <div className="p-4 space-y-3 animate-pulse">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+              ))}
+            </div>
+          ) : items.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              <CheckCircle className="w-8 h-8 mx-auto mb-2 text-green-500" />
+              Nothing waiting for review.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {items.map(item => (
+                <li key={item.id}>
+                  <button
+                    onClick={() => setSelectedId(item.id)}
+                    className={`w-full text-left p-4 transition-colors ${
+                      selectedId === item.id ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <div className="flex items-center justify-between mb-1">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${PRIORITY_CLASSES[item.priority]}`}>
+                        {item.priority}
+                      </span>
+                      <span className={`text-xs font-medium flex items-center ${SLA_CLASSES[item.sla_status]}`}>
+                        <Clock className="w-3 h-3 mr-1" />
+                        {formatRemaining(item.time_remaining_ms)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-900 dark:text-white line-clamp-2">{item.query}</p>
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      {item.reasons.map(reason => REASON_LABELS[reason] || reason).join(' · ')}
+                      {item.quality_score !== undefined && item.quality_score !== null && ` · score ${item.quality_score}/10`}
+                      {item.status === 'in_review' && ' · in review'}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Item Detail */}
+        <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+          {!selected ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+              Select an item to review it.
+            </div>
+          ) : (
+            <div className="space-y-5">
+              <div className="flex items-center justify-between">
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                  Due {new Date(selected.due_at).toLocaleString()}
+                  {selected.escalation_level && ` · escalation: ${selected.escalation_level}`}
+                </div>
+                {!selected.assigned_to && (
+                  <button
+                    onClick={() => assignMutation.mutate(selected.id)}
+                    disabled={assignMutation.isLoading}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg text-blue-700 bg-blue-100 hover:bg-blue-200 dark:bg-blue-900/30 dark:text-blue-300 disabled:opacity-50"
+                  >
+                    <UserCheck className="w-4 h-4 mr-1" />
+                    Assign to me
+                  </button>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Customer query</h4>
+                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{selected.query}</p>
+              </div>
+
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-1 flex items-center">
+                  <Edit3 className="w-4 h-4 mr-1" />
+                  AI response {edited && <span className="ml-2 text-xs font-normal text-blue-600">edited</span>}
+                </h4>
+                <textarea
+                  value={correctedResponse}
+                  onChange={(e) => setCorrectedResponse(e.target.value)}
+                  rows={8}
+                  className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 p-3 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              {selected.comments.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white mb-2 flex items-center">
+                    <MessageCircle className="w-4 h-4 mr-1" />
+                    Comments
+                  </h4>
+                  <ul className="space-y-2">
+                    {selected.comments.map(entry => (
+                      <li key={entry.id} className="text-sm bg-gray-50 dark:bg-gray-700/50 rounded-lg p-3">
+                        <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{entry.body}</p>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {new Date(entry.created_at).toLocaleString()}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex space-x-2">
+                <input
+                  value={comment}
+                  onChange={(e) => setComment(e.target.value)}
+                  placeholder="Reviewer comment (required to reject)"
+                  className="flex-1 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 px-3 py-2 text-sm text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                <button
+                  onClick={() => commentMutation.mutate({ id: selected.id, body: comment })}
+                  disabled={!comment.trim() || commentMutation.isLoading}
+                  className="px-3 py-2 text-sm font-medium rounded-lg text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                >
+                  Comment
+                </button>
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-2 border-t border-gray-200 dark:border-gray-700">
+                <button
+                  onClick={() => resolveMutation.mutate({ id: selected.id, decision: 'reject' })}
+                  disabled={!comment.trim() || resolveMutation.isLoading}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-red-700 bg-red-100 hover:bg-red-200 dark:bg-red-900/30 dark:text-red-300 disabled:opacity-50"
+                >
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Reject
+                </button>
+                {edited ? (
+                  <button
+                    onClick={() => resolveMutation.mutate({ id: selected.id, decision: 'edit' })}
+                    disabled={!correctedResponse.trim() || resolveMutation.isLoading}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Edit3 className="w-4 h-4 mr-1" />
+                    Save correction
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => resolveMutation.mutate({ id: selected.id, decision: 'approve' })}
+                    disabled={resolveMutation.isLoading}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium rounded-lg text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-1" />
+                    Approve
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
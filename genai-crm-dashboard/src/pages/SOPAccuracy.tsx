@@ -0,0 +1,185 @@
+import { useMemo, useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { AlertTriangle, BookOpen, ExternalLink, FileText, ThumbsDown, ThumbsUp } from 'lucide-react'
+import { api } from '@/services/api'
+import { StatsCard } from '@/components/ui/StatsCard'
+
+const PERIODS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+]
+
+// SOPs whose answers are rated accurate less often than this are highlighted
+const LOW_ACCURACY = 70
+
+export default function SOPAccuracy() {
+  const [days, setDays] = useState(30)
+  const [selectedUrl, setSelectedUrl] = useState<string | null>(null)
+
+  const startDate = useMemo(() => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString(), [days])
+
+  const { data: accuracyData, isLoading } = useQuery({
+    queryKey: ['sop-accuracy', days],
+    queryFn: () => api.getSOPAccuracy({ startDate }),
+  })
+
+  const { data: feedbackData } = useQuery({
+    queryKey: ['sop-feedback', selectedUrl],
+    queryFn: () => api.getFeedback({ sopUrl: selectedUrl!, rating: 'inaccurate', limit: 20 }),
+    enabled: !!selectedUrl,
+  })
+
+  const sops = accuracyData?.data || []
+  const selected = sops.find(sop => sop.url === selectedUrl)
+  const complaints = feedbackData?.data || []
+
+  const rated = sops.reduce((sum, sop) => sum + sop.rated, 0)
+  const accurate = sops.reduce((sum, sop) => sum + sop.accurate, 0)
+  const flagged = sops.reduce((sum, sop) => sum + sop.flagged_wrong, 0)
+  const lowAccuracy = sops.filter(sop => sop.accuracy_rate < LOW_ACCURACY).length
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900 dark:text-white">
+            SOP Accuracy
+          </h1>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            How often agents rate AI answers citing each SOP as accurate, worst first.
+          </p>
+        </div>
+        <div className="flex space-x-2">
+          {PERIODS.map(period => (
+            <button
+              key={period.days}
+              onClick={() => setDays(period.days)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-lg transition-colors ${
+                days === period.days
+                  ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300'
+                  : 'text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+              }`}
+            >
+              {period.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatsCard title="SOPs Rated" value={String(sops.length)} change={`${rated} ratings`} icon={FileText} color="blue" />
+        <StatsCard
+          title="Answer Accuracy"
+          value={rated > 0 ? `${Math.round((accurate / rated) * 100)}%` : '-'}
+          change="Across cited SOPs"
+          icon={ThumbsUp}
+          color="green"
+        />
+        <StatsCard title={`Below ${LOW_ACCURACY}%`} value={String(lowAccuracy)} change="SOPs to revisit" icon={AlertTriangle} color="orange" />
+        <StatsCard title="Flagged Wrong" value={String(flagged)} change="Named by agents as the cause" icon={ThumbsDown} color="red" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* SOP List */}
+        <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+          {isLoading ? (
+            <div className="p-4 space-y-3 animate-pulse">
+              {[...Array(4)].map((_, i) => (
+                <div key={i} className="h-12 bg-gray-200 dark:bg-gray-700 rounded-lg" />
+              ))}
+            </div>
+          ) : sops.length === 0 ? (
+            <div className="p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              <BookOpen className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+              No rated answers cite an SOP in this period.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="p-4 font-medium">SOP</th>
+                  <th className="p-4 font-medium text-right">Accuracy</th>
+                  <th className="p-4 font-medium text-right">Ratings</th>
+                  <th className="p-4 font-medium text-right">Flagged</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                {sops.map(sop => (
+                  <tr
+                    key={sop.url}
+                    onClick={() => setSelectedUrl(sop.url)}
+                    className={`cursor-pointer transition-colors ${
+                      selectedUrl === sop.url ? 'bg-blue-50 dark:bg-blue-900/20' : 'hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                    }`}
+                  >
+                    <td className="p-4 text-gray-900 dark:text-white">{sop.title}</td>
+                    <td className={`p-4 text-right font-medium ${
+                      sop.accuracy_rate < LOW_ACCURACY ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                    }`}>
+                      {sop.accuracy_rate}%
+                    </td>
+                    <td className="p-4 text-right text-gray-600 dark:text-gray-300">{sop.rated}</td>
+                    <td className="p-4 text-right text-gray-600 dark:text-gray-300">{sop.flagged_wrong}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Inaccurate answers for the selected SOP */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-xl p-6 shadow-sm border border-gray-200 dark:border-gray-700">
+          {!selected ? (
+            <div className="h-full flex items-center justify-center text-sm text-gray-500 dark:text-gray-400">
+              Select an SOP to see what agents reported.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold text-gray-900 dark:text-white">{selected.title}</h3>
+                <a
+                  href={selected.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center text-xs text-blue-600 dark:text-blue-400"
+                >
+                  Open in Confluence
+                  <ExternalLink className="w-3 h-3 ml-1" />
+                </a>
+              </div>
+
+              {complaints.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No inaccurate ratings for this SOP.</p>
+              ) : (
+                <ul className="space-y-3">
+                  {complaints.map(item => (
+                    <li key={item.id} className="p-3 bg-gray-50 dark:bg-gray-700 rounded-lg text-sm">
+                      <div className="flex items-center justify-between mb-1 text-xs text-gray-500 dark:text-gray-400">
+                        <span>{new Date(item.created_at).toLocaleString()}</span>
+                        {item.wrong_sop_urls.includes(selected.url) && (
+                          <span className="px-2 py-0.5 rounded-full bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300">
+                            Named as wrong
+                          </span>
+                        )}
+                      </div>
+                      {item.query && <p className="text-gray-900 dark:text-white line-clamp-2">{item.query}</p>}
+                      {item.reason && <p className="mt-1 text-gray-700 dark:text-gray-300">“{item.reason}”</p>}
+                      {item.corrected_response && (
+                        <p className="mt-1 text-green-700 dark:text-green-400 line-clamp-3">
+                          Correction: {item.corrected_response}
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -8,12 +8,29 @@ import type {
   Interaction,
   AIQueryRequest,
   AIResponse,
+  CalibratedConfidence,
   DashboardMetrics,
   RealTimeMetric,
   ReportData,
   ScheduledReport,
   AlertRule,
   ConversationContext,
+  ConversationHandoff,
+  HandoffHistory,
+  AgentNotification,
+  LiveConversation,
+  LiveMessage,
+  TranscriptFormat,
+  ReviewItem,
+  ReviewItemDetail,
+  ReviewComment,
+  ReviewQueueStats,
+  ReviewDecision,
+  ReviewStatus,
+  FeedbackRating,
+  FeedbackSubmission,
+  ResponseFeedback,
+  SOPAccuracy,
   ConfluenceSpace,
   ConfluencePage,
   ConfluenceSearchResult,
@@ -232,6 +249,81 @@ class ApiService {
     })
   }
 
+  // Maps a 0-1 confidence score through the server's calibration curves
+  async calibrateConfidence(confidence: number, intent?: string, model?: string): Promise<ApiResponse<CalibratedConfidence>> {
+    return this.request('/ai/confidence/calibrate', {
+      method: 'POST',
+      body: JSON.stringify({ confidence, intent, model }),
+    })
+  }
+
+  // Streams the answer over Server-Sent Events; onToken receives partial text as it arrives.
+  // Resolves with the full response once the server sends the final `done` event.
+  async streamAIQuery(
+    request: AIQueryRequest,
+    options: { onToken: (text: string) => void; signal?: AbortSignal }
+  ): Promise<AIResponse> {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    const response = await fetch(`${API_BASE_URL}/ai/query/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+        ...(session?.access_token && {
+          Authorization: `Bearer ${session.access_token}`,
+        }),
+      },
+      body: JSON.stringify(request),
+      signal: options.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      if (response.status === 401) {
+        await supabase.auth.signOut()
+        window.location.href = '/auth/signin'
+        throw new Error('Unauthorized')
+      }
+      throw new Error(`HTTP ${response.status}`)
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let text = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const events = buffer.split('\n\n')
+      buffer = events.pop() || ''
+
+      for (const rawEvent of events) {
+        let eventName = 'message'
+        let data = ''
+        rawEvent.split('\n').forEach((line) => {
+          if (line.startsWith('event:')) eventName = line.slice(6).trim()
+          else if (line.startsWith('data:')) data += line.slice(5).trim()
+        })
+        if (!data) continue
+
+        const payload = JSON.parse(data)
+        if (eventName === 'token') {
+          text += payload.text
+          options.onToken(payload.text)
+        } else if (eventName === 'done') {
+          return { ...payload, response: text }
+        } else if (eventName === 'error') {
+          throw new Error(payload.message || payload.error || 'AI processing failed')
+        }
+      }
+    }
+
+    throw new Error('Stream ended before the response was complete')
+  }
+
   async generateSuggestions(
     query: string,
     interactionType: string,
@@ -285,6 +377,257 @@ class ApiService {
     return this.request('/ai/enhanced/conversations/active')
   }
 
+  // Transcript downloads; the server answers with the file rather than JSON
+  async exportConversationTranscript(
+    conversationId: string,
+    format: TranscriptFormat,
+    options: { redact?: boolean; names?: boolean } = {}
+  ): Promise<Blob> {
+    const params = new URLSearchParams({ format })
+    if (options.redact) params.append('redact', 'true')
+    if (options.names) params.append('names', 'true')
+
+    return this.download(`/ai/enhanced/conversation/${conversationId}/export?${params}`)
+  }
+
+  async exportTranscripts(filters: {
+    from: string
+    to: string
+    agentId?: string
+    format?: TranscriptFormat
+    redact?: boolean
+    names?: boolean
+  }): Promise<Blob> {
+    const params = new URLSearchParams({ from: filters.from, to: filters.to })
+    if (filters.agentId) params.append('agent_id', filters.agentId)
+    if (filters.format) params.append('format', filters.format)
+    if (filters.redact) params.append('redact', 'true')
+    if (filters.names) params.append('names', 'true')
+
+    return this.download(`/ai/enhanced/conversations/export?${params}`)
+  }
+
+  private async download(endpoint: string): Promise<Blob> {
+    const { data: { session } } = await supabase.auth.getSession()
+
+    const response = await fetch(`${API_BASE_URL}${endpoint}`, {
+      headers: {
+        ...(session?.access_token && {
+          Authorization: `Bearer ${session.access_token}`,
+        }),
+      },
+    })
+
+    if (!response.ok) {
+      if (response.status === 401) {
+        await supabase.auth.signOut()
+        window.location.href = '/auth/signin'
+        throw new Error('Unauthorized')
+      }
+
+      let errorMessage = `HTTP ${response.status}`
+      try {
+        const errorData = await response.json()
+        errorMessage = errorData.message || errorData.error || errorMessage
+      } catch {
+        // Ignore JSON parsing errors
+      }
+
+      throw new Error(errorMessage)
+    }
+
+    return response.blob()
+  }
+
+  // Handoff API
+  async handoffConversation(
+    conversationId: string,
+    target: { toAgentId?: string; toTeam?: string },
+    reason: string
+  ): Promise<ApiResponse<{ handoff: ConversationHandoff; conversation: ConversationContext }>> {
+    return this.request(`/ai/enhanced/conversation/${conversationId}/handoff`, {
+      method: 'POST',
+      body: JSON.stringify({
+        to_agent_id: target.toAgentId,
+        to_team: target.toTeam,
+        reason,
+      }),
+    })
+  }
+
+  async getConversationHandoffs(conversationId: string): Promise<ApiResponse<HandoffHistory>> {
+    return this.request(`/ai/enhanced/conversation/${conversationId}/handoffs`)
+  }
+
+  async acceptHandoff(handoffId: string): Promise<ApiResponse<ConversationHandoff>> {
+    return this.request(`/ai/enhanced/handoffs/${handoffId}/accept`, {
+      method: 'POST',
+    })
+  }
+
+  // Live Conversations API
+  async getLiveConversations(): Promise<ApiResponse<LiveConversation[]>> {
+    return this.request('/ai/enhanced/conversations/live')
+  }
+
+  async whisperToAgent(conversationId: string, text: string): Promise<ApiResponse<void>> {
+    return this.request(`/ai/enhanced/conversation/${conversationId}/whisper`, {
+      method: 'POST',
+      body: JSON.stringify({ text }),
+    })
+  }
+
+  // Opens the live updates WebSocket and keeps it open, reconnecting with backoff and
+  // subscribing again each time, until the returned function is called
+  openLiveUpdates(
+    subscription: { all?: boolean; conversationIds?: string[] },
+    onMessage: (message: LiveMessage) => void,
+    onConnectionChange?: (connected: boolean) => void
+  ): () => void {
+    let socket: WebSocket | null = null
+    let retryTimer: ReturnType<typeof setTimeout> | undefined
+    let attempts = 0
+    let stopped = false
+
+    const connect = async () => {
+      const { data: { session } } = await supabase.auth.getSession()
+      if (stopped) return
+
+      const url = new URL(`${API_BASE_URL}/live`, window.location.href)
+      url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:'
+      const current = new WebSocket(url)
+      socket = current
+
+      // Browsers can't set headers on a WebSocket, so the token is the first message
+      current.onopen = () => {
+        current.send(JSON.stringify({ type: 'auth', token: session?.access_token || '' }))
+      }
+
+      current.onmessage = (event) => {
+        const message: LiveMessage = JSON.parse(event.data)
+
+        if (message.type === 'ready') {
+          attempts = 0
+          onConnectionChange?.(true)
+          if (subscription.all) {
+            current.send(JSON.stringify({ type: 'subscribe_all' }))
+          }
+          for (const conversationId of subscription.conversationIds || []) {
+            current.send(JSON.stringify({ type: 'subscribe', conversation_id: conversationId }))
+          }
+        }
+
+        onMessage(message)
+      }
+
+      current.onclose = () => {
+        onConnectionChange?.(false)
+        if (!stopped) {
+          retryTimer = setTimeout(connect, Math.min(30000, 1000 * 2 ** attempts++))
+        }
+      }
+    }
+
+    connect()
+
+    return () => {
+      stopped = true
+      clearTimeout(retryTimer)
+      socket?.close()
+    }
+  }
+
+  // Notifications API
+  async getNotifications(filters: { unread?: boolean; limit?: number } = {}): Promise<ApiResponse<AgentNotification[]>> {
+    const params = new URLSearchParams()
+    if (filters.unread) params.append('unread', 'true')
+    if (filters.limit) params.append('limit', filters.limit.toString())
+
+    return this.request(`/notifications?${params}`)
+  }
+
+  async markNotificationRead(id: string): Promise<ApiResponse<AgentNotification>> {
+    return this.request(`/notifications/${id}/read`, {
+      method: 'POST',
+    })
+  }
+
+  // Review Queue API
+  async getReviewItems(filters: {
+    status?: ReviewStatus[]
+    assignedTo?: 'me' | 'none' | string
+    reason?: 'low_quality' | 'escalation'
+  } = {}): Promise<ApiResponse<ReviewItem[]>> {
+    const params = new URLSearchParams()
+    if (filters.status?.length) params.append('status', filters.status.join(','))
+    if (filters.assignedTo) params.append('assigned_to', filters.assignedTo)
+    if (filters.reason) params.append('reason', filters.reason)
+
+    return this.request(`/ai/reviews?${params}`)
+  }
+
+  async getReviewStats(): Promise<ApiResponse<ReviewQueueStats>> {
+    return this.request('/ai/reviews/stats')
+  }
+
+  async getReviewItem(id: string): Promise<ApiResponse<ReviewItemDetail>> {
+    return this.request(`/ai/reviews/${id}`)
+  }
+
+  async assignReviewItem(id: string, assigneeId?: string): Promise<ApiResponse<ReviewItem>> {
+    return this.request(`/ai/reviews/${id}/assign`, {
+      method: 'POST',
+      body: JSON.stringify({ assignee_id: assigneeId }),
+    })
+  }
+
+  async resolveReviewItem(
+    id: string,
+    decision: ReviewDecision,
+    details: { correctedResponse?: string; comment?: string } = {}
+  ): Promise<ApiResponse<ReviewItem>> {
+    return this.request(`/ai/reviews/${id}/${decision}`, {
+      method: 'POST',
+      body: JSON.stringify({
+        corrected_response: details.correctedResponse,
+        comment: details.comment,
+      }),
+    })
+  }
+
+  async addReviewComment(id: string, body: string): Promise<ApiResponse<ReviewComment>> {
+    return this.request(`/ai/reviews/${id}/comments`, {
+      method: 'POST',
+      body: JSON.stringify({ body }),
+    })
+  }
+
+  // Feedback API
+  async submitFeedback(feedback: FeedbackSubmission): Promise<ApiResponse<ResponseFeedback>> {
+    return this.request('/ai/feedback', {
+      method: 'POST',
+      body: JSON.stringify(feedback),
+    })
+  }
+
+  async getSOPAccuracy(range: { startDate?: string; endDate?: string; minRatings?: number } = {}): Promise<ApiResponse<SOPAccuracy[]>> {
+    const params = new URLSearchParams()
+    if (range.startDate) params.append('start_date', range.startDate)
+    if (range.endDate) params.append('end_date', range.endDate)
+    if (range.minRatings) params.append('min_ratings', range.minRatings.toString())
+
+    return this.request(`/ai/feedback/sops?${params}`)
+  }
+
+  async getFeedback(filters: { rating?: FeedbackRating; sopUrl?: string; limit?: number } = {}): Promise<ApiResponse<ResponseFeedback[]>> {
+    const params = new URLSearchParams()
+    if (filters.rating) params.append('rating', filters.rating)
+    if (filters.sopUrl) params.append('sop_url', filters.sopUrl)
+    if (filters.limit) params.append('limit', filters.limit.toString())
+
+    return this.request(`/ai/feedback?${params}`)
+  }
+
   // Reports API
   async generateExecutiveSummary(
     startDate: string,
@@ -1,4 +1,5 @@
 import { ConfluenceAIContextBuilder } from './ConfluenceAIContextBuilder';
+import { api } from '../api';
 import {
   CustomerQuery,
   EnhancedAIContext,
@@ -36,9 +37,13 @@ export class ConfluenceAIProcessor {
       // 5. Parse and validate response
       const parsedResponse = this.parseAIResponse(aiResponse);
 
-      // 6. Enhanced response with Confluence metadata
+      // 6. Replace the model's self-reported confidence with the calibrated one
+      const confidence = await this.calibrateConfidence(parsedResponse.confidenceScore, parsedResponse.classification);
+
+      // 7. Enhanced response with Confluence metadata
       const enhancedResponse: EnhancedAIResponse = {
         ...parsedResponse,
+        ...confidence,
         sopSources: context.sopSources.map(source => ({
           title: source.title,
           url: source.url,
@@ -236,6 +241,29 @@ Generate your response now:
     }
   }
 
+  // Models tend to be overconfident about their own answers, so the score is mapped
+  // through the API's calibration curves. Falls back to the model's number when the
+  // API can't be reached.
+  private async calibrateConfidence(
+    modelScore: number,
+    classification: EnhancedAIResponse['classification']
+  ): Promise<Pick<EnhancedAIResponse, 'confidenceScore' | 'modelConfidenceScore' | 'confidenceCalibrated'>> {
+    try {
+      const result = await api.calibrateConfidence(modelScore / 100, classification);
+      if (result.success && result.data?.segment) {
+        return {
+          confidenceScore: Math.round(result.data.confidence * 100),
+          modelConfidenceScore: modelScore,
+          confidenceCalibrated: true
+        };
+      }
+    } catch (error) {
+      console.warn('⚠️ Confidence calibration unavailable, using the model score:', error);
+    }
+
+    return { confidenceScore: modelScore, modelConfidenceScore: modelScore, confidenceCalibrated: false };
+  }
+
   private calculateSOPFreshness(procedures: any[]): 'fresh' | 'stale' | 'outdated' {
     if (procedures.length === 0) return 'outdated';
 
@@ -296,6 +324,9 @@ Generate your response now:
     }
 
     // Check confidence score
+    if (response.confidenceCalibrated === false) {
+      improvements.push('Confidence is the model\'s own estimate and has not been calibrated');
+    }
     if (response.confidenceScore >= 80) {
       strengths.push('High confidence in response accuracy');
     } else if (response.confidenceScore < 60) {
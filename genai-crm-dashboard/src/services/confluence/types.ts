@@ -113,7 +113,11 @@ export interface EnhancedAIResponse {
   }>;
   suggestedResponse: string;
   classification: 'sop_based' | 'new_scenario' | 'unclear';
+  // Calibrated against past outcomes when the API has a curve, otherwise the model's own estimate
   confidenceScore: number;
+  // The model's self-reported score (0-100), kept for comparison
+  modelConfidenceScore?: number;
+  confidenceCalibrated?: boolean;
   sopSources: Array<{
     title: string;
     url: string;
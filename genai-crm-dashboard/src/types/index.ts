@@ -82,6 +82,7 @@ export interface Interaction {
 
 // AI Types
 export interface AIResponse {
+  id?: string;
   response: string;
   confidence_score: number;
   processing_time_ms: number;
@@ -92,26 +93,58 @@ export interface AIResponse {
   }>;
   intent?: string;
   sentiment?: 'positive' | 'neutral' | 'negative';
+  language?: 'en' | 'es' | 'de' | 'pt';
   metadata?: Record<string, any>;
 }
 
+// A confidence score mapped onto the accuracy observed for similar responses
+export interface CalibratedConfidence {
+  confidence: number;
+  raw_confidence: number;
+  // Curve that was applied; null until one has been fitted
+  segment: { model: string; intent: string; fitted_at: string } | null;
+}
+
 export interface AIQueryRequest {
   query: string;
   context?: Record<string, any>;
   customer_id?: string;
+  conversation_id?: string;
+  quality_assessment?: 'none' | 'async' | 'sync';
 }
 
 export interface ConversationContext {
   customer_id: string;
-  agent_id: string;
+  // Null while a conversation handed to a team waits for someone to accept it
+  agent_id: string | null;
+  team?: string;
+  organization_id?: string;
   conversation_id: string;
   turns: ConversationTurn[];
   summary?: string;
+  structured_summary?: ConversationSummary;
   status: 'active' | 'resolved' | 'escalated' | 'closed';
+  // Set once retention deleted the turns and kept only the summary
+  turns_purged_at?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface ConversationSummary {
+  key_topics: string[];
+  customer_intent: string;
+  resolution_status: 'resolved' | 'pending' | 'escalated';
+  sentiment_progression: Array<{
+    turn: number;
+    sentiment: 'positive' | 'neutral' | 'negative';
+  }>;
+  next_steps: string[];
+  turns_summarized: number;
+  last_turn_id?: string;
+  generated_by: 'model' | 'extractive';
+  generated_at: string;
+}
+
 export interface ConversationTurn {
   id: string;
   role: 'user' | 'assistant' | 'system';
@@ -120,6 +153,196 @@ export interface ConversationTurn {
   metadata?: Record<string, any>;
 }
 
+export type TranscriptFormat = 'txt' | 'html' | 'pdf' | 'jsonl';
+
+// Handoff Types
+export interface HandoffBrief {
+  summary: string;
+  customer_intent: string;
+  key_topics: string[];
+  resolution_status: 'resolved' | 'pending' | 'escalated';
+  recent_sentiment?: 'positive' | 'neutral' | 'negative';
+  open_questions: string[];
+  promised_actions: string[];
+  generated_by: 'model' | 'extractive';
+  generated_at: string;
+}
+
+export interface ConversationHandoff {
+  id: string;
+  conversation_id: string;
+  from_agent_id?: string;
+  to_agent_id?: string;
+  to_team?: string;
+  reason: string;
+  brief: HandoffBrief;
+  initiated_by?: string;
+  accepted_by?: string;
+  accepted_at?: string;
+  created_at: string;
+}
+
+export interface ConversationOwnershipPeriod {
+  id: string;
+  conversation_id: string;
+  agent_id: string | null;
+  team?: string;
+  handoff_id?: string;
+  started_at: string;
+  ended_at?: string;
+  end_reason?: 'handoff' | 'accepted' | 'resolved' | 'escalated' | 'closed';
+}
+
+export interface HandoffHistory {
+  handoffs: ConversationHandoff[];
+  ownership: ConversationOwnershipPeriod[];
+}
+
+export interface AgentNotification {
+  id: string;
+  recipient_id?: string;
+  recipient_team?: string;
+  type: 'handoff' | 'whisper';
+  title: string;
+  body?: string;
+  data: Record<string, any>;
+  read_at?: string;
+  created_at: string;
+}
+
+// Live Conversation Types
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+export interface LiveConversation {
+  conversation_id: string;
+  customer_id: string;
+  agent_id: string | null;
+  team?: string;
+  status: ConversationContext['status'];
+  latest_sentiment: Sentiment | null;
+  turn_count: number;
+  last_turn?: ConversationTurn;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ConversationEvent =
+  | { type: 'started'; conversation_id: string; agent_id: string | null; customer_id: string; at: string }
+  | { type: 'turn'; conversation_id: string; turn: ConversationTurn; at: string }
+  | { type: 'status'; conversation_id: string; status: ConversationContext['status']; at: string }
+  | { type: 'assigned'; conversation_id: string; agent_id: string | null; team?: string; at: string }
+  | { type: 'suggestion'; conversation_id: string; ai_response_id?: string; suggestions: NonNullable<AIResponse['suggestions']>; at: string }
+  | { type: 'whisper'; conversation_id: string; from: string; text: string; at: string };
+
+// Everything the live updates WebSocket sends
+export type LiveMessage =
+  | ConversationEvent
+  | { type: 'ready'; user_id: string; role: string }
+  | { type: 'subscribed'; conversation_id: string }
+  | { type: 'unsubscribed'; conversation_id: string; reason: string }
+  | { type: 'error'; code: string; message: string; conversation_id?: string };
+
+// Review Queue Types
+export type ReviewStatus = 'pending' | 'in_review' | 'approved' | 'edited' | 'rejected';
+export type ReviewReason = 'low_quality' | 'escalation';
+export type ReviewPriority = 'low' | 'medium' | 'high' | 'critical';
+export type ReviewDecision = 'approve' | 'edit' | 'reject';
+
+export interface ReviewItem {
+  id: string;
+  response_id: string;
+  customer_id?: string;
+  agent_id?: string;
+  query: string;
+  original_response: string;
+  reasons: ReviewReason[];
+  quality_score?: number;
+  escalation_level?: 'immediate' | 'recommended' | 'monitor' | 'standard';
+  priority: ReviewPriority;
+  status: ReviewStatus;
+  assigned_to?: string;
+  assigned_at?: string;
+  due_at: string;
+  reviewed_by?: string;
+  reviewed_at?: string;
+  corrected_response?: string;
+  sla_status: 'on_track' | 'due_soon' | 'breached' | 'met' | 'missed';
+  time_remaining_ms: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewComment {
+  id: string;
+  item_id: string;
+  author_id?: string;
+  body: string;
+  created_at: string;
+}
+
+export interface ReviewItemDetail extends ReviewItem {
+  comments: ReviewComment[];
+}
+
+export interface ReviewQueueStats {
+  pending: number;
+  in_review: number;
+  breached: number;
+  due_soon: number;
+  reviewed_last_7_days: number;
+}
+
+// Feedback Types
+export type FeedbackRating = 'accurate' | 'inaccurate';
+
+export interface SOPSourceRef {
+  id?: string;
+  title: string;
+  url: string;
+  version?: number | string;
+}
+
+// Either response_id of a stored response, or the answer itself with the SOPs it cited
+export interface FeedbackSubmission {
+  rating: FeedbackRating;
+  response_id?: string;
+  reason?: string;
+  corrected_response?: string;
+  wrong_sop_urls?: string[];
+  sop_sources?: SOPSourceRef[];
+  query?: string;
+  response?: string;
+  ticket_id?: string;
+}
+
+export interface ResponseFeedback {
+  id: string;
+  response_id?: string;
+  agent_id?: string;
+  rating: FeedbackRating;
+  reason?: string;
+  corrected_response?: string;
+  sop_sources: SOPSourceRef[];
+  wrong_sop_urls: string[];
+  query?: string;
+  response?: string;
+  source: 'api' | 'confluence_assistant';
+  ticket_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SOPAccuracy {
+  url: string;
+  title: string;
+  rated: number;
+  accurate: number;
+  inaccurate: number;
+  flagged_wrong: number;
+  accuracy_rate: number;
+  last_feedback_at: string;
+}
+
 // Analytics Types
 export interface DashboardMetrics {
   overview: {